@@ -0,0 +1,463 @@
+import { generateId, tool, type ToolSet } from "ai";
+import { z } from "zod";
+import { GROUP_COLORS } from "./Group";
+import type { Tab } from "./Tab";
+import type { Window } from "./Window";
+
+export type AgentActionStatus =
+  | "awaiting-confirmation"
+  | "running"
+  | "completed"
+  | "failed"
+  | "denied";
+
+export interface AgentAction {
+  id: string;
+  toolName: string;
+  description: string;
+  destructive: boolean;
+  status: AgentActionStatus;
+  result?: string;
+  error?: string;
+  startedAt: number;
+  finishedAt?: number;
+}
+
+export interface AgentToolHooks {
+  // Called whenever an action is created or changes status
+  onActionUpdate: (action: AgentAction) => void;
+  // Resolves true if the user allows a destructive action
+  requestConfirmation: (action: AgentAction) => Promise<boolean>;
+}
+
+const MAX_READ_LENGTH = 8000;
+
+// Tools that let the chat model operate the browser's tabs on the user's behalf
+export class AgentTools {
+  private window: Window;
+  private hooks: AgentToolHooks;
+
+  // Page interaction settings
+  private readonly LOAD_TIMEOUT = 15000; // ms to wait for a page to load
+  private readonly POLL_INTERVAL = 250;
+
+  constructor(window: Window, hooks: AgentToolHooks) {
+    this.window = window;
+    this.hooks = hooks;
+  }
+
+  getTools(): ToolSet {
+    return {
+      list_tabs: tool({
+        description:
+          "List all open tabs (id, title, url, group) and tab groups. Call this before acting on tabs by id.",
+        inputSchema: z.object({}),
+        execute: async () =>
+          this.runAction("list_tabs", "List open tabs", false, async () =>
+            this.describeTabs(),
+          ),
+      }),
+
+      open_tab: tool({
+        description: "Open a URL in a new tab.",
+        inputSchema: z.object({
+          url: z.string().describe("URL or domain to open"),
+          activate: z
+            .boolean()
+            .optional()
+            .describe("Switch to the new tab (default true)"),
+        }),
+        execute: async ({ url, activate }) =>
+          this.runAction("open_tab", `Open ${url}`, false, async () => {
+            const tab = this.window.createTab(this.normalizeUrl(url));
+            if (activate !== false) {
+              this.window.switchActiveTab(tab.id);
+            }
+            await this.waitForLoad(tab);
+            return { tabId: tab.id, title: tab.title, url: tab.url };
+          }),
+      }),
+
+      search_web: tool({
+        description:
+          "Search the web in a new tab with the user's search engine, or with the engine whose keyword is given. Read the tab afterwards to see the results.",
+        inputSchema: z.object({
+          query: z.string().describe("What to search for"),
+          keyword: z
+            .string()
+            .optional()
+            .describe('Keyword of a specific engine, e.g. "w" or "gh"'),
+        }),
+        execute: async ({ query, keyword }) =>
+          this.runAction(
+            "search_web",
+            `Search for ${query}`,
+            false,
+            async () => {
+              const searchEngines = this.window.searchEngines;
+              const engine = keyword
+                ? searchEngines.findByKeyword(keyword)
+                : searchEngines.defaultEngine;
+              if (!engine) {
+                throw new Error(
+                  `No search engine has the keyword "${keyword}"`,
+                );
+              }
+              const tab = this.window.createTab(
+                searchEngines.searchUrl(query, engine),
+              );
+              this.window.switchActiveTab(tab.id);
+              await this.waitForLoad(tab);
+              return { tabId: tab.id, title: tab.title, url: tab.url };
+            },
+          ),
+      }),
+
+      switch_tab: tool({
+        description: "Make a tab the active, visible tab.",
+        inputSchema: z.object({ tabId: z.string() }),
+        execute: async ({ tabId }) =>
+          this.runAction(
+            "switch_tab",
+            `Switch to ${tabId}`,
+            false,
+            async () => {
+              const tab = this.requireTab(tabId);
+              this.window.switchActiveTab(tab.id);
+              return { tabId: tab.id, title: tab.title };
+            },
+          ),
+      }),
+
+      close_tab: tool({
+        description: "Close a tab. The user is asked to confirm first.",
+        inputSchema: z.object({ tabId: z.string() }),
+        execute: async ({ tabId }) => {
+          const tab = this.window.getTab(tabId);
+          const label = tab ? `"${tab.title || tab.url}"` : tabId;
+          return this.runAction(
+            "close_tab",
+            `Close tab ${label}`,
+            true,
+            async () => {
+              this.requireTab(tabId);
+              this.window.closeTab(tabId);
+              return { closed: tabId };
+            },
+          );
+        },
+      }),
+
+      navigate: tool({
+        description:
+          "Load a URL in a tab (the active tab if tabId is omitted), or go back, forward or reload.",
+        inputSchema: z.object({
+          url: z.string().optional().describe("URL to load"),
+          action: z
+            .enum(["load", "back", "forward", "reload"])
+            .optional()
+            .describe("Defaults to load"),
+          tabId: z.string().optional(),
+        }),
+        execute: async ({ url, action = "load", tabId }) => {
+          const description =
+            action === "load" ? `Navigate to ${url}` : `Navigate ${action}`;
+          return this.runAction("navigate", description, false, async () => {
+            const tab = await this.resolveTab(tabId);
+            switch (action) {
+              case "back":
+                tab.goBack();
+                break;
+              case "forward":
+                tab.goForward();
+                break;
+              case "reload":
+                tab.reload();
+                break;
+              default:
+                if (!url) throw new Error("A URL is required to navigate");
+                await tab.loadURL(this.normalizeUrl(url)).catch((error) => {
+                  // Redirects abort the original load; only fail if nothing loads
+                  console.warn("[AgentTools] Navigation interrupted:", error);
+                });
+            }
+            await this.waitForLoad(tab);
+            return { tabId: tab.id, title: tab.title, url: tab.url };
+          });
+        },
+      }),
+
+      read_tab: tool({
+        description:
+          "Read the visible text of a tab (the active tab if tabId is omitted).",
+        inputSchema: z.object({ tabId: z.string().optional() }),
+        execute: async ({ tabId }) =>
+          this.runAction(
+            "read_tab",
+            `Read ${tabId ?? "active tab"}`,
+            false,
+            async () => {
+              const tab = await this.resolveTab(tabId);
+              await this.waitForLoad(tab);
+              const text = await tab.getTabText();
+              return {
+                tabId: tab.id,
+                title: tab.title,
+                url: tab.url,
+                text:
+                  text.length > MAX_READ_LENGTH
+                    ? `${text.substring(0, MAX_READ_LENGTH)}...`
+                    : text,
+              };
+            },
+          ),
+      }),
+
+      click: tool({
+        description:
+          "Click the first element matching a CSS selector in a tab (the active tab if tabId is omitted).",
+        inputSchema: z.object({
+          selector: z.string().describe("CSS selector of the element"),
+          tabId: z.string().optional(),
+        }),
+        execute: async ({ selector, tabId }) =>
+          this.runAction("click", `Click ${selector}`, false, async () => {
+            const tab = await this.resolveTab(tabId);
+            const found = await tab.runJs(`
+              (() => {
+                const el = document.querySelector(${JSON.stringify(selector)});
+                if (!el) return false;
+                el.scrollIntoView({ block: "center" });
+                el.click();
+                return true;
+              })();
+            `);
+            if (!found) throw new Error(`No element matches ${selector}`);
+            // Clicks frequently trigger navigation; give it a moment to start
+            await this.delay(this.POLL_INTERVAL);
+            await this.waitForLoad(tab);
+            return { tabId: tab.id, url: tab.url };
+          }),
+      }),
+
+      type_text: tool({
+        description:
+          "Type text into an input matching a CSS selector. Set submit to submit its form; submitting asks the user to confirm first.",
+        inputSchema: z.object({
+          selector: z.string().describe("CSS selector of the input"),
+          text: z.string(),
+          submit: z.boolean().optional(),
+          tabId: z.string().optional(),
+        }),
+        execute: async ({ selector, text, submit, tabId }) =>
+          this.runAction(
+            "type_text",
+            submit
+              ? `Type "${text}" into ${selector} and submit`
+              : `Type "${text}" into ${selector}`,
+            !!submit,
+            async () => {
+              const tab = await this.resolveTab(tabId);
+              const found = await tab.runJs(`
+                (() => {
+                  const el = document.querySelector(${JSON.stringify(selector)});
+                  if (!el) return false;
+                  el.focus();
+                  const proto = Object.getPrototypeOf(el);
+                  const setter = Object.getOwnPropertyDescriptor(proto, "value")?.set;
+                  if (setter) {
+                    setter.call(el, ${JSON.stringify(text)});
+                  } else {
+                    el.value = ${JSON.stringify(text)};
+                  }
+                  el.dispatchEvent(new Event("input", { bubbles: true }));
+                  el.dispatchEvent(new Event("change", { bubbles: true }));
+                  if (${submit ? "true" : "false"}) {
+                    if (el.form) {
+                      el.form.requestSubmit();
+                    } else {
+                      el.dispatchEvent(new KeyboardEvent("keydown", { key: "Enter", bubbles: true }));
+                    }
+                  }
+                  return true;
+                })();
+              `);
+              if (!found) throw new Error(`No element matches ${selector}`);
+              if (submit) {
+                await this.delay(this.POLL_INTERVAL);
+                await this.waitForLoad(tab);
+              }
+              return { tabId: tab.id, url: tab.url };
+            },
+          ),
+      }),
+
+      group_tabs: tool({
+        description: "Put tabs into a new tab group.",
+        inputSchema: z.object({
+          tabIds: z.array(z.string()).min(1),
+          title: z.string().describe("Short group name"),
+          color: z
+            .enum(GROUP_COLORS.map((c) => c.id) as [string, ...string[]])
+            .optional(),
+        }),
+        execute: async ({ tabIds, title, color }) =>
+          this.runAction(
+            "group_tabs",
+            `Group ${tabIds.length} tabs as "${title}"`,
+            false,
+            async () => {
+              tabIds.forEach((tabId) => this.requireTab(tabId));
+              const group = this.window.createGroup(title, color);
+              tabIds.forEach((tabId) =>
+                this.window.addTabToGroup(tabId, group.id),
+              );
+              return { groupId: group.id, tabIds };
+            },
+          ),
+      }),
+
+      ungroup_tabs: tool({
+        description: "Remove tabs from their groups.",
+        inputSchema: z.object({ tabIds: z.array(z.string()).min(1) }),
+        execute: async ({ tabIds }) =>
+          this.runAction(
+            "ungroup_tabs",
+            `Ungroup ${tabIds.length} tabs`,
+            false,
+            async () => {
+              tabIds.forEach((tabId) => this.window.removeTabFromGroup(tabId));
+              return { tabIds };
+            },
+          ),
+      }),
+    };
+  }
+
+  // Log an action, gate it on confirmation if destructive, and run it
+  private async runAction<T>(
+    toolName: string,
+    description: string,
+    destructive: boolean,
+    run: () => Promise<T>,
+  ): Promise<T | { error: string }> {
+    const action: AgentAction = {
+      id: generateId(),
+      toolName,
+      description,
+      destructive,
+      status: destructive ? "awaiting-confirmation" : "running",
+      startedAt: Date.now(),
+    };
+    this.hooks.onActionUpdate({ ...action });
+
+    if (destructive) {
+      const approved = await this.hooks.requestConfirmation({ ...action });
+      if (!approved) {
+        this.finish(action, "denied");
+        return { error: "The user declined this action." };
+      }
+      action.status = "running";
+      this.hooks.onActionUpdate({ ...action });
+    }
+
+    try {
+      const result = await run();
+      this.finish(action, "completed", this.summarize(result));
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.finish(action, "failed", undefined, message);
+      return { error: message };
+    }
+  }
+
+  private finish(
+    action: AgentAction,
+    status: AgentActionStatus,
+    result?: string,
+    error?: string,
+  ): void {
+    action.status = status;
+    action.result = result;
+    action.error = error;
+    action.finishedAt = Date.now();
+    this.hooks.onActionUpdate({ ...action });
+  }
+
+  // One-line result for the action log
+  private summarize(result: unknown): string | undefined {
+    if (!result || typeof result !== "object") return undefined;
+    const { title, url } = result as { title?: string; url?: string };
+    if (title || url) return title || url;
+    return undefined;
+  }
+
+  private describeTabs(): {
+    activeTabId: string | null;
+    tabs: Array<{
+      id: string;
+      title: string;
+      url: string;
+      groupId: string | null;
+    }>;
+    groups: Array<{ id: string; title: string; color: string }>;
+  } {
+    return {
+      activeTabId: this.window.activeTab?.id ?? null,
+      tabs: this.window.allTabs
+        .sort((a, b) => a.position - b.position)
+        .map((tab) => ({
+          id: tab.id,
+          title: tab.title,
+          url: tab.url,
+          groupId: tab.groupId,
+        })),
+      groups: this.window.allGroups.map((group) => ({
+        id: group.id,
+        title: group.title,
+        color: group.color.id,
+      })),
+    };
+  }
+
+  private requireTab(tabId: string): Tab {
+    const tab = this.window.getTab(tabId);
+    if (!tab) throw new Error(`No tab with id ${tabId}`);
+    return tab;
+  }
+
+  // The tab to act on, woken up first if it's asleep so its page can be
+  // read and scripted
+  private async resolveTab(tabId?: string): Promise<Tab> {
+    const tab = tabId ? this.requireTab(tabId) : this.window.activeTab;
+    if (!tab) throw new Error("No active tab");
+    await tab.wake();
+    return tab;
+  }
+
+  // Web addresses load as given and anything else is searched for. Other
+  // schemes are refused, so text on a page can't send the agent to local
+  // files or scripts. "host:port" isn't a scheme.
+  private normalizeUrl(url: string): string {
+    const trimmed = url.trim();
+    const scheme = /^([a-z][a-z0-9+.-]*):(?!\d)/i.exec(trimmed)?.[1];
+    if (scheme && !/^https?$/i.test(scheme)) {
+      throw new Error(
+        `Only http and https pages can be opened, not ${scheme}: URLs`,
+      );
+    }
+    return this.window.searchEngines.resolveInput(trimmed).url;
+  }
+
+  private async waitForLoad(tab: Tab): Promise<void> {
+    const deadline = Date.now() + this.LOAD_TIMEOUT;
+    while (tab.webContents.isLoading() && Date.now() < deadline) {
+      await this.delay(this.POLL_INTERVAL);
+    }
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
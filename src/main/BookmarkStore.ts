@@ -0,0 +1,381 @@
+import type {
+  BookmarkRow,
+  BookmarkType,
+  HistoryDatabase,
+  NewBookmark,
+} from "./database/HistoryDatabase";
+import type { WindowManager } from "./WindowManager";
+
+export interface Bookmark {
+  id: number;
+  parent_id: number | null;
+  type: BookmarkType;
+  title: string;
+  url: string | null;
+  position: number;
+  created_at: number;
+  updated_at: number;
+  tags: string[];
+}
+
+const IMPORT_FOLDER_TITLE = "Imported bookmarks";
+const BOOKMARKABLE_URL = /^(https?|ftp|file):/i;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+// Persists bookmarks and bookmark folders in the history database, and
+// reads and writes them in the Netscape bookmark file format that other
+// browsers import and export
+export class BookmarkStore {
+  private database: HistoryDatabase;
+  private windowManager: WindowManager;
+
+  constructor(database: HistoryDatabase, windowManager: WindowManager) {
+    this.database = database;
+    this.windowManager = windowManager;
+  }
+
+  // Every bookmark and folder, ordered by parent then position
+  getAll(): Bookmark[] {
+    return this.database.getBookmarks().map((row) => this.toBookmark(row));
+  }
+
+  get(bookmarkId: number): Bookmark | null {
+    const row = this.database.getBookmark(bookmarkId);
+    return row ? this.toBookmark(row) : null;
+  }
+
+  // Bookmarks whose title, URL or tags contain `query`
+  search(query: string, limit: number = 50): Bookmark[] {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return [];
+    return this.getAll()
+      .filter(
+        (bookmark) =>
+          bookmark.type === "bookmark" &&
+          (bookmark.title.toLowerCase().includes(needle) ||
+            bookmark.url?.toLowerCase().includes(needle) ||
+            bookmark.tags.some((tag) => tag.toLowerCase().includes(needle))),
+      )
+      .slice(0, limit);
+  }
+
+  isBookmarkable(url: string): boolean {
+    return BOOKMARKABLE_URL.test(url);
+  }
+
+  isBookmarked(url: string): boolean {
+    return this.database.getBookmarkIdsByUrl(url).length > 0;
+  }
+
+  // Star or unstar a page; returns whether it is now bookmarked
+  toggle(url: string, title: string): boolean {
+    if (!this.isBookmarkable(url)) return false;
+
+    const ids = this.database.getBookmarkIdsByUrl(url);
+    if (ids.length > 0) {
+      ids.forEach((id) => this.database.deleteBookmark(id));
+      this.broadcast();
+      return false;
+    }
+
+    this.add({ title, url });
+    return true;
+  }
+
+  add(bookmark: {
+    title: string;
+    url: string;
+    parentId?: number | null;
+    tags?: string[];
+  }): number | null {
+    const parentId = bookmark.parentId ?? null;
+    if (!this.isBookmarkable(bookmark.url) || !this.isFolder(parentId)) {
+      return null;
+    }
+
+    const [id] = this.database.insertBookmarks(parentId, [
+      {
+        type: "bookmark",
+        title: bookmark.title.trim() || bookmark.url,
+        url: bookmark.url,
+        tags: this.normalizeTags(bookmark.tags ?? []),
+      },
+    ]);
+    this.broadcast();
+    return id ?? null;
+  }
+
+  createFolder(title: string, parentId: number | null = null): number | null {
+    if (!this.isFolder(parentId)) return null;
+
+    const [id] = this.database.insertBookmarks(parentId, [
+      {
+        type: "folder",
+        title: title.trim() || "New folder",
+        url: null,
+        tags: [],
+      },
+    ]);
+    this.broadcast();
+    return id ?? null;
+  }
+
+  update(
+    bookmarkId: number,
+    updates: { title?: string; url?: string; tags?: string[] },
+  ): boolean {
+    const current = this.database.getBookmark(bookmarkId);
+    if (!current) return false;
+    if (updates.url !== undefined) {
+      if (current.type === "folder" || !this.isBookmarkable(updates.url)) {
+        return false;
+      }
+    }
+
+    const updated = this.database.updateBookmark(bookmarkId, {
+      title: updates.title?.trim() || undefined,
+      url: updates.url,
+      tags:
+        updates.tags && current.type === "bookmark"
+          ? this.normalizeTags(updates.tags)
+          : undefined,
+    });
+    if (updated) this.broadcast();
+    return updated;
+  }
+
+  // Move into `parentId` (null for the top level) at `index`
+  move(bookmarkId: number, parentId: number | null, index: number): boolean {
+    if (!this.isFolder(parentId)) return false;
+
+    // A folder can't be moved into itself or one of its subfolders
+    let ancestor = parentId;
+    while (ancestor !== null) {
+      if (ancestor === bookmarkId) return false;
+      ancestor = this.database.getBookmark(ancestor)?.parent_id ?? null;
+    }
+
+    const moved = this.database.moveBookmark(bookmarkId, parentId, index);
+    if (moved) this.broadcast();
+    return moved;
+  }
+
+  delete(bookmarkId: number): boolean {
+    const deleted = this.database.deleteBookmark(bookmarkId);
+    if (deleted) this.broadcast();
+    return deleted;
+  }
+
+  // Add the bookmarks of a Netscape bookmark file in a new top-level folder.
+  // Returns the number of bookmarks imported.
+  importHtml(html: string): number {
+    const entries = this.parseHtml(html);
+    const count = this.countBookmarks(entries);
+    if (count === 0) return 0;
+
+    this.database.insertBookmarks(null, [
+      {
+        type: "folder",
+        title: IMPORT_FOLDER_TITLE,
+        url: null,
+        tags: [],
+        children: entries,
+      },
+    ]);
+    this.broadcast();
+    console.log(`[BookmarkStore] Imported ${count} bookmarks`);
+    return count;
+  }
+
+  // Every bookmark as a Netscape bookmark file
+  exportHtml(): string {
+    const children = new Map<number | null, Bookmark[]>();
+    this.getAll().forEach((bookmark) => {
+      const siblings = children.get(bookmark.parent_id) ?? [];
+      siblings.push(bookmark);
+      children.set(bookmark.parent_id, siblings);
+    });
+
+    const lines = [
+      "<!DOCTYPE NETSCAPE-Bookmark-file-1>",
+      "<!-- This is an automatically generated file.",
+      "     It will be read and overwritten.",
+      "     DO NOT EDIT! -->",
+      '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+      "<TITLE>Bookmarks</TITLE>",
+      "<H1>Bookmarks</H1>",
+      "<DL><p>",
+    ];
+
+    const writeFolder = (parentId: number | null, indent: string): void => {
+      (children.get(parentId) ?? []).forEach((bookmark) => {
+        const addDate = Math.floor(bookmark.created_at / 1000);
+        if (bookmark.type === "folder") {
+          const modified = Math.floor(bookmark.updated_at / 1000);
+          lines.push(
+            `${indent}<DT><H3 ADD_DATE="${addDate}" LAST_MODIFIED="${modified}">${this.escapeHtml(bookmark.title)}</H3>`,
+            `${indent}<DL><p>`,
+          );
+          writeFolder(bookmark.id, `${indent}    `);
+          lines.push(`${indent}</DL><p>`);
+        } else {
+          const tags =
+            bookmark.tags.length > 0
+              ? ` TAGS="${this.escapeHtml(bookmark.tags.join(","))}"`
+              : "";
+          lines.push(
+            `${indent}<DT><A HREF="${this.escapeHtml(bookmark.url ?? "")}" ADD_DATE="${addDate}"${tags}>${this.escapeHtml(bookmark.title)}</A>`,
+          );
+        }
+      });
+    };
+    writeFolder(null, "    ");
+
+    lines.push("</DL><p>");
+    return `${lines.join("\n")}\n`;
+  }
+
+  private isFolder(parentId: number | null): boolean {
+    if (parentId === null) return true;
+    return this.database.getBookmark(parentId)?.type === "folder";
+  }
+
+  private toBookmark(row: BookmarkRow): Bookmark {
+    return { ...row, tags: row.tags ? row.tags.split(",") : [] };
+  }
+
+  // Tags are stored comma-separated, so they can't contain commas
+  private normalizeTags(tags: string[]): string[] {
+    const normalized = tags
+      .map((tag) => tag.replace(/,/g, " ").replace(/\s+/g, " ").trim())
+      .filter((tag) => tag.length > 0);
+    return Array.from(new Set(normalized));
+  }
+
+  private countBookmarks(entries: NewBookmark[]): number {
+    return entries.reduce(
+      (count, entry) =>
+        count +
+        (entry.type === "bookmark"
+          ? 1
+          : this.countBookmarks(entry.children ?? [])),
+      0,
+    );
+  }
+
+  // The format is loose HTML: each folder is an <H3> followed by a <DL>
+  // list of its contents, and each bookmark an <A>
+  private parseHtml(html: string): NewBookmark[] {
+    const root: NewBookmark[] = [];
+    const stack: NewBookmark[][] = [];
+    let current = root;
+    let pendingFolder: NewBookmark | null = null;
+
+    const tokens =
+      /<h3\b([^>]*)>([\s\S]*?)<\/h3>|<a\b([^>]*)>([\s\S]*?)<\/a>|<(\/?)dl\b[^>]*>/gi;
+    for (const match of html.matchAll(tokens)) {
+      if (match[2] !== undefined) {
+        const attributes = this.parseAttributes(match[1] ?? "");
+        const folder: NewBookmark = {
+          type: "folder",
+          title: this.parseText(match[2]) || "Untitled folder",
+          url: null,
+          tags: [],
+          createdAt: this.parseDate(attributes.add_date),
+          children: [],
+        };
+        current.push(folder);
+        pendingFolder = folder;
+      } else if (match[4] !== undefined) {
+        const attributes = this.parseAttributes(match[3] ?? "");
+        const url = attributes.href?.trim() ?? "";
+        // Skips bookmarklets and browser-internal entries such as place: queries
+        if (!this.isBookmarkable(url)) continue;
+        current.push({
+          type: "bookmark",
+          title: this.parseText(match[4]) || url,
+          url,
+          tags: this.normalizeTags((attributes.tags ?? "").split(",")),
+          createdAt: this.parseDate(attributes.add_date),
+        });
+      } else if (match[5] === "/") {
+        current = stack.pop() ?? root;
+      } else {
+        // A list holds the contents of the folder heading just before it;
+        // the outermost list is the top level
+        stack.push(current);
+        current = pendingFolder?.children ?? current;
+        pendingFolder = null;
+      }
+    }
+
+    return root;
+  }
+
+  private parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const pattern = /([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/g;
+    for (const match of source.matchAll(pattern)) {
+      attributes[match[1].toLowerCase()] = this.decodeEntities(
+        match[2] ?? match[3] ?? match[4] ?? "",
+      );
+    }
+    return attributes;
+  }
+
+  private parseText(html: string): string {
+    return this.decodeEntities(html.replace(/<[^>]*>/g, ""))
+      .replace(/\s+/g, " ")
+      .trim();
+  }
+
+  // ADD_DATE is in seconds since the epoch
+  private parseDate(value: string | undefined): number | undefined {
+    const seconds = Number(value);
+    return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined;
+  }
+
+  private decodeEntities(text: string): string {
+    return text.replace(
+      /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+      (entity, name: string) => {
+        if (name.startsWith("#")) {
+          const code =
+            name[1].toLowerCase() === "x"
+              ? parseInt(name.slice(2), 16)
+              : parseInt(name.slice(1), 10);
+          return code > 0 && code <= 0x10ffff
+            ? String.fromCodePoint(code)
+            : entity;
+        }
+        return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+      },
+    );
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;");
+  }
+
+  // Panels reload their bookmarks view
+  private broadcast(): void {
+    this.windowManager.allWindows.forEach((window) => {
+      const webContents = window.panel.view.webContents;
+      if (!webContents.isDestroyed()) {
+        webContents.send("bookmarks-updated");
+      }
+    });
+  }
+}
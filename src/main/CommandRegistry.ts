@@ -0,0 +1,343 @@
+import { JsonFile } from "./JsonFile";
+import type { Window } from "./Window";
+import type { WindowManager } from "./WindowManager";
+
+export type CommandCategory =
+  | "File"
+  | "Edit"
+  | "View"
+  | "Tabs"
+  | "Groups"
+  | "Navigation";
+
+export interface Command {
+  // Dotted name such as "tab.next"
+  id: string;
+  label: string;
+  category: CommandCategory;
+  // Electron accelerators, such as "CmdOrCtrl+T"
+  defaultBindings: string[];
+  // Carries out the command in the main process. Commands without one are
+  // carried out by the window's topbar or sidebar, which listen for them.
+  run?: (window: Window | null) => void;
+}
+
+// What the settings panel lists for a command
+export interface CommandInfo {
+  id: string;
+  label: string;
+  category: CommandCategory;
+  bindings: string[];
+  defaultBindings: string[];
+  isCustomized: boolean;
+}
+
+export interface KeybindingConflict {
+  binding: string;
+  commandId: string;
+  label: string;
+}
+
+export interface KeybindingResult {
+  applied: boolean;
+  // Bindings that aren't valid accelerators
+  invalid: string[];
+  // Bindings already used by other commands
+  conflicts: KeybindingConflict[];
+}
+
+interface KeybindingSettings {
+  // Bindings the user changed, by command id; the rest keep their defaults
+  bindings: Record<string, string[]>;
+}
+
+type BindingsListener = () => void;
+
+const MODIFIERS: Record<string, string> = {
+  commandorcontrol: "CmdOrCtrl",
+  cmdorctrl: "CmdOrCtrl",
+  command: "Cmd",
+  cmd: "Cmd",
+  control: "Ctrl",
+  ctrl: "Ctrl",
+  alt: "Alt",
+  option: "Alt",
+  shift: "Shift",
+  super: "Super",
+  meta: "Super",
+};
+
+// The order modifiers are written in
+const MODIFIER_ORDER = ["CmdOrCtrl", "Cmd", "Ctrl", "Alt", "Shift", "Super"];
+
+const NAMED_KEYS = [
+  "Plus",
+  "Space",
+  "Tab",
+  "Backspace",
+  "Delete",
+  "Insert",
+  "Enter",
+  "Esc",
+  "Up",
+  "Down",
+  "Left",
+  "Right",
+  "Home",
+  "End",
+  "PageUp",
+  "PageDown",
+];
+
+const KEY_ALIASES: Record<string, string> = {
+  return: "Enter",
+  escape: "Esc",
+};
+
+// Every action the menu, the bars and other features offer, and the keys
+// that trigger them. Bindings the user changes are saved; the rest follow
+// the defaults each command registers with.
+export class CommandRegistry {
+  private windowManager: WindowManager;
+  private commands: Map<string, Command> = new Map();
+  private customBindings: Record<string, string[]>;
+  private file: JsonFile<Partial<KeybindingSettings>>;
+  private listeners: Set<BindingsListener> = new Set();
+
+  constructor(windowManager: WindowManager) {
+    this.windowManager = windowManager;
+    this.file = new JsonFile<Partial<KeybindingSettings>>("keybindings.json");
+
+    // Bindings of commands not registered yet are kept for when they are
+    const saved = this.file.read()?.bindings;
+    this.customBindings = {};
+    if (saved && typeof saved === "object") {
+      Object.entries(saved).forEach(([commandId, bindings]) => {
+        if (!Array.isArray(bindings)) return;
+        this.customBindings[commandId] = bindings
+          .map((binding) => normalizeBinding(String(binding)))
+          .filter((binding): binding is string => binding !== null);
+      });
+    }
+  }
+
+  register(command: Command): void {
+    if (this.commands.has(command.id)) {
+      throw new Error(`Command "${command.id}" is already registered`);
+    }
+    this.commands.set(command.id, {
+      ...command,
+      defaultBindings: command.defaultBindings
+        .map(normalizeBinding)
+        .filter((binding): binding is string => binding !== null),
+    });
+    this.notify();
+  }
+
+  // Subscribe to key binding changes; returns an unsubscribe function
+  onChange(listener: BindingsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getCommand(commandId: string): Command | null {
+    return this.commands.get(commandId) ?? null;
+  }
+
+  getAll(): CommandInfo[] {
+    return Array.from(this.commands.values()).map((command) => ({
+      id: command.id,
+      label: command.label,
+      category: command.category,
+      bindings: this.getBindings(command.id),
+      defaultBindings: command.defaultBindings,
+      isCustomized: command.id in this.customBindings,
+    }));
+  }
+
+  getBindings(commandId: string): string[] {
+    return (
+      this.customBindings[commandId] ??
+      this.commands.get(commandId)?.defaultBindings ??
+      []
+    );
+  }
+
+  // Run a command for `window`. The window's bars hear about every command
+  // so they can carry out their own and refresh after the others.
+  execute(commandId: string, window: Window | null): boolean {
+    const command = this.commands.get(commandId);
+    if (!command) return false;
+
+    if (command.run) {
+      command.run(window);
+      window?.sendCommandToBar(commandId, false);
+    } else {
+      if (!window) return false;
+      window.sendCommandToBar(commandId, true);
+    }
+    return true;
+  }
+
+  // Change a command's bindings. Nothing changes if a binding is invalid,
+  // or is used by another command unless `replaceConflicts` takes it away
+  // from that command.
+  setBindings(
+    commandId: string,
+    bindings: string[],
+    replaceConflicts: boolean = false,
+  ): KeybindingResult {
+    const command = this.commands.get(commandId);
+    if (!command) return { applied: false, invalid: [], conflicts: [] };
+
+    const invalid = bindings.filter(
+      (binding) => normalizeBinding(binding) === null,
+    );
+    if (invalid.length > 0) return { applied: false, invalid, conflicts: [] };
+
+    const normalized = Array.from(
+      new Set(bindings.map((binding) => normalizeBinding(binding) as string)),
+    );
+    const conflicts = this.findConflicts(commandId, normalized);
+    if (conflicts.length > 0 && !replaceConflicts) {
+      return { applied: false, invalid: [], conflicts };
+    }
+
+    conflicts.forEach((conflict) => {
+      this.customBindings[conflict.commandId] = this.getBindings(
+        conflict.commandId,
+      ).filter((binding) => !sameBinding(binding, conflict.binding));
+    });
+    if (sameBindings(normalized, command.defaultBindings)) {
+      delete this.customBindings[commandId];
+    } else {
+      this.customBindings[commandId] = normalized;
+    }
+    this.save();
+    return { applied: true, invalid: [], conflicts };
+  }
+
+  // Put one command's default bindings back, taking them from any command
+  // they were given to; without a command, reset every binding
+  reset(commandId?: string): void {
+    if (!commandId) {
+      this.customBindings = {};
+      this.save();
+      return;
+    }
+
+    const command = this.commands.get(commandId);
+    if (command) {
+      this.setBindings(commandId, command.defaultBindings, true);
+    }
+  }
+
+  private findConflicts(
+    commandId: string,
+    bindings: string[],
+  ): KeybindingConflict[] {
+    return Array.from(this.commands.values()).flatMap((other) =>
+      other.id === commandId
+        ? []
+        : this.getBindings(other.id)
+            .filter((binding) =>
+              bindings.some((candidate) => sameBinding(candidate, binding)),
+            )
+            .map((binding) => ({
+              binding,
+              commandId: other.id,
+              label: other.label,
+            })),
+    );
+  }
+
+  private save(): void {
+    this.file.write({ bindings: this.customBindings });
+    this.notify();
+    this.broadcast();
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  // Panels list the bindings in their settings
+  private broadcast(): void {
+    this.windowManager.allWindows.forEach((window) => {
+      const panel = window.panel.view.webContents;
+      if (!panel.isDestroyed()) {
+        panel.send("keybindings-updated");
+      }
+    });
+  }
+}
+
+// Spell an accelerator the one way bindings are stored, such as
+// "CmdOrCtrl+Shift+T"; null unless it's modifiers and one key, or a
+// function key on its own
+function normalizeBinding(accelerator: string): string | null {
+  const parts = accelerator.trim().split("+");
+  // "CmdOrCtrl++" means the plus key
+  if (parts.length > 1 && parts[parts.length - 1] === "") {
+    parts.splice(-2, 2, "Plus");
+  }
+
+  const rawKey = parts.pop()?.trim() ?? "";
+  const modifiers = new Set<string>();
+  for (const part of parts) {
+    const modifier = MODIFIERS[part.trim().toLowerCase()];
+    if (!modifier) return null;
+    modifiers.add(modifier);
+  }
+
+  const key = normalizeKey(rawKey);
+  if (!key) return null;
+  if (modifiers.size === 0 && !/^F\d+$/.test(key)) return null;
+
+  return [
+    ...MODIFIER_ORDER.filter((modifier) => modifiers.has(modifier)),
+    key,
+  ].join("+");
+}
+
+function normalizeKey(key: string): string | null {
+  if (key.length === 1) return key.toUpperCase();
+
+  const lower = key.toLowerCase();
+  if (KEY_ALIASES[lower]) return KEY_ALIASES[lower];
+  const named = NAMED_KEYS.find((name) => name.toLowerCase() === lower);
+  if (named) return named;
+
+  const functionKey = /^f(\d{1,2})$/.exec(lower);
+  if (
+    functionKey &&
+    Number(functionKey[1]) >= 1 &&
+    Number(functionKey[1]) <= 24
+  ) {
+    return `F${functionKey[1]}`;
+  }
+  return null;
+}
+
+// CmdOrCtrl is Cmd on macOS and Ctrl elsewhere, so it clashes with those
+function sameBinding(a: string, b: string): boolean {
+  const primary = process.platform === "darwin" ? "Cmd" : "Ctrl";
+  const resolve = (binding: string): string => {
+    const parts = binding.split("+");
+    const key = parts.pop();
+    const modifiers = parts.map((modifier) =>
+      modifier === "CmdOrCtrl" ? primary : modifier,
+    );
+    return [...new Set(modifiers)]
+      .sort()
+      .concat(key ?? "")
+      .join("+");
+  };
+  return resolve(a) === resolve(b);
+}
+
+function sameBindings(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((binding, i) => binding === b[i]);
+}
@@ -0,0 +1,139 @@
+import type { UIMessage } from "ai";
+import type {
+  Conversation,
+  ConversationSearchMatch,
+  HistoryDatabase,
+} from "./database/HistoryDatabase";
+
+const MAX_TITLE_LENGTH = 60;
+
+// Persists chat conversations in the history database
+export class ConversationStore {
+  private database: HistoryDatabase;
+
+  constructor(database: HistoryDatabase) {
+    this.database = database;
+  }
+
+  // Start a conversation titled after its first message
+  create(
+    firstMessage: string,
+    tabId: string | null,
+    url: string | null,
+  ): number {
+    return this.database.createConversation(
+      this.makeTitle(firstMessage),
+      tabId,
+      url,
+    );
+  }
+
+  save(conversationId: number, messages: UIMessage[]): void {
+    this.database.saveConversationMessages(
+      conversationId,
+      messages.map((message) => {
+        const stored = this.stripImages(message);
+        return {
+          messageId: message.id,
+          role: message.role,
+          content: JSON.stringify(stored),
+          text: this.getText(message),
+        };
+      }),
+    );
+  }
+
+  load(conversationId: number): UIMessage[] | null {
+    if (!this.database.getConversation(conversationId)) return null;
+
+    return this.database.getConversationMessages(conversationId).map((row) => {
+      try {
+        const message = JSON.parse(row.content) as UIMessage;
+        // A response interrupted by quitting is no longer streaming
+        return message.metadata
+          ? {
+              ...message,
+              metadata: {
+                ...(message.metadata as object),
+                isStreaming: false,
+              },
+            }
+          : message;
+      } catch {
+        // Fall back to the plain text if the stored JSON is unreadable
+        return {
+          id: row.message_id,
+          role: row.role as UIMessage["role"],
+          parts: [{ type: "text" as const, text: row.text }],
+        };
+      }
+    });
+  }
+
+  // Copy a conversation up to and including `messageId` into a new one
+  fork(
+    conversationId: number,
+    messages: UIMessage[],
+    messageId: string,
+  ): number | null {
+    const source = this.database.getConversation(conversationId);
+    const cutoff = messages.findIndex((message) => message.id === messageId);
+    if (!source || cutoff === -1) return null;
+
+    const forkId = this.database.createConversation(
+      this.makeTitle(`${source.title} (fork)`),
+      source.tab_id,
+      source.url,
+      conversationId,
+    );
+    this.save(forkId, messages.slice(0, cutoff + 1));
+    return forkId;
+  }
+
+  get(conversationId: number): Conversation | null {
+    return this.database.getConversation(conversationId);
+  }
+
+  list(limit?: number): Conversation[] {
+    return this.database.getConversations(limit);
+  }
+
+  search(query: string): ConversationSearchMatch[] {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      return this.list().map((c) => ({ ...c, matched_text: null }));
+    }
+    return this.database.searchConversations(trimmed);
+  }
+
+  delete(conversationId: number): boolean {
+    return this.database.deleteConversation(conversationId);
+  }
+
+  private makeTitle(text: string): string {
+    const singleLine = text.replace(/\s+/g, " ").trim();
+    if (!singleLine) return "New conversation";
+    return singleLine.length > MAX_TITLE_LENGTH
+      ? `${singleLine.substring(0, MAX_TITLE_LENGTH - 1)}…`
+      : singleLine;
+  }
+
+  private getText(message: UIMessage): string {
+    return message.parts
+      .filter((part) => part.type === "text")
+      .map((part) => (part as { type: "text"; text: string }).text)
+      .join("");
+  }
+
+  // Page screenshots are only useful for the turn they were taken on and
+  // would bloat the database
+  private stripImages(message: UIMessage): UIMessage {
+    const parts = message.parts.filter(
+      (part) => (part as { type: string }).type !== "image",
+    );
+    return {
+      ...message,
+      parts: parts.length > 0 ? parts : [{ type: "text", text: "" }],
+    };
+  }
+}
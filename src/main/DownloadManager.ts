@@ -0,0 +1,447 @@
+import {
+  app,
+  session as electronSession,
+  shell,
+  type DownloadItem,
+  type Event,
+  type Session,
+  type WebContents,
+} from "electron";
+import { existsSync } from "fs";
+import { basename, extname, join } from "path";
+import { JsonFile } from "./JsonFile";
+import type { WindowManager } from "./WindowManager";
+
+export type DownloadState =
+  | "progressing"
+  | "paused"
+  | "completed"
+  | "cancelled"
+  | "interrupted";
+
+export interface DownloadRecord {
+  id: string;
+  url: string;
+  // Redirect chain and validators, needed to resume after a restart
+  urlChain: string[];
+  etag: string;
+  lastModified: string;
+  filename: string;
+  savePath: string;
+  mimeType: string;
+  totalBytes: number;
+  receivedBytes: number;
+  bytesPerSecond: number;
+  state: DownloadState;
+  startTime: number;
+  endTime: number | null;
+  // Started from a private window; kept out of the saved list
+  isPrivate?: boolean;
+  // Partition of the session it came from, so it resumes with that
+  // session's cookies; missing for the default session
+  partition?: string;
+}
+
+export interface DownloadSettingsConfig {
+  // Ask where to save every download
+  askWhereToSave: boolean;
+  // Sites that always ask, regardless of the setting above
+  askSites: string[];
+}
+
+interface DownloadFileData {
+  downloads: DownloadRecord[];
+}
+
+// Tracks downloads from every session, keeps their history and lets the
+// panel pause, resume, cancel and open them
+export class DownloadManager {
+  private windowManager: WindowManager;
+  private file: JsonFile<DownloadFileData>;
+  private settingsFile: JsonFile<Partial<DownloadSettingsConfig>>;
+  private records: DownloadRecord[];
+  private settings: DownloadSettingsConfig;
+  private items: Map<string, DownloadItem> = new Map();
+  // Tracked sessions and their partitions ("" for the default session)
+  private sessions: Map<Session, string> = new Map();
+  // Save paths of restarted downloads, so will-download can find their record
+  private resuming: Map<string, string> = new Map();
+  private lastBroadcast: Map<string, number> = new Map();
+  private saveTimer: NodeJS.Timeout | null = null;
+  private downloadCounter: number = 0;
+
+  // Persistence settings
+  private readonly MAX_RECORDS = 500;
+  private readonly SAVE_DELAY = 2000; // batch progress writes
+  private readonly PROGRESS_INTERVAL = 500; // ms between progress updates
+
+  private handleWillDownload = (
+    _event: Event,
+    item: DownloadItem,
+    webContents: WebContents,
+  ): void => {
+    this.track(item, webContents);
+  };
+
+  constructor(windowManager: WindowManager) {
+    this.windowManager = windowManager;
+    this.file = new JsonFile<DownloadFileData>("downloads.json");
+    this.settingsFile = new JsonFile<Partial<DownloadSettingsConfig>>(
+      "download-settings.json",
+    );
+
+    // Anything still running when the app quit was cut off
+    const stored = this.file.read();
+    this.records = (Array.isArray(stored?.downloads) ? stored.downloads : [])
+      .filter((record) => record && typeof record.id === "string")
+      .map((record) =>
+        record.state === "progressing" || record.state === "paused"
+          ? { ...record, state: "interrupted", bytesPerSecond: 0 }
+          : record,
+      );
+
+    const savedSettings = this.settingsFile.read();
+    this.settings = {
+      askWhereToSave: savedSettings?.askWhereToSave === true,
+      askSites: Array.isArray(savedSettings?.askSites)
+        ? savedSettings.askSites.filter(
+            (site): site is string => typeof site === "string",
+          )
+        : [],
+    };
+
+    this.attach(electronSession.defaultSession);
+  }
+
+  // Track downloads started in `session`, the one for `partition`
+  attach(session: Session, partition: string = ""): void {
+    if (this.sessions.has(session)) return;
+    this.sessions.set(session, partition);
+    session.on("will-download", this.handleWillDownload);
+  }
+
+  detach(session: Session): void {
+    if (!this.sessions.delete(session)) return;
+    session.removeListener("will-download", this.handleWillDownload);
+  }
+
+  // Private windows list only private downloads, regular windows the rest
+  getDownloads(isPrivate: boolean): DownloadRecord[] {
+    return this.records
+      .filter((record) => (record.isPrivate ?? false) === isPrivate)
+      .map((record) => ({ ...record }));
+  }
+
+  pause(id: string): boolean {
+    const item = this.items.get(id);
+    if (!item || item.isPaused()) return false;
+    item.pause();
+    this.update(id, item);
+    return true;
+  }
+
+  // Resume a paused download, or restart an interrupted one where it left off
+  resume(id: string): boolean {
+    const item = this.items.get(id);
+    if (item) {
+      if (!item.canResume()) return false;
+      item.resume();
+      this.update(id, item);
+      return true;
+    }
+
+    const record = this.getRecord(id);
+    if (!record || record.state !== "interrupted") return false;
+
+    const session = record.partition
+      ? electronSession.fromPartition(record.partition)
+      : electronSession.defaultSession;
+    // A container's session may not have been used since the app started
+    this.attach(session, record.partition);
+    if (record.receivedBytes > 0 && existsSync(record.savePath)) {
+      this.resuming.set(record.savePath, id);
+      session.createInterruptedDownload({
+        path: record.savePath,
+        urlChain: record.urlChain.length > 0 ? record.urlChain : [record.url],
+        mimeType: record.mimeType,
+        offset: record.receivedBytes,
+        length: record.totalBytes,
+        lastModified: record.lastModified,
+        eTag: record.etag,
+        startTime: record.startTime / 1000,
+      });
+    } else {
+      // Nothing usable on disk; start the download again
+      this.remove(id);
+      session.downloadURL(record.url);
+    }
+    return true;
+  }
+
+  cancel(id: string): boolean {
+    const item = this.items.get(id);
+    if (!item) return false;
+    item.cancel();
+    return true;
+  }
+
+  // Open the downloaded file with the system's default app
+  async open(id: string): Promise<boolean> {
+    const record = this.getRecord(id);
+    if (!record || record.state !== "completed") return false;
+    if (!existsSync(record.savePath)) return false;
+    const error = await shell.openPath(record.savePath);
+    return error === "";
+  }
+
+  showInFolder(id: string): boolean {
+    const record = this.getRecord(id);
+    if (!record || !record.savePath || !existsSync(record.savePath)) {
+      return false;
+    }
+    shell.showItemInFolder(record.savePath);
+    return true;
+  }
+
+  // Remove a finished download from the list (the file stays on disk)
+  remove(id: string): boolean {
+    if (this.items.has(id)) return false;
+    const before = this.records.length;
+    this.records = this.records.filter((record) => record.id !== id);
+    if (this.records.length === before) return false;
+    this.save();
+    this.broadcast();
+    return true;
+  }
+
+  // Remove every download that isn't in progress
+  clear(): void {
+    this.records = this.records.filter((record) => this.items.has(record.id));
+    this.save();
+    this.broadcast();
+  }
+
+  // Cancel and drop every download from the private session once the last
+  // private window has closed
+  forgetPrivate(): void {
+    const privateRecords = this.records.filter((record) => record.isPrivate);
+    if (privateRecords.length === 0) return;
+
+    privateRecords.forEach((record) => this.items.get(record.id)?.cancel());
+    this.records = this.records.filter((record) => !record.isPrivate);
+    this.broadcast();
+  }
+
+  getSettings(): DownloadSettingsConfig {
+    return { ...this.settings, askSites: [...this.settings.askSites] };
+  }
+
+  updateSettings(config: Partial<DownloadSettingsConfig>): void {
+    if (typeof config.askWhereToSave === "boolean") {
+      this.settings.askWhereToSave = config.askWhereToSave;
+    }
+    if (Array.isArray(config.askSites)) {
+      this.settings.askSites = Array.from(
+        new Set(
+          config.askSites
+            .filter((site): site is string => typeof site === "string")
+            .map((site) => this.normalizeSite(site))
+            .filter((site) => site.length > 0),
+        ),
+      );
+    }
+    this.settingsFile.write(this.settings);
+  }
+
+  destroy(): void {
+    this.sessions.forEach((_, session) =>
+      session.removeListener("will-download", this.handleWillDownload),
+    );
+    this.sessions.clear();
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.writeRecords();
+  }
+
+  private track(item: DownloadItem, webContents: WebContents): void {
+    // A restarted download keeps its existing record
+    const resumedId = this.resuming.get(item.getSavePath());
+    this.resuming.delete(item.getSavePath());
+
+    let id: string;
+    if (resumedId && this.getRecord(resumedId)) {
+      id = resumedId;
+    } else {
+      id = `download-${Date.now()}-${++this.downloadCounter}`;
+      const filename = item.getFilename();
+      if (this.shouldAsk(webContents, item.getURL())) {
+        item.setSaveDialogOptions({
+          defaultPath: join(app.getPath("downloads"), filename),
+        });
+      } else {
+        item.setSavePath(this.getUniquePath(filename));
+      }
+
+      this.records.unshift({
+        id,
+        url: item.getURL(),
+        urlChain: item.getURLChain(),
+        etag: item.getETag(),
+        lastModified: item.getLastModifiedTime(),
+        filename,
+        savePath: item.getSavePath(),
+        mimeType: item.getMimeType(),
+        totalBytes: item.getTotalBytes(),
+        receivedBytes: 0,
+        bytesPerSecond: 0,
+        state: "progressing",
+        startTime: Date.now(),
+        endTime: null,
+        isPrivate: !webContents.session.isPersistent(),
+        partition: this.sessions.get(webContents.session) || undefined,
+      });
+      this.records = this.records.slice(0, this.MAX_RECORDS);
+    }
+
+    this.items.set(id, item);
+    this.update(id, item);
+    console.log(`[DownloadManager] Started ${item.getFilename()}`);
+
+    item.on("updated", () => {
+      const last = this.lastBroadcast.get(id) ?? 0;
+      if (Date.now() - last < this.PROGRESS_INTERVAL) return;
+      this.update(id, item);
+    });
+
+    item.once("done", (_, state) => {
+      this.items.delete(id);
+      this.lastBroadcast.delete(id);
+      this.update(id, item, state);
+      console.log(`[DownloadManager] ${item.getFilename()} ${state}`);
+    });
+  }
+
+  // Copy the item's current progress into its record and notify the panels
+  private update(
+    id: string,
+    item: DownloadItem,
+    doneState?: "completed" | "cancelled" | "interrupted",
+  ): void {
+    const record = this.getRecord(id);
+    if (!record) return;
+
+    const savePath = item.getSavePath();
+    if (savePath) {
+      record.savePath = savePath;
+      record.filename = basename(savePath);
+    }
+    record.totalBytes = item.getTotalBytes();
+    record.receivedBytes = item.getReceivedBytes();
+    record.urlChain = item.getURLChain();
+    record.etag = item.getETag();
+    record.lastModified = item.getLastModifiedTime();
+
+    if (doneState) {
+      record.state = doneState;
+      record.bytesPerSecond = 0;
+      record.endTime = Date.now();
+    } else {
+      record.state = item.isPaused() ? "paused" : "progressing";
+      record.bytesPerSecond = item.isPaused()
+        ? 0
+        : item.getCurrentBytesPerSecond();
+    }
+
+    this.lastBroadcast.set(id, Date.now());
+    this.save(doneState !== undefined);
+    this.broadcast();
+  }
+
+  private shouldAsk(webContents: WebContents, url: string): boolean {
+    if (this.settings.askWhereToSave) return true;
+    if (this.settings.askSites.length === 0) return false;
+
+    // Match the page that started the download, then the file's own host
+    const hosts = [webContents.isDestroyed() ? "" : webContents.getURL(), url]
+      .map((pageUrl) => {
+        try {
+          return new URL(pageUrl).hostname;
+        } catch {
+          return "";
+        }
+      })
+      .filter(Boolean);
+    return this.settings.askSites.some((site) =>
+      hosts.some((host) => host === site || host.endsWith(`.${site}`)),
+    );
+  }
+
+  // Path in the downloads folder that doesn't overwrite an existing file
+  private getUniquePath(filename: string): string {
+    const directory = app.getPath("downloads");
+    const extension = extname(filename);
+    const stem = basename(filename, extension);
+    let candidate = join(directory, filename);
+    for (let n = 1; existsSync(candidate) || this.isClaimed(candidate); n++) {
+      candidate = join(directory, `${stem} (${n})${extension}`);
+    }
+    return candidate;
+  }
+
+  // Whether an in-progress download is already writing to `path`
+  private isClaimed(path: string): boolean {
+    return this.records.some(
+      (record) => this.items.has(record.id) && record.savePath === path,
+    );
+  }
+
+  private getRecord(id: string): DownloadRecord | undefined {
+    return this.records.find((record) => record.id === id);
+  }
+
+  private normalizeSite(site: string): string {
+    const trimmed = site.trim().toLowerCase();
+    try {
+      return new URL(trimmed).hostname;
+    } catch {
+      return trimmed.replace(/^\*?\./, "").replace(/\/.*$/, "");
+    }
+  }
+
+  private save(immediate: boolean = true): void {
+    if (immediate) {
+      if (this.saveTimer) {
+        clearTimeout(this.saveTimer);
+        this.saveTimer = null;
+      }
+      this.writeRecords();
+      return;
+    }
+
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.writeRecords();
+    }, this.SAVE_DELAY);
+  }
+
+  private writeRecords(): void {
+    this.file.write({
+      downloads: this.records.filter((record) => !record.isPrivate),
+    });
+  }
+
+  private broadcast(): void {
+    this.windowManager.allWindows.forEach((window) => {
+      const webContents = window.panel.view.webContents;
+      if (!webContents.isDestroyed()) {
+        webContents.send(
+          "downloads-updated",
+          this.getDownloads(window.isPrivate),
+        );
+      }
+    });
+  }
+}
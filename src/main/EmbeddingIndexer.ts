@@ -0,0 +1,232 @@
+import { createHash } from "crypto";
+import type { HistoryDatabase } from "./database/HistoryDatabase";
+import type { EmbeddingProvider } from "./embeddings/EmbeddingProvider";
+import type { VectorStore } from "./VectorStore";
+
+export interface IndexRebuildResult {
+  total: number;
+  embedded: number;
+  failed: number;
+}
+
+export interface IndexConsistencyReport {
+  indexedVectors: number;
+  orphanedVectorsRemoved: number;
+  staleRowsRemoved: number;
+  missingVectors: number;
+  reembedded: number;
+}
+
+// Keeps the vector index in sync with page visits in the history database
+export class EmbeddingIndexer {
+  private database: HistoryDatabase;
+  private vectorStore: VectorStore;
+  private provider: EmbeddingProvider;
+  private _isRebuilding: boolean = false;
+
+  // Embedding settings
+  private readonly BATCH_SIZE = 16;
+  private readonly MAX_TEXT_LENGTH = 8000;
+
+  constructor(
+    database: HistoryDatabase,
+    vectorStore: VectorStore,
+    provider: EmbeddingProvider,
+  ) {
+    this.database = database;
+    this.vectorStore = vectorStore;
+    this.provider = provider;
+  }
+
+  get modelName(): string {
+    return this.provider.modelName;
+  }
+
+  // Embed a single visit if it hasn't been embedded with the current model
+  async indexVisit(visitId: number): Promise<void> {
+    if (this._isRebuilding) return;
+    if (this.database.hasEmbedding(visitId, this.modelName)) return;
+
+    try {
+      const document = this.buildDocument(visitId);
+      if (!document) return;
+
+      const [embedding] = await this.provider.embed([document.text]);
+
+      await this.vectorStore.addVector(visitId, embedding);
+      this.database.recordEmbedding(visitId, this.modelName, document.hash);
+
+      console.log(
+        `[EmbeddingIndexer] Generated embedding for visit ${visitId}`,
+      );
+    } catch (error) {
+      console.error(
+        `[EmbeddingIndexer] Failed to generate embedding for visit ${visitId}:`,
+        error,
+      );
+    }
+  }
+
+  // Startup sync: re-embed visits from a previous model, then reconcile
+  async synchronize(): Promise<void> {
+    await this.migrateEmbeddings();
+    await this.checkConsistency();
+  }
+
+  // Re-embed visits whose embedding_model differs from the current provider,
+  // e.g. after switching EMBEDDING_PROVIDER or EMBEDDING_MODEL
+  async migrateEmbeddings(): Promise<IndexRebuildResult> {
+    if (this._isRebuilding) {
+      throw new Error("Index rebuild already in progress");
+    }
+
+    const visitIds = this.database.getStaleEmbeddingVisitIds(this.modelName);
+    if (visitIds.length === 0) {
+      return { total: 0, embedded: 0, failed: 0 };
+    }
+
+    this._isRebuilding = true;
+    try {
+      console.log(
+        `[EmbeddingIndexer] Re-embedding ${visitIds.length} visits with ${this.modelName}`,
+      );
+      // Rows are replaced as batches succeed; failures are retried next launch
+      const { embedded, failed } = await this.embedVisits(visitIds);
+
+      console.log(
+        `[EmbeddingIndexer] Migrated ${embedded}/${visitIds.length} visits to ${this.modelName}`,
+      );
+      return { total: visitIds.length, embedded, failed };
+    } finally {
+      this._isRebuilding = false;
+    }
+  }
+
+  // Throw away the index and re-embed every visit in the embeddings table
+  async rebuildIndex(): Promise<IndexRebuildResult> {
+    if (this._isRebuilding) {
+      throw new Error("Index rebuild already in progress");
+    }
+
+    this._isRebuilding = true;
+    try {
+      this.database.deleteOrphanedEmbeddings();
+      const visitIds = Array.from(
+        new Set([
+          ...this.database.getEmbeddedVisitIds(this.modelName),
+          ...this.database.getStaleEmbeddingVisitIds(this.modelName),
+        ]),
+      );
+
+      this.vectorStore.reset(visitIds.length);
+      const { embedded, failed } = await this.embedVisits(visitIds);
+
+      console.log(
+        `[EmbeddingIndexer] Rebuilt index: ${embedded}/${visitIds.length} visits embedded`,
+      );
+      return { total: visitIds.length, embedded, failed };
+    } finally {
+      this._isRebuilding = false;
+    }
+  }
+
+  // Reconcile index labels with page_visits/embeddings rows
+  async checkConsistency(): Promise<IndexConsistencyReport> {
+    if (this._isRebuilding) {
+      throw new Error("Index rebuild in progress");
+    }
+
+    const staleRowsRemoved = this.database.deleteOrphanedEmbeddings();
+    const expected = new Set(this.database.getEmbeddedVisitIds(this.modelName));
+    const indexed = new Set(this.vectorStore.getVisitIds());
+
+    // Vectors whose visit was deleted (or never recorded)
+    const orphaned = Array.from(indexed).filter((id) => !expected.has(id));
+    const orphanedVectorsRemoved = this.vectorStore.deleteVectors(orphaned);
+
+    // Visits recorded as embedded but missing from the index
+    const missing = Array.from(expected).filter((id) => !indexed.has(id));
+    let reembedded = 0;
+    if (missing.length > 0) {
+      this.database.deleteEmbeddings(missing);
+      reembedded = (await this.embedVisits(missing)).embedded;
+    }
+
+    const report = {
+      indexedVectors: indexed.size - orphanedVectorsRemoved + reembedded,
+      orphanedVectorsRemoved,
+      staleRowsRemoved,
+      missingVectors: missing.length,
+      reembedded,
+    };
+    console.log("[EmbeddingIndexer] Consistency check:", report);
+    return report;
+  }
+
+  private async embedVisits(
+    visitIds: number[],
+  ): Promise<{ embedded: number; failed: number }> {
+    let embedded = 0;
+    let failed = 0;
+
+    for (let i = 0; i < visitIds.length; i += this.BATCH_SIZE) {
+      const batch = visitIds
+        .slice(i, i + this.BATCH_SIZE)
+        .map((visitId) => ({ visitId, document: this.buildDocument(visitId) }))
+        .filter(
+          (
+            item,
+          ): item is {
+            visitId: number;
+            document: { text: string; hash: string };
+          } => item.document !== null,
+        );
+      failed += Math.min(this.BATCH_SIZE, visitIds.length - i) - batch.length;
+      if (batch.length === 0) continue;
+
+      try {
+        const embeddings = await this.provider.embed(
+          batch.map((item) => item.document.text),
+        );
+
+        const added = this.vectorStore.addVectors(
+          batch.map((item, idx) => ({
+            visitId: item.visitId,
+            embedding: embeddings[idx],
+          })),
+        );
+        this.database.recordEmbeddingsBatch(
+          batch.map((item) => ({
+            visitId: item.visitId,
+            model: this.modelName,
+            contentHash: item.document.hash,
+          })),
+        );
+        embedded += added;
+        failed += batch.length - added;
+      } catch (error) {
+        console.error("[EmbeddingIndexer] Failed to embed batch:", error);
+        failed += batch.length;
+      }
+    }
+
+    return { embedded, failed };
+  }
+
+  // Text that represents a visit in the index, plus its content hash
+  private buildDocument(
+    visitId: number,
+  ): { text: string; hash: string } | null {
+    const content = this.database.getVisitContent(visitId);
+    if (!content) return null;
+
+    // Extract text from HTML (simple approach)
+    const text = content.html
+      .replace(/<[^>]*>/g, " ")
+      .substring(0, this.MAX_TEXT_LENGTH);
+    const embeddingText = `${content.title}\n${content.url}\n${text}`;
+    const hash = createHash("md5").update(embeddingText).digest("hex");
+
+    return { text: embeddingText, hash };
+  }
+}
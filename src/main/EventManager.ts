@@ -1,14 +1,39 @@
 import { ipcMain, WebContents } from "electron";
+import type { ChatRequest } from "../preload/panel.d";
+import type { DownloadSettingsConfig } from "./DownloadManager";
+import type { HistorySearchOptions } from "./HistorySearch";
+import type { PermissionDecision } from "./PermissionManager";
+import type { NewSearchEngine } from "./SearchEngines";
+import type { FindInPageOptions } from "./Tab";
+import type { HibernationSettings } from "./TabHibernator";
 import type { Window } from "./Window";
+import type { WindowManager } from "./WindowManager";
+import type { Workflow } from "./WorkflowAnalyzer";
+import type { ReplayOptions } from "./WorkflowReplayer";
 
 export class EventManager {
-  private mainWindow: Window;
+  private windowManager: WindowManager;
 
-  constructor(mainWindow: Window) {
-    this.mainWindow = mainWindow;
+  constructor(windowManager: WindowManager) {
+    this.windowManager = windowManager;
     this.setupEventHandlers();
   }
 
+  // Register a handler that acts on the window owning the sender, so the
+  // topbar, sidebar and panel of each window control only their own tabs
+  private handleForWindow<T extends unknown[]>(
+    channel: string,
+    listener: (window: Window, ...args: T) => unknown,
+  ): void {
+    ipcMain.handle(channel, (event, ...args) => {
+      const window = this.windowManager.getWindowForWebContents(event.sender);
+      if (!window) {
+        throw new Error(`No window owns the sender of ${channel}`);
+      }
+      return listener(window, ...(args as T));
+    });
+  }
+
   private setupEventHandlers(): void {
     // Tab management events
     this.handleTabEvents();
@@ -28,88 +53,208 @@ export class EventManager {
     // History events
     this.handleHistoryEvents();
 
+    // Download events
+    this.handleDownloadEvents();
+
+    // Bookmark events
+    this.handleBookmarkEvents();
+
+    // Zoom events
+    this.handleZoomEvents();
+
+    // Tab hibernation events
+    this.handleHibernationEvents();
+
+    // Omnibox events
+    this.handleOmniboxEvents();
+
+    // Search engine events
+    this.handleSearchEngineEvents();
+
+    // Keyboard shortcut events
+    this.handleKeybindingEvents();
+
     // Debug events
     this.handleDebugEvents();
   }
 
   private handleTabEvents(): void {
     // Create new tab
-    ipcMain.handle("create-tab", (_, url?: string) => {
-      const newTab = this.mainWindow.createTab(url);
+    this.handleForWindow("create-tab", (window, url?: string) => {
+      const newTab = window.createTab(url);
       return { id: newTab.id, title: newTab.title, url: newTab.url };
     });
 
     // Close tab
-    ipcMain.handle("close-tab", (_, id: string) => {
-      this.mainWindow.closeTab(id);
+    this.handleForWindow("close-tab", (window, id: string) => {
+      window.closeTab(id);
     });
 
     // Switch tab
-    ipcMain.handle("switch-tab", (_, id: string) => {
-      this.mainWindow.switchActiveTab(id);
+    this.handleForWindow("switch-tab", (window, id: string) => {
+      window.switchActiveTab(id);
     });
 
+    // Pin and mute from the tab context menus and audio indicators
+    this.handleForWindow(
+      "set-tab-pinned",
+      (window, id: string, pinned: boolean) => {
+        return window.setTabPinned(id, pinned);
+      },
+    );
+
+    this.handleForWindow(
+      "set-tab-muted",
+      (window, id: string, muted: boolean) => {
+        return window.setTabMuted(id, muted);
+      },
+    );
+
     // Reorder tabs
-    ipcMain.handle("reorder-tabs", (_, orderedTabIds: string[]) => {
-      return this.mainWindow.reorderTabs(orderedTabIds);
+    this.handleForWindow("reorder-tabs", (window, orderedTabIds: string[]) => {
+      return window.reorderTabs(orderedTabIds);
     });
 
     // Get tabs
-    ipcMain.handle("get-tabs", () => {
-      const activeTabId = this.mainWindow.activeTab?.id;
-      return this.mainWindow.allTabs.map((tab) => ({
+    this.handleForWindow("get-tabs", (window) => {
+      const activeTabId = window.activeTab?.id;
+      return window.allTabs.map((tab) => ({
         id: tab.id,
         title: tab.title,
         url: tab.url,
         isActive: activeTabId === tab.id,
         groupId: tab.groupId,
+        blockedPopupCount: tab.blockedPopups.length,
+        popupsAllowed: window.popupBlocker.isSiteAllowed(
+          tab.url,
+          tab.isPrivate,
+        ),
+        isBookmarked: window.bookmarkStore.isBookmarked(tab.url),
+        permissionRequest: window.permissionManager.getPendingRequest(tab.id),
+        zoomFactor: tab.zoomFactor,
+        favicon: tab.favicon,
+        isSleeping: tab.isHibernated,
+        isPinned: tab.isPinned,
+        isMuted: tab.isMuted,
+        isAudible: tab.isAudible,
       }));
     });
 
-    // Group management
-    ipcMain.handle("create-group", (_, title: string, colorId?: string) => {
-      const group = this.mainWindow.createGroup(title, colorId);
-      return group.toJSON();
+    this.handleForWindow("is-private-window", (window) => {
+      return window.isPrivate;
+    });
+
+    // Star button in the address bar
+    this.handleForWindow("toggle-bookmark", (window, tabId: string) => {
+      return window.toggleBookmark(tabId);
     });
 
-    ipcMain.handle("delete-group", (_, groupId: string) => {
-      return this.mainWindow.deleteGroup(groupId);
+    // Blocked popups menu in the address bar
+    this.handleForWindow("show-popup-menu", (window, tabId: string) => {
+      window.showBlockedPopupsMenu(tabId);
     });
 
+    // Permission prompt and site info menu in the address bar
+    this.handleForWindow(
+      "respond-permission-request",
+      (window, requestId: string, decision: PermissionDecision | null) => {
+        return window.permissionManager.respond(requestId, decision);
+      },
+    );
+
+    this.handleForWindow("show-site-info-menu", (window, tabId: string) => {
+      window.showSiteInfoMenu(tabId);
+    });
+
+    // Other open windows, as targets for moving a tab
+    this.handleForWindow("get-windows", (window) => {
+      // Private tabs can't move into a regular window, or the other way round
+      return this.windowManager.allWindows
+        .filter(
+          (other) => other !== window && other.isPrivate === window.isPrivate,
+        )
+        .map((other) => ({
+          id: other.id,
+          title: other.activeTab?.title || "Untitled",
+          tabCount: other.tabCount,
+        }));
+    });
+
+    // Move a tab to another window, or to a new one without `windowId`
     ipcMain.handle(
+      "move-tab-to-window",
+      (_, tabId: string, windowId?: string) => {
+        return this.windowManager.moveTab(tabId, windowId);
+      },
+    );
+
+    // Group management
+    this.handleForWindow(
+      "create-group",
+      (window, title: string, colorId?: string, isContainer?: boolean) => {
+        const group = window.createGroup(title, colorId, isContainer);
+        return group.toJSON();
+      },
+    );
+
+    this.handleForWindow("delete-group", (window, groupId: string) => {
+      return window.deleteGroup(groupId);
+    });
+
+    // Close a group's tabs, keeping it in the recently closed list
+    this.handleForWindow("close-group", (window, groupId: string) => {
+      return window.closeGroup(groupId);
+    });
+
+    this.handleForWindow(
       "update-group",
       (
-        _,
+        window,
         groupId: string,
-        updates: { title?: string; colorId?: string; isCollapsed?: boolean },
+        updates: {
+          title?: string;
+          colorId?: string;
+          isCollapsed?: boolean;
+          isContainer?: boolean;
+        },
       ) => {
-        return this.mainWindow.updateGroup(groupId, updates);
+        return window.updateGroup(groupId, updates);
       },
     );
 
-    ipcMain.handle("add-tab-to-group", (_, tabId: string, groupId: string) => {
-      return this.mainWindow.addTabToGroup(tabId, groupId);
-    });
+    this.handleForWindow(
+      "add-tab-to-group",
+      (window, tabId: string, groupId: string) => {
+        return window.addTabToGroup(tabId, groupId);
+      },
+    );
 
-    ipcMain.handle("remove-tab-from-group", (_, tabId: string) => {
-      return this.mainWindow.removeTabFromGroup(tabId);
+    this.handleForWindow("remove-tab-from-group", (window, tabId: string) => {
+      return window.removeTabFromGroup(tabId);
     });
 
-    ipcMain.handle("get-groups", () => {
-      return this.mainWindow.allGroups.map((group) => group.toJSON());
+    this.handleForWindow("get-groups", (window) => {
+      return window.allGroups.map((group) => group.toJSON());
     });
 
-    ipcMain.handle("reorder-groups", (_, orderedGroupIds: string[]) => {
-      return this.mainWindow.reorderGroups(orderedGroupIds);
-    });
+    this.handleForWindow(
+      "reorder-groups",
+      (window, orderedGroupIds: string[]) => {
+        return window.reorderGroups(orderedGroupIds);
+      },
+    );
 
-    ipcMain.handle("update-tab-positions", (_, orderedTabIds: string[]) => {
-      return this.mainWindow.updateTabPositions(orderedTabIds);
-    });
+    this.handleForWindow(
+      "update-tab-positions",
+      (window, orderedTabIds: string[]) => {
+        return window.updateTabPositions(orderedTabIds);
+      },
+    );
 
-    ipcMain.handle("organize-tabs", async () => {
-      const ungroupedTabs = Array.from(this.mainWindow.allTabs.entries())
-        .filter(([, tab]) => !tab.groupId)
+    this.handleForWindow("organize-tabs", async (window) => {
+      // Pinned tabs stay where the user put them
+      const ungroupedTabs = Array.from(window.allTabs.entries())
+        .filter(([, tab]) => !tab.groupId && !tab.isPinned)
         .map(([, tab]) => tab);
 
       if (ungroupedTabs.length < 3) {
@@ -118,9 +263,10 @@ export class EventManager {
 
       const tabsData = await Promise.all(
         ungroupedTabs.map(async (tab) => {
+          // Sleeping tabs are sorted by title and URL alone
           let content = "";
           try {
-            content = await tab.getTabText();
+            if (tab.isLoaded) content = await tab.getTabText();
           } catch (error) {
             console.error(`Failed to get content for tab ${tab.id}:`, error);
           }
@@ -133,52 +279,55 @@ export class EventManager {
         }),
       );
 
-      return await this.mainWindow.llmClient.organizeTabs(tabsData);
+      return await window.llmClient.organizeTabs(tabsData);
     });
 
     // Navigation (for compatibility with existing code)
-    ipcMain.handle("navigate-to", (_, url: string) => {
-      if (this.mainWindow.activeTab) {
-        void this.mainWindow.activeTab.loadURL(url);
+    this.handleForWindow("navigate-to", (window, url: string) => {
+      if (window.activeTab) {
+        void window.activeTab.loadURL(url);
       }
     });
 
-    ipcMain.handle("navigate-tab", async (_, tabId: string, url: string) => {
-      const tab = this.mainWindow.getTab(tabId);
-      if (tab) {
-        await tab.loadURL(url);
-        return true;
-      }
-      return false;
-    });
+    this.handleForWindow(
+      "navigate-tab",
+      async (window, tabId: string, url: string) => {
+        const tab = window.getTab(tabId);
+        if (tab) {
+          await tab.loadURL(url);
+          return true;
+        }
+        return false;
+      },
+    );
 
-    ipcMain.handle("go-back", () => {
-      if (this.mainWindow.activeTab) {
-        this.mainWindow.activeTab.goBack();
+    this.handleForWindow("go-back", (window) => {
+      if (window.activeTab) {
+        window.activeTab.goBack();
       }
     });
 
-    ipcMain.handle("go-forward", () => {
-      if (this.mainWindow.activeTab) {
-        this.mainWindow.activeTab.goForward();
+    this.handleForWindow("go-forward", (window) => {
+      if (window.activeTab) {
+        window.activeTab.goForward();
       }
     });
 
-    ipcMain.handle("reload", () => {
-      if (this.mainWindow.activeTab) {
-        this.mainWindow.activeTab.reload();
+    this.handleForWindow("reload", (window) => {
+      if (window.activeTab) {
+        window.activeTab.reload();
       }
     });
 
-    ipcMain.handle("stop", () => {
-      if (this.mainWindow.activeTab) {
-        this.mainWindow.activeTab.stop();
+    this.handleForWindow("stop", (window) => {
+      if (window.activeTab) {
+        window.activeTab.stop();
       }
     });
 
     // Tab-specific navigation handlers
-    ipcMain.handle("tab-go-back", (_, tabId: string) => {
-      const tab = this.mainWindow.getTab(tabId);
+    this.handleForWindow("tab-go-back", (window, tabId: string) => {
+      const tab = window.getTab(tabId);
       if (tab) {
         tab.goBack();
         return true;
@@ -186,8 +335,8 @@ export class EventManager {
       return false;
     });
 
-    ipcMain.handle("tab-go-forward", (_, tabId: string) => {
-      const tab = this.mainWindow.getTab(tabId);
+    this.handleForWindow("tab-go-forward", (window, tabId: string) => {
+      const tab = window.getTab(tabId);
       if (tab) {
         tab.goForward();
         return true;
@@ -195,8 +344,8 @@ export class EventManager {
       return false;
     });
 
-    ipcMain.handle("tab-reload", (_, tabId: string) => {
-      const tab = this.mainWindow.getTab(tabId);
+    this.handleForWindow("tab-reload", (window, tabId: string) => {
+      const tab = window.getTab(tabId);
       if (tab) {
         tab.reload();
         return true;
@@ -204,8 +353,8 @@ export class EventManager {
       return false;
     });
 
-    ipcMain.handle("tab-stop", (_, tabId: string) => {
-      const tab = this.mainWindow.getTab(tabId);
+    this.handleForWindow("tab-stop", (window, tabId: string) => {
+      const tab = window.getTab(tabId);
       if (tab) {
         tab.stop();
         return true;
@@ -214,14 +363,14 @@ export class EventManager {
     });
 
     // Open URL in new tab (for RAG browsing history search)
-    ipcMain.handle("browser-open-url", (_, url: string) => {
-      const tab = this.mainWindow.createTab(url);
-      this.mainWindow.switchActiveTab(tab.id);
+    this.handleForWindow("browser-open-url", (window, url: string) => {
+      const tab = window.createTab(url);
+      window.switchActiveTab(tab.id);
       return tab.id;
     });
 
-    ipcMain.handle("tab-screenshot", async (_, tabId: string) => {
-      const tab = this.mainWindow.getTab(tabId);
+    this.handleForWindow("tab-screenshot", async (window, tabId: string) => {
+      const tab = window.getTab(tabId);
       if (tab) {
         const image = await tab.screenshot();
         return image.toDataURL();
@@ -229,17 +378,32 @@ export class EventManager {
       return null;
     });
 
-    ipcMain.handle("tab-run-js", async (_, tabId: string, code: string) => {
-      const tab = this.mainWindow.getTab(tabId);
-      if (tab) {
-        return await tab.runJs(code);
-      }
-      return null;
+    this.handleForWindow(
+      "tab-run-js",
+      async (window, tabId: string, code: string) => {
+        const tab = window.getTab(tabId);
+        if (tab) {
+          return await tab.runJs(code);
+        }
+        return null;
+      },
+    );
+
+    // Find in page, on the active tab
+    this.handleForWindow(
+      "find-in-page",
+      (window, text: string, options?: FindInPageOptions) => {
+        return window.activeTab?.findInPage(text, options) ?? null;
+      },
+    );
+
+    this.handleForWindow("stop-find-in-page", (window) => {
+      window.activeTab?.stopFindInPage();
     });
 
     // Tab info
-    ipcMain.handle("get-active-tab-info", () => {
-      const activeTab = this.mainWindow.activeTab;
+    this.handleForWindow("get-active-tab-info", (window) => {
+      const activeTab = window.activeTab;
       if (activeTab) {
         return {
           id: activeTab.id,
@@ -255,106 +419,171 @@ export class EventManager {
 
   private handlePanelEvents(): void {
     // Toggle panel
-    ipcMain.handle("toggle-panel", () => {
-      this.mainWindow.panel.toggle();
-      this.mainWindow.updateAllBounds();
+    this.handleForWindow("toggle-panel", (window) => {
+      window.panel.toggle();
+      window.updateAllBounds();
       // Notify TopBar and Panel of visibility change
-      const isVisible = this.mainWindow.panel.getIsVisible();
-      if (this.mainWindow.topBar) {
-        this.mainWindow.topBar.view.webContents.send(
+      const isVisible = window.panel.getIsVisible();
+      if (window.topBar) {
+        window.topBar.view.webContents.send(
           "panel-visibility-changed",
           isVisible,
         );
       }
-      this.mainWindow.panel.view.webContents.send(
-        "panel-visibility-changed",
-        isVisible,
-      );
+      window.panel.view.webContents.send("panel-visibility-changed", isVisible);
       return isVisible;
     });
 
     // Get panel visibility state
-    ipcMain.handle("get-panel-visibility", () => {
-      return this.mainWindow.panel.getIsVisible();
+    this.handleForWindow("get-panel-visibility", (window) => {
+      return window.panel.getIsVisible();
     });
 
     // Chat message
-    ipcMain.handle("panel-chat-message", async (_, request) => {
-      // The LLMClient now handles getting the screenshot and context directly
-      await this.mainWindow.panel.client.sendChatMessage(request);
-    });
+    this.handleForWindow(
+      "panel-chat-message",
+      async (window, request: ChatRequest) => {
+        // The LLMClient now handles getting the screenshot and context directly
+        await window.panel.client.sendChatMessage(request);
+      },
+    );
 
     // Clear chat
-    ipcMain.handle("panel-clear-chat", () => {
-      this.mainWindow.panel.client.clearMessages();
+    this.handleForWindow("panel-clear-chat", (window) => {
+      window.panel.client.clearMessages();
       return true;
     });
 
     // Get messages
-    ipcMain.handle("panel-get-messages", () => {
-      return this.mainWindow.panel.client.getMessages();
+    this.handleForWindow("panel-get-messages", (window) => {
+      return window.panel.client.getMessages();
     });
+
+    // Open a cited tab, reopening its page if the tab has since closed
+    this.handleForWindow(
+      "chat-open-source",
+      (window, tabId: string, url: string) => {
+        if (window.getTab(tabId)) {
+          window.switchActiveTab(tabId);
+        } else {
+          const tab = window.createTab(url);
+          window.switchActiveTab(tab.id);
+        }
+        return true;
+      },
+    );
+
+    // Saved conversations
+    this.handleForWindow(
+      "chat-list-conversations",
+      (window, query?: string) => {
+        // Private windows neither save nor show saved conversations
+        if (window.isPrivate) return [];
+        return window.conversationStore.search(query ?? "");
+      },
+    );
+
+    this.handleForWindow("chat-get-active-conversation", (window) => {
+      return window.panel.client.activeConversationId;
+    });
+
+    this.handleForWindow(
+      "chat-open-conversation",
+      (window, conversationId: number) => {
+        return window.panel.client.openConversation(conversationId);
+      },
+    );
+
+    this.handleForWindow(
+      "chat-fork-conversation",
+      (window, messageId: string) => {
+        return window.panel.client.forkConversation(messageId);
+      },
+    );
+
+    this.handleForWindow(
+      "chat-delete-conversation",
+      (window, conversationId: number) => {
+        return window.panel.client.deleteConversation(conversationId);
+      },
+    );
+
+    // Allow or deny a destructive agent action
+    this.handleForWindow(
+      "agent-confirm-action",
+      (window, actionId: string, approved: boolean) => {
+        return window.panel.client.resolveConfirmation(actionId, approved);
+      },
+    );
   }
 
   private handleSidebarEvents(): void {
     // Resize sidebar
-    ipcMain.handle("resize-sidebar", (_, width: number) => {
-      this.mainWindow.resizeSidebar(width);
+    this.handleForWindow("resize-sidebar", (window, width: number) => {
+      window.resizeSidebar(width);
       return true;
     });
 
     // Get sidebar width
-    ipcMain.handle("get-sidebar-width", () => {
-      return this.mainWindow.sideBar?.width || 240;
+    this.handleForWindow("get-sidebar-width", (window) => {
+      return window.sideBar?.width || 240;
     });
 
     // Toggle topbar visibility
-    ipcMain.handle("toggle-topbar-visibility", () => {
-      this.mainWindow.toggleTopBarVisibility();
-      return this.mainWindow.isTopBarVisible;
+    this.handleForWindow("toggle-topbar-visibility", (window) => {
+      window.toggleTopBarVisibility();
+      return window.isTopBarVisible;
     });
 
     // Toggle sidebar visibility
-    ipcMain.handle("toggle-sidebar-visibility", () => {
-      this.mainWindow.toggleSideBarVisibility();
-      return this.mainWindow.isSideBarVisible;
+    this.handleForWindow("toggle-sidebar-visibility", (window) => {
+      window.toggleSideBarVisibility();
+      return window.isSideBarVisible;
     });
 
     // Get topbar visibility
-    ipcMain.handle("get-topbar-visibility", () => {
-      return this.mainWindow.isTopBarVisible;
+    this.handleForWindow("get-topbar-visibility", (window) => {
+      return window.isTopBarVisible;
     });
 
     // Get sidebar visibility
-    ipcMain.handle("get-sidebar-visibility", () => {
-      return this.mainWindow.isSideBarVisible;
+    this.handleForWindow("get-sidebar-visibility", (window) => {
+      return window.isSideBarVisible;
     });
 
     // Show/hide topbar temporarily (for hover detection)
-    ipcMain.handle("show-topbar-temporarily", () => {
-      this.mainWindow.showTopBarTemporarily();
+    this.handleForWindow("show-topbar-temporarily", (window) => {
+      window.showTopBarTemporarily();
     });
 
-    ipcMain.handle("hide-topbar-temporarily", () => {
-      this.mainWindow.hideTopBarTemporarily();
+    this.handleForWindow("hide-topbar-temporarily", (window) => {
+      window.hideTopBarTemporarily();
     });
 
+    // Make room for the address bar's suggestions below the topbar
+    this.handleForWindow(
+      "set-topbar-overlay-height",
+      (window, height: number) => {
+        window.topBar?.setOverlayHeight(height);
+      },
+    );
+
     // Show/hide sidebar temporarily (for hover detection)
-    ipcMain.handle("show-sidebar-temporarily", () => {
-      this.mainWindow.showSideBarTemporarily();
+    this.handleForWindow("show-sidebar-temporarily", (window) => {
+      window.showSideBarTemporarily();
     });
 
-    ipcMain.handle("hide-sidebar-temporarily", () => {
-      this.mainWindow.hideSideBarTemporarily();
+    this.handleForWindow("hide-sidebar-temporarily", (window) => {
+      window.hideSideBarTemporarily();
     });
   }
 
   private handlePageContentEvents(): void {
     // Get page content
-    ipcMain.handle("get-page-content", async () => {
-      if (this.mainWindow.activeTab) {
+    this.handleForWindow("get-page-content", async (window) => {
+      if (window.activeTab) {
         try {
-          return await this.mainWindow.activeTab.getTabHtml();
+          return await window.activeTab.getTabHtml();
         } catch (error) {
           console.error("Error getting page content:", error);
           return null;
@@ -364,10 +593,10 @@ export class EventManager {
     });
 
     // Get page text
-    ipcMain.handle("get-page-text", async () => {
-      if (this.mainWindow.activeTab) {
+    this.handleForWindow("get-page-text", async (window) => {
+      if (window.activeTab) {
         try {
-          return await this.mainWindow.activeTab.getTabText();
+          return await window.activeTab.getTabText();
         } catch (error) {
           console.error("Error getting page text:", error);
           return null;
@@ -377,9 +606,9 @@ export class EventManager {
     });
 
     // Get current URL
-    ipcMain.handle("get-current-url", () => {
-      if (this.mainWindow.activeTab) {
-        return this.mainWindow.activeTab.url;
+    this.handleForWindow("get-current-url", (window) => {
+      if (window.activeTab) {
+        return window.activeTab.url;
       }
       return null;
     });
@@ -395,8 +624,8 @@ export class EventManager {
   private handleHistoryEvents(): void {
     // Get recent history
     ipcMain.handle("history-get-recent", (_, limit?: number) => {
-      const database = this.mainWindow.historyDatabase;
-      const tracker = this.mainWindow.historyTracker;
+      const database = this.windowManager.historyDatabase;
+      const tracker = this.windowManager.historyTracker;
       if (!database) return [];
 
       // Flush any pending interactions before fetching history
@@ -411,23 +640,24 @@ export class EventManager {
     ipcMain.handle(
       "history-get-by-date-range",
       (_, startTime: number, endTime: number) => {
-        const database = this.mainWindow.historyDatabase;
+        const database = this.windowManager.historyDatabase;
         if (!database) return [];
         return database.getHistoryByDateRange(startTime, endTime);
       },
     );
 
-    // Search history
-    ipcMain.handle("history-search", (_, query: string, limit?: number) => {
-      const database = this.mainWindow.historyDatabase;
-      if (!database) return [];
-      return database.searchHistory(query, limit || 50);
-    });
+    // Hybrid keyword + semantic search
+    ipcMain.handle(
+      "history-search",
+      async (_, query: string, options?: HistorySearchOptions) => {
+        return await this.windowManager.historySearch.search(query, options);
+      },
+    );
 
     // Get visit details
     ipcMain.handle("history-get-visit-details", (_, visitId: number) => {
-      const database = this.mainWindow.historyDatabase;
-      const tracker = this.mainWindow.historyTracker;
+      const database = this.windowManager.historyDatabase;
+      const tracker = this.windowManager.historyTracker;
       if (!database) return null;
 
       // Flush any pending interactions before fetching details
@@ -437,6 +667,7 @@ export class EventManager {
 
       return {
         interactions: database.getVisitInteractions(visitId),
+        permissionGrants: database.getVisitPermissionGrants(visitId),
         screenshots: database.getVisitScreenshots(visitId),
         snapshots: database.getVisitSnapshots(visitId),
         scrollEvents: database.getVisitScrollEvents(visitId),
@@ -445,28 +676,28 @@ export class EventManager {
 
     // Get interaction count for a visit
     ipcMain.handle("history-get-interaction-count", (_, visitId: number) => {
-      const database = this.mainWindow.historyDatabase;
+      const database = this.windowManager.historyDatabase;
       if (!database) return 0;
       return database.getInteractionCount(visitId);
     });
 
     // Get all sessions
     ipcMain.handle("history-get-sessions", () => {
-      const database = this.mainWindow.historyDatabase;
+      const database = this.windowManager.historyDatabase;
       if (!database) return [];
       return database.getAllSessions();
     });
 
     // Get session history
     ipcMain.handle("history-get-session", (_, sessionId: number) => {
-      const database = this.mainWindow.historyDatabase;
+      const database = this.windowManager.historyDatabase;
       if (!database) return null;
       return database.getSessionHistory(sessionId);
     });
 
     // Get current session
     ipcMain.handle("history-get-current-session", () => {
-      const database = this.mainWindow.historyDatabase;
+      const database = this.windowManager.historyDatabase;
       if (!database) return null;
       return database.getCurrentSession();
     });
@@ -492,7 +723,7 @@ export class EventManager {
           timestamp: number;
         },
       ) => {
-        const tracker = this.mainWindow.historyTracker;
+        const tracker = this.windowManager.historyTracker;
         if (tracker) {
           tracker.recordInteraction(interaction);
         }
@@ -501,7 +732,7 @@ export class EventManager {
 
     // Get statistics
     ipcMain.handle("history-get-stats", () => {
-      const database = this.mainWindow.historyDatabase;
+      const database = this.windowManager.historyDatabase;
       if (!database) return { visitCount: 0 };
       return {
         visitCount: database.getVisitCount(),
@@ -510,14 +741,14 @@ export class EventManager {
 
     // History settings
     ipcMain.handle("history-settings-get", () => {
-      const settings = this.mainWindow.historySettings;
+      const settings = this.windowManager.historySettings;
       return settings?.toJSON() || null;
     });
 
     ipcMain.handle(
       "history-settings-update",
       (_, config: Record<string, unknown>) => {
-        const settings = this.mainWindow.historySettings;
+        const settings = this.windowManager.historySettings;
         if (settings) {
           settings.fromJSON(config);
           return true;
@@ -526,16 +757,32 @@ export class EventManager {
       },
     );
 
+    // Delete a single visit
+    ipcMain.handle("history-delete-visit", (_, visitId: number) => {
+      const database = this.windowManager.historyDatabase;
+      if (!database) return false;
+      return database.deleteVisit(visitId);
+    });
+
+    // Vector index maintenance
+    ipcMain.handle("history-rebuild-index", async () => {
+      return await this.windowManager.embeddingIndexer.rebuildIndex();
+    });
+
+    ipcMain.handle("history-check-index", async () => {
+      return await this.windowManager.embeddingIndexer.checkConsistency();
+    });
+
     // Clear old history
     ipcMain.handle("history-clear-old", (_, days: number) => {
-      const database = this.mainWindow.historyDatabase;
+      const database = this.windowManager.historyDatabase;
       if (!database) return false;
       database.deleteOldHistory(days);
       return true;
     });
 
     ipcMain.handle("history-clear-all", () => {
-      const database = this.mainWindow.historyDatabase;
+      const database = this.windowManager.historyDatabase;
       if (!database) return false;
       database.deleteAllHistory();
       return true;
@@ -543,7 +790,7 @@ export class EventManager {
 
     // Workflow analysis
     ipcMain.handle("workflow-analyze-session", async (_, sessionId: number) => {
-      const analyzer = this.mainWindow.workflowAnalyzer;
+      const analyzer = this.windowManager.workflowAnalyzer;
       if (!analyzer) return null;
       try {
         const workflow = await analyzer.analyzeSession(sessionId);
@@ -563,6 +810,7 @@ export class EventManager {
             .map((s) => s.url)
             .filter((url): url is string => !!url),
           sessionId: sessionId,
+          workflow,
         };
       } catch (error) {
         console.error("Failed to analyze workflow:", error);
@@ -573,7 +821,7 @@ export class EventManager {
     ipcMain.handle(
       "workflow-analyze-recent",
       async (_, options?: { limit?: number }) => {
-        const analyzer = this.mainWindow.workflowAnalyzer;
+        const analyzer = this.windowManager.workflowAnalyzer;
         if (!analyzer) return null;
         try {
           const workflow = await analyzer.analyzeRecentHistory(options?.limit);
@@ -592,6 +840,7 @@ export class EventManager {
             urls: workflow.steps
               .map((s) => s.url)
               .filter((url): url is string => !!url),
+            workflow,
           };
         } catch (error) {
           console.error("Failed to analyze recent workflow:", error);
@@ -601,10 +850,273 @@ export class EventManager {
     );
 
     ipcMain.handle("workflow-get-cached", (_, sessionId: number) => {
-      const database = this.mainWindow.historyDatabase;
+      const database = this.windowManager.historyDatabase;
       if (!database) return null;
       return database.getWorkflowCache(sessionId);
     });
+
+    // Workflow replay
+    this.handleForWindow(
+      "workflow-replay-start",
+      (window, workflow: Workflow, options?: ReplayOptions) => {
+        return window.workflowReplayer.start(workflow, options);
+      },
+    );
+
+    this.handleForWindow("workflow-replay-pause", (window) => {
+      return window.workflowReplayer.pause();
+    });
+
+    this.handleForWindow("workflow-replay-resume", (window) => {
+      return window.workflowReplayer.resume();
+    });
+
+    this.handleForWindow("workflow-replay-stop", (window) => {
+      return window.workflowReplayer.stop();
+    });
+
+    this.handleForWindow("workflow-replay-get-state", (window) => {
+      return window.workflowReplayer.getState();
+    });
+
+    // Recently closed tabs and groups
+    ipcMain.handle("recently-closed-get-all", () => {
+      return this.windowManager.recentlyClosed.getEntries();
+    });
+
+    this.handleForWindow(
+      "recently-closed-reopen",
+      (window, entryId: string) => {
+        return window.reopenClosed(entryId);
+      },
+    );
+  }
+
+  private handleDownloadEvents(): void {
+    this.handleForWindow("downloads-get-all", (window) => {
+      return this.windowManager.downloadManager.getDownloads(window.isPrivate);
+    });
+
+    ipcMain.handle("downloads-pause", (_, id: string) => {
+      return this.windowManager.downloadManager.pause(id);
+    });
+
+    ipcMain.handle("downloads-resume", (_, id: string) => {
+      return this.windowManager.downloadManager.resume(id);
+    });
+
+    ipcMain.handle("downloads-cancel", (_, id: string) => {
+      return this.windowManager.downloadManager.cancel(id);
+    });
+
+    ipcMain.handle("downloads-open", async (_, id: string) => {
+      return this.windowManager.downloadManager.open(id);
+    });
+
+    ipcMain.handle("downloads-show-in-folder", (_, id: string) => {
+      return this.windowManager.downloadManager.showInFolder(id);
+    });
+
+    ipcMain.handle("downloads-remove", (_, id: string) => {
+      return this.windowManager.downloadManager.remove(id);
+    });
+
+    ipcMain.handle("downloads-clear", () => {
+      this.windowManager.downloadManager.clear();
+      return true;
+    });
+
+    // Download settings
+    ipcMain.handle("downloads-settings-get", () => {
+      return this.windowManager.downloadManager.getSettings();
+    });
+
+    ipcMain.handle(
+      "downloads-settings-update",
+      (_, config: Partial<DownloadSettingsConfig>) => {
+        this.windowManager.downloadManager.updateSettings(config);
+        return this.windowManager.downloadManager.getSettings();
+      },
+    );
+  }
+
+  private handleBookmarkEvents(): void {
+    ipcMain.handle("bookmarks-get-all", () => {
+      return this.windowManager.bookmarkStore.getAll();
+    });
+
+    ipcMain.handle("bookmarks-search", (_, query: string) => {
+      return this.windowManager.bookmarkStore.search(query);
+    });
+
+    ipcMain.handle(
+      "bookmarks-add",
+      (
+        _,
+        bookmark: {
+          title: string;
+          url: string;
+          parentId?: number | null;
+          tags?: string[];
+        },
+      ) => {
+        return this.windowManager.bookmarkStore.add(bookmark);
+      },
+    );
+
+    ipcMain.handle(
+      "bookmarks-create-folder",
+      (_, title: string, parentId?: number | null) => {
+        return this.windowManager.bookmarkStore.createFolder(
+          title,
+          parentId ?? null,
+        );
+      },
+    );
+
+    ipcMain.handle(
+      "bookmarks-update",
+      (
+        _,
+        id: number,
+        updates: { title?: string; url?: string; tags?: string[] },
+      ) => {
+        return this.windowManager.bookmarkStore.update(id, updates);
+      },
+    );
+
+    ipcMain.handle(
+      "bookmarks-move",
+      (_, id: number, parentId: number | null, index: number) => {
+        return this.windowManager.bookmarkStore.move(id, parentId, index);
+      },
+    );
+
+    ipcMain.handle("bookmarks-delete", (_, id: number) => {
+      return this.windowManager.bookmarkStore.delete(id);
+    });
+
+    // Import and export show file dialogs attached to the asking window
+    this.handleForWindow("bookmarks-import", (window) => {
+      return window.importBookmarks();
+    });
+
+    this.handleForWindow("bookmarks-export", (window) => {
+      return window.exportBookmarks();
+    });
+  }
+
+  private handleZoomEvents(): void {
+    // Zoom indicator in the address bar
+    this.handleForWindow("show-zoom-menu", (window, tabId: string) => {
+      window.showZoomMenu(tabId);
+    });
+
+    // Saved zoom levels in the panel's settings
+    ipcMain.handle("zoom-get-levels", () => {
+      return this.windowManager.zoomSettings.getLevels();
+    });
+
+    ipcMain.handle("zoom-clear-level", (_, host: string) => {
+      this.windowManager.zoomSettings.clear(host);
+    });
+
+    ipcMain.handle("zoom-clear-all", () => {
+      this.windowManager.zoomSettings.clearAll();
+    });
+  }
+
+  private handleHibernationEvents(): void {
+    // Hibernation settings in the panel
+    ipcMain.handle("hibernation-settings-get", () => {
+      return this.windowManager.tabHibernator.getSettings();
+    });
+
+    ipcMain.handle(
+      "hibernation-settings-update",
+      (_, config: Partial<HibernationSettings>) => {
+        this.windowManager.tabHibernator.updateSettings(config);
+        return this.windowManager.tabHibernator.getSettings();
+      },
+    );
+  }
+
+  private handleOmniboxEvents(): void {
+    // Address bar suggestions while typing
+    this.handleForWindow(
+      "get-omnibox-suggestions",
+      (window, input: string, withSlowSources?: boolean) => {
+        return this.windowManager.omniboxSuggestions.suggest(
+          window,
+          input,
+          withSlowSources,
+        );
+      },
+    );
+
+    // "Switch to tab" suggestions, which can be in another window
+    ipcMain.handle("switch-to-tab", (_, tabId: string) => {
+      const window = this.windowManager.getWindowForTab(tabId);
+      if (!window) return false;
+      window.switchActiveTab(tabId);
+      window.focus();
+      return true;
+    });
+  }
+
+  private handleSearchEngineEvents(): void {
+    // Search engines in the panel's settings
+    ipcMain.handle("search-engines-get", () => {
+      return this.windowManager.searchEngines.getAll();
+    });
+
+    ipcMain.handle("search-engines-set-default", (_, engineId: string) => {
+      return this.windowManager.searchEngines.setDefault(engineId);
+    });
+
+    ipcMain.handle("search-engines-add", (_, engine: NewSearchEngine) => {
+      return this.windowManager.searchEngines.add(engine);
+    });
+
+    ipcMain.handle("search-engines-delete", (_, engineId: string) => {
+      return this.windowManager.searchEngines.delete(engineId);
+    });
+  }
+
+  private handleKeybindingEvents(): void {
+    // Commands and their key bindings in the panel's settings
+    ipcMain.handle("keybindings-get-all", () => {
+      return this.windowManager.commands.getAll();
+    });
+
+    ipcMain.handle(
+      "keybindings-set",
+      (
+        _,
+        commandId: string,
+        bindings: string[],
+        replaceConflicts?: boolean,
+      ) => {
+        return this.windowManager.commands.setBindings(
+          commandId,
+          bindings,
+          replaceConflicts,
+        );
+      },
+    );
+
+    ipcMain.handle("keybindings-reset", (_, commandId?: string) => {
+      this.windowManager.commands.reset(commandId);
+    });
+
+    // While the panel records a new binding, keys reach it instead of
+    // triggering the menu
+    ipcMain.handle(
+      "keybindings-set-recording",
+      (event, isRecording: boolean) => {
+        event.sender.setIgnoreMenuShortcuts(isRecording);
+      },
+    );
   }
 
   private handleDebugEvents(): void {
@@ -613,41 +1125,29 @@ export class EventManager {
   }
 
   private broadcastDarkMode(sender: WebContents, isDarkMode: boolean): void {
-    // Send to topbar
-    if (
-      this.mainWindow.topBar &&
-      this.mainWindow.topBar.view.webContents !== sender
-    ) {
-      this.mainWindow.topBar.view.webContents.send(
-        "dark-mode-updated",
-        isDarkMode,
-      );
-    }
-
-    // Send to sidebar
-    if (
-      this.mainWindow.sideBar &&
-      this.mainWindow.sideBar.view.webContents !== sender
-    ) {
-      this.mainWindow.sideBar.view.webContents.send(
-        "dark-mode-updated",
-        isDarkMode,
-      );
-    }
+    // Every window follows the same theme
+    this.windowManager.allWindows.forEach((window) => {
+      // Send to topbar
+      if (window.topBar && window.topBar.view.webContents !== sender) {
+        window.topBar.view.webContents.send("dark-mode-updated", isDarkMode);
+      }
 
-    // Send to panel
-    if (this.mainWindow.panel.view.webContents !== sender) {
-      this.mainWindow.panel.view.webContents.send(
-        "dark-mode-updated",
-        isDarkMode,
-      );
-    }
+      // Send to sidebar
+      if (window.sideBar && window.sideBar.view.webContents !== sender) {
+        window.sideBar.view.webContents.send("dark-mode-updated", isDarkMode);
+      }
 
-    // Send to all tabs
-    this.mainWindow.allTabs.forEach((tab) => {
-      if (tab.webContents !== sender) {
-        tab.webContents.send("dark-mode-updated", isDarkMode);
+      // Send to panel
+      if (window.panel.view.webContents !== sender) {
+        window.panel.view.webContents.send("dark-mode-updated", isDarkMode);
       }
+
+      // Send to all tabs
+      window.allTabs.forEach((tab) => {
+        if (tab.webContents !== sender) {
+          tab.webContents.send("dark-mode-updated", isDarkMode);
+        }
+      });
     });
   }
 
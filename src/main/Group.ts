@@ -22,6 +22,9 @@ export class Group {
   private _color: GroupColor;
   private _isCollapsed: boolean;
   private _position: number;
+  // Set when the group is an isolated container: its tabs browse in their
+  // own session, with cookies and storage apart from every other tab
+  private _containerId: string | null;
 
   constructor(
     id: string,
@@ -29,12 +32,14 @@ export class Group {
     color: GroupColor = GROUP_COLORS[0],
     isCollapsed: boolean = false,
     position: number = 0,
+    containerId: string | null = null,
   ) {
     this._id = id;
     this._title = title;
     this._color = color;
     this._isCollapsed = isCollapsed;
     this._position = position;
+    this._containerId = containerId;
   }
 
   get id(): string {
@@ -73,6 +78,18 @@ export class Group {
     this._position = value;
   }
 
+  get containerId(): string | null {
+    return this._containerId;
+  }
+
+  set containerId(value: string | null) {
+    this._containerId = value;
+  }
+
+  get isContainer(): boolean {
+    return this._containerId !== null;
+  }
+
   toJSON() {
     return {
       id: this._id,
@@ -80,6 +97,7 @@ export class Group {
       color: this._color,
       isCollapsed: this._isCollapsed,
       position: this._position,
+      isContainer: this.isContainer,
     };
   }
 }
@@ -0,0 +1,60 @@
+import type { HistoryDatabase } from "./database/HistoryDatabase";
+import type { HistorySettings } from "./HistorySettings";
+
+// Background job that purges history older than `autoPurgeDays`
+export class HistoryRetention {
+  private database: HistoryDatabase;
+  private settings: HistorySettings;
+  private purgeTimer: NodeJS.Timeout | null = null;
+  private purgeDays: number;
+
+  private readonly PURGE_INTERVAL = 6 * 60 * 60 * 1000; // 6 hours
+
+  constructor(database: HistoryDatabase, settings: HistorySettings) {
+    this.database = database;
+    this.settings = settings;
+    this.purgeDays = settings.getAutoPurgeDays();
+
+    // Shortening the retention window should take effect right away
+    this.settings.onChange((config) => {
+      if (config.autoPurgeDays === this.purgeDays) return;
+      this.purgeDays = config.autoPurgeDays;
+      if (this.purgeTimer) {
+        this.run();
+      }
+    });
+  }
+
+  // Purge once now, then periodically. Call after the database is ready.
+  start(): void {
+    if (this.purgeTimer) return;
+
+    this.run();
+    this.purgeTimer = setInterval(() => {
+      this.run();
+    }, this.PURGE_INTERVAL);
+  }
+
+  stop(): void {
+    if (this.purgeTimer) {
+      clearInterval(this.purgeTimer);
+      this.purgeTimer = null;
+    }
+  }
+
+  run(): number {
+    const days = this.settings.getAutoPurgeDays();
+    try {
+      const deleted = this.database.deleteOldHistory(days);
+      if (deleted > 0) {
+        console.log(
+          `[HistoryRetention] Purged ${deleted} visits older than ${days} days`,
+        );
+      }
+      return deleted;
+    } catch (error) {
+      console.error("[HistoryRetention] Failed to purge history:", error);
+      return 0;
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import {
+  SNIPPET_MATCH_END,
+  SNIPPET_MATCH_START,
+  type HistoryDatabase,
+  type PageVisit,
+  type VisitFilters,
+} from "./database/HistoryDatabase";
+import type { EmbeddingProvider } from "./embeddings/EmbeddingProvider";
+import type { VectorStore } from "./VectorStore";
+
+export interface HistorySearchOptions extends VisitFilters {
+  limit?: number;
+}
+
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface HistorySearchResult {
+  visit: PageVisit;
+  snippet: SnippetPart[];
+  score: number;
+  matchedBy: Array<"keyword" | "semantic">;
+}
+
+// Hybrid history search: full-text and vector results merged with
+// reciprocal-rank fusion
+export class HistorySearch {
+  private database: HistoryDatabase;
+  private vectorStore: VectorStore;
+  private provider: EmbeddingProvider;
+
+  // Ranking settings
+  private readonly RRF_K = 60;
+  private readonly KEYWORD_CANDIDATES = 100;
+  private readonly SEMANTIC_CANDIDATES = 20;
+
+  constructor(
+    database: HistoryDatabase,
+    vectorStore: VectorStore,
+    provider: EmbeddingProvider,
+  ) {
+    this.database = database;
+    this.vectorStore = vectorStore;
+    this.provider = provider;
+  }
+
+  async search(
+    query: string,
+    options: HistorySearchOptions = {},
+  ): Promise<HistorySearchResult[]> {
+    const { limit = 50, ...filters } = options;
+    const trimmed = query.trim();
+
+    // Filters alone list matching visits newest first
+    if (!trimmed) {
+      return this.database
+        .getFilteredHistory(filters, limit)
+        .map((visit) => ({ visit, snippet: [], score: 0, matchedBy: [] }));
+    }
+
+    const keywordMatches = this.database.searchFullText(
+      trimmed,
+      filters,
+      this.KEYWORD_CANDIDATES,
+    );
+    const semanticMatches = await this.searchSemantic(trimmed, filters);
+
+    const results = new Map<number, HistorySearchResult>();
+    const addRanked = (
+      visits: PageVisit[],
+      source: "keyword" | "semantic",
+    ): void => {
+      visits.forEach((visit, rank) => {
+        const contribution = 1 / (this.RRF_K + rank + 1);
+        const existing = results.get(visit.id);
+        if (existing) {
+          existing.score += contribution;
+          existing.matchedBy.push(source);
+        } else {
+          results.set(visit.id, {
+            visit,
+            snippet: [],
+            score: contribution,
+            matchedBy: [source],
+          });
+        }
+      });
+    };
+
+    addRanked(
+      keywordMatches.map((match) => match.visit),
+      "keyword",
+    );
+    addRanked(semanticMatches, "semantic");
+
+    const snippets = new Map(
+      keywordMatches.map((match) => [match.visit.id, match.snippet]),
+    );
+    return Array.from(results.values())
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map((result) => ({
+        ...result,
+        snippet: this.parseSnippet(
+          snippets.get(result.visit.id) ??
+            this.database.getVisitExcerpt(result.visit.id),
+        ),
+      }));
+  }
+
+  // Nearest visits by embedding; empty if the provider is unavailable
+  async searchSemantic(
+    query: string,
+    filters: VisitFilters = {},
+  ): Promise<PageVisit[]> {
+    if (this.vectorStore.getCurrentCount() === 0) return [];
+
+    try {
+      const [embedding] = await this.provider.embed([query]);
+      // Over-fetch so date/domain filtering still leaves enough candidates
+      const hasFilters =
+        filters.startTime !== undefined ||
+        filters.endTime !== undefined ||
+        !!filters.domain;
+      const visitIds = this.vectorStore.search(
+        embedding,
+        this.SEMANTIC_CANDIDATES * (hasFilters ? 5 : 1),
+      );
+      return this.database
+        .filterVisits(visitIds, filters)
+        .slice(0, this.SEMANTIC_CANDIDATES);
+    } catch (error) {
+      console.error("[HistorySearch] Semantic search failed:", error);
+      return [];
+    }
+  }
+
+  // Split a marked-up snippet into plain and highlighted parts
+  private parseSnippet(snippet: string): SnippetPart[] {
+    const parts: SnippetPart[] = [];
+    let rest = snippet;
+    while (rest.length > 0) {
+      const start = rest.indexOf(SNIPPET_MATCH_START);
+      if (start === -1) {
+        parts.push({ text: rest, highlight: false });
+        break;
+      }
+      if (start > 0) {
+        parts.push({ text: rest.slice(0, start), highlight: false });
+      }
+      const end = rest.indexOf(SNIPPET_MATCH_END, start);
+      const stop = end === -1 ? rest.length : end;
+      parts.push({
+        text: rest.slice(start + SNIPPET_MATCH_START.length, stop),
+        highlight: true,
+      });
+      rest = rest.slice(stop + SNIPPET_MATCH_END.length);
+    }
+    return parts.filter((part) => part.text.length > 0);
+  }
+}
@@ -1,3 +1,5 @@
+import { JsonFile } from "./JsonFile";
+
 export interface HistorySettingsConfig {
   enabled: boolean;
   excludedDomains: string[];
@@ -8,8 +10,14 @@ export interface HistorySettingsConfig {
   trackClipboard: boolean;
 }
 
+type SettingsListener = (settings: HistorySettingsConfig) => void;
+
+const SCREENSHOT_QUALITIES = ["low", "medium", "high"] as const;
+
 export class HistorySettings {
   private settings: HistorySettingsConfig;
+  private file: JsonFile<Partial<HistorySettingsConfig>>;
+  private listeners: Set<SettingsListener> = new Set();
 
   constructor() {
     // Privacy-first defaults
@@ -27,6 +35,23 @@ export class HistorySettings {
       trackScrollEvents: true,
       trackClipboard: false, // Disabled by default for privacy
     };
+
+    // Overlay saved settings on top of the defaults
+    this.file = new JsonFile<Partial<HistorySettingsConfig>>(
+      "history-settings.json",
+    );
+    const saved = this.file.read();
+    if (saved) {
+      this.settings = this.merge(saved);
+    }
+  }
+
+  // Subscribe to settings changes; returns an unsubscribe function
+  onChange(listener: SettingsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
   }
 
   // Getters
@@ -61,38 +86,48 @@ export class HistorySettings {
   // Setters
   setEnabled(enabled: boolean): void {
     this.settings.enabled = enabled;
+    this.commit();
   }
 
   addExcludedDomain(domain: string): void {
-    if (!this.settings.excludedDomains.includes(domain)) {
-      this.settings.excludedDomains.push(domain);
+    const normalized = this.normalizeDomain(domain);
+    if (normalized && !this.settings.excludedDomains.includes(normalized)) {
+      this.settings.excludedDomains.push(normalized);
+      this.commit();
     }
   }
 
   removeExcludedDomain(domain: string): void {
+    const normalized = this.normalizeDomain(domain);
     this.settings.excludedDomains = this.settings.excludedDomains.filter(
-      (d) => d !== domain,
+      (d) => d !== normalized,
     );
+    this.commit();
   }
 
   setAutoPurgeDays(days: number): void {
     this.settings.autoPurgeDays = Math.max(1, days);
+    this.commit();
   }
 
   setScreenshotQuality(quality: "low" | "medium" | "high"): void {
     this.settings.screenshotQuality = quality;
+    this.commit();
   }
 
   setTrackInteractions(track: boolean): void {
     this.settings.trackInteractions = track;
+    this.commit();
   }
 
   setTrackScrollEvents(track: boolean): void {
     this.settings.trackScrollEvents = track;
+    this.commit();
   }
 
   setTrackClipboard(track: boolean): void {
     this.settings.trackClipboard = track;
+    this.commit();
   }
 
   // Check if domain should be excluded
@@ -113,10 +148,64 @@ export class HistorySettings {
   }
 
   fromJSON(config: Partial<HistorySettingsConfig>): void {
-    this.settings = {
-      ...this.settings,
-      ...config,
-    };
+    this.settings = this.merge(config);
+    this.commit();
+  }
+
+  // Apply only well-formed values so a bad file or IPC payload can't
+  // corrupt the settings
+  private merge(config: Partial<HistorySettingsConfig>): HistorySettingsConfig {
+    const next = { ...this.settings };
+
+    if (typeof config.enabled === "boolean") {
+      next.enabled = config.enabled;
+    }
+    if (Array.isArray(config.excludedDomains)) {
+      next.excludedDomains = Array.from(
+        new Set(
+          config.excludedDomains
+            .filter((d): d is string => typeof d === "string")
+            .map((d) => this.normalizeDomain(d))
+            .filter((d) => d.length > 0),
+        ),
+      );
+    }
+    if (
+      typeof config.autoPurgeDays === "number" &&
+      Number.isFinite(config.autoPurgeDays)
+    ) {
+      next.autoPurgeDays = Math.max(1, Math.round(config.autoPurgeDays));
+    }
+    if (
+      config.screenshotQuality &&
+      SCREENSHOT_QUALITIES.includes(config.screenshotQuality)
+    ) {
+      next.screenshotQuality = config.screenshotQuality;
+    }
+    if (typeof config.trackInteractions === "boolean") {
+      next.trackInteractions = config.trackInteractions;
+    }
+    if (typeof config.trackScrollEvents === "boolean") {
+      next.trackScrollEvents = config.trackScrollEvents;
+    }
+    if (typeof config.trackClipboard === "boolean") {
+      next.trackClipboard = config.trackClipboard;
+    }
+
+    return next;
   }
-}
 
+  private normalizeDomain(domain: string): string {
+    return domain
+      .trim()
+      .toLowerCase()
+      .replace(/^\*?\./, "");
+  }
+
+  // Persist and notify listeners
+  private commit(): void {
+    this.file.write(this.settings);
+    const snapshot = this.toJSON();
+    this.listeners.forEach((listener) => listener(snapshot));
+  }
+}
@@ -1,9 +1,9 @@
-import { createHash } from "crypto";
-import type { WebContents } from "electron";
+import type { NativeImage, WebContents } from "electron";
 import type { HistoryDatabase } from "./database/HistoryDatabase";
+import type { EmbeddingIndexer } from "./EmbeddingIndexer";
+import type { HistorySettings } from "./HistorySettings";
 import type { Tab } from "./Tab";
-import type { VectorStore } from "./VectorStore";
-import type { Window } from "./Window";
+import type { WindowManager } from "./WindowManager";
 
 interface PendingInteraction {
   visitId: number;
@@ -15,6 +15,13 @@ interface PendingInteraction {
   timestamp: number;
 }
 
+// Flags read by the injected tracking script; updated live on settings change
+interface PageTrackingConfig {
+  interactions: boolean;
+  scroll: boolean;
+  clipboard: boolean;
+}
+
 interface VisitTracker {
   visitId: number;
   startTime: number;
@@ -24,18 +31,15 @@ interface VisitTracker {
 }
 
 export class HistoryTracker {
-  private window: Window;
+  private windowManager: WindowManager;
   private database: HistoryDatabase;
+  private settings: HistorySettings;
   private sessionId: number | null = null;
+  private started: boolean = false;
   private pendingInteractions: PendingInteraction[] = [];
   private batchInterval: NodeJS.Timeout | null = null;
   private visitTrackers: Map<string, VisitTracker> = new Map();
-  private enabled: boolean = true;
-  private excludedDomains: Set<string> = new Set();
-  private vectorStore: VectorStore | null = null;
-  private embeddingModel: ReturnType<
-    typeof import("@ai-sdk/openai").openai.embedding
-  > | null = null;
+  private embeddingIndexer: EmbeddingIndexer | null = null;
   private trackedTabs: Set<string> = new Set();
 
   // Throttle settings
@@ -43,14 +47,43 @@ export class HistoryTracker {
   private readonly SCREENSHOT_THROTTLE = 30000; // 30 seconds
   private readonly SNAPSHOT_THROTTLE = 60000; // 60 seconds
 
-  constructor(window: Window, database: HistoryDatabase) {
-    this.window = window;
+  // Screenshot sizing per quality setting (high keeps the full-size PNG)
+  private readonly SCREENSHOT_SETTINGS = {
+    low: { width: 640, jpegQuality: 50 },
+    medium: { width: 1280, jpegQuality: 75 },
+  };
+
+  constructor(
+    windowManager: WindowManager,
+    database: HistoryDatabase,
+    settings: HistorySettings,
+  ) {
+    this.windowManager = windowManager;
     this.database = database;
+    this.settings = settings;
+
+    // Apply settings changes to running sessions and open tabs
+    this.settings.onChange(() => this.applySettings());
+  }
+
+  private get enabled(): boolean {
+    return this.settings.isEnabled();
   }
 
   // Start tracking
   start(): void {
-    if (!this.enabled) return;
+    this.started = true;
+    this.beginSession();
+  }
+
+  // Stop tracking
+  stop(): void {
+    this.started = false;
+    this.endSession();
+  }
+
+  private beginSession(): void {
+    if (!this.enabled || this.sessionId !== null) return;
 
     // Start a new session
     this.sessionId = this.database.startSession();
@@ -61,16 +94,26 @@ export class HistoryTracker {
       this.flushPendingInteractions();
     }, this.BATCH_INTERVAL);
 
-    // Set up listeners on existing tabs
-    this.window.allTabs.forEach((tab) => {
-      this.setupTabListeners(tab);
-    });
+    // Set up listeners on existing tabs in every window; private tabs are
+    // never tracked
+    this.windowManager.allTabs
+      .filter((tab) => !tab.isPrivate)
+      .forEach((tab) => {
+        this.setupTabListeners(tab);
+      });
   }
 
-  // Stop tracking
-  stop(): void {
+  private endSession(): void {
     if (this.sessionId !== null) {
       this.flushPendingInteractions();
+
+      // Close out open visits so they don't span the gap until re-enabled
+      this.visitTrackers.forEach((tracker) => {
+        const duration = Date.now() - tracker.startTime;
+        this.database.updatePageVisitDuration(tracker.visitId, duration);
+      });
+      this.visitTrackers.clear();
+
       this.database.endSession(this.sessionId);
       console.log(`🛑 History tracking stopped. Session ID: ${this.sessionId}`);
       this.sessionId = null;
@@ -82,17 +125,55 @@ export class HistoryTracker {
     }
   }
 
-  // Set vector store for RAG functionality
-  setVectorStore(vectorStore: VectorStore): void {
-    this.vectorStore = vectorStore;
+  // React to changed settings without requiring a restart
+  private applySettings(): void {
+    if (!this.started) return;
+
+    if (!this.enabled) {
+      this.endSession();
+    } else if (this.sessionId === null) {
+      this.beginSession();
+    }
+
+    // End visits on domains that are now excluded
+    this.visitTrackers.forEach((tracker, tabId) => {
+      if (this.isExcludedDomain(tracker.url)) {
+        const duration = Date.now() - tracker.startTime;
+        this.database.updatePageVisitDuration(tracker.visitId, duration);
+        this.visitTrackers.delete(tabId);
+      }
+    });
+
+    // Update the injected scripts on already-open tabs
+    this.windowManager.allTabs.forEach((tab) => {
+      if (this.trackedTabs.has(tab.id)) {
+        this.pushPageConfig(tab.webContents, tab.url);
+      }
+    });
+  }
+
+  private getPageConfig(url: string): PageTrackingConfig {
+    const active = this.sessionId !== null && !this.isExcludedDomain(url);
+    return {
+      interactions: active && this.settings.shouldTrackInteractions(),
+      scroll: active && this.settings.shouldTrackScrollEvents(),
+      clipboard: active && this.settings.shouldTrackClipboard(),
+    };
   }
 
-  setEmbeddingModel(
-    embeddingModel: ReturnType<
-      typeof import("@ai-sdk/openai").openai.embedding
-    > | null,
-  ): void {
-    this.embeddingModel = embeddingModel;
+  private pushPageConfig(webContents: WebContents, url: string): void {
+    if (webContents.isDestroyed()) return;
+    const config = JSON.stringify(this.getPageConfig(url));
+    webContents
+      .executeJavaScript(`window.__blueberryTracking = ${config};`)
+      .catch(() => {
+        // Page may be mid-navigation; the next load injects fresh config
+      });
+  }
+
+  // Set embedding indexer for RAG functionality
+  setEmbeddingIndexer(embeddingIndexer: EmbeddingIndexer): void {
+    this.embeddingIndexer = embeddingIndexer;
   }
 
   // Setup listeners for a tab
@@ -105,11 +186,29 @@ export class HistoryTracker {
     if (this.trackedTabs.has(tabId)) return;
     this.trackedTabs.add(tabId);
 
-    const webContents = tab.webContents;
-
     // Record tab creation
     this.database.recordTabEvent(this.sessionId, tabId, "created");
 
+    this.listenToPage(tab);
+  }
+
+  // The tab's page moved to a new view, as when the tab is hibernated or
+  // woken up. The tab and its current visit carry on; only the new view's
+  // events need following.
+  handleTabViewReplaced(tab: Tab): void {
+    if (!this.enabled || this.sessionId === null) return;
+
+    if (!this.trackedTabs.has(tab.id)) {
+      this.setupTabListeners(tab);
+      return;
+    }
+    this.listenToPage(tab);
+  }
+
+  private listenToPage(tab: Tab): void {
+    const tabId = tab.id;
+    const webContents = tab.webContents;
+
     // Track navigation
     webContents.on("did-navigate", (_, url) => {
       this.handleNavigation(tab, url);
@@ -189,7 +288,7 @@ export class HistoryTracker {
 
     // Generate embedding after DOM snapshot (for RAG)
     setTimeout(() => {
-      void this.generateEmbedding(tab, visitId);
+      void this.embeddingIndexer?.indexVisit(visitId);
     }, 2000);
   }
 
@@ -244,16 +343,21 @@ export class HistoryTracker {
     if (!tracker) return;
 
     const visitId = tracker.visitId;
+    const config = JSON.stringify(this.getPageConfig(tracker.url));
 
     // Inject a content script that will track interactions
     const trackingScript = `
       (function() {
+        window.__blueberryTracking = ${config};
+        const isOn = (flag) => !!(window.__blueberryTracking && window.__blueberryTracking[flag]);
+
         console.log('[HistoryTracker] Injected tracking script, visitId: ${visitId}');
         console.log('[HistoryTracker] electronAPI available:', !!window.electronAPI);
         console.log('[HistoryTracker] trackInteraction available:', !!window.electronAPI?.trackInteraction);
         
         // Track clicks
         document.addEventListener('click', (e) => {
+          if (!isOn('interactions')) return;
           console.log('[HistoryTracker] Click detected');
           const target = e.target;
           const selector = getSelector(target);
@@ -276,6 +380,7 @@ export class HistoryTracker {
         let inputTimeout = null;
         let inputCount = 0;
         document.addEventListener('input', (e) => {
+          if (!isOn('interactions')) return;
           inputCount++;
           console.log('[HistoryTracker] Input event fired, count:', inputCount);
           
@@ -324,6 +429,7 @@ export class HistoryTracker {
         let scrollTimeout;
         let lastScrollTime = 0;
         document.addEventListener('scroll', () => {
+          if (!isOn('scroll')) return;
           const now = Date.now();
           if (now - lastScrollTime < 500) return; // Throttle to max once per 500ms
           
@@ -342,6 +448,7 @@ export class HistoryTracker {
 
         // Track text selection
         document.addEventListener('selectionchange', () => {
+          if (!isOn('interactions')) return;
           const selection = window.getSelection();
           if (selection && selection.toString().length > 0) {
             window.electronAPI?.trackInteraction({
@@ -353,6 +460,20 @@ export class HistoryTracker {
           }
         });
 
+        // Track clipboard usage (copied/cut text only, never pasted content)
+        const trackClipboard = () => {
+          if (!isOn('clipboard')) return;
+          const selection = window.getSelection();
+          window.electronAPI?.trackInteraction({
+            visitId: ${visitId},
+            type: 'clipboard',
+            value: selection ? selection.toString().substring(0, 100) : '',
+            timestamp: Date.now()
+          });
+        };
+        document.addEventListener('copy', trackClipboard, true);
+        document.addEventListener('cut', trackClipboard, true);
+
         // Helper function to get a CSS selector for an element
         function getSelector(element) {
           if (!element) return null;
@@ -404,7 +525,7 @@ export class HistoryTracker {
 
     try {
       const image = await tab.screenshot();
-      const imageData = image.toDataURL();
+      const imageData = this.encodeScreenshot(image);
       this.database.recordScreenshot(visitId, imageData);
       tracker.lastScreenshot = now;
     } catch (error) {
@@ -412,6 +533,19 @@ export class HistoryTracker {
     }
   }
 
+  // Downscale and compress screenshots according to the quality setting
+  private encodeScreenshot(image: NativeImage): string {
+    const quality = this.settings.getScreenshotQuality();
+    if (quality === "high") {
+      return image.toDataURL();
+    }
+
+    const { width, jpegQuality } = this.SCREENSHOT_SETTINGS[quality];
+    const resized =
+      image.getSize().width > width ? image.resize({ width }) : image;
+    return `data:image/jpeg;base64,${resized.toJPEG(jpegQuality).toString("base64")}`;
+  }
+
   // Capture DOM snapshot (throttled)
   private async captureDOMSnapshot(tab: Tab, visitId: number): Promise<void> {
     const tracker = this.visitTrackers.get(tab.id);
@@ -444,7 +578,14 @@ export class HistoryTracker {
     timestamp: number;
   }): void {
     console.log("[HistoryTracker] Recording interaction:", interaction);
-    if (!this.enabled) return;
+    if (!this.enabled || this.sessionId === null) return;
+    if (!this.isInteractionAllowed(interaction.type)) return;
+
+    // Drop events from visits that are no longer tracked (e.g. excluded)
+    const isTrackedVisit = Array.from(this.visitTrackers.values()).some(
+      (tracker) => tracker.visitId === interaction.visitId,
+    );
+    if (!isTrackedVisit) return;
 
     this.pendingInteractions.push(interaction);
 
@@ -454,6 +595,19 @@ export class HistoryTracker {
     }
   }
 
+  // Log site permissions the user granted against the tab's current visit
+  recordPermissionGrants(
+    tabId: string,
+    origin: string,
+    permissions: string[],
+  ): void {
+    if (!this.enabled || this.sessionId === null) return;
+
+    const tracker = this.visitTrackers.get(tabId);
+    if (!tracker) return;
+    this.database.recordPermissionGrants(tracker.visitId, origin, permissions);
+  }
+
   // Flush pending interactions to database
   public flushInteractions(): void {
     if (this.pendingInteractions.length === 0) return;
@@ -474,30 +628,25 @@ export class HistoryTracker {
     this.flushInteractions();
   }
 
-  // Domain exclusion
-  private isExcludedDomain(url: string): boolean {
-    try {
-      const hostname = new URL(url).hostname;
-      return this.excludedDomains.has(hostname);
-    } catch {
-      return false;
+  private isInteractionAllowed(type: PendingInteraction["type"]): boolean {
+    switch (type) {
+      case "scroll":
+        return this.settings.shouldTrackScrollEvents();
+      case "clipboard":
+        return this.settings.shouldTrackClipboard();
+      default:
+        return this.settings.shouldTrackInteractions();
     }
   }
 
-  addExcludedDomain(domain: string): void {
-    this.excludedDomains.add(domain);
-  }
-
-  removeExcludedDomain(domain: string): void {
-    this.excludedDomains.delete(domain);
+  // Domain exclusion
+  private isExcludedDomain(url: string): boolean {
+    return this.settings.isDomainExcluded(url);
   }
 
   // Enable/disable tracking
   setEnabled(enabled: boolean): void {
-    this.enabled = enabled;
-    if (!enabled && this.sessionId !== null) {
-      this.stop();
-    }
+    this.settings.setEnabled(enabled);
   }
 
   isEnabled(): boolean {
@@ -512,47 +661,4 @@ export class HistoryTracker {
   getCurrentVisitId(tabId: string): number | null {
     return this.visitTrackers.get(tabId)?.visitId || null;
   }
-
-  // Generate embedding for RAG
-  private async generateEmbedding(_tab: Tab, visitId: number): Promise<void> {
-    if (!this.vectorStore || !this.embeddingModel) return;
-    if (this.database.hasEmbedding(visitId)) return;
-
-    try {
-      // Get page content
-      const content = this.database.getVisitContent(visitId);
-      if (!content) return;
-
-      // Extract text from HTML (simple approach)
-      const text = content.html.replace(/<[^>]*>/g, " ").substring(0, 8000);
-      const embeddingText = `${content.title}\n${content.url}\n${text}`;
-
-      // Generate content hash
-      const contentHash = createHash("md5").update(embeddingText).digest("hex");
-
-      // Generate embedding
-      const { embedMany } = await import("ai");
-      const { embeddings } = await embedMany({
-        model: this.embeddingModel,
-        values: [embeddingText],
-      });
-
-      // Store in vector index
-      await this.vectorStore.addVector(visitId, embeddings[0]);
-
-      // Record in database
-      this.database.recordEmbedding(
-        visitId,
-        "text-embedding-3-small",
-        contentHash,
-      );
-
-      console.log(`[HistoryTracker] Generated embedding for visit ${visitId}`);
-    } catch (error) {
-      console.error(
-        `[HistoryTracker] Failed to generate embedding for visit ${visitId}:`,
-        error,
-      );
-    }
-  }
 }
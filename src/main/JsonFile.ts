@@ -0,0 +1,38 @@
+import { app } from "electron";
+import { existsSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { join } from "path";
+
+// Small JSON document stored in the userData directory. Writes go through a
+// temporary file and a rename so a crash never leaves a half-written file.
+export class JsonFile<T> {
+  private filePath: string;
+
+  constructor(fileName: string) {
+    const userDataPath = app.getPath("userData");
+    this.filePath = join(userDataPath, fileName);
+  }
+
+  get path(): string {
+    return this.filePath;
+  }
+
+  read(): T | null {
+    if (!existsSync(this.filePath)) return null;
+    try {
+      return JSON.parse(readFileSync(this.filePath, "utf-8")) as T;
+    } catch (error) {
+      console.error(`[JsonFile] Failed to read ${this.filePath}:`, error);
+      return null;
+    }
+  }
+
+  write(data: T): void {
+    const tempPath = `${this.filePath}.tmp`;
+    try {
+      writeFileSync(tempPath, JSON.stringify(data, null, 2));
+      renameSync(tempPath, this.filePath);
+    } catch (error) {
+      console.error(`[JsonFile] Failed to write ${this.filePath}:`, error);
+    }
+  }
+}
@@ -2,17 +2,22 @@ import { anthropic } from "@ai-sdk/anthropic";
 import { openai } from "@ai-sdk/openai";
 import {
   convertToModelMessages,
-  embedMany,
   generateId,
   generateText,
+  stepCountIs,
   streamText,
   tool,
   type LanguageModel,
+  type ToolSet,
   type UIMessage,
 } from "ai";
 import { WebContents } from "electron";
 import { z } from "zod";
-import type { VectorStore } from "./VectorStore";
+import { AgentTools, type AgentAction } from "./AgentTools";
+import type { ConversationStore } from "./ConversationStore";
+import type { EmbeddingProvider } from "./embeddings/EmbeddingProvider";
+import type { Tab } from "./Tab";
+import { TabContext, type ContextSource } from "./TabContext";
 import type { Window } from "./Window";
 
 import type { ChatRequest } from "../preload/panel.d";
@@ -22,6 +27,16 @@ interface StreamChunk {
   isComplete: boolean;
 }
 
+// Assistant message being streamed, plus what its tools have done so far
+interface AssistantResponse {
+  id: string;
+  index: number;
+  text: string;
+  toolResults: Array<{ toolName: string; result: unknown }>;
+  actions: AgentAction[];
+  sources: ContextSource[];
+}
+
 type LLMProvider = "openai" | "anthropic";
 
 const DEFAULT_MODELS: Record<LLMProvider, string> = {
@@ -29,8 +44,9 @@ const DEFAULT_MODELS: Record<LLMProvider, string> = {
   anthropic: "claude-3-5-sonnet-20241022",
 };
 
-const MAX_CONTEXT_LENGTH = 4000;
 const DEFAULT_TEMPERATURE = 0.7;
+const MAX_AGENT_STEPS = 10;
+const CONFIRMATION_TIMEOUT = 2 * 60 * 1000; // Deny unanswered confirmations
 
 export class LLMClient {
   private readonly webContents: WebContents;
@@ -38,16 +54,20 @@ export class LLMClient {
   private readonly provider: LLMProvider;
   private readonly modelName: string;
   private readonly model: LanguageModel | null;
-  public readonly embeddingModel: ReturnType<typeof openai.embedding> | null;
+  private embeddingProvider: EmbeddingProvider | null = null;
   private messages: UIMessage[] = [];
-  private vectorStore: VectorStore | null = null;
+  private conversationStore: ConversationStore | null = null;
+  private conversationId: number | null = null;
+  private isResponding: boolean = false;
+  private readonly tabContext: TabContext = new TabContext();
+  private pendingConfirmations: Map<string, (approved: boolean) => void> =
+    new Map();
 
   constructor(webContents: WebContents) {
     this.webContents = webContents;
     this.provider = this.getProvider();
     this.modelName = this.getModelName();
     this.model = this.initializeModel();
-    this.embeddingModel = this.initializeEmbeddingModel();
 
     this.logInitializationStatus();
   }
@@ -57,8 +77,23 @@ export class LLMClient {
     this.window = window;
   }
 
-  setVectorStore(vectorStore: VectorStore): void {
-    this.vectorStore = vectorStore;
+  setEmbeddingProvider(embeddingProvider: EmbeddingProvider): void {
+    this.embeddingProvider = embeddingProvider;
+  }
+
+  // Enable persistence and reopen the most recent conversation
+  setConversationStore(conversationStore: ConversationStore): void {
+    this.conversationStore = conversationStore;
+    if (this.messages.length > 0) return;
+
+    const [latest] = conversationStore.list(1);
+    if (latest) {
+      this.openConversation(latest.id);
+    }
+  }
+
+  get activeConversationId(): number | null {
+    return this.conversationId;
   }
 
   private getProvider(): LLMProvider {
@@ -85,16 +120,6 @@ export class LLMClient {
     }
   }
 
-  private initializeEmbeddingModel(): ReturnType<
-    typeof openai.embedding
-  > | null {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) return null;
-
-    // Always use OpenAI for embeddings as it's most reliable
-    return openai.embedding("text-embedding-3-small");
-  }
-
   private getApiKey(): string | undefined {
     switch (this.provider) {
       case "anthropic":
@@ -122,11 +147,12 @@ export class LLMClient {
   }
 
   async sendChatMessage(request: ChatRequest): Promise<void> {
+    this.isResponding = true;
     try {
       // Get screenshot from active tab if available
       let screenshot: string | null = null;
+      const activeTab = this.window?.activeTab ?? null;
       if (this.window) {
-        const activeTab = this.window.activeTab;
         if (activeTab) {
           try {
             const image = await activeTab.screenshot();
@@ -167,6 +193,16 @@ export class LLMClient {
 
       this.messages.push(userMessage);
 
+      // Start a conversation on the first message, tied to the current tab
+      if (this.conversationStore && this.conversationId === null) {
+        this.conversationId = this.conversationStore.create(
+          request.message,
+          activeTab?.id ?? null,
+          activeTab?.url ?? null,
+        );
+      }
+      this.saveConversation();
+
       // Send updated messages to renderer
       this.sendMessagesToRenderer();
 
@@ -178,11 +214,23 @@ export class LLMClient {
         return;
       }
 
-      const messages = await this.prepareMessagesWithContext();
-      await this.streamResponse(messages, request.messageId);
+      const agentMode = request.agentMode === true;
+      const { messages, sources } = await this.prepareMessagesWithContext(
+        request,
+        agentMode,
+      );
+      await this.streamResponse(
+        messages,
+        request.messageId,
+        agentMode,
+        sources,
+      );
     } catch (error) {
       console.error("Error in LLM request:", error);
       this.handleStreamError(error, request.messageId);
+    } finally {
+      this.isResponding = false;
+      this.saveConversation();
     }
   }
 
@@ -193,8 +241,8 @@ export class LLMClient {
       throw new Error("LLM not configured");
     }
 
-    if (!this.embeddingModel) {
-      throw new Error("Embedding model not configured");
+    if (!this.embeddingProvider) {
+      throw new Error("Embedding provider not configured");
     }
 
     // 1. Generate embeddings for each tab
@@ -207,10 +255,7 @@ export class LLMClient {
       }
     });
 
-    const { embeddings } = await embedMany({
-      model: this.embeddingModel,
-      values: tabTexts,
-    });
+    const embeddings = await this.embeddingProvider.embed(tabTexts);
 
     // 2. Calculate similarity matrix and cluster
     const clusters = this.clusterBySimilarity(embeddings);
@@ -310,8 +355,96 @@ Respond ONLY with a valid JSON array (no markdown code blocks):
   }
 
   clearMessages(): void {
+    // Deny anything still waiting on the user
+    this.pendingConfirmations.forEach((resolve) => resolve(false));
+    this.pendingConfirmations.clear();
+
+    // The old conversation stays saved; the next message starts a new one
     this.messages = [];
+    this.conversationId = null;
     this.sendMessagesToRenderer();
+    this.notifyConversationsChanged();
+  }
+
+  // Replace the current chat with a saved conversation
+  openConversation(conversationId: number): boolean {
+    if (!this.conversationStore || this.isResponding) return false;
+
+    const messages = this.conversationStore.load(conversationId);
+    if (!messages) return false;
+
+    this.messages = messages;
+    this.conversationId = conversationId;
+    this.sendMessagesToRenderer();
+    this.notifyConversationsChanged();
+    return true;
+  }
+
+  // Continue from `messageId` in a new conversation, leaving this one as is
+  forkConversation(messageId: string): number | null {
+    if (!this.conversationStore || this.isResponding) return null;
+    if (this.conversationId === null) return null;
+
+    this.saveConversation();
+    const forkId = this.conversationStore.fork(
+      this.conversationId,
+      this.messages,
+      messageId,
+    );
+    if (forkId === null) return null;
+
+    this.openConversation(forkId);
+    return forkId;
+  }
+
+  deleteConversation(conversationId: number): boolean {
+    if (!this.conversationStore) return false;
+    if (conversationId === this.conversationId) {
+      if (this.isResponding) return false;
+      this.conversationId = null;
+      this.messages = [];
+      this.sendMessagesToRenderer();
+    }
+
+    const deleted = this.conversationStore.delete(conversationId);
+    this.notifyConversationsChanged();
+    return deleted;
+  }
+
+  private saveConversation(): void {
+    if (!this.conversationStore || this.conversationId === null) return;
+    try {
+      this.conversationStore.save(this.conversationId, this.messages);
+      this.notifyConversationsChanged();
+    } catch (error) {
+      console.error("[LLMClient] Failed to save conversation:", error);
+    }
+  }
+
+  private notifyConversationsChanged(): void {
+    this.webContents.send("chat-conversations-updated", this.conversationId);
+  }
+
+  // Answer a confirmation requested by a destructive agent action
+  resolveConfirmation(actionId: string, approved: boolean): boolean {
+    const resolve = this.pendingConfirmations.get(actionId);
+    if (!resolve) return false;
+    this.pendingConfirmations.delete(actionId);
+    resolve(approved);
+    return true;
+  }
+
+  private requestConfirmation(action: AgentAction): Promise<boolean> {
+    return new Promise((resolve) => {
+      const timeout = setTimeout(() => {
+        this.resolveConfirmation(action.id, false);
+      }, CONFIRMATION_TIMEOUT);
+
+      this.pendingConfirmations.set(action.id, (approved) => {
+        clearTimeout(timeout);
+        resolve(approved);
+      });
+    });
   }
 
   getMessages(): UIMessage[] {
@@ -322,74 +455,90 @@ Respond ONLY with a valid JSON array (no markdown code blocks):
     this.webContents.send("chat-messages-updated", this.messages);
   }
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private getTools(): any {
+  private getTools(agentMode: boolean, response: AssistantResponse): ToolSet {
+    const agentTools =
+      agentMode && this.window
+        ? new AgentTools(this.window, {
+            onActionUpdate: (action) => {
+              const idx = response.actions.findIndex((a) => a.id === action.id);
+              if (idx === -1) {
+                response.actions.push(action);
+              } else {
+                response.actions[idx] = action;
+              }
+              this.updateAssistantMessage(response, true);
+            },
+            requestConfirmation: (action) => this.requestConfirmation(action),
+          }).getTools()
+        : {};
+
     return {
+      ...agentTools,
       search_browsing_history: tool({
         description:
-          "Search the user's browsing history semantically. Returns top 3 most relevant pages.",
+          "Search the user's browsing history by keywords and meaning. Returns the most relevant pages with a text snippet.",
         inputSchema: z.object({
           query: z
             .string()
             .describe("What the user is looking for in their browsing history"),
+          domain: z
+            .string()
+            .optional()
+            .describe("Only return pages from this domain, e.g. github.com"),
+          sinceDays: z
+            .number()
+            .optional()
+            .describe("Only return pages visited in the last N days"),
         }),
-        execute: async ({ query }: { query: string }) => {
-          return await this.searchBrowsingHistory(query);
+        execute: async ({
+          query,
+          domain,
+          sinceDays,
+        }: {
+          query: string;
+          domain?: string;
+          sinceDays?: number;
+        }) => {
+          return await this.searchBrowsingHistory(query, domain, sinceDays);
         },
       }),
     };
   }
 
-  private async searchBrowsingHistory(query: string): Promise<{
+  private async searchBrowsingHistory(
+    query: string,
+    domain?: string,
+    sinceDays?: number,
+  ): Promise<{
     matches: Array<{
       visitId: number;
       title: string;
       url: string;
       timestamp: number;
+      snippet: string;
     }>;
   }> {
-    if (!this.vectorStore || !this.embeddingModel || !this.window) {
+    if (!this.window) {
       return { matches: [] };
     }
 
     try {
-      // Generate embedding for query
-      const { embeddings } = await embedMany({
-        model: this.embeddingModel,
-        values: [query],
+      const results = await this.window.historySearch.search(query, {
+        domain,
+        startTime:
+          sinceDays !== undefined
+            ? Date.now() - sinceDays * 24 * 60 * 60 * 1000
+            : undefined,
+        limit: 5,
       });
 
-      // Search vector store
-      const visitIds = this.vectorStore.search(embeddings[0], 3);
-      console.log(`[LLMClient] Vector search returned visit IDs:`, visitIds);
-
-      // Get page details from database
-      const database = this.window.historyDatabase;
-      const matches = visitIds
-        .map((visitId) => {
-          const visit = database.getVisitContent(visitId);
-          console.log(
-            `[LLMClient] Fetching visit ${visitId}:`,
-            visit ? "found" : "not found",
-          );
-          if (!visit) return null;
-
-          // Get timestamp
-          const timestamp = database.getVisitTimestamp(visitId) || 0;
-
-          return {
-            visitId,
-            title: visit.title,
-            url: visit.url,
-            timestamp,
-          };
-        })
-        .filter(Boolean) as Array<{
-        visitId: number;
-        title: string;
-        url: string;
-        timestamp: number;
-      }>;
+      const matches = results.map(({ visit, snippet }) => ({
+        visitId: visit.id,
+        title: visit.title,
+        url: visit.url,
+        timestamp: visit.timestamp,
+        snippet: snippet.map((part) => part.text).join(""),
+      }));
 
       console.log(`[LLMClient] Returning ${matches.length} matches`);
       return { matches };
@@ -399,22 +548,14 @@ Respond ONLY with a valid JSON array (no markdown code blocks):
     }
   }
 
-  private async prepareMessagesWithContext(): Promise<UIMessage[]> {
-    // Get page context from active tab
-    let pageUrl: string | null = null;
-    let pageText: string | null = null;
-
-    if (this.window) {
-      const activeTab = this.window.activeTab;
-      if (activeTab) {
-        pageUrl = activeTab.url;
-        try {
-          pageText = await activeTab.getTabText();
-        } catch (error) {
-          console.error("Failed to get page text:", error);
-        }
-      }
-    }
+  private async prepareMessagesWithContext(
+    request: ChatRequest,
+    agentMode: boolean,
+  ): Promise<{ messages: UIMessage[]; sources: ContextSource[] }> {
+    const tabs = this.getContextTabs(request);
+    const pinned =
+      !!request.contextGroupId || (request.contextTabIds?.length ?? 0) > 0;
+    const context = await this.tabContext.build(tabs, request.message);
 
     // Build system message in UIMessage format
     const systemMessage: UIMessage = {
@@ -423,18 +564,45 @@ Respond ONLY with a valid JSON array (no markdown code blocks):
       parts: [
         {
           type: "text" as const,
-          text: this.buildSystemPrompt(pageUrl, pageText),
+          text: this.buildSystemPrompt(context.text, pinned, agentMode),
         },
       ],
     };
 
     // Include all messages in history (system + conversation)
-    return [systemMessage, ...this.messages];
+    return {
+      messages: [systemMessage, ...this.messages],
+      sources: context.sources,
+    };
+  }
+
+  // Tabs pinned as context (a whole group and/or individual tabs), or the
+  // active tab when nothing is pinned
+  private getContextTabs(request: ChatRequest): Tab[] {
+    if (!this.window) return [];
+
+    const tabs: Tab[] = [];
+    if (request.contextGroupId) {
+      tabs.push(
+        ...this.window.allTabs
+          .filter((tab) => tab.groupId === request.contextGroupId)
+          .sort((a, b) => a.position - b.position),
+      );
+    }
+    for (const tabId of request.contextTabIds ?? []) {
+      const tab = this.window.getTab(tabId);
+      if (tab && !tabs.includes(tab)) tabs.push(tab);
+    }
+
+    if (tabs.length > 0) return tabs;
+    const activeTab = this.window.activeTab;
+    return activeTab ? [activeTab] : [];
   }
 
   private buildSystemPrompt(
-    url: string | null,
-    pageText: string | null,
+    contextText: string,
+    pinned: boolean,
+    agentMode: boolean,
   ): string {
     const parts: string[] = [
       "You are a helpful AI assistant integrated into a web browser.",
@@ -446,7 +614,7 @@ Respond ONLY with a valid JSON array (no markdown code blocks):
     parts.push(
       "\nBROWSING HISTORY SEARCH:",
       'When the user asks to find or open something they\'ve browsed before (e.g., "open that tweet about X", "find the article I read about Y"), use the search_browsing_history tool.',
-      "The tool returns the top 3 most relevant pages. Present them to the user and let them choose which one to open. Do not automatically open pages without user confirmation.",
+      "The tool returns the most relevant pages. Present them to the user and let them choose which one to open. Do not automatically open pages without user confirmation.",
       "\nExample:",
       'User: "Open the tweet about climate change"',
       "You: [use search_browsing_history tool]",
@@ -458,31 +626,43 @@ Respond ONLY with a valid JSON array (no markdown code blocks):
       "Click on the one you'd like to open.\"",
     );
 
-    if (url) {
-      parts.push(`\nCurrent page URL: ${url}`);
+    if (agentMode) {
+      parts.push(
+        "\nAGENT MODE:",
+        "You can operate the browser with tools: list, open, switch, close and group tabs, navigate, search the web, read any tab's text, click elements and type into inputs.",
+        "Work step by step: call list_tabs to get tab ids, read a page before clicking or typing on it, and check results before continuing.",
+        "Closing tabs and submitting forms require the user's confirmation. If the user declines, do not retry; explain what you did instead.",
+        "When you are done, briefly summarize the actions you took.",
+      );
     }
 
-    if (pageText) {
-      const truncatedText = this.truncateText(pageText, MAX_CONTEXT_LENGTH);
-      parts.push(`\nPage content (text):\n${truncatedText}`);
+    if (contextText) {
+      parts.push(
+        pinned
+          ? "\nThe user has shared these tabs with you, numbered [1], [2] and so on:"
+          : "\nThe current tab, numbered [1]:",
+        "Pages may be shortened to fit; [...] marks skipped content.",
+        `\n${contextText}`,
+        "\nCITATIONS:",
+        "When you use information from a tab, cite it inline with its number in square brackets, e.g. [1] or [2][3]. Only cite numbers listed above.",
+      );
     }
 
     parts.push(
-      "\nPlease provide helpful, accurate, and contextual responses about the current webpage.",
+      pinned
+        ? "\nPlease provide helpful, accurate responses grounded in the shared tabs, comparing them when asked."
+        : "\nPlease provide helpful, accurate, and contextual responses about the current webpage.",
       "If the user asks about specific content, refer to the page content and/or screenshot provided.",
     );
 
     return parts.join("\n");
   }
 
-  private truncateText(text: string, maxLength: number): string {
-    if (text.length <= maxLength) return text;
-    return text.substring(0, maxLength) + "...";
-  }
-
   private async streamResponse(
     messages: UIMessage[],
     messageId: string,
+    agentMode: boolean,
+    sources: ContextSource[],
   ): Promise<void> {
     if (!this.model) {
       throw new Error("Model not initialized");
@@ -491,61 +671,85 @@ Respond ONLY with a valid JSON array (no markdown code blocks):
     // Convert UIMessage to ModelMessage for the language model
     const modelMessages = convertToModelMessages(messages);
 
+    // Create a placeholder assistant message for tools to report into
+    const response: AssistantResponse = {
+      id: generateId(),
+      index: this.messages.length,
+      text: "",
+      toolResults: [],
+      actions: [],
+      sources,
+    };
+    this.messages.push({
+      id: response.id,
+      role: "assistant",
+      parts: [{ type: "text" as const, text: "" }],
+      metadata: {
+        isStreaming: true,
+        sources,
+      },
+    });
+
     const result = streamText({
       model: this.model,
       messages: modelMessages,
       temperature: DEFAULT_TEMPERATURE,
       maxRetries: 3,
-      tools: this.getTools(),
+      tools: this.getTools(agentMode, response),
+      // Agent mode keeps calling tools until the task is done
+      stopWhen: agentMode ? stepCountIs(MAX_AGENT_STEPS) : stepCountIs(1),
       abortSignal: undefined, // Could add abort controller for cancellation
     });
 
-    await this.processStream(result, messageId);
+    await this.processStream(result, messageId, response);
   }
 
-  private async processStream(
-    result: unknown,
-    messageId: string,
-  ): Promise<void> {
-    let accumulatedText = "";
-    const toolResults: Array<{ toolName: string; result: unknown }> = [];
-
-    // Create a placeholder assistant message in UIMessage format
-    const assistantMessageId = generateId();
-    const assistantMessage: UIMessage = {
-      id: assistantMessageId,
+  private updateAssistantMessage(
+    response: AssistantResponse,
+    isStreaming: boolean,
+  ): void {
+    this.messages[response.index] = {
+      id: response.id,
       role: "assistant",
-      parts: [{ type: "text" as const, text: "" }],
+      parts: [{ type: "text" as const, text: response.text }],
       metadata: {
-        isStreaming: true,
+        isStreaming,
+        toolResults:
+          response.toolResults.length > 0 ? response.toolResults : undefined,
+        agentActions:
+          response.actions.length > 0 ? response.actions : undefined,
+        sources: response.sources.length > 0 ? response.sources : undefined,
       },
     };
+    this.sendMessagesToRenderer();
+  }
 
-    // Keep track of the index for updates
-    const messageIndex = this.messages.length;
-    this.messages.push(assistantMessage);
-
+  private async processStream(
+    result: unknown,
+    messageId: string,
+    response: AssistantResponse,
+  ): Promise<void> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const resultStream = result as { fullStream: AsyncIterable<any> };
+    let startedNewStep = false;
     for await (const chunk of resultStream.fullStream) {
       if (chunk.type === "text-delta") {
-        accumulatedText += chunk.text;
+        // Separate text from successive agent steps
+        if (startedNewStep && response.text) {
+          response.text += "\n\n";
+        }
+        startedNewStep = false;
+        response.text += chunk.text;
 
         // Update assistant message content (still streaming)
-        this.messages[messageIndex] = {
-          id: assistantMessageId,
-          role: "assistant",
-          parts: [{ type: "text" as const, text: accumulatedText }],
-          metadata: {
-            isStreaming: true,
-            toolResults: toolResults.length > 0 ? toolResults : undefined,
-          },
-        };
-        this.sendMessagesToRenderer();
+        this.updateAssistantMessage(response, true);
 
         this.sendStreamChunk(messageId, {
           content: chunk.text,
           isComplete: false,
         });
+      } else if (chunk.type === "start-step") {
+        startedNewStep = true;
       } else if (chunk.type === "tool-call") {
         // Send tool call to renderer for UI display
         this.webContents.send("chat-tool-call", {
@@ -555,43 +759,25 @@ Respond ONLY with a valid JSON array (no markdown code blocks):
         });
       } else if (chunk.type === "tool-result") {
         // Store tool result in message metadata
-        toolResults.push({
+        response.toolResults.push({
           toolName: chunk.toolName,
           result: chunk.output,
         });
 
         // Send tool results to renderer
         this.webContents.send("chat-tool-result", {
-          messageId: assistantMessageId,
+          messageId: response.id,
           toolName: chunk.toolName,
           result: chunk.output,
         });
 
         // Update message with tool results
-        this.messages[messageIndex] = {
-          id: assistantMessageId,
-          role: "assistant",
-          parts: [{ type: "text" as const, text: accumulatedText }],
-          metadata: {
-            isStreaming: true,
-            toolResults,
-          },
-        };
-        this.sendMessagesToRenderer();
+        this.updateAssistantMessage(response, true);
       }
     }
 
     // Final update with complete content (not streaming anymore)
-    this.messages[messageIndex] = {
-      id: assistantMessageId,
-      role: "assistant",
-      parts: [{ type: "text" as const, text: accumulatedText }],
-      metadata: {
-        isStreaming: false,
-        toolResults: toolResults.length > 0 ? toolResults : undefined,
-      },
-    };
-    this.sendMessagesToRenderer();
+    this.updateAssistantMessage(response, false);
 
     // Send the final complete signal
     this.sendStreamChunk(messageId, {
@@ -1,134 +1,433 @@
-import { Menu, app } from "electron";
+import { Menu, app, webContents } from "electron";
+import type { Command, CommandRegistry } from "./CommandRegistry";
 import type { Window } from "./Window";
+import type { WindowManager } from "./WindowManager";
+import type { ZoomDirection } from "./ZoomSettings";
 
 export class AppMenu {
-  private mainWindow: Window;
+  private windowManager: WindowManager;
 
-  constructor(mainWindow: Window) {
-    this.mainWindow = mainWindow;
+  constructor(windowManager: WindowManager) {
+    this.windowManager = windowManager;
+    this.registerCommands();
     this.createMenu();
+    // Accelerators follow the key bindings the user sets
+    this.commands.onChange(() => this.createMenu());
+  }
+
+  // Menu actions apply to the window the user last focused
+  private get mainWindow(): Window | null {
+    return this.windowManager.focusedWindow;
+  }
+
+  private get commands(): CommandRegistry {
+    return this.windowManager.commands;
+  }
+
+  // Everything the menu offers, with its default keys. Commands without
+  // `run` are carried out by the window's topbar or sidebar.
+  private registerCommands(): void {
+    const isMac = process.platform === "darwin";
+    const commands: Command[] = [
+      // File
+      {
+        id: "tab.new",
+        label: "New Tab",
+        category: "File",
+        defaultBindings: ["CmdOrCtrl+T"],
+        run: () => this.handleNewTab(),
+      },
+      {
+        id: "window.new",
+        label: "New Window",
+        category: "File",
+        defaultBindings: ["CmdOrCtrl+N"],
+        run: () => this.handleNewWindow(),
+      },
+      {
+        id: "window.new-private",
+        label: "New Private Window",
+        category: "File",
+        defaultBindings: ["CmdOrCtrl+Shift+N"],
+        run: () => this.handleNewPrivateWindow(),
+      },
+      {
+        id: "address-bar.focus",
+        label: "Open Location…",
+        category: "File",
+        defaultBindings: ["CmdOrCtrl+L"],
+      },
+      {
+        id: "tab.close",
+        label: "Close Tab",
+        category: "File",
+        defaultBindings: ["CmdOrCtrl+W"],
+        run: () => this.handleCloseTab(),
+      },
+      {
+        id: "tab.reopen-closed",
+        label: "Reopen Closed Tab",
+        category: "File",
+        defaultBindings: ["CmdOrCtrl+Shift+T"],
+        run: () => this.handleReopenClosedTab(),
+      },
+      {
+        id: "tab.move-to-new-window",
+        label: "Move Tab to New Window",
+        category: "File",
+        defaultBindings: [],
+        run: () => this.handleMoveTabToNewWindow(),
+      },
+      {
+        id: "window.close",
+        label: "Close Window",
+        category: "File",
+        defaultBindings: ["CmdOrCtrl+Shift+W"],
+        run: (window) => window?.close(),
+      },
+      {
+        id: "session.restore",
+        label: "Restore Previous Session",
+        category: "File",
+        defaultBindings: [],
+        run: () => this.handleRestorePreviousSession(),
+      },
+      {
+        id: "bookmarks.import",
+        label: "Import Bookmarks…",
+        category: "File",
+        defaultBindings: [],
+        run: () => this.handleImportBookmarks(),
+      },
+      {
+        id: "bookmarks.export",
+        label: "Export Bookmarks…",
+        category: "File",
+        defaultBindings: [],
+        run: () => this.handleExportBookmarks(),
+      },
+      {
+        id: "app.quit",
+        label: "Quit",
+        category: "File",
+        defaultBindings: [isMac ? "Cmd+Q" : "Ctrl+Q"],
+        run: () => app.quit(),
+      },
+
+      // Edit; the menu entries use Electron's roles, these run them for
+      // anything else that invokes the commands
+      {
+        id: "edit.undo",
+        label: "Undo",
+        category: "Edit",
+        defaultBindings: ["CmdOrCtrl+Z"],
+        run: () => webContents.getFocusedWebContents()?.undo(),
+      },
+      {
+        id: "edit.redo",
+        label: "Redo",
+        category: "Edit",
+        defaultBindings: ["Shift+CmdOrCtrl+Z"],
+        run: () => webContents.getFocusedWebContents()?.redo(),
+      },
+      {
+        id: "edit.cut",
+        label: "Cut",
+        category: "Edit",
+        defaultBindings: ["CmdOrCtrl+X"],
+        run: () => webContents.getFocusedWebContents()?.cut(),
+      },
+      {
+        id: "edit.copy",
+        label: "Copy",
+        category: "Edit",
+        defaultBindings: ["CmdOrCtrl+C"],
+        run: () => webContents.getFocusedWebContents()?.copy(),
+      },
+      {
+        id: "edit.paste",
+        label: "Paste",
+        category: "Edit",
+        defaultBindings: ["CmdOrCtrl+V"],
+        run: () => webContents.getFocusedWebContents()?.paste(),
+      },
+      {
+        id: "edit.select-all",
+        label: "Select All",
+        category: "Edit",
+        defaultBindings: ["CmdOrCtrl+A"],
+        run: () => webContents.getFocusedWebContents()?.selectAll(),
+      },
+      {
+        id: "find.open",
+        label: "Find…",
+        category: "Edit",
+        defaultBindings: ["CmdOrCtrl+F"],
+        run: (window) => window?.openFindBar(),
+      },
+
+      // View
+      {
+        id: "tab.reload",
+        label: "Reload",
+        category: "View",
+        defaultBindings: ["CmdOrCtrl+R"],
+        run: () => this.handleReload(),
+      },
+      {
+        id: "tab.force-reload",
+        label: "Force Reload",
+        category: "View",
+        defaultBindings: ["CmdOrCtrl+Shift+R"],
+        run: () => this.handleForceReload(),
+      },
+      {
+        id: "zoom.reset",
+        label: "Actual Size",
+        category: "View",
+        defaultBindings: ["CmdOrCtrl+0"],
+        run: () => this.handleZoom("reset"),
+      },
+      {
+        // Cmd/Ctrl+= zooms in too, without needing Shift
+        id: "zoom.in",
+        label: "Zoom In",
+        category: "View",
+        defaultBindings: ["CmdOrCtrl+Plus", "CmdOrCtrl+="],
+        run: () => this.handleZoom("in"),
+      },
+      {
+        id: "zoom.out",
+        label: "Zoom Out",
+        category: "View",
+        defaultBindings: ["CmdOrCtrl+-"],
+        run: () => this.handleZoom("out"),
+      },
+      {
+        id: "devtools.sidebar",
+        label: "Toggle Sidebar DevTools",
+        category: "View",
+        defaultBindings: [],
+        run: (window) => window?.sideBar?.toggleDevTools(),
+      },
+      {
+        id: "devtools.topbar",
+        label: "Toggle TopBar DevTools",
+        category: "View",
+        defaultBindings: [],
+        run: (window) => window?.topBar?.toggleDevTools(),
+      },
+      {
+        id: "devtools.panel",
+        label: "Toggle Panel DevTools",
+        category: "View",
+        defaultBindings: [],
+        run: (window) => window?.panel.toggleDevTools(),
+      },
+      {
+        id: "panel.toggle",
+        label: "Toggle Panel",
+        category: "View",
+        defaultBindings: ["CmdOrCtrl+E"],
+        run: () => this.handleTogglePanel(),
+      },
+      {
+        id: "layout.toggle",
+        label: "Toggle Layout (TopBar/Sidebar)",
+        category: "View",
+        defaultBindings: ["CmdOrCtrl+Shift+L"],
+        run: () => this.handleToggleLayout(),
+      },
+      {
+        id: "bar.toggle-visibility",
+        label: "Toggle TopBar/Sidebar Visibility",
+        category: "View",
+        defaultBindings: ["CmdOrCtrl+S"],
+        run: () => this.handleToggleBarVisibility(),
+      },
+      {
+        id: "devtools.tab",
+        label: "Toggle Developer Tools",
+        category: "View",
+        defaultBindings: [isMac ? "Alt+Command+I" : "Ctrl+Shift+I"],
+        run: () => this.handleToggleDevTools(),
+      },
+      {
+        id: "window.toggle-fullscreen",
+        label: "Toggle Fullscreen",
+        category: "View",
+        defaultBindings: [isMac ? "Ctrl+Command+F" : "F11"],
+        run: () => this.handleToggleFullscreen(),
+      },
+
+      // Tabs
+      {
+        id: "tab.next",
+        label: "Select Next Tab",
+        category: "Tabs",
+        defaultBindings: ["Ctrl+Tab", "CmdOrCtrl+Shift+]", "Ctrl+PageDown"],
+        run: (window) => window?.switchToAdjacentTab(1),
+      },
+      {
+        id: "tab.previous",
+        label: "Select Previous Tab",
+        category: "Tabs",
+        defaultBindings: ["Ctrl+Shift+Tab", "CmdOrCtrl+Shift+[", "Ctrl+PageUp"],
+        run: (window) => window?.switchToAdjacentTab(-1),
+      },
+      // Cmd/Ctrl+1 to 8 pick a tab by its place in the tab bar
+      ...Array.from(
+        { length: 8 },
+        (_, index): Command => ({
+          id: `tab.select-${index + 1}`,
+          label: `Select Tab ${index + 1}`,
+          category: "Tabs",
+          defaultBindings: [`CmdOrCtrl+${index + 1}`],
+          run: (window) => window?.switchToTabAt(index),
+        }),
+      ),
+      {
+        id: "tab.select-last",
+        label: "Select Last Tab",
+        category: "Tabs",
+        defaultBindings: ["CmdOrCtrl+9"],
+        run: (window) => window?.switchToTabAt(-1),
+      },
+
+      // Groups; they act on the active tab's group
+      {
+        id: "group.new",
+        label: "Add Tab to New Group…",
+        category: "Groups",
+        defaultBindings: ["CmdOrCtrl+Shift+G"],
+      },
+      {
+        id: "group.remove-tab",
+        label: "Remove Tab from Group",
+        category: "Groups",
+        defaultBindings: ["CmdOrCtrl+Alt+U"],
+        run: () => this.handleRemoveTabFromGroup(),
+      },
+      {
+        id: "group.toggle-collapsed",
+        label: "Collapse or Expand Group",
+        category: "Groups",
+        defaultBindings: ["CmdOrCtrl+Alt+C"],
+        run: () => this.handleToggleGroupCollapsed(),
+      },
+      {
+        id: "group.close",
+        label: "Close Group",
+        category: "Groups",
+        defaultBindings: ["CmdOrCtrl+Alt+W"],
+        run: () => this.handleCloseGroup(),
+      },
+
+      // Navigation
+      {
+        id: "history.back",
+        label: "Back",
+        category: "Navigation",
+        defaultBindings: ["CmdOrCtrl+Left"],
+        run: () => this.handleGoBack(),
+      },
+      {
+        id: "history.forward",
+        label: "Forward",
+        category: "Navigation",
+        defaultBindings: ["CmdOrCtrl+Right"],
+        run: () => this.handleGoForward(),
+      },
+    ];
+    commands.forEach((command) => this.commands.register(command));
   }
 
   private createMenu(): void {
+    // Picking a tab by number works without showing nine menu entries
+    const hidden: Electron.MenuItemConstructorOptions = {
+      visible: false,
+      acceleratorWorksWhenHidden: true,
+    };
+
     const template: Electron.MenuItemConstructorOptions[] = [
       {
         label: "File",
         submenu: [
-          {
-            label: "New Tab",
-            accelerator: "CmdOrCtrl+T",
-            click: () => this.handleNewTab(),
-          },
-          {
-            label: "Close Tab",
-            accelerator: "CmdOrCtrl+W",
-            click: () => this.handleCloseTab(),
-          },
+          ...this.commandItems("tab.new"),
+          ...this.commandItems("window.new"),
+          ...this.commandItems("window.new-private"),
+          ...this.commandItems("address-bar.focus"),
+          ...this.commandItems("tab.close"),
+          ...this.commandItems("tab.reopen-closed"),
+          ...this.commandItems("tab.move-to-new-window"),
+          ...this.commandItems("window.close"),
+          { type: "separator" },
+          ...this.commandItems("session.restore"),
           { type: "separator" },
-          {
-            label: "Quit",
-            accelerator: process.platform === "darwin" ? "Cmd+Q" : "Ctrl+Q",
-            click: () => app.quit(),
-          },
+          ...this.commandItems("bookmarks.import"),
+          ...this.commandItems("bookmarks.export"),
+          { type: "separator" },
+          ...this.commandItems("app.quit"),
         ],
       },
       {
         label: "Edit",
         submenu: [
-          { label: "Undo", accelerator: "CmdOrCtrl+Z", role: "undo" },
-          { label: "Redo", accelerator: "Shift+CmdOrCtrl+Z", role: "redo" },
+          ...this.commandItems("edit.undo", { role: "undo" }),
+          ...this.commandItems("edit.redo", { role: "redo" }),
+          { type: "separator" },
+          ...this.commandItems("edit.cut", { role: "cut" }),
+          ...this.commandItems("edit.copy", { role: "copy" }),
+          ...this.commandItems("edit.paste", { role: "paste" }),
+          ...this.commandItems("edit.select-all", { role: "selectAll" }),
           { type: "separator" },
-          { label: "Cut", accelerator: "CmdOrCtrl+X", role: "cut" },
-          { label: "Copy", accelerator: "CmdOrCtrl+C", role: "copy" },
-          { label: "Paste", accelerator: "CmdOrCtrl+V", role: "paste" },
-          {
-            label: "Select All",
-            accelerator: "CmdOrCtrl+A",
-            role: "selectAll",
-          },
+          ...this.commandItems("find.open"),
         ],
       },
       {
         label: "View",
         submenu: [
-          {
-            label: "Reload",
-            accelerator: "CmdOrCtrl+R",
-            click: () => this.handleReload(),
-          },
-          {
-            label: "Force Reload",
-            accelerator: "CmdOrCtrl+Shift+R",
-            click: () => this.handleForceReload(),
-          },
+          ...this.commandItems("tab.reload"),
+          ...this.commandItems("tab.force-reload"),
           { type: "separator" },
-          {
-            label: "Toggle Sidebar DevTools",
-            click: () => {
-              if (this.mainWindow.sideBar) {
-                this.mainWindow.sideBar.toggleDevTools();
-              }
-            },
-          },
-          {
-            label: "Toggle TopBar DevTools",
-            click: () => {
-              if (this.mainWindow.topBar) {
-                this.mainWindow.topBar.toggleDevTools();
-              }
-            },
-          },
-          {
-            label: "Toggle Panel DevTools",
-            click: () => {
-              this.mainWindow.panel.toggleDevTools();
-            },
-          },
+          ...this.commandItems("zoom.reset"),
+          ...this.commandItems("zoom.in"),
+          ...this.commandItems("zoom.out"),
           { type: "separator" },
-          {
-            label: "Toggle Panel",
-            accelerator: "CmdOrCtrl+E",
-            click: () => this.handleTogglePanel(),
-          },
-          {
-            label: "Toggle Layout (TopBar/Sidebar)",
-            accelerator: "CmdOrCtrl+Shift+L",
-            click: () => this.handleToggleLayout(),
-          },
+          ...this.commandItems("devtools.sidebar"),
+          ...this.commandItems("devtools.topbar"),
+          ...this.commandItems("devtools.panel"),
           { type: "separator" },
-          {
-            label: "Toggle TopBar/Sidebar Visibility",
-            accelerator: "CmdOrCtrl+S",
-            click: () => this.handleToggleBarVisibility(),
-          },
+          ...this.commandItems("panel.toggle"),
+          ...this.commandItems("layout.toggle"),
+          { type: "separator" },
+          ...this.commandItems("bar.toggle-visibility"),
+          { type: "separator" },
+          ...this.commandItems("devtools.tab"),
+          ...this.commandItems("window.toggle-fullscreen"),
+        ],
+      },
+      {
+        label: "Tab",
+        submenu: [
+          ...this.commandItems("tab.next"),
+          ...this.commandItems("tab.previous"),
+          ...Array.from({ length: 8 }, (_, index) =>
+            this.commandItems(`tab.select-${index + 1}`, hidden),
+          ).flat(),
+          ...this.commandItems("tab.select-last", hidden),
           { type: "separator" },
-          {
-            label: "Toggle Developer Tools",
-            accelerator:
-              process.platform === "darwin" ? "Alt+Command+I" : "Ctrl+Shift+I",
-            click: () => this.handleToggleDevTools(),
-          },
-          {
-            label: "Toggle Fullscreen",
-            accelerator:
-              process.platform === "darwin" ? "Ctrl+Command+F" : "F11",
-            click: () => this.handleToggleFullscreen(),
-          },
+          ...this.commandItems("group.new"),
+          ...this.commandItems("group.remove-tab"),
+          ...this.commandItems("group.toggle-collapsed"),
+          ...this.commandItems("group.close"),
         ],
       },
       {
         label: "Go",
         submenu: [
-          {
-            label: "Back",
-            accelerator: "CmdOrCtrl+Left",
-            click: () => this.handleGoBack(),
-          },
-          {
-            label: "Forward",
-            accelerator: "CmdOrCtrl+Right",
-            click: () => this.handleGoForward(),
-          },
+          ...this.commandItems("history.back"),
+          ...this.commandItems("history.forward"),
         ],
       },
     ];
@@ -137,43 +436,164 @@ export class AppMenu {
     Menu.setApplicationMenu(menu);
   }
 
+  // A menu entry showing the command's first key binding, plus hidden
+  // entries so its other bindings work too
+  private commandItems(
+    commandId: string,
+    options: Electron.MenuItemConstructorOptions = {},
+  ): Electron.MenuItemConstructorOptions[] {
+    const command = this.commands.getCommand(commandId);
+    if (!command) return [];
+
+    // A role, where given, takes the place of `click`
+    const item: Electron.MenuItemConstructorOptions = {
+      label: command.label,
+      click: () => this.commands.execute(commandId, this.mainWindow),
+      ...options,
+    };
+    const [accelerator, ...others] = this.commands.getBindings(commandId);
+    return [
+      { ...item, accelerator },
+      ...others.map((other) => ({
+        ...item,
+        accelerator: other,
+        visible: false,
+        acceleratorWorksWhenHidden: true,
+      })),
+    ];
+  }
+
   // Menu action handlers
   private handleNewTab(): void {
-    const newTab = this.mainWindow.createTab("https://www.google.com");
-    this.mainWindow.switchActiveTab(newTab.id);
+    const window = this.mainWindow;
+    if (!window) {
+      this.windowManager.createWindow();
+      return;
+    }
+    const newTab = window.createTab();
+    window.switchActiveTab(newTab.id);
+  }
+
+  private handleNewWindow(): void {
+    this.windowManager.createWindow();
+  }
+
+  private handleNewPrivateWindow(): void {
+    this.windowManager.createWindow({ isPrivate: true });
+  }
+
+  private handleMoveTabToNewWindow(): void {
+    const activeTab = this.mainWindow?.activeTab;
+    if (activeTab) {
+      this.windowManager.moveTab(activeTab.id);
+    }
   }
 
   private handleCloseTab(): void {
-    if (this.mainWindow.activeTab) {
-      this.mainWindow.closeTab(this.mainWindow.activeTab.id);
+    const window = this.mainWindow;
+    if (!window) return;
+
+    if (window.activeTab) {
+      window.closeTab(window.activeTab.id);
+    }
+  }
+
+  // Closed tabs reopen in a regular window, a new one if none is open
+  private handleReopenClosedTab(): void {
+    const focused = this.mainWindow;
+    const window =
+      focused && !focused.isPrivate
+        ? focused
+        : this.windowManager.allWindows.find((other) => !other.isPrivate);
+    if (!window) {
+      this.windowManager.createWindow({ reopenClosed: true });
+      return;
+    }
+    window.reopenClosed();
+    window.focus();
+  }
+
+  private handleRestorePreviousSession(): void {
+    this.windowManager.restorePreviousSession();
+  }
+
+  private handleImportBookmarks(): void {
+    this.mainWindow?.importBookmarks().catch((error) => {
+      console.error("[AppMenu] Failed to import bookmarks:", error);
+    });
+  }
+
+  private handleExportBookmarks(): void {
+    this.mainWindow?.exportBookmarks().catch((error) => {
+      console.error("[AppMenu] Failed to export bookmarks:", error);
+    });
+  }
+
+  private handleRemoveTabFromGroup(): void {
+    const activeTab = this.mainWindow?.activeTab;
+    if (activeTab?.groupId) {
+      this.mainWindow?.removeTabFromGroup(activeTab.id);
+    }
+  }
+
+  private handleToggleGroupCollapsed(): void {
+    const window = this.mainWindow;
+    const groupId = window?.activeTab?.groupId;
+    const group = groupId ? window?.getGroup(groupId) : null;
+    if (!window || !group) return;
+
+    window.updateGroup(group.id, { isCollapsed: !group.isCollapsed });
+  }
+
+  private handleCloseGroup(): void {
+    const window = this.mainWindow;
+    const groupId = window?.activeTab?.groupId;
+    if (window && groupId) {
+      window.closeGroup(groupId);
     }
   }
 
   private handleReload(): void {
-    if (this.mainWindow.activeTab) {
-      this.mainWindow.activeTab.reload();
+    const window = this.mainWindow;
+    if (!window) return;
+
+    if (window.activeTab) {
+      window.activeTab.reload();
     }
   }
 
   private handleForceReload(): void {
-    if (this.mainWindow.activeTab) {
-      this.mainWindow.activeTab.webContents.reloadIgnoringCache();
+    const window = this.mainWindow;
+    if (!window) return;
+
+    if (window.activeTab) {
+      window.activeTab.webContents.reloadIgnoringCache();
     }
   }
 
+  private handleZoom(direction: ZoomDirection): void {
+    const window = this.mainWindow;
+    if (!window?.activeTab) return;
+
+    window.zoomTab(window.activeTab.id, direction);
+  }
+
   private handleTogglePanel(): void {
-    this.mainWindow.panel.toggle();
-    this.mainWindow.updateAllBounds();
+    const window = this.mainWindow;
+    if (!window) return;
+
+    window.panel.toggle();
+    window.updateAllBounds();
     // Notify TopBar or SideBar of panel visibility change
-    const isVisible = this.mainWindow.panel.getIsVisible();
-    if (this.mainWindow.topBar) {
-      this.mainWindow.topBar.view.webContents.send(
+    const isVisible = window.panel.getIsVisible();
+    if (window.topBar) {
+      window.topBar.view.webContents.send(
         "panel-visibility-changed",
         isVisible,
       );
     }
-    if (this.mainWindow.sideBar) {
-      this.mainWindow.sideBar.view.webContents.send(
+    if (window.sideBar) {
+      window.sideBar.view.webContents.send(
         "panel-visibility-changed",
         isVisible,
       );
@@ -181,38 +601,56 @@ export class AppMenu {
   }
 
   private handleToggleLayout(): void {
-    this.mainWindow.toggleLayout();
+    const window = this.mainWindow;
+    if (!window) return;
+
+    window.toggleLayout();
   }
 
   private handleToggleBarVisibility(): void {
+    const window = this.mainWindow;
+    if (!window) return;
+
     // Toggle based on current layout mode
-    if (this.mainWindow.layoutMode === "topbar") {
-      this.mainWindow.toggleTopBarVisibility();
+    if (window.layoutMode === "topbar") {
+      window.toggleTopBarVisibility();
     } else {
-      this.mainWindow.toggleSideBarVisibility();
+      window.toggleSideBarVisibility();
     }
   }
 
   private handleToggleDevTools(): void {
-    if (this.mainWindow.activeTab) {
-      this.mainWindow.activeTab.webContents.toggleDevTools();
+    const window = this.mainWindow;
+    if (!window) return;
+
+    if (window.activeTab) {
+      window.activeTab.webContents.toggleDevTools();
     }
   }
 
   private handleToggleFullscreen(): void {
-    const isFullScreen = this.mainWindow.baseWindow.isFullScreen();
-    this.mainWindow.baseWindow.setFullScreen(!isFullScreen);
+    const window = this.mainWindow;
+    if (!window) return;
+
+    const isFullScreen = window.baseWindow.isFullScreen();
+    window.baseWindow.setFullScreen(!isFullScreen);
   }
 
   private handleGoBack(): void {
-    if (this.mainWindow.activeTab) {
-      this.mainWindow.activeTab.goBack();
+    const window = this.mainWindow;
+    if (!window) return;
+
+    if (window.activeTab) {
+      window.activeTab.goBack();
     }
   }
 
   private handleGoForward(): void {
-    if (this.mainWindow.activeTab) {
-      this.mainWindow.activeTab.goForward();
+    const window = this.mainWindow;
+    if (!window) return;
+
+    if (window.activeTab) {
+      window.activeTab.goForward();
     }
   }
 }
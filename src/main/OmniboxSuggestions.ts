@@ -0,0 +1,305 @@
+import { session } from "electron";
+import type { ResolvedInput } from "./SearchEngines";
+import { PRIVATE_PARTITION } from "./Tab";
+import type { Window } from "./Window";
+import type { WindowManager } from "./WindowManager";
+
+export type OmniboxSuggestionType =
+  | "url"
+  | "search"
+  | "history"
+  | "related"
+  | "bookmark"
+  | "tab";
+
+export interface OmniboxSuggestion {
+  type: OmniboxSuggestionType;
+  // Where choosing it navigates; the open tab's page for "tab"
+  url: string;
+  title: string;
+  favicon: string | null;
+  // The tab to switch to, for "tab"
+  tabId: string | null;
+  // Name of the engine a "search" suggestion searches
+  engine: string | null;
+}
+
+export interface OmniboxResult {
+  input: string;
+  suggestions: OmniboxSuggestion[];
+  // Text to append to the input to complete it to the first suggestion
+  inlineCompletion: string;
+}
+
+interface ScoredSuggestion extends OmniboxSuggestion {
+  score: number;
+}
+
+// Address bar suggestions for what's being typed: the typed URL or search,
+// pages from history ranked by frecency, bookmarks, open tabs, pages related
+// by meaning and search suggestions. What's typed in a private window never
+// reaches the embedding provider, and search suggestions are fetched in the
+// private session so they carry none of the user's cookies.
+export class OmniboxSuggestions {
+  private windowManager: WindowManager;
+
+  // Ranking settings; what was typed always comes first
+  private readonly MAX_SUGGESTIONS = 8;
+  private readonly TAB_SCORE = 850;
+  private readonly BOOKMARK_SCORE = 800;
+  private readonly HISTORY_SCORE = 600;
+  private readonly MAX_FRECENCY_BONUS = 300;
+  private readonly PREFIX_BONUS = 100;
+  private readonly RELATED_SCORE = 400;
+  private readonly SEARCH_SUGGESTION_SCORE = 300;
+  private readonly SEMANTIC_MIN_LENGTH = 3;
+  private readonly SUGGEST_TIMEOUT = 1500; // ms
+
+  constructor(windowManager: WindowManager) {
+    this.windowManager = windowManager;
+  }
+
+  // Local sources answer right away; pass `withSlowSources` to also ask the
+  // embedding provider and the search engine, which take longer
+  async suggest(
+    window: Window,
+    input: string,
+    withSlowSources: boolean = false,
+  ): Promise<OmniboxResult> {
+    const text = input.trim();
+    if (!text) return { input, suggestions: [], inlineCompletion: "" };
+
+    const terms = text.toLowerCase().split(/\s+/);
+    const resolved = this.windowManager.searchEngines.resolveInput(text);
+    const scored = [
+      ...this.matchHistory(text),
+      ...this.matchBookmarks(terms),
+      ...this.matchTabs(window, terms),
+    ];
+    if (withSlowSources) {
+      const [related, searches] = await Promise.all([
+        window.isPrivate ? [] : this.matchRelated(text),
+        this.fetchSearchSuggestions(text, resolved, window.isPrivate),
+      ]);
+      scored.push(...related, ...searches);
+    }
+
+    const matches = this.rank(scored, text);
+    const typed = this.typedSuggestion(text, resolved);
+
+    // Complete the input to the best page it's the start of, which then
+    // becomes the first suggestion
+    const completed = /\s/.test(text)
+      ? undefined
+      : matches.find(
+          (match) =>
+            (match.type === "history" || match.type === "bookmark") &&
+            this.stripUrl(match.url)
+              .toLowerCase()
+              .startsWith(text.toLowerCase()),
+        );
+    const suggestions = completed
+      ? [completed, typed, ...matches.filter((match) => match !== completed)]
+      : [typed, ...matches];
+
+    return {
+      input,
+      suggestions: suggestions
+        .filter(
+          (suggestion, index) =>
+            index === 0 ||
+            suggestion.type === "tab" ||
+            this.normalizeUrl(suggestion.url) !==
+              this.normalizeUrl(suggestions[0].url),
+        )
+        .slice(0, this.MAX_SUGGESTIONS)
+        .map(({ type, url, title, favicon, tabId, engine }) => ({
+          type,
+          url,
+          title,
+          favicon,
+          tabId,
+          engine,
+        })),
+      inlineCompletion: completed
+        ? this.stripUrl(completed.url).slice(text.length)
+        : "",
+    };
+  }
+
+  // What was typed, as an address or a search
+  private typedSuggestion(
+    text: string,
+    resolved: ResolvedInput,
+  ): ScoredSuggestion {
+    return {
+      type: resolved.type,
+      url: resolved.url,
+      title: resolved.type === "search" ? resolved.query : text,
+      favicon: null,
+      tabId: null,
+      engine: resolved.type === "search" ? resolved.engine.name : null,
+      score: Infinity,
+    };
+  }
+
+  private matchHistory(text: string): ScoredSuggestion[] {
+    return this.windowManager.historyDatabase
+      .getFrecentPages(text)
+      .map((page) => ({
+        type: "history" as const,
+        url: page.url,
+        title: page.title,
+        favicon: page.favicon_url,
+        tabId: null,
+        engine: null,
+        score:
+          this.HISTORY_SCORE +
+          Math.min(this.MAX_FRECENCY_BONUS, page.frecency / 2),
+      }));
+  }
+
+  private matchBookmarks(terms: string[]): ScoredSuggestion[] {
+    return this.windowManager.bookmarkStore.getAll().flatMap((bookmark) =>
+      bookmark.url &&
+      this.matchesTerms(`${bookmark.title} ${bookmark.url}`, terms)
+        ? [
+            {
+              type: "bookmark" as const,
+              url: bookmark.url,
+              title: bookmark.title,
+              favicon: null,
+              tabId: null,
+              engine: null,
+              score: this.BOOKMARK_SCORE,
+            },
+          ]
+        : [],
+    );
+  }
+
+  // Tabs open in windows of the same kind, private or regular
+  private matchTabs(window: Window, terms: string[]): ScoredSuggestion[] {
+    return this.windowManager.allWindows
+      .filter((other) => other.isPrivate === window.isPrivate)
+      .flatMap((other) => other.allTabs)
+      .filter(
+        (tab) =>
+          tab.id !== window.activeTab?.id &&
+          this.matchesTerms(`${tab.title} ${tab.url}`, terms),
+      )
+      .map((tab) => ({
+        type: "tab" as const,
+        url: tab.url,
+        title: tab.title,
+        favicon: tab.favicon,
+        tabId: tab.id,
+        engine: null,
+        score: this.TAB_SCORE,
+      }));
+  }
+
+  private async matchRelated(text: string): Promise<ScoredSuggestion[]> {
+    if (text.length < this.SEMANTIC_MIN_LENGTH) return [];
+    const visits = await this.windowManager.historySearch.searchSemantic(text);
+    return visits.map((visit, rank) => ({
+      type: "related" as const,
+      url: visit.url,
+      title: visit.title,
+      favicon: visit.favicon_url,
+      tabId: null,
+      engine: null,
+      score: this.RELATED_SCORE - rank,
+    }));
+  }
+
+  // Queries the search engine suggests for a search; empty when offline or
+  // the engine has no suggestions
+  private async fetchSearchSuggestions(
+    input: string,
+    resolved: ResolvedInput,
+    isPrivate: boolean,
+  ): Promise<ScoredSuggestion[]> {
+    const searchEngines = this.windowManager.searchEngines;
+    const engine =
+      resolved.type === "search"
+        ? resolved.engine
+        : searchEngines.defaultEngine;
+    const text = resolved.type === "search" ? resolved.query : input;
+    const suggestUrl = text ? searchEngines.suggestUrl(text, engine) : null;
+    if (!suggestUrl) return [];
+
+    try {
+      const fetchSession = isPrivate
+        ? session.fromPartition(PRIVATE_PARTITION)
+        : session.defaultSession;
+      const response = await fetchSession.fetch(suggestUrl, {
+        signal: AbortSignal.timeout(this.SUGGEST_TIMEOUT),
+      });
+      if (!response.ok) return [];
+      // OpenSearch suggestions: [query, [suggestion, ...], ...]
+      const [, queries] = (await response.json()) as [string, unknown];
+      if (!Array.isArray(queries)) return [];
+
+      return queries
+        .filter(
+          (query): query is string =>
+            typeof query === "string" &&
+            query.toLowerCase() !== text.toLowerCase(),
+        )
+        .map((query, rank) => ({
+          type: "search" as const,
+          url: searchEngines.searchUrl(query, engine),
+          title: query,
+          favicon: null,
+          tabId: null,
+          engine: engine.name,
+          score: this.SEARCH_SUGGESTION_SCORE - rank,
+        }));
+    } catch (error) {
+      console.warn("[OmniboxSuggestions] Search suggestions failed:", error);
+      return [];
+    }
+  }
+
+  // Best first, one suggestion per page; pages whose address starts with
+  // what was typed rank higher
+  private rank(scored: ScoredSuggestion[], text: string): ScoredSuggestion[] {
+    const needle = text.toLowerCase();
+    const byUrl = new Map<string, ScoredSuggestion>();
+    scored.forEach((suggestion) => {
+      const isPrefix =
+        suggestion.type !== "search" &&
+        this.stripUrl(suggestion.url).toLowerCase().startsWith(needle);
+      const candidate = isPrefix
+        ? { ...suggestion, score: suggestion.score + this.PREFIX_BONUS }
+        : suggestion;
+      const key =
+        candidate.type === "tab"
+          ? `tab:${candidate.tabId}`
+          : this.normalizeUrl(candidate.url);
+      const existing = byUrl.get(key);
+      if (!existing || existing.score < candidate.score) {
+        byUrl.set(key, {
+          ...candidate,
+          favicon: candidate.favicon ?? existing?.favicon ?? null,
+        });
+      }
+    });
+    return Array.from(byUrl.values()).sort((a, b) => b.score - a.score);
+  }
+
+  private matchesTerms(haystack: string, terms: string[]): boolean {
+    const lower = haystack.toLowerCase();
+    return terms.every((term) => lower.includes(term));
+  }
+
+  // The address as it's usually typed, without scheme or "www."
+  private stripUrl(url: string): string {
+    return url.replace(/^https?:\/\//i, "").replace(/^www\./i, "");
+  }
+
+  private normalizeUrl(url: string): string {
+    return this.stripUrl(url).replace(/#.*$/, "").replace(/\/$/, "");
+  }
+}
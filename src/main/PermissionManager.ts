@@ -0,0 +1,367 @@
+import type { Session, WebContents } from "electron";
+import { JsonFile } from "./JsonFile";
+import type { Tab } from "./Tab";
+import type { WindowManager } from "./WindowManager";
+
+// Permissions the user decides on per site. Anything else a page asks for
+// keeps Electron's default of being granted.
+export type SitePermission =
+  | "camera"
+  | "microphone"
+  | "geolocation"
+  | "notifications";
+
+export type PermissionDecision = "allow" | "block";
+
+export const SITE_PERMISSIONS: SitePermission[] = [
+  "camera",
+  "microphone",
+  "geolocation",
+  "notifications",
+];
+
+export const PERMISSION_LABELS: Record<SitePermission, string> = {
+  camera: "Camera",
+  microphone: "Microphone",
+  geolocation: "Location",
+  notifications: "Notifications",
+};
+
+export type SitePermissions = Partial<
+  Record<SitePermission, PermissionDecision>
+>;
+
+// A request waiting for the user to answer the address bar prompt
+export interface PermissionRequest {
+  id: string;
+  tabId: string;
+  origin: string;
+  permissions: SitePermission[];
+}
+
+interface PendingRequest extends PermissionRequest {
+  webContents: WebContents;
+  callback: (granted: boolean) => void;
+  cleanup: () => void;
+}
+
+interface PermissionSettingsData {
+  sites: Record<string, SitePermissions>;
+}
+
+// Answers permission requests from web content. Sites the user hasn't
+// decided on yet get a prompt in the address bar of the asking tab; the
+// answer is remembered per origin. Decisions made in private windows only
+// last until the private session ends.
+export class PermissionManager {
+  private windowManager: WindowManager;
+  private file: JsonFile<PermissionSettingsData>;
+  private sites: Map<string, SitePermissions>;
+  private privateSites: Map<string, SitePermissions> = new Map();
+  private pending: PendingRequest[] = [];
+  private sessions: Set<Session> = new Set();
+  private requestCounter: number = 0;
+
+  constructor(windowManager: WindowManager) {
+    this.windowManager = windowManager;
+    this.file = new JsonFile<PermissionSettingsData>("site-permissions.json");
+
+    const saved = this.file.read();
+    this.sites = new Map();
+    if (saved?.sites && typeof saved.sites === "object") {
+      Object.entries(saved.sites).forEach(([origin, permissions]) => {
+        const decisions = this.parseDecisions(permissions);
+        if (Object.keys(decisions).length > 0) {
+          this.sites.set(origin, decisions);
+        }
+      });
+    }
+  }
+
+  // Handle permission requests and checks from pages in `session`
+  attach(session: Session): void {
+    if (this.sessions.has(session)) return;
+    this.sessions.add(session);
+    const isPrivate = !session.isPersistent();
+
+    session.setPermissionRequestHandler(
+      (webContents, permission, callback, details) => {
+        const permissions = this.toSitePermissions(
+          permission,
+          "mediaTypes" in details ? details.mediaTypes : undefined,
+        );
+        // e.g. listing devices, which needs no camera or microphone
+        if (!permissions || permissions.length === 0) {
+          callback(true);
+          return;
+        }
+        const origin = this.getOrigin(details.requestingUrl);
+        if (!origin) {
+          callback(false);
+          return;
+        }
+        this.handleRequest(
+          webContents,
+          origin,
+          permissions,
+          isPrivate,
+          callback,
+        );
+      },
+    );
+
+    session.setPermissionCheckHandler(
+      (_webContents, permission, requestingOrigin, details) => {
+        const mediaType = details.mediaType;
+        const permissions = this.toSitePermissions(
+          permission,
+          mediaType === "video" || mediaType === "audio"
+            ? [mediaType]
+            : undefined,
+        );
+        if (!permissions) return true;
+        const origin = this.getOrigin(requestingOrigin);
+        if (!origin) return false;
+        const decisions = this.getSitePermissions(origin, isPrivate);
+        // A media check without a type asks whether any device is allowed
+        return permissions.length === 0
+          ? decisions.camera === "allow" || decisions.microphone === "allow"
+          : permissions.every((name) => decisions[name] === "allow");
+      },
+    );
+  }
+
+  // Origins with at least one remembered decision, in the regular session
+  getSites(): Array<{ origin: string; permissions: SitePermissions }> {
+    return Array.from(this.sites.entries())
+      .map(([origin, permissions]) => ({ origin, permissions }))
+      .sort((a, b) => a.origin.localeCompare(b.origin));
+  }
+
+  getSitePermissions(origin: string, isPrivate: boolean): SitePermissions {
+    return { ...(this.decisionsFor(isPrivate).get(origin) ?? {}) };
+  }
+
+  // Remember a decision, or forget it so the site is asked again
+  setPermission(
+    origin: string,
+    permission: SitePermission,
+    decision: PermissionDecision | null,
+    isPrivate: boolean,
+  ): void {
+    const decisions = this.decisionsFor(isPrivate);
+    const current = { ...(decisions.get(origin) ?? {}) };
+    if (decision) {
+      current[permission] = decision;
+    } else {
+      delete current[permission];
+    }
+
+    if (Object.keys(current).length > 0) {
+      decisions.set(origin, current);
+    } else {
+      decisions.delete(origin);
+    }
+    if (!isPrivate) this.save();
+  }
+
+  // Forget every decision for a site
+  resetSite(origin: string, isPrivate: boolean): void {
+    if (this.decisionsFor(isPrivate).delete(origin) && !isPrivate) {
+      this.save();
+    }
+  }
+
+  // The request the prompt of a tab shows, oldest first
+  getPendingRequest(tabId: string): PermissionRequest | null {
+    const request = this.pending.find((pending) => pending.tabId === tabId);
+    if (!request) return null;
+    return {
+      id: request.id,
+      tabId: request.tabId,
+      origin: request.origin,
+      permissions: [...request.permissions],
+    };
+  }
+
+  // Answer a prompt. Allowing or blocking is remembered for the site;
+  // dismissing denies this request only.
+  respond(requestId: string, decision: PermissionDecision | null): boolean {
+    const request = this.pending.find((pending) => pending.id === requestId);
+    if (!request) return false;
+
+    const tab = this.findTab(request.webContents);
+    const isPrivate = tab?.isPrivate ?? false;
+    if (decision) {
+      request.permissions.forEach((permission) =>
+        this.setPermission(request.origin, permission, decision, isPrivate),
+      );
+    }
+    this.resolve(request, decision === "allow");
+
+    if (decision === "allow" && tab) {
+      this.windowManager.historyTracker.recordPermissionGrants(
+        tab.id,
+        request.origin,
+        request.permissions,
+      );
+    }
+    console.log(
+      `[PermissionManager] ${decision ?? "dismiss"} ${request.permissions.join(", ")} for ${request.origin}`,
+    );
+
+    // Other requests from the same site may now have an answer
+    this.pending
+      .filter((pending) => pending.origin === request.origin)
+      .forEach((pending) => this.settle(pending));
+    return true;
+  }
+
+  // Called when the private session is cleared
+  forgetPrivate(): void {
+    this.privateSites.clear();
+  }
+
+  private handleRequest(
+    webContents: WebContents,
+    origin: string,
+    permissions: SitePermission[],
+    isPrivate: boolean,
+    callback: (granted: boolean) => void,
+  ): void {
+    const decisions = this.getSitePermissions(origin, isPrivate);
+    if (permissions.some((name) => decisions[name] === "block")) {
+      callback(false);
+      return;
+    }
+    if (permissions.every((name) => decisions[name] === "allow")) {
+      callback(true);
+      return;
+    }
+
+    // Only tabs have an address bar to ask from
+    const tab = this.findTab(webContents);
+    if (!tab) {
+      callback(false);
+      return;
+    }
+
+    // A request belongs to the page that made it
+    const handleNavigation = (
+      details: Electron.Event<Electron.WebContentsDidStartNavigationEventParams>,
+    ): void => {
+      if (details.isMainFrame && !details.isSameDocument) {
+        this.resolve(request, false);
+      }
+    };
+    const handleDestroyed = (): void => this.resolve(request, false);
+    webContents.on("did-start-navigation", handleNavigation);
+    webContents.once("destroyed", handleDestroyed);
+
+    const request: PendingRequest = {
+      id: `permission-${++this.requestCounter}`,
+      tabId: tab.id,
+      origin,
+      permissions,
+      webContents,
+      callback,
+      cleanup: () => {
+        if (webContents.isDestroyed()) return;
+        webContents.removeListener("did-start-navigation", handleNavigation);
+        webContents.removeListener("destroyed", handleDestroyed);
+      },
+    };
+    this.pending.push(request);
+    this.notify(tab.id);
+  }
+
+  // Answer a pending request from remembered decisions, if they cover it
+  private settle(request: PendingRequest): void {
+    const isPrivate = this.findTab(request.webContents)?.isPrivate ?? false;
+    const decisions = this.getSitePermissions(request.origin, isPrivate);
+    if (request.permissions.some((name) => decisions[name] === "block")) {
+      this.resolve(request, false);
+    } else if (
+      request.permissions.every((name) => decisions[name] === "allow")
+    ) {
+      this.resolve(request, true);
+    }
+  }
+
+  private resolve(request: PendingRequest, granted: boolean): void {
+    const index = this.pending.indexOf(request);
+    if (index === -1) return;
+    this.pending.splice(index, 1);
+    request.cleanup();
+    request.callback(granted);
+    this.notify(request.tabId);
+  }
+
+  // Camera and microphone requests arrive as "media" with the devices asked
+  // for. Returns null for permissions that aren't managed per site.
+  private toSitePermissions(
+    permission: string,
+    mediaTypes: Array<"video" | "audio"> | undefined,
+  ): SitePermission[] | null {
+    switch (permission) {
+      case "media":
+        return (mediaTypes ?? []).map((type) =>
+          type === "video" ? "camera" : "microphone",
+        );
+      case "geolocation":
+        return ["geolocation"];
+      case "notifications":
+        return ["notifications"];
+      default:
+        return null;
+    }
+  }
+
+  private decisionsFor(isPrivate: boolean): Map<string, SitePermissions> {
+    return isPrivate ? this.privateSites : this.sites;
+  }
+
+  private findTab(webContents: WebContents): Tab | null {
+    return (
+      this.windowManager.allTabs.find(
+        (tab) => tab.webContents === webContents,
+      ) ?? null
+    );
+  }
+
+  private getOrigin(url: string): string | null {
+    try {
+      const origin = new URL(url).origin;
+      return origin && origin !== "null" ? origin : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private parseDecisions(value: unknown): SitePermissions {
+    const decisions: SitePermissions = {};
+    if (!value || typeof value !== "object") return decisions;
+    SITE_PERMISSIONS.forEach((permission) => {
+      const decision = (value as Record<string, unknown>)[permission];
+      if (decision === "allow" || decision === "block") {
+        decisions[permission] = decision;
+      }
+    });
+    return decisions;
+  }
+
+  private save(): void {
+    this.file.write({ sites: Object.fromEntries(this.sites) });
+  }
+
+  // The address bar of the tab's window shows or hides its prompt
+  private notify(tabId: string): void {
+    const window = this.windowManager.getWindowForTab(tabId);
+    if (!window) return;
+    [window.topBar, window.sideBar].forEach((bar) => {
+      if (bar && !bar.view.webContents.isDestroyed()) {
+        bar.view.webContents.send("permission-requests-changed");
+      }
+    });
+  }
+}
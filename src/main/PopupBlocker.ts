@@ -0,0 +1,85 @@
+import { JsonFile } from "./JsonFile";
+
+interface PopupSettingsData {
+  allowedSites: string[];
+}
+
+// Decides whether a page may open popups. Popups opened in response to a
+// click or key press are allowed; unsolicited ones are blocked unless the
+// opener's site is on the allow list. Sites allowed in private windows
+// only stay allowed until the private session ends.
+export class PopupBlocker {
+  private file: JsonFile<PopupSettingsData>;
+  private allowedSites: Set<string>;
+  private privateAllowedSites: Set<string> = new Set();
+
+  constructor() {
+    this.file = new JsonFile<PopupSettingsData>("popup-settings.json");
+    const saved = this.file.read();
+    this.allowedSites = new Set(
+      Array.isArray(saved?.allowedSites)
+        ? saved.allowedSites.filter(
+            (site): site is string => typeof site === "string",
+          )
+        : [],
+    );
+  }
+
+  shouldBlock(
+    openerUrl: string,
+    hasUserGesture: boolean,
+    isPrivate: boolean,
+  ): boolean {
+    if (hasUserGesture) return false;
+    return !this.isSiteAllowed(openerUrl, isPrivate);
+  }
+
+  isSiteAllowed(url: string, isPrivate: boolean): boolean {
+    const host = this.getHost(url);
+    if (!host) return false;
+    return Array.from(this.sitesFor(isPrivate)).some(
+      (site) => host === site || host.endsWith(`.${site}`),
+    );
+  }
+
+  getAllowedSites(): string[] {
+    return Array.from(this.allowedSites).sort();
+  }
+
+  // Allow or stop allowing popups from the site of `url`
+  setSiteAllowed(url: string, allowed: boolean, isPrivate: boolean): void {
+    const host = this.getHost(url);
+    if (!host) return;
+    const sites = this.sitesFor(isPrivate);
+    if (allowed) {
+      sites.add(host);
+    } else {
+      // Also drop parent-domain entries that would still match
+      sites.forEach((site) => {
+        if (host === site || host.endsWith(`.${site}`)) {
+          sites.delete(site);
+        }
+      });
+    }
+    if (!isPrivate) {
+      this.file.write({ allowedSites: this.getAllowedSites() });
+    }
+  }
+
+  // Called when the private session is cleared
+  forgetPrivate(): void {
+    this.privateAllowedSites.clear();
+  }
+
+  private sitesFor(isPrivate: boolean): Set<string> {
+    return isPrivate ? this.privateAllowedSites : this.allowedSites;
+  }
+
+  private getHost(url: string): string | null {
+    try {
+      return new URL(url).hostname || null;
+    } catch {
+      return null;
+    }
+  }
+}
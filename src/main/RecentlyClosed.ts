@@ -0,0 +1,140 @@
+import type { TabSnapshot } from "./Tab";
+import type { WindowManager } from "./WindowManager";
+
+// The group a closed tab belonged to, to put it back in
+export interface ClosedGroup {
+  id: string;
+  title: string;
+  colorId: string;
+  containerId: string | null;
+}
+
+export interface ClosedTab {
+  snapshot: TabSnapshot;
+  position: number;
+  isPinned: boolean;
+}
+
+export type ClosedEntry =
+  | {
+      id: string;
+      type: "tab";
+      closedAt: number;
+      windowId: string;
+      tab: ClosedTab;
+      group: ClosedGroup | null;
+    }
+  | {
+      id: string;
+      type: "group";
+      closedAt: number;
+      windowId: string;
+      group: ClosedGroup;
+      tabs: ClosedTab[];
+    };
+
+// What the History panel lists for an entry
+export interface RecentlyClosedInfo {
+  id: string;
+  type: "tab" | "group";
+  closedAt: number;
+  title: string;
+  // The closed tab's page; null for groups
+  url: string | null;
+  favicon: string | null;
+  tabCount: number;
+}
+
+// Tabs and groups closed in regular windows, most recent first, so they
+// can be reopened with their back/forward list. Kept in memory only.
+export class RecentlyClosed {
+  private windowManager: WindowManager;
+  private entries: ClosedEntry[] = [];
+  private entryCounter: number = 0;
+
+  private readonly MAX_ENTRIES = 25;
+
+  constructor(windowManager: WindowManager) {
+    this.windowManager = windowManager;
+  }
+
+  addTab(windowId: string, tab: ClosedTab, group: ClosedGroup | null): void {
+    this.add({
+      id: `closed-${++this.entryCounter}`,
+      type: "tab",
+      closedAt: Date.now(),
+      windowId,
+      tab,
+      group,
+    });
+  }
+
+  addGroup(windowId: string, group: ClosedGroup, tabs: ClosedTab[]): void {
+    if (tabs.length === 0) return;
+    this.add({
+      id: `closed-${++this.entryCounter}`,
+      type: "group",
+      closedAt: Date.now(),
+      windowId,
+      group,
+      tabs,
+    });
+  }
+
+  getEntries(): RecentlyClosedInfo[] {
+    return this.entries.map((entry) =>
+      entry.type === "tab"
+        ? {
+            id: entry.id,
+            type: entry.type,
+            closedAt: entry.closedAt,
+            title: entry.tab.snapshot.title,
+            url: entry.tab.snapshot.url,
+            favicon: entry.tab.snapshot.favicon,
+            tabCount: 1,
+          }
+        : {
+            id: entry.id,
+            type: entry.type,
+            closedAt: entry.closedAt,
+            title: entry.group.title,
+            url: null,
+            favicon: null,
+            tabCount: entry.tabs.length,
+          },
+    );
+  }
+
+  // Remove an entry to reopen it, the most recent one by default
+  take(entryId?: string): ClosedEntry | null {
+    const index = entryId
+      ? this.entries.findIndex((entry) => entry.id === entryId)
+      : 0;
+    if (index === -1 || index >= this.entries.length) return null;
+
+    const [entry] = this.entries.splice(index, 1);
+    this.broadcast();
+    return entry;
+  }
+
+  private add(entry: ClosedEntry): void {
+    this.entries.unshift(entry);
+    // A closed container group kept its cookies in case it was reopened
+    this.entries.splice(this.MAX_ENTRIES).forEach((dropped) => {
+      if (dropped.type === "group" && dropped.group.containerId) {
+        this.windowManager.releaseContainer(dropped.group.containerId);
+      }
+    });
+    this.broadcast();
+  }
+
+  // The History panel of every window lists the entries
+  private broadcast(): void {
+    this.windowManager.allWindows.forEach((window) => {
+      const panel = window.panel.view.webContents;
+      if (!panel.isDestroyed()) {
+        panel.send("recently-closed-updated");
+      }
+    });
+  }
+}
@@ -0,0 +1,276 @@
+import { JsonFile } from "./JsonFile";
+import type { WindowManager } from "./WindowManager";
+
+export interface SearchEngine {
+  id: string;
+  name: string;
+  // Results page, with %s where the query goes
+  url: string;
+  // Typed before a query to search this engine, as in "w term"
+  keyword: string;
+  // OpenSearch suggestions endpoint, with %s where the query goes
+  suggestUrl: string | null;
+  isBuiltIn: boolean;
+}
+
+export interface NewSearchEngine {
+  name: string;
+  url: string;
+  keyword: string;
+}
+
+export interface SearchEngineList {
+  engines: SearchEngine[];
+  defaultEngineId: string;
+}
+
+// Where text typed in the address bar goes
+export type ResolvedInput =
+  | { type: "url"; url: string }
+  | { type: "search"; url: string; query: string; engine: SearchEngine };
+
+interface SearchEngineSettings {
+  defaultEngineId: string;
+  customEngines: SearchEngine[];
+}
+
+const QUERY_PLACEHOLDER = "%s";
+
+const BUILT_IN_ENGINES: SearchEngine[] = [
+  {
+    id: "google",
+    name: "Google",
+    url: "https://www.google.com/search?q=%s",
+    keyword: "g",
+    suggestUrl:
+      "https://suggestqueries.google.com/complete/search?client=firefox&q=%s",
+    isBuiltIn: true,
+  },
+  {
+    id: "duckduckgo",
+    name: "DuckDuckGo",
+    url: "https://duckduckgo.com/?q=%s",
+    keyword: "d",
+    suggestUrl: "https://duckduckgo.com/ac/?type=list&q=%s",
+    isBuiltIn: true,
+  },
+  {
+    id: "bing",
+    name: "Bing",
+    url: "https://www.bing.com/search?q=%s",
+    keyword: "b",
+    suggestUrl: "https://api.bing.com/osjson.aspx?query=%s",
+    isBuiltIn: true,
+  },
+  {
+    id: "wikipedia",
+    name: "Wikipedia",
+    url: "https://en.wikipedia.org/w/index.php?search=%s",
+    keyword: "w",
+    suggestUrl:
+      "https://en.wikipedia.org/w/api.php?action=opensearch&search=%s",
+    isBuiltIn: true,
+  },
+  {
+    id: "github",
+    name: "GitHub",
+    url: "https://github.com/search?q=%s",
+    keyword: "gh",
+    suggestUrl: null,
+    isBuiltIn: true,
+  },
+];
+
+const DEFAULT_ENGINE_ID = "google";
+
+// The search engines the address bar, new tabs and the chat agent search
+// with: built-in ones plus the user's own, each reachable by keyword
+export class SearchEngines {
+  private windowManager: WindowManager;
+  private file: JsonFile<Partial<SearchEngineSettings>>;
+  private customEngines: SearchEngine[];
+  private defaultEngineId: string;
+  private engineCounter: number = 0;
+
+  constructor(windowManager: WindowManager) {
+    this.windowManager = windowManager;
+    this.file = new JsonFile<Partial<SearchEngineSettings>>(
+      "search-engines.json",
+    );
+
+    const saved = this.file.read();
+    this.customEngines = (
+      Array.isArray(saved?.customEngines) ? saved.customEngines : []
+    )
+      .filter((engine) => this.isValid(engine))
+      .map((engine) => ({ ...engine, suggestUrl: null, isBuiltIn: false }));
+    this.defaultEngineId = saved?.defaultEngineId ?? DEFAULT_ENGINE_ID;
+    if (!this.getEngine(this.defaultEngineId)) {
+      this.defaultEngineId = DEFAULT_ENGINE_ID;
+    }
+  }
+
+  getAll(): SearchEngineList {
+    return {
+      engines: [...BUILT_IN_ENGINES, ...this.customEngines],
+      defaultEngineId: this.defaultEngineId,
+    };
+  }
+
+  getEngine(engineId: string): SearchEngine | null {
+    return (
+      [...BUILT_IN_ENGINES, ...this.customEngines].find(
+        (engine) => engine.id === engineId,
+      ) ?? null
+    );
+  }
+
+  get defaultEngine(): SearchEngine {
+    return this.getEngine(this.defaultEngineId) ?? BUILT_IN_ENGINES[0];
+  }
+
+  // New tabs open on the default engine's home page
+  get homepage(): string {
+    try {
+      return new URL(this.defaultEngine.url.replace(QUERY_PLACEHOLDER, ""))
+        .origin;
+    } catch {
+      return "https://www.google.com";
+    }
+  }
+
+  setDefault(engineId: string): boolean {
+    if (!this.getEngine(engineId)) return false;
+    this.defaultEngineId = engineId;
+    this.save();
+    return true;
+  }
+
+  // Add a custom engine; null if its URL has no %s or its keyword is taken
+  add(engine: NewSearchEngine): SearchEngine | null {
+    const added: SearchEngine = {
+      id: `custom-${Date.now()}-${++this.engineCounter}`,
+      name: engine.name.trim(),
+      url: engine.url.trim(),
+      keyword: engine.keyword.trim().toLowerCase(),
+      suggestUrl: null,
+      isBuiltIn: false,
+    };
+    if (!this.isValid(added) || this.findByKeyword(added.keyword)) {
+      return null;
+    }
+
+    this.customEngines.push(added);
+    this.save();
+    return added;
+  }
+
+  // Only custom engines can be removed; the default falls back to Google
+  delete(engineId: string): boolean {
+    const index = this.customEngines.findIndex(
+      (engine) => engine.id === engineId,
+    );
+    if (index === -1) return false;
+
+    this.customEngines.splice(index, 1);
+    if (this.defaultEngineId === engineId) {
+      this.defaultEngineId = DEFAULT_ENGINE_ID;
+    }
+    this.save();
+    return true;
+  }
+
+  // Results page for `query` on an engine, the default one if omitted
+  searchUrl(query: string, engine: SearchEngine = this.defaultEngine): string {
+    return this.fillTemplate(engine.url, query);
+  }
+
+  suggestUrl(query: string, engine: SearchEngine): string | null {
+    return engine.suggestUrl
+      ? this.fillTemplate(engine.suggestUrl, query)
+      : null;
+  }
+
+  // Tell a URL from a search. A leading keyword, as in "gh foo", searches
+  // that engine; anything else that isn't an address searches the default.
+  resolveInput(input: string): ResolvedInput {
+    const text = input.trim();
+
+    const [first, ...rest] = text.split(/\s+/);
+    const keywordEngine = rest.length > 0 ? this.findByKeyword(first) : null;
+    if (keywordEngine) {
+      const query = text.slice(first.length).trim();
+      return {
+        type: "search",
+        url: this.searchUrl(query, keywordEngine),
+        query,
+        engine: keywordEngine,
+      };
+    }
+
+    if (/^[a-z][a-z0-9+.-]*:\/\//i.test(text)) {
+      return { type: "url", url: text };
+    }
+    if (/^localhost(:\d+)?(\/|$)/i.test(text)) {
+      return { type: "url", url: `http://${text}` };
+    }
+    if (text.includes(".") && !/\s/.test(text)) {
+      return { type: "url", url: `https://${text}` };
+    }
+    return {
+      type: "search",
+      url: this.searchUrl(text),
+      query: text,
+      engine: this.defaultEngine,
+    };
+  }
+
+  // The engine a keyword such as "w" searches
+  findByKeyword(keyword: string): SearchEngine | null {
+    const needle = keyword.toLowerCase();
+    return (
+      [...BUILT_IN_ENGINES, ...this.customEngines].find(
+        (engine) => engine.keyword === needle,
+      ) ?? null
+    );
+  }
+
+  private fillTemplate(template: string, query: string): string {
+    return template.split(QUERY_PLACEHOLDER).join(encodeURIComponent(query));
+  }
+
+  private isValid(engine: Partial<SearchEngine>): engine is SearchEngine {
+    if (
+      typeof engine.id !== "string" ||
+      typeof engine.name !== "string" ||
+      typeof engine.url !== "string" ||
+      typeof engine.keyword !== "string"
+    ) {
+      return false;
+    }
+    return (
+      engine.name.length > 0 &&
+      /^https?:\/\//i.test(engine.url) &&
+      engine.url.includes(QUERY_PLACEHOLDER) &&
+      /^\S+$/.test(engine.keyword)
+    );
+  }
+
+  private save(): void {
+    this.file.write({
+      defaultEngineId: this.defaultEngineId,
+      customEngines: this.customEngines,
+    });
+    this.broadcast();
+  }
+
+  // Panels list the engines in their settings
+  private broadcast(): void {
+    this.windowManager.allWindows.forEach((window) => {
+      const panel = window.panel.view.webContents;
+      if (!panel.isDestroyed()) {
+        panel.send("search-engines-updated");
+      }
+    });
+  }
+}
@@ -0,0 +1,197 @@
+import { JsonFile } from "./JsonFile";
+
+export interface SessionTab {
+  url: string;
+  title: string;
+  position: number;
+  groupId: string | null;
+  isActive: boolean;
+  // Missing in sessions saved before tabs could be pinned or muted
+  isPinned?: boolean;
+  isMuted?: boolean;
+}
+
+export interface SessionGroup {
+  id: string;
+  title: string;
+  colorId: string;
+  isCollapsed: boolean;
+  position: number;
+  // Container whose cookies the group's tabs use; missing for plain groups
+  containerId?: string | null;
+}
+
+export interface SessionBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SessionWindow {
+  bounds?: SessionBounds;
+  tabs: SessionTab[];
+  groups: SessionGroup[];
+}
+
+export interface SessionSnapshot {
+  savedAt: number;
+  windows: SessionWindow[];
+}
+
+// Sessions saved before multi-window support held a single window's tabs
+interface LegacySessionSnapshot {
+  savedAt: number;
+  tabs: SessionTab[];
+  groups?: SessionGroup[];
+}
+
+interface SessionFileData {
+  current: SessionSnapshot | null;
+  previous: SessionSnapshot[];
+}
+
+interface StoredSessionFileData {
+  current?: SessionSnapshot | LegacySessionSnapshot | null;
+  previous?: Array<SessionSnapshot | LegacySessionSnapshot>;
+}
+
+export class SessionStore {
+  private file: JsonFile<StoredSessionFileData>;
+  private data: SessionFileData;
+  private collect: (() => SessionSnapshot) | null = null;
+  private saveTimer: NodeJS.Timeout | null = null;
+  private snapshotTimer: NodeJS.Timeout | null = null;
+  private lastSaved: string = "";
+
+  // Persistence settings
+  private readonly SAVE_INTERVAL = 5000; // 5 seconds
+  private readonly SNAPSHOT_INTERVAL = 10 * 60 * 1000; // 10 minutes
+  private readonly MAX_SNAPSHOTS = 5;
+
+  constructor() {
+    this.file = new JsonFile<StoredSessionFileData>("session.json");
+    const stored = this.file.read();
+    this.data = {
+      current: stored?.current ? this.normalize(stored.current) : null,
+      previous: Array.isArray(stored?.previous)
+        ? stored.previous
+            .map((snapshot) => this.normalize(snapshot))
+            .filter((snapshot): snapshot is SessionSnapshot => !!snapshot)
+        : [],
+    };
+  }
+
+  // Session that was open when the app last exited (or crashed)
+  getLastSession(): SessionSnapshot | null {
+    const current = this.data.current;
+    if (!current || this.countTabs(current) === 0) {
+      return null;
+    }
+    return current;
+  }
+
+  // Older snapshots, most recent first
+  getPreviousSnapshots(): SessionSnapshot[] {
+    return [...this.data.previous];
+  }
+
+  // Begin periodically saving the session produced by `collect`
+  start(collect: () => SessionSnapshot): void {
+    this.collect = collect;
+
+    // Keep the session we are starting from as a recovery point
+    if (this.data.current) {
+      this.archive(this.data.current);
+    }
+
+    this.saveTimer = setInterval(() => {
+      this.save(collect());
+    }, this.SAVE_INTERVAL);
+
+    this.snapshotTimer = setInterval(() => {
+      this.archive(collect());
+    }, this.SNAPSHOT_INTERVAL);
+  }
+
+  // Write the final session and stop the timers
+  stop(): void {
+    if (this.saveTimer) {
+      clearInterval(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (this.snapshotTimer) {
+      clearInterval(this.snapshotTimer);
+      this.snapshotTimer = null;
+    }
+    if (this.collect) {
+      this.save(this.collect());
+      this.collect = null;
+    }
+  }
+
+  save(snapshot: SessionSnapshot): void {
+    // Closing the last tab shuts the window; keep the last real session
+    if (this.countTabs(snapshot) === 0) return;
+
+    const serialized = this.serializeContent(snapshot);
+    if (serialized === this.lastSaved) return;
+
+    this.data.current = snapshot;
+    this.lastSaved = serialized;
+    this.file.write(this.data);
+  }
+
+  private archive(snapshot: SessionSnapshot): void {
+    if (this.countTabs(snapshot) === 0) return;
+
+    // Skip snapshots identical to the most recent one
+    const latest = this.data.previous[0];
+    if (
+      latest &&
+      this.serializeContent(latest) === this.serializeContent(snapshot)
+    ) {
+      return;
+    }
+
+    this.data.previous = [snapshot, ...this.data.previous].slice(
+      0,
+      this.MAX_SNAPSHOTS,
+    );
+    this.file.write(this.data);
+  }
+
+  // Compare sessions by content, ignoring when they were saved
+  private serializeContent(snapshot: SessionSnapshot): string {
+    return JSON.stringify(snapshot.windows);
+  }
+
+  private countTabs(snapshot: SessionSnapshot): number {
+    return snapshot.windows.reduce(
+      (count, window) => count + window.tabs.length,
+      0,
+    );
+  }
+
+  // Upgrade single-window snapshots and drop unreadable ones
+  private normalize(
+    snapshot: SessionSnapshot | LegacySessionSnapshot,
+  ): SessionSnapshot | null {
+    if (!snapshot || typeof snapshot !== "object") return null;
+    if ("windows" in snapshot && Array.isArray(snapshot.windows)) {
+      return snapshot;
+    }
+    if ("tabs" in snapshot && Array.isArray(snapshot.tabs)) {
+      return {
+        savedAt: snapshot.savedAt,
+        windows: [
+          {
+            tabs: snapshot.tabs,
+            groups: Array.isArray(snapshot.groups) ? snapshot.groups : [],
+          },
+        ],
+      };
+    }
+    return null;
+  }
+}
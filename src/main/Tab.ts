@@ -1,6 +1,95 @@
-import { NativeImage, WebContents, WebContentsView } from "electron";
+import {
+  NativeImage,
+  NavigationEntry,
+  WebContents,
+  WebContentsView,
+  type Event,
+  type Result,
+  type WebContentsViewConstructorOptions,
+} from "electron";
 import { join } from "path";
 
+export interface TabOptions {
+  title?: string;
+  // Defer loading until the tab is first shown (used for restored tabs)
+  lazy?: boolean;
+  // Options Electron passes for a page's window.open; the view adopts the
+  // new web contents so the popup keeps its link to the opener
+  popupOptions?: WebContentsViewConstructorOptions;
+  // Tab whose page opened this one
+  openerTabId?: string | null;
+  // Browse in the in-memory private session
+  isPrivate?: boolean;
+  // Browse in the session of a container group
+  containerId?: string | null;
+  // Page of a hibernated tab, brought back when the tab is next shown
+  snapshot?: TabSnapshot;
+}
+
+// What a hibernated tab keeps of its page
+export interface TabSnapshot {
+  url: string;
+  title: string;
+  favicon: string | null;
+  scrollX: number;
+  scrollY: number;
+  // Back/forward list, so the tab's history survives hibernation
+  entries: NavigationEntry[];
+  index: number;
+}
+
+export interface FindInPageOptions {
+  forward?: boolean;
+  matchCase?: boolean;
+  // Continue the current search rather than starting a new one
+  findNext?: boolean;
+}
+
+export interface FindInPageResult {
+  // 1-based index of the highlighted match, 0 when nothing matched
+  activeMatch: number;
+  matches: number;
+}
+
+// How long after a click or key press a page may open a popup (matches the
+// HTML spec's transient user activation)
+const USER_ACTIVATION_DURATION = 5000;
+
+// Give up on a search that never reports back (e.g. it was superseded)
+const FIND_TIMEOUT = 2000;
+
+// Give up on a page script that never returns. Electron holds scripts for
+// a page that is still loading, or that never started to.
+const RUN_JS_TIMEOUT = 10000;
+
+// Longest to wait for a lazy or hibernated tab's page to load
+const WAKE_TIMEOUT = 15000;
+
+// Whether any form field differs from what the page loaded with. A focused
+// rich text editor counts too, since its changes can't be told apart.
+const UNSAVED_INPUT_CHECK = `(() => {
+  const ignored = ["hidden", "submit", "button", "reset", "image"];
+  for (const field of document.querySelectorAll("input, textarea, select")) {
+    if (field instanceof HTMLSelectElement) {
+      if (Array.from(field.options).some((o) => o.selected !== o.defaultSelected)) return true;
+    } else if (field.type === "checkbox" || field.type === "radio") {
+      if (field.checked !== field.defaultChecked) return true;
+    } else if (!ignored.includes(field.type) && field.value !== field.defaultValue) {
+      return true;
+    }
+  }
+  return document.activeElement?.isContentEditable === true;
+})()`;
+
+// Session shared by the tabs of private windows. Without the "persist:"
+// prefix Electron keeps its cookies, cache and storage in memory only.
+export const PRIVATE_PARTITION = "private-browsing";
+
+// Session of a container group's tabs. Containers keep their cookies across
+// restarts, like the default session.
+export const containerPartition = (containerId: string): string =>
+  `persist:container-${containerId}`;
+
 export class Tab {
   private webContentsView: WebContentsView;
   private _id: string;
@@ -9,28 +98,60 @@ export class Tab {
   private _isVisible: boolean = false;
   private _groupId: string | null = null;
   private _position: number = 0;
+  private _pendingURL: string | null = null;
+  private _openerTabId: string | null;
+  private _lastUserGesture: number = 0;
+  private _blockedPopups: string[] = [];
+  private _isPrivate: boolean;
+  private _containerId: string | null;
+  private _favicon: string | null = null;
+  private _isPinned: boolean = false;
+  private _snapshot: TabSnapshot | null = null;
+  // When the tab was last shown or hidden, to tell how long it sat idle
+  private _lastActiveAt: number = Date.now();
 
-  constructor(id: string, url: string = "https://www.google.com") {
+  constructor(id: string, url: string, options: TabOptions = {}) {
     this._id = id;
     this._url = url;
-    this._title = "New Tab";
-
-    // Create the WebContentsView for web content only
-    this.webContentsView = new WebContentsView({
-      webPreferences: {
-        nodeIntegration: false,
-        contextIsolation: true,
-        sandbox: true,
-        webSecurity: true,
-        preload: join(__dirname, "../preload/tab.js"),
+    this._title = options.title || "New Tab";
+    this._openerTabId = options.openerTabId ?? null;
+    this._isPrivate = options.isPrivate ?? false;
+    this._containerId = options.containerId ?? null;
+
+    const partition = this._isPrivate
+      ? PRIVATE_PARTITION
+      : this._containerId
+        ? containerPartition(this._containerId)
+        : null;
+
+    // Create the WebContentsView for web content only. Popups already have
+    // web contents in their opener's session.
+    this.webContentsView = new WebContentsView(
+      options.popupOptions ?? {
+        webPreferences: {
+          nodeIntegration: false,
+          contextIsolation: true,
+          sandbox: true,
+          webSecurity: true,
+          preload: join(__dirname, "../preload/tab.js"),
+          ...(partition ? { partition } : {}),
+        },
       },
-    });
+    );
 
     // Set up event listeners
     this.setupEventListeners();
 
-    // Load the initial URL
-    void this.loadURL(url);
+    // Load the initial URL, or wait until the tab is shown. Popups are
+    // loaded by Electron once the view is returned to it.
+    if (options.snapshot) {
+      this._snapshot = options.snapshot;
+      this._favicon = options.snapshot.favicon;
+    } else if (options.lazy) {
+      this._pendingURL = url;
+    } else if (!options.popupOptions) {
+      void this.loadURL(url);
+    }
   }
 
   private setupEventListeners(): void {
@@ -42,11 +163,34 @@ export class Tab {
     // Update URL when navigation occurs
     this.webContentsView.webContents.on("did-navigate", (_, url) => {
       this._url = url;
+      // Blocked popups belong to the page that tried to open them
+      this._blockedPopups = [];
+      this._favicon = null;
     });
 
+    this.webContentsView.webContents.on(
+      "page-favicon-updated",
+      (_, favicons) => {
+        this._favicon = favicons[0] ?? null;
+      },
+    );
+
     this.webContentsView.webContents.on("did-navigate-in-page", (_, url) => {
       this._url = url;
     });
+
+    // Remember the last click or key press to tell requested popups apart
+    // from unsolicited ones
+    this.webContentsView.webContents.on("input-event", (_, input) => {
+      if (
+        input.type === "mouseDown" ||
+        input.type === "keyDown" ||
+        input.type === "rawKeyDown" ||
+        input.type === "gestureTap"
+      ) {
+        this._lastUserGesture = Date.now();
+      }
+    });
   }
 
   // Getters
@@ -82,6 +226,92 @@ export class Tab {
     this._groupId = value;
   }
 
+  get openerTabId(): string | null {
+    return this._openerTabId;
+  }
+
+  set openerTabId(value: string | null) {
+    this._openerTabId = value;
+  }
+
+  get hasRecentUserGesture(): boolean {
+    return Date.now() - this._lastUserGesture < USER_ACTIVATION_DURATION;
+  }
+
+  get blockedPopups(): string[] {
+    return [...this._blockedPopups];
+  }
+
+  get isPrivate(): boolean {
+    return this._isPrivate;
+  }
+
+  // A page can't change sessions; moving the tab into or out of a container
+  // reopens it as a new tab
+  get containerId(): string | null {
+    return this._containerId;
+  }
+
+  // The page's own favicon, once it has reported one
+  get favicon(): string | null {
+    return this._favicon;
+  }
+
+  get lastActiveAt(): number {
+    return this._lastActiveAt;
+  }
+
+  get isAudible(): boolean {
+    return this.webContentsView.webContents.isCurrentlyAudible();
+  }
+
+  get isMuted(): boolean {
+    return this.webContentsView.webContents.isAudioMuted();
+  }
+
+  setMuted(muted: boolean): void {
+    this.webContentsView.webContents.setAudioMuted(muted);
+  }
+
+  get isPinned(): boolean {
+    return this._isPinned;
+  }
+
+  set isPinned(value: boolean) {
+    this._isPinned = value;
+  }
+
+  // Lazy and hibernated tabs have no page loaded until they're shown
+  get isLoaded(): boolean {
+    return this._pendingURL === null && this._snapshot === null;
+  }
+
+  get isHibernated(): boolean {
+    return this._snapshot !== null;
+  }
+
+  get snapshot(): TabSnapshot | null {
+    return this._snapshot;
+  }
+
+  get zoomFactor(): number {
+    return this.webContentsView.webContents.getZoomFactor();
+  }
+
+  setZoomFactor(factor: number): void {
+    this.webContentsView.webContents.setZoomFactor(factor);
+  }
+
+  addBlockedPopup(url: string): void {
+    if (!this._blockedPopups.includes(url)) {
+      this._blockedPopups.push(url);
+    }
+  }
+
+  removeBlockedPopup(url: string): void {
+    this._blockedPopups = this._blockedPopups.filter((u) => u !== url);
+  }
+
   get position(): number {
     return this._position;
   }
@@ -93,20 +323,135 @@ export class Tab {
   // Public methods
   show(): void {
     this._isVisible = true;
+    this._lastActiveAt = Date.now();
     this.webContentsView.setVisible(true);
+    this.loadPendingPage();
+  }
+
+  // Load a lazy or hibernated tab's page without showing the tab, so it can
+  // be read or acted on. Resolves once the page stops loading.
+  wake(): Promise<void> {
+    if (this.isLoaded) return Promise.resolve();
+
+    const webContents = this.webContentsView.webContents;
+    return new Promise((resolve) => {
+      const finish = (): void => {
+        clearTimeout(timeout);
+        webContents.removeListener("did-stop-loading", finish);
+        resolve();
+      };
+      const timeout = setTimeout(finish, WAKE_TIMEOUT);
+      webContents.on("did-stop-loading", finish);
+      this.loadPendingPage();
+    });
+  }
+
+  private loadPendingPage(): void {
+    if (this._snapshot) {
+      this.restoreSnapshot(this._snapshot);
+    } else if (this._pendingURL) {
+      void this.loadURL(this._pendingURL);
+    }
   }
 
   hide(): void {
+    if (this._isVisible) {
+      this._lastActiveAt = Date.now();
+    }
     this._isVisible = false;
     this.webContentsView.setVisible(false);
   }
 
+  // The page's URL, title and back/forward list, to reopen it later. The
+  // list's page state carries the scroll position where Chromium has it.
+  captureSnapshot(): TabSnapshot {
+    if (this._snapshot) return this._snapshot;
+
+    const history = this.webContentsView.webContents.navigationHistory;
+    const isLoaded = this._pendingURL === null;
+    return {
+      url: this._pendingURL ?? this._url,
+      title: this._title,
+      favicon: this._favicon,
+      scrollX: 0,
+      scrollY: 0,
+      entries: isLoaded ? history.getAllEntries() : [],
+      index: isLoaded ? history.getActiveIndex() : 0,
+    };
+  }
+
+  // Capture what's needed to bring the page back after hibernation
+  async createSnapshot(): Promise<TabSnapshot> {
+    let scroll = { x: 0, y: 0 };
+    try {
+      scroll = (await this.runJs(
+        "({ x: window.scrollX, y: window.scrollY })",
+      )) as { x: number; y: number };
+    } catch {
+      // Restore at the top of the page
+    }
+    return {
+      ...this.captureSnapshot(),
+      scrollX: Math.round(scroll.x),
+      scrollY: Math.round(scroll.y),
+    };
+  }
+
+  // Whether the user typed into the page's forms without submitting. A page
+  // that can't be checked is assumed to have unsaved input.
+  async hasUnsavedInput(): Promise<boolean> {
+    try {
+      return (await this.runJs(UNSAVED_INPUT_CHECK)) === true;
+    } catch {
+      return true;
+    }
+  }
+
+  // Reload a hibernated page with its back/forward list and scroll position
+  private restoreSnapshot(snapshot: TabSnapshot): void {
+    this._snapshot = null;
+    const webContents = this.webContentsView.webContents;
+
+    if (snapshot.scrollX > 0 || snapshot.scrollY > 0) {
+      webContents.once("did-finish-load", () => {
+        this.runJs(
+          `window.scrollTo(${snapshot.scrollX}, ${snapshot.scrollY})`,
+        ).catch(() => {
+          // The page is gone or was replaced
+        });
+      });
+    }
+
+    if (snapshot.entries.length === 0) {
+      void this.loadURL(snapshot.url);
+      return;
+    }
+    webContents.navigationHistory
+      .restore({ entries: snapshot.entries, index: snapshot.index })
+      .catch(() => {
+        void this.loadURL(snapshot.url);
+      });
+  }
+
   async screenshot(): Promise<NativeImage> {
     return await this.webContentsView.webContents.capturePage();
   }
 
   async runJs(code: string): Promise<unknown> {
-    return await this.webContentsView.webContents.executeJavaScript(code);
+    let timeout: NodeJS.Timeout | undefined;
+    try {
+      return await Promise.race([
+        this.webContentsView.webContents.executeJavaScript(code),
+        new Promise<never>((_, reject) => {
+          timeout = setTimeout(
+            () => reject(new Error(`Script in tab ${this._id} timed out`)),
+            RUN_JS_TIMEOUT,
+          );
+        }),
+      ]);
+    } finally {
+      clearTimeout(timeout);
+    }
   }
 
   async getTabHtml(): Promise<string> {
@@ -117,8 +462,51 @@ export class Tab {
     return (await this.runJs("document.documentElement.innerText")) as string;
   }
 
+  // Highlight matches of `text` on the page and report the counts
+  findInPage(
+    text: string,
+    options: FindInPageOptions = {},
+  ): Promise<FindInPageResult | null> {
+    const webContents = this.webContentsView.webContents;
+    if (!text) {
+      this.stopFindInPage();
+      return Promise.resolve({ activeMatch: 0, matches: 0 });
+    }
+
+    return new Promise((resolve) => {
+      let requestId = -1;
+      const finish = (result: FindInPageResult | null): void => {
+        clearTimeout(timeout);
+        webContents.removeListener("found-in-page", handleFound);
+        resolve(result);
+      };
+      const handleFound = (_: Event, result: Result): void => {
+        if (result.requestId !== requestId || !result.finalUpdate) return;
+        finish({
+          activeMatch: result.activeMatchOrdinal,
+          matches: result.matches,
+        });
+      };
+      const timeout = setTimeout(() => finish(null), FIND_TIMEOUT);
+
+      webContents.on("found-in-page", handleFound);
+      // Electron's findNext means "start a new session", the opposite of ours
+      requestId = webContents.findInPage(text, {
+        forward: options.forward ?? true,
+        matchCase: options.matchCase ?? false,
+        findNext: !options.findNext,
+      });
+    });
+  }
+
+  // Clear find highlights
+  stopFindInPage(): void {
+    this.webContentsView.webContents.stopFindInPage("clearSelection");
+  }
+
   loadURL(url: string): Promise<void> {
     this._url = url;
+    this._pendingURL = null;
     return this.webContentsView.webContents.loadURL(url);
   }
 
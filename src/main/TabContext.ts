@@ -0,0 +1,197 @@
+import type { Tab } from "./Tab";
+
+// A tab included in the chat context, cited in responses as [index]
+export interface ContextSource {
+  index: number;
+  tabId: string;
+  title: string;
+  url: string;
+  // Whether some of the page was left out to fit the budget
+  truncated: boolean;
+}
+
+export interface TabContextResult {
+  sources: ContextSource[];
+  text: string;
+}
+
+interface TabChunks {
+  tab: Tab;
+  chunks: string[];
+}
+
+// Builds chat context from several tabs, sharing one token budget between them
+export class TabContext {
+  // Budget settings (tokens are estimated from character counts)
+  private readonly MAX_CONTEXT_TOKENS = 12000;
+  private readonly MAX_TAB_TOKENS = 3000; // so a single tab stays affordable
+  private readonly CHARS_PER_TOKEN = 4;
+  private readonly CHUNK_SIZE = 1200; // characters per chunk
+
+  async build(tabs: Tab[], query: string): Promise<TabContextResult> {
+    const tabChunks: TabChunks[] = await Promise.all(
+      tabs.map(async (tab) => ({
+        tab,
+        chunks: this.chunk(await this.readText(tab)),
+      })),
+    );
+
+    const budgets = this.allocateBudgets(
+      tabChunks.map(({ chunks }) => this.estimateTokens(chunks.join(""))),
+    );
+    const queryTerms = this.getTerms(query);
+
+    const sources: ContextSource[] = [];
+    const sections: string[] = [];
+    tabChunks.forEach(({ tab, chunks }, i) => {
+      const selected = this.selectChunks(chunks, budgets[i], queryTerms);
+      const source: ContextSource = {
+        index: i + 1,
+        tabId: tab.id,
+        title: tab.title || tab.url,
+        url: tab.url,
+        truncated: selected.length < chunks.length,
+      };
+      sources.push(source);
+      sections.push(
+        this.formatSection(source, chunks, selected, !tab.isLoaded),
+      );
+    });
+
+    return { sources, text: sections.join("\n\n") };
+  }
+
+  // Sleeping tabs have no page to read; they're listed by title and URL
+  // rather than woken up
+  private async readText(tab: Tab): Promise<string> {
+    if (!tab.isLoaded) return "";
+    try {
+      return (await tab.getTabText()) ?? "";
+    } catch (error) {
+      console.error(`[TabContext] Failed to read tab ${tab.id}:`, error);
+      return "";
+    }
+  }
+
+  // Split text into paragraph-aligned chunks of at most CHUNK_SIZE characters
+  private chunk(text: string): string[] {
+    const paragraphs = text
+      .split(/\n\s*\n|\n/)
+      .map((paragraph) => paragraph.replace(/\s+/g, " ").trim())
+      .filter((paragraph) => paragraph.length > 0);
+
+    const chunks: string[] = [];
+    let current = "";
+    for (const paragraph of paragraphs) {
+      for (let start = 0; start < paragraph.length; start += this.CHUNK_SIZE) {
+        const piece = paragraph.slice(start, start + this.CHUNK_SIZE);
+        if (current && current.length + piece.length + 1 > this.CHUNK_SIZE) {
+          chunks.push(current);
+          current = "";
+        }
+        current = current ? `${current}\n${piece}` : piece;
+      }
+    }
+    if (current) chunks.push(current);
+    return chunks;
+  }
+
+  // Split the budget evenly, handing what short pages don't use to longer ones
+  private allocateBudgets(needed: number[]): number[] {
+    const budgets = new Array<number>(needed.length).fill(0);
+    const order = needed
+      .map((tokens, i) => ({ tokens, i }))
+      .sort((a, b) => a.tokens - b.tokens);
+
+    let remaining = this.MAX_CONTEXT_TOKENS;
+    order.forEach(({ tokens, i }, position) => {
+      const share = Math.floor(remaining / (order.length - position));
+      budgets[i] = Math.min(tokens, share, this.MAX_TAB_TOKENS);
+      remaining -= budgets[i];
+    });
+    return budgets;
+  }
+
+  // Indexes of the chunks to keep: the opening chunk, then the chunks most
+  // relevant to the query, in page order
+  private selectChunks(
+    chunks: string[],
+    budget: number,
+    queryTerms: Set<string>,
+  ): number[] {
+    if (chunks.length === 0) return [];
+
+    const ranked = chunks
+      .map((chunk, i) => ({
+        i,
+        chunk,
+        score: i === 0 ? Infinity : this.scoreChunk(chunk, queryTerms),
+      }))
+      // Stable sort keeps page order among equally relevant chunks
+      .sort((a, b) => b.score - a.score);
+
+    const selected: number[] = [];
+    let used = 0;
+    for (const { i, chunk } of ranked) {
+      const tokens = this.estimateTokens(chunk);
+      if (used + tokens > budget) {
+        // Always include at least part of the page
+        if (selected.length === 0) selected.push(i);
+        continue;
+      }
+      selected.push(i);
+      used += tokens;
+    }
+    return selected.sort((a, b) => a - b);
+  }
+
+  private scoreChunk(chunk: string, queryTerms: Set<string>): number {
+    if (queryTerms.size === 0) return 0;
+    const terms = this.getTerms(chunk);
+    let score = 0;
+    queryTerms.forEach((term) => {
+      if (terms.has(term)) score++;
+    });
+    return score;
+  }
+
+  private getTerms(text: string): Set<string> {
+    return new Set(
+      text
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((term) => term.length > 2),
+    );
+  }
+
+  private formatSection(
+    source: ContextSource,
+    chunks: string[],
+    selected: number[],
+    isAsleep: boolean,
+  ): string {
+    const lines = [`[${source.index}] ${source.title}`, `URL: ${source.url}`];
+    if (selected.length === 0) {
+      lines.push(
+        isAsleep
+          ? "(This tab is asleep; only its title and URL are known)"
+          : "(No readable text on this page)",
+      );
+      return lines.join("\n");
+    }
+
+    let previous = -1;
+    for (const i of selected) {
+      // Mark where content was skipped
+      if (i > previous + 1) lines.push("[...]");
+      lines.push(chunks[i]);
+      previous = i;
+    }
+    if (previous < chunks.length - 1) lines.push("[...]");
+    return lines.join("\n");
+  }
+
+  private estimateTokens(text: string): number {
+    return Math.ceil(text.length / this.CHARS_PER_TOKEN);
+  }
+}
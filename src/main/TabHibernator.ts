@@ -0,0 +1,108 @@
+import { JsonFile } from "./JsonFile";
+import type { WindowManager } from "./WindowManager";
+
+export interface HibernationSettings {
+  // Put background tabs to sleep after they sit idle
+  enabled: boolean;
+  // Minutes in the background before a tab is hibernated
+  idleMinutes: number;
+}
+
+const DEFAULT_SETTINGS: HibernationSettings = {
+  enabled: true,
+  idleMinutes: 30,
+};
+
+// Background job that hibernates tabs left in the background, freeing the
+// memory their pages use. A hibernated tab reloads when it's next shown.
+export class TabHibernator {
+  private windowManager: WindowManager;
+  private file: JsonFile<Partial<HibernationSettings>>;
+  private settings: HibernationSettings;
+  private checkTimer: NodeJS.Timeout | null = null;
+  private running: boolean = false;
+
+  private readonly CHECK_INTERVAL = 60 * 1000; // 1 minute
+  private readonly MIN_IDLE_MINUTES = 1;
+
+  constructor(windowManager: WindowManager) {
+    this.windowManager = windowManager;
+    this.file = new JsonFile<Partial<HibernationSettings>>(
+      "hibernation-settings.json",
+    );
+
+    const saved = this.file.read();
+    this.settings = {
+      enabled:
+        typeof saved?.enabled === "boolean"
+          ? saved.enabled
+          : DEFAULT_SETTINGS.enabled,
+      idleMinutes: this.normalizeIdleMinutes(saved?.idleMinutes),
+    };
+  }
+
+  start(): void {
+    if (this.checkTimer) return;
+    this.checkTimer = setInterval(() => {
+      void this.run();
+    }, this.CHECK_INTERVAL);
+  }
+
+  stop(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+  }
+
+  getSettings(): HibernationSettings {
+    return { ...this.settings };
+  }
+
+  updateSettings(config: Partial<HibernationSettings>): void {
+    if (typeof config.enabled === "boolean") {
+      this.settings.enabled = config.enabled;
+    }
+    if (config.idleMinutes !== undefined) {
+      this.settings.idleMinutes = this.normalizeIdleMinutes(config.idleMinutes);
+    }
+    this.file.write(this.settings);
+  }
+
+  // Hibernate every tab that has been in the background for too long, one
+  // at a time. Returns how many were hibernated.
+  async run(): Promise<number> {
+    if (!this.settings.enabled || this.running) return 0;
+    this.running = true;
+
+    const idleSince = Date.now() - this.settings.idleMinutes * 60 * 1000;
+    let hibernated = 0;
+    try {
+      for (const window of this.windowManager.allWindows) {
+        const idleTabs = window.allTabs.filter(
+          (tab) =>
+            !tab.isVisible && tab.isLoaded && tab.lastActiveAt < idleSince,
+        );
+        for (const tab of idleTabs) {
+          if (await window.hibernateTab(tab.id)) hibernated++;
+        }
+      }
+    } catch (error) {
+      console.error("[TabHibernator] Failed to hibernate tabs:", error);
+    } finally {
+      this.running = false;
+    }
+
+    if (hibernated > 0) {
+      console.log(`[TabHibernator] Hibernated ${hibernated} idle tabs`);
+    }
+    return hibernated;
+  }
+
+  private normalizeIdleMinutes(value: unknown): number {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      return DEFAULT_SETTINGS.idleMinutes;
+    }
+    return Math.max(this.MIN_IDLE_MINUTES, Math.round(value));
+  }
+}
@@ -7,6 +7,8 @@ export class TopBar {
   private baseWindow: BaseWindow;
   private readonly HEIGHT = 88; // Fixed height for topbar
   private _isVisible: boolean = true;
+  // Extra height below the bar while a dropdown overlaps the page
+  private overlayHeight: number = 0;
 
   constructor(baseWindow: BaseWindow) {
     this.baseWindow = baseWindow;
@@ -24,6 +26,8 @@ export class TopBar {
         sandbox: false, // Need to disable sandbox for preload to work
       },
     });
+    // Let the page show through below the bar while it's extended
+    webContentsView.setBackgroundColor("#00000000");
 
     // Load the TopBar React app
     if (is.dev && process.env["ELECTRON_RENDERER_URL"]) {
@@ -49,7 +53,7 @@ export class TopBar {
       x: 0,
       y: yOffset,
       width: bounds.width,
-      height: this.HEIGHT,
+      height: this.HEIGHT + this.overlayHeight,
     });
   }
 
@@ -57,6 +61,17 @@ export class TopBar {
     this.setupBounds();
   }
 
+  // Extend the view down over the page so the address bar's suggestions
+  // fit; `height` is the total height the bar needs, 0 to shrink it back
+  setOverlayHeight(height: number): void {
+    this.overlayHeight = Math.max(0, Math.round(height) - this.HEIGHT);
+    if (this.overlayHeight > 0) {
+      // Re-adding the view puts it above the tabs
+      this.baseWindow.contentView.addChildView(this.webContentsView);
+    }
+    this.setupBounds();
+  }
+
   get view(): WebContentsView {
     return this.webContentsView;
   }
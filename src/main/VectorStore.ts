@@ -1,16 +1,37 @@
 import { app } from "electron";
-import { existsSync, unlinkSync } from "fs";
+import { existsSync, renameSync, unlinkSync } from "fs";
 import { HierarchicalNSW } from "hnswlib-node";
 import { join } from "path";
 
 export class VectorStore {
   private index: HierarchicalNSW;
   private indexPath: string;
-  private dimension: number = 1536; // text-embedding-3-small
+  private dimension: number;
 
-  constructor() {
+  // Capacity settings
+  private readonly INITIAL_CAPACITY = 10000;
+  private readonly GROWTH_FACTOR = 2;
+
+  // Each embedding model gets its own index file, keyed by dimension
+  constructor(modelName: string, dimension: number) {
     const userDataPath = app.getPath("userData");
-    this.indexPath = join(userDataPath, "history-vectors.bin");
+    const modelSlug = modelName.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+    this.dimension = dimension;
+    this.indexPath = join(
+      userDataPath,
+      `history-vectors-${modelSlug}-${dimension}.bin`,
+    );
+
+    // Indexes created before per-model files were text-embedding-3-small
+    const legacyPath = join(userDataPath, "history-vectors.bin");
+    if (
+      modelName === "text-embedding-3-small" &&
+      existsSync(legacyPath) &&
+      !existsSync(this.indexPath)
+    ) {
+      renameSync(legacyPath, this.indexPath);
+    }
+
     this.index = new HierarchicalNSW("cosine", this.dimension);
     this.loadOrCreateIndex();
   }
@@ -18,25 +39,50 @@ export class VectorStore {
   private loadOrCreateIndex(): void {
     if (existsSync(this.indexPath)) {
       try {
-        this.index.readIndex(this.indexPath);
+        this.index.readIndexSync(this.indexPath);
         console.log("[VectorStore] Loaded existing vector index");
       } catch (error) {
         console.error(
           "[VectorStore] Failed to load index, creating new:",
           error,
         );
-        this.index.initIndex(10000); // max 10k pages
+        this.index.initIndex(this.INITIAL_CAPACITY);
       }
     } else {
-      this.index.initIndex(10000); // max 10k pages
+      this.index.initIndex(this.INITIAL_CAPACITY);
       console.log("[VectorStore] Created new vector index");
     }
   }
 
+  // Grow the index when it can't fit `additional` more points
+  private ensureCapacity(additional: number): void {
+    const maxElements = this.index.getMaxElements();
+    const needed = this.index.getCurrentCount() + additional;
+    if (needed <= maxElements) return;
+
+    const newMaxElements = Math.max(maxElements * this.GROWTH_FACTOR, needed);
+    this.index.resizeIndex(newMaxElements);
+    console.log(
+      `[VectorStore] Resized index from ${maxElements} to ${newMaxElements}`,
+    );
+  }
+
+  // Written synchronously so back-to-back changes can't write the file at
+  // the same time. A failed write is logged; the index in memory is kept
+  // and saved again with the next change.
+  private saveIndex(): void {
+    try {
+      this.index.writeIndexSync(this.indexPath);
+    } catch (error) {
+      console.error("[VectorStore] Failed to save index:", error);
+    }
+  }
+
   async addVector(visitId: number, embedding: number[]): Promise<void> {
     try {
+      this.ensureCapacity(1);
       this.index.addPoint(embedding, visitId);
-      this.index.writeIndex(this.indexPath);
+      this.saveIndex();
       console.log(`[VectorStore] Added vector for visit ${visitId}`);
     } catch (error) {
       console.error(
@@ -46,9 +92,39 @@ export class VectorStore {
     }
   }
 
+  // Add many vectors with a single write to disk
+  addVectors(vectors: Array<{ visitId: number; embedding: number[] }>): number {
+    let added = 0;
+    try {
+      this.ensureCapacity(vectors.length);
+    } catch (error) {
+      console.error("[VectorStore] Failed to resize index:", error);
+      return 0;
+    }
+
+    for (const { visitId, embedding } of vectors) {
+      try {
+        this.index.addPoint(embedding, visitId);
+        added++;
+      } catch (error) {
+        console.error(
+          `[VectorStore] Failed to add vector for visit ${visitId}:`,
+          error,
+        );
+      }
+    }
+
+    if (added > 0) {
+      this.saveIndex();
+    }
+    return added;
+  }
+
   search(queryEmbedding: number[], k: number = 3): number[] {
     try {
-      const result = this.index.searchKnn(queryEmbedding, k);
+      const count = this.index.getCurrentCount();
+      if (count === 0) return [];
+      const result = this.index.searchKnn(queryEmbedding, Math.min(k, count));
       console.log(`[VectorStore] Found ${result.neighbors.length} matches`);
       return result.neighbors;
     } catch (error) {
@@ -57,6 +133,58 @@ export class VectorStore {
     }
   }
 
+  // Whether a live (not deleted) vector exists for the visit
+  hasVector(visitId: number): boolean {
+    try {
+      this.index.getPoint(visitId);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Labels of all live vectors in the index
+  getVisitIds(): number[] {
+    try {
+      return this.index
+        .getIdsList()
+        .filter((visitId) => this.hasVector(visitId));
+    } catch {
+      return [];
+    }
+  }
+
+  // Remove vectors for the given visits, leaving the rest of the index intact
+  deleteVectors(visitIds: number[]): number {
+    let removed = 0;
+    for (const visitId of visitIds) {
+      try {
+        this.index.markDelete(visitId);
+        removed++;
+      } catch {
+        // Visit was never embedded (or already deleted)
+      }
+    }
+
+    if (removed > 0) {
+      this.saveIndex();
+      console.log(`[VectorStore] Deleted ${removed} vectors`);
+    }
+    return removed;
+  }
+
+  // Start over with an empty index sized for `expectedCount` vectors
+  reset(expectedCount: number = 0): void {
+    const capacity = Math.max(
+      this.INITIAL_CAPACITY,
+      Math.ceil(expectedCount * 1.5),
+    );
+    this.index = new HierarchicalNSW("cosine", this.dimension);
+    this.index.initIndex(capacity);
+    this.saveIndex();
+    console.log(`[VectorStore] Reset index with capacity ${capacity}`);
+  }
+
   clear(): void {
     try {
       // Delete the index file if it exists
@@ -67,7 +195,7 @@ export class VectorStore {
 
       // Reinitialize with a fresh empty index
       this.index = new HierarchicalNSW("cosine", this.dimension);
-      this.index.initIndex(10000);
+      this.index.initIndex(this.INITIAL_CAPACITY);
       console.log("[VectorStore] Cleared and reinitialized vector index");
     } catch (error) {
       console.error("[VectorStore] Failed to clear index:", error);
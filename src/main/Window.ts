@@ -1,24 +1,68 @@
-import { BaseWindow, screen, shell } from "electron";
-import { HistoryDatabase } from "./database/HistoryDatabase";
+import {
+  BaseWindow,
+  dialog,
+  Menu,
+  screen,
+  shell,
+  type HandlerDetails,
+  type WebContents,
+  type WindowOpenHandlerResponse,
+} from "electron";
+import { randomUUID } from "crypto";
+import { readFile, writeFile } from "fs/promises";
+import type { BookmarkStore } from "./BookmarkStore";
+import type { ConversationStore } from "./ConversationStore";
+import type { DownloadManager } from "./DownloadManager";
+import type { HistoryDatabase } from "./database/HistoryDatabase";
+import type { EmbeddingIndexer } from "./EmbeddingIndexer";
+import type { EmbeddingProvider } from "./embeddings/EmbeddingProvider";
 import { Group, GROUP_COLORS, GroupColor } from "./Group";
-import { HistorySettings } from "./HistorySettings";
-import { HistoryTracker } from "./HistoryTracker";
+import type { HistoryRetention } from "./HistoryRetention";
+import type { HistorySearch } from "./HistorySearch";
+import type { HistorySettings } from "./HistorySettings";
+import type { HistoryTracker } from "./HistoryTracker";
 import type { LLMClient } from "./LLMClient";
 import { Panel } from "./Panel";
+import {
+  PERMISSION_LABELS,
+  SITE_PERMISSIONS,
+  type PermissionDecision,
+  type PermissionManager,
+} from "./PermissionManager";
+import type { PopupBlocker } from "./PopupBlocker";
+import type {
+  ClosedEntry,
+  ClosedGroup,
+  ClosedTab,
+  RecentlyClosed,
+} from "./RecentlyClosed";
+import type { SearchEngines } from "./SearchEngines";
+import type {
+  SessionBounds,
+  SessionStore,
+  SessionWindow,
+} from "./SessionStore";
 import { SideBar } from "./SideBar";
-import { Tab } from "./Tab";
+import { Tab, type TabOptions, type TabSnapshot } from "./Tab";
+import type { TabHibernator } from "./TabHibernator";
 import { TopBar } from "./TopBar";
-import { VectorStore } from "./VectorStore";
-import { WorkflowAnalyzer } from "./WorkflowAnalyzer";
+import type { VectorStore } from "./VectorStore";
+import type { WindowManager } from "./WindowManager";
+import type { WorkflowAnalyzer } from "./WorkflowAnalyzer";
+import { WorkflowReplayer } from "./WorkflowReplayer";
+import type { ZoomDirection, ZoomSettings } from "./ZoomSettings";
 
 type LayoutMode = "topbar" | "sidebar";
 
 export class Window {
+  private _id: string;
   private _baseWindow: BaseWindow;
+  private manager: WindowManager;
   private tabsMap: Map<string, Tab> = new Map();
   private groupsMap: Map<string, Group> = new Map();
+  // Removes the listeners this window added to each tab
+  private tabCleanups: Map<string, () => void> = new Map();
   private activeTabId: string | null = null;
-  private tabCounter: number = 0;
   private groupCounter: number = 0;
   public readonly llmClient: LLMClient;
   private _topBar: TopBar | null = null;
@@ -30,19 +74,28 @@ export class Window {
   private _edgeDetectionInterval: NodeJS.Timeout | null = null;
   private _hideTimeout: NodeJS.Timeout | null = null;
   private _isTemporarilyShowing: boolean = false;
+  // Private windows browse in an in-memory session and leave no history,
+  // saved chats or session entries behind
+  private _isPrivate: boolean;
+
+  // Workflows replay in the window they were started from
+  public readonly workflowReplayer: WorkflowReplayer;
+
+  constructor(
+    manager: WindowManager,
+    id: string,
+    bounds?: SessionBounds,
+    isPrivate: boolean = false,
+  ) {
+    this._id = id;
+    this.manager = manager;
+    this._isPrivate = isPrivate;
 
-  // History tracking
-  public readonly historyDatabase: HistoryDatabase;
-  public readonly historyTracker: HistoryTracker;
-  public readonly historySettings: HistorySettings;
-  public readonly workflowAnalyzer: WorkflowAnalyzer;
-  public readonly vectorStore: VectorStore;
-
-  constructor() {
     // Create the browser window.
     this._baseWindow = new BaseWindow({
       width: 1000,
       height: 800,
+      ...bounds,
       show: true,
       autoHideMenuBar: false,
       titleBarStyle: "hidden",
@@ -52,15 +105,7 @@ export class Window {
 
     this._baseWindow.setMinimumSize(1000, 800);
 
-    // Initialize history tracking
-    this.historyDatabase = new HistoryDatabase();
-    this.historySettings = new HistorySettings();
-    this.historyTracker = new HistoryTracker(this, this.historyDatabase);
-    this.workflowAnalyzer = new WorkflowAnalyzer(this.historyDatabase);
-    this.vectorStore = new VectorStore();
-
-    // Wire up vector store to database for cleanup operations
-    this.historyDatabase.setVectorStore(this.vectorStore);
+    this.workflowReplayer = new WorkflowReplayer(this);
 
     // Initialize with topbar layout by default
     // Create panel first so it's behind the topbar/sidebar
@@ -76,11 +121,8 @@ export class Window {
     // Create topbar after panel so it appears on top
     this._topBar = new TopBar(this._baseWindow);
 
-    // Create the first tab
-    this.createTab();
-
-    // Initialize history tracking asynchronously
-    void this.initializeHistoryTracking();
+    // Connect the chat to history once the database is ready
+    void this.initializeChat();
 
     // Set up window resize handler
     this._baseWindow.on("resize", () => {
@@ -98,39 +140,38 @@ export class Window {
       }
     });
 
-    // Handle external link opening
-    this.tabsMap.forEach((tab) => {
-      tab.webContents.setWindowOpenHandler((details) => {
-        void shell.openExternal(details.url);
-        return { action: "deny" };
-      });
-    });
-
     this.setupEventListeners();
     this.startEdgeDetection();
   }
 
-  private async initializeHistoryTracking(): Promise<void> {
+  private async initializeChat(): Promise<void> {
     // Wait for the database to be ready
     await this.historyDatabase.ready();
 
-    // Set up vector store for LLM and tracker
-    this.llmClient.setVectorStore(this.vectorStore);
-    this.historyTracker.setVectorStore(this.vectorStore);
-    this.historyTracker.setEmbeddingModel(this.llmClient.embeddingModel);
+    // Set up embeddings for LLM
+    this.llmClient.setEmbeddingProvider(this.embeddingProvider);
 
-    // Start history tracking
-    this.historyTracker.start();
+    // Chat conversations are stored alongside history
+    if (!this._isPrivate) {
+      this.llmClient.setConversationStore(this.conversationStore);
+    }
   }
 
   private setupEventListeners(): void {
+    // Let the manager save the session while the tabs are still open
+    this._baseWindow.on("close", () => {
+      this.manager.handleWindowClose(this);
+    });
+
     this._baseWindow.on("closed", () => {
-      // Stop history tracking
-      this.historyTracker.stop();
-      this.historyDatabase.close();
+      // Abort any running workflow replay
+      this.workflowReplayer.stop();
 
       // Clean up all tabs when window is closed
-      this.tabsMap.forEach((tab) => tab.destroy());
+      this.tabsMap.forEach((tab) => {
+        if (!this._isPrivate) this.historyTracker.handleTabClose(tab.id);
+        tab.destroy();
+      });
       this.tabsMap.clear();
       // Stop edge detection
       if (this._edgeDetectionInterval) {
@@ -244,10 +285,95 @@ export class Window {
   }
 
   // Getters
+  get id(): string {
+    return this._id;
+  }
+
+  get isPrivate(): boolean {
+    return this._isPrivate;
+  }
+
   get window(): BaseWindow {
     return this._baseWindow;
   }
 
+  // Shared services, owned by the WindowManager
+  get historyDatabase(): HistoryDatabase {
+    return this.manager.historyDatabase;
+  }
+
+  get historyTracker(): HistoryTracker {
+    return this.manager.historyTracker;
+  }
+
+  get historySettings(): HistorySettings {
+    return this.manager.historySettings;
+  }
+
+  get historyRetention(): HistoryRetention {
+    return this.manager.historyRetention;
+  }
+
+  get workflowAnalyzer(): WorkflowAnalyzer {
+    return this.manager.workflowAnalyzer;
+  }
+
+  get embeddingProvider(): EmbeddingProvider {
+    return this.manager.embeddingProvider;
+  }
+
+  get vectorStore(): VectorStore {
+    return this.manager.vectorStore;
+  }
+
+  get embeddingIndexer(): EmbeddingIndexer {
+    return this.manager.embeddingIndexer;
+  }
+
+  get historySearch(): HistorySearch {
+    return this.manager.historySearch;
+  }
+
+  get sessionStore(): SessionStore {
+    return this.manager.sessionStore;
+  }
+
+  get conversationStore(): ConversationStore {
+    return this.manager.conversationStore;
+  }
+
+  get bookmarkStore(): BookmarkStore {
+    return this.manager.bookmarkStore;
+  }
+
+  get downloadManager(): DownloadManager {
+    return this.manager.downloadManager;
+  }
+
+  get recentlyClosed(): RecentlyClosed {
+    return this.manager.recentlyClosed;
+  }
+
+  get searchEngines(): SearchEngines {
+    return this.manager.searchEngines;
+  }
+
+  get popupBlocker(): PopupBlocker {
+    return this.manager.popupBlocker;
+  }
+
+  get permissionManager(): PermissionManager {
+    return this.manager.permissionManager;
+  }
+
+  get zoomSettings(): ZoomSettings {
+    return this.manager.zoomSettings;
+  }
+
+  get tabHibernator(): TabHibernator {
+    return this.manager.tabHibernator;
+  }
+
   get activeTab(): Tab | null {
     if (this.activeTabId) {
       return this.tabsMap.get(this.activeTabId) || null;
@@ -263,11 +389,147 @@ export class Window {
     return this.tabsMap.size;
   }
 
+  // Whether `webContents` belongs to this window's bars, panel or tabs
+  ownsWebContents(webContents: WebContents): boolean {
+    return (
+      this._topBar?.view.webContents === webContents ||
+      this._sideBar?.view.webContents === webContents ||
+      this._panel.view.webContents === webContents ||
+      this.allTabs.some((tab) => tab.webContents === webContents)
+    );
+  }
+
   // Tab management methods
-  createTab(url?: string): Tab {
-    const tabId = `tab-${++this.tabCounter}`;
-    const tab = new Tab(tabId, url);
+  createTab(url?: string, options: TabOptions = {}): Tab {
+    // Links and popups opened from a container tab stay in its container
+    const opener = options.openerTabId
+      ? this.tabsMap.get(options.openerTabId)
+      : undefined;
+    const containerId = options.containerId ?? opener?.containerId ?? null;
+    if (containerId) {
+      this.manager.getContainerSession(containerId);
+    }
+
+    // New tabs start on the default search engine's home page
+    const tab = new Tab(
+      this.manager.nextTabId(),
+      url ?? this.searchEngines.homepage,
+      {
+        ...options,
+        isPrivate: this._isPrivate,
+        containerId,
+      },
+    );
+    this.attachTab(tab);
+    if (opener?.containerId && opener.containerId === containerId) {
+      tab.groupId = opener.groupId;
+    }
+
+    // Set up history tracking for this tab
+    if (!this._isPrivate) {
+      this.historyTracker.setupTabListeners(tab);
+    }
+
+    // If this is the first tab, make it active
+    if (this.tabsMap.size === 1 && !options.lazy) {
+      this.switchActiveTab(tab.id);
+    } else {
+      // Hide the tab initially if it's not the first one
+      tab.hide();
+    }
+
+    return tab;
+  }
+
+  // Take in a tab moved from another window and show it. A container tab
+  // joins this window's group for its container, recreated from the group
+  // it left when there is none.
+  adoptTab(tab: Tab, group: Group | null = null): void {
+    this.attachTab(tab);
+    if (tab.containerId) {
+      tab.groupId = this.getContainerGroup(tab.containerId, group).id;
+    }
+    this.movePinnedTabsFirst();
+    this.switchActiveTab(tab.id);
+  }
+
+  // Take a tab out of this window without destroying its page, so it can be
+  // moved to another window. Groups belong to the window, so it leaves its
+  // group behind.
+  detachTab(tabId: string): Tab | null {
+    const tab = this.tabsMap.get(tabId);
+    if (!tab) {
+      return null;
+    }
+
+    this.removeTab(tab);
+    tab.groupId = null;
+    tab.openerTabId = null;
+    tab.hide();
+
+    // If no tabs left, close the window
+    if (this.tabsMap.size === 0) {
+      this._baseWindow.close();
+    }
 
+    return tab;
+  }
+
+  // Reopen a tab's page in a new view, keeping its id, place and group.
+  // Used when the tab moves into or out of a container, and to hibernate it
+  // (the new view stays empty until the tab is shown).
+  private reopenTab(
+    oldTab: Tab,
+    containerId: string | null,
+    snapshot: TabSnapshot | null = oldTab.snapshot,
+  ): Tab {
+    const order = Array.from(this.tabsMap.keys());
+    const isActive = this.activeTabId === oldTab.id;
+
+    this._baseWindow.contentView.removeChildView(oldTab.view);
+    this.tabCleanups.get(oldTab.id)?.();
+    this.tabCleanups.delete(oldTab.id);
+    this.tabsMap.delete(oldTab.id);
+
+    if (containerId) {
+      this.manager.getContainerSession(containerId);
+    }
+    const tab = new Tab(oldTab.id, oldTab.url, {
+      title: oldTab.title,
+      lazy: !isActive,
+      openerTabId: oldTab.openerTabId,
+      isPrivate: this._isPrivate,
+      containerId,
+      ...(snapshot ? { snapshot } : {}),
+    });
+    oldTab.destroy();
+
+    this.attachTab(tab);
+    tab.position = oldTab.position;
+    tab.groupId = oldTab.groupId;
+    tab.isPinned = oldTab.isPinned;
+    tab.setMuted(oldTab.isMuted);
+    this.tabsMap = new Map(
+      order.flatMap((id) => {
+        const other = this.tabsMap.get(id);
+        return other ? [[id, other] as const] : [];
+      }),
+    );
+
+    // History keeps it as the same tab; the swap is neither a close nor a
+    // new visit
+    if (!this._isPrivate) {
+      this.historyTracker.handleTabViewReplaced(tab);
+    }
+    if (isActive) {
+      tab.show();
+    } else {
+      tab.hide();
+    }
+    return tab;
+  }
+
+  private attachTab(tab: Tab): void {
     // Set position to be at the end
     tab.position = this.tabsMap.size;
 
@@ -278,20 +540,69 @@ export class Window {
     this.setTabBounds(tab);
 
     // Store the tab
-    this.tabsMap.set(tabId, tab);
+    this.tabsMap.set(tab.id, tab);
 
-    // Set up history tracking for this tab
-    this.historyTracker.setupTabListeners(tab);
+    // Open window.open and target=_blank links as tabs
+    tab.webContents.setWindowOpenHandler((details) =>
+      this.handleWindowOpen(tab, details),
+    );
 
-    // If this is the first tab, make it active
-    if (this.tabsMap.size === 1) {
-      this.switchActiveTab(tabId);
-    } else {
-      // Hide the tab initially if it's not the first one
-      tab.hide();
+    // Search a newly loaded page again if the find bar is open
+    const handleLoad = (): void => {
+      if (this.activeTabId === tab.id) this.resetFind();
+    };
+    tab.webContents.on("did-finish-load", handleLoad);
+
+    // Pages open at their site's zoom level; Ctrl+wheel and pinch zoom step
+    // like the menu commands
+    const handleNavigate = (): void => this.zoomSettings.applyTo(tab);
+    const handleZoom = (_: Electron.Event, direction: "in" | "out"): void => {
+      this.zoomSettings.zoom(tab, direction);
+    };
+    tab.webContents.on("did-navigate", handleNavigate);
+    tab.webContents.on("zoom-changed", handleZoom);
+
+    // The tab bars show which tabs are playing sound
+    const handleAudio = (): void => this.notifyTabAudioChanged();
+    tab.webContents.on("audio-state-changed", handleAudio);
+    tab.webContents.on("media-started-playing", handleAudio);
+    tab.webContents.on("media-paused", handleAudio);
+
+    this.tabCleanups.set(tab.id, () => {
+      tab.webContents.removeListener("did-finish-load", handleLoad);
+      tab.webContents.removeListener("did-navigate", handleNavigate);
+      tab.webContents.removeListener("zoom-changed", handleZoom);
+      tab.webContents.removeListener("audio-state-changed", handleAudio);
+      tab.webContents.removeListener("media-started-playing", handleAudio);
+      tab.webContents.removeListener("media-paused", handleAudio);
+    });
+  }
+
+  // Remove a tab from the window, activating another if it was active
+  private removeTab(tab: Tab): void {
+    // Remove the WebContentsView from the window
+    this._baseWindow.contentView.removeChildView(tab.view);
+
+    // Remove from our tabs map
+    this.tabsMap.delete(tab.id);
+    this.tabCleanups.get(tab.id)?.();
+    this.tabCleanups.delete(tab.id);
+
+    // If this was the active tab, switch to its opener or another tab
+    if (this.activeTabId === tab.id) {
+      this.activeTabId = null;
+      const remainingTabs = Array.from(this.tabsMap.keys());
+      if (tab.openerTabId && this.tabsMap.has(tab.openerTabId)) {
+        this.switchActiveTab(tab.openerTabId);
+      } else if (remainingTabs.length > 0) {
+        this.switchActiveTab(remainingTabs[0]);
+      }
     }
 
-    return tab;
+    // Tabs it opened no longer have an opener to return to
+    this.tabsMap.forEach((other) => {
+      if (other.openerTabId === tab.id) other.openerTabId = null;
+    });
   }
 
   // Helper to set tab bounds based on layout mode
@@ -328,35 +639,176 @@ export class Window {
       return false;
     }
 
-    // Track tab close event
-    this.historyTracker.handleTabClose(tabId);
+    // Track tab close event and keep it for reopening
+    if (!this._isPrivate) {
+      this.historyTracker.handleTabClose(tabId);
+      const group = tab.groupId ? this.groupsMap.get(tab.groupId) : undefined;
+      this.recentlyClosed.addTab(
+        this.id,
+        this.toClosedTab(tab),
+        group ? this.toClosedGroup(group) : null,
+      );
+    }
 
-    // Remove the WebContentsView from the window
-    this._baseWindow.contentView.removeChildView(tab.view);
+    this.removeTab(tab);
 
     // Destroy the tab
     tab.destroy();
 
-    // Remove from our tabs map
-    this.tabsMap.delete(tabId);
+    // If no tabs left, close the window
+    if (this.tabsMap.size === 0) {
+      this._baseWindow.close();
+    }
 
-    // If this was the active tab, switch to another tab
-    if (this.activeTabId === tabId) {
-      this.activeTabId = null;
-      const remainingTabs = Array.from(this.tabsMap.keys());
-      if (remainingTabs.length > 0) {
-        this.switchActiveTab(remainingTabs[0]);
-      }
+    return true;
+  }
+
+  // Close a group with all its tabs, keeping them for reopening as one
+  closeGroup(groupId: string): boolean {
+    const group = this.groupsMap.get(groupId);
+    if (!group) {
+      return false;
     }
 
-    // If no tabs left, close the window
+    const tabs = this.allTabs.filter((tab) => tab.groupId === groupId);
+    // Move away from the group first, so none of its tabs is shown on the
+    // way out
+    const outside = this.allTabs.find((tab) => tab.groupId !== groupId);
+    if (outside && tabs.some((tab) => tab.id === this.activeTabId)) {
+      this.switchActiveTab(outside.id);
+    }
+
+    if (!this._isPrivate) {
+      this.recentlyClosed.addGroup(
+        this.id,
+        this.toClosedGroup(group),
+        tabs.map((tab) => this.toClosedTab(tab)),
+      );
+    }
+
+    // The container keeps its cookies while the group can be reopened
+    this.groupsMap.delete(groupId);
+    tabs.forEach((tab) => {
+      if (!this._isPrivate) {
+        this.historyTracker.handleTabClose(tab.id);
+      }
+      this.removeTab(tab);
+      tab.destroy();
+    });
+
     if (this.tabsMap.size === 0) {
       this._baseWindow.close();
     }
+    return true;
+  }
+
+  // Reopen a closed tab or group, the most recently closed by default.
+  // Only regular windows keep closed tabs, so private windows can't.
+  reopenClosed(entryId?: string): boolean {
+    if (this._isPrivate) {
+      return false;
+    }
+    const entry = this.recentlyClosed.take(entryId);
+    if (!entry) {
+      return false;
+    }
 
+    const group = this.restoreClosedGroup(entry);
+    const closedTabs = entry.type === "tab" ? [entry.tab] : entry.tabs;
+    const tabs = closedTabs.map((closed) => {
+      const tab = this.createTab(closed.snapshot.url, {
+        title: closed.snapshot.title,
+        snapshot: closed.snapshot,
+        containerId: group?.containerId ?? null,
+      });
+      tab.groupId = group?.id ?? null;
+      tab.isPinned = closed.isPinned;
+      this.moveTabToIndex(tab.id, closed.position);
+      return tab;
+    });
+
+    this.movePinnedTabsFirst();
+    this.switchActiveTab(tabs[0].id);
     return true;
   }
 
+  private toClosedTab(tab: Tab): ClosedTab {
+    return {
+      snapshot: tab.captureSnapshot(),
+      position: Array.from(this.tabsMap.keys()).indexOf(tab.id),
+      isPinned: tab.isPinned,
+    };
+  }
+
+  private toClosedGroup(group: Group): ClosedGroup {
+    return {
+      id: group.id,
+      title: group.title,
+      colorId: group.color.id,
+      containerId: group.containerId,
+    };
+  }
+
+  // The group a reopened tab goes back into: the same group if it's still
+  // open in this window, otherwise a new one like it
+  private restoreClosedGroup(entry: ClosedEntry): Group | null {
+    const closed = entry.group;
+    if (!closed) return null;
+
+    if (entry.type === "tab" && entry.windowId === this._id) {
+      const existing = this.groupsMap.get(closed.id);
+      if (existing) return existing;
+    }
+    if (closed.containerId) {
+      const existing = this.allGroups.find(
+        (group) => group.containerId === closed.containerId,
+      );
+      if (existing) return existing;
+    }
+
+    const group = this.createGroup(closed.title, closed.colorId);
+    group.containerId = closed.containerId;
+    return group;
+  }
+
+  private moveTabToIndex(tabId: string, index: number): void {
+    const order = Array.from(this.tabsMap.keys()).filter((id) => id !== tabId);
+    order.splice(Math.max(0, Math.min(index, order.length)), 0, tabId);
+    this.reorderTabs(order);
+  }
+
+  // Tabs in the order the tab bar shows them: pinned tabs, ungrouped tabs,
+  // then each group's tabs. Tabs in collapsed groups are left out.
+  get displayedTabs(): Tab[] {
+    const tabs = this.allTabs.filter((tab) => !tab.isPinned);
+    return [
+      ...this.allTabs.filter((tab) => tab.isPinned),
+      ...tabs.filter((tab) => !tab.groupId),
+      ...this.allGroups
+        .filter((group) => !group.isCollapsed)
+        .flatMap((group) => tabs.filter((tab) => tab.groupId === group.id)),
+    ];
+  }
+
+  // Activate the displayed tab at `index`; -1 is the last one
+  switchToTabAt(index: number): boolean {
+    const tabs = this.displayedTabs;
+    const tab = index < 0 ? tabs[tabs.length + index] : tabs[index];
+    return tab ? this.switchActiveTab(tab.id) : false;
+  }
+
+  // Activate the displayed tab `step` places from the active one, wrapping
+  // around at either end
+  switchToAdjacentTab(step: number): boolean {
+    const tabs = this.displayedTabs;
+    if (tabs.length === 0) return false;
+    // An active tab in a collapsed group counts as being past the ends
+    const current = tabs.findIndex((tab) => tab.id === this.activeTabId);
+    const from = current !== -1 ? current : step > 0 ? -1 : tabs.length;
+    const index = (((from + step) % tabs.length) + tabs.length) % tabs.length;
+    return this.switchActiveTab(tabs[index].id);
+  }
+
   switchActiveTab(tabId: string): boolean {
     const tab = this.tabsMap.get(tabId);
     if (!tab) {
@@ -367,6 +819,7 @@ export class Window {
     if (this.activeTabId && this.activeTabId !== tabId) {
       const currentTab = this.tabsMap.get(this.activeTabId);
       if (currentTab) {
+        currentTab.stopFindInPage();
         currentTab.hide();
       }
     }
@@ -375,8 +828,13 @@ export class Window {
     tab.show();
     this.activeTabId = tabId;
 
+    // Find results belonged to the previous tab
+    this.resetFind();
+
     // Track tab switch event
-    this.historyTracker.handleTabSwitch(tabId);
+    if (!this._isPrivate) {
+      this.historyTracker.handleTabSwitch(tabId);
+    }
 
     // Update the window title to match the tab title
     this._baseWindow.setTitle(tab.title || "Blueberry Browser");
@@ -384,6 +842,321 @@ export class Window {
     return true;
   }
 
+  // Free the page of a background tab, keeping what's needed to bring it
+  // back when the tab is next shown. Returns whether it was hibernated.
+  async hibernateTab(tabId: string): Promise<boolean> {
+    const tab = this.tabsMap.get(tabId);
+    if (!tab || !(await this.canHibernate(tab))) return false;
+
+    const snapshot = await tab.createSnapshot();
+    // The user may have switched to or closed the tab meanwhile
+    if (this.tabsMap.get(tabId) !== tab || this.activeTabId === tabId) {
+      return false;
+    }
+    this.reopenTab(tab, tab.containerId, snapshot);
+    console.log(`[Window] Hibernated ${tabId} (${snapshot.url})`);
+    return true;
+  }
+
+  // Pinned tabs, and tabs that are playing sound, being inspected or
+  // holding unsaved form input stay awake
+  private async canHibernate(tab: Tab): Promise<boolean> {
+    if (this.activeTabId === tab.id || !tab.isLoaded || tab.isPinned) {
+      return false;
+    }
+    if (tab.isAudible || tab.webContents.isDevToolsOpened()) return false;
+    return !(await tab.hasUnsavedInput());
+  }
+
+  // Pinned tabs sit compactly at the start of the tab bar. A pinned tab
+  // keeps its group and returns to it when unpinned.
+  setTabPinned(tabId: string, pinned: boolean): boolean {
+    const tab = this.tabsMap.get(tabId);
+    if (!tab) return false;
+
+    tab.isPinned = pinned;
+    this.movePinnedTabsFirst();
+    return true;
+  }
+
+  setTabMuted(tabId: string, muted: boolean): boolean {
+    const tab = this.tabsMap.get(tabId);
+    if (!tab) return false;
+
+    tab.setMuted(muted);
+    this.notifyTabAudioChanged();
+    return true;
+  }
+
+  // Keep pinned tabs ahead of the others, in their current order
+  private movePinnedTabsFirst(): void {
+    const tabs = this.allTabs;
+    this.tabsMap = new Map(
+      [
+        ...tabs.filter((tab) => tab.isPinned),
+        ...tabs.filter((tab) => !tab.isPinned),
+      ].map((tab) => [tab.id, tab]),
+    );
+  }
+
+  private notifyTabAudioChanged(): void {
+    [this._topBar, this._sideBar].forEach((bar) => {
+      if (bar && !bar.view.webContents.isDestroyed()) {
+        bar.view.webContents.send("tab-audio-changed");
+      }
+    });
+  }
+
+  // Show the find bar in the topbar or sidebar and focus it
+  openFindBar(): void {
+    const bar = this.showBar();
+    if (!bar) return;
+    bar.view.webContents.focus();
+    bar.view.webContents.send("find-bar-open");
+  }
+
+  // Let the topbar or sidebar carry out a command, or catch up with one
+  // that ran here. With `focus`, the bar is shown and focused first.
+  sendCommandToBar(commandId: string, focus: boolean): void {
+    const bar = focus ? this.showBar() : (this._topBar ?? this._sideBar);
+    if (!bar || bar.view.webContents.isDestroyed()) return;
+    if (focus) bar.view.webContents.focus();
+    bar.view.webContents.send("run-command", commandId);
+  }
+
+  // Show the bar of the current layout if the user hid it
+  private showBar(): TopBar | SideBar | null {
+    if (this._layoutMode === "topbar" && !this._isTopBarVisible) {
+      this.toggleTopBarVisibility();
+    } else if (this._layoutMode === "sidebar" && !this._isSideBarVisible) {
+      this.toggleSideBarVisibility();
+    }
+    return this._topBar ?? this._sideBar;
+  }
+
+  // Tell the find bar its results no longer match the visible page
+  private resetFind(): void {
+    this._topBar?.view.webContents.send("find-reset");
+    this._sideBar?.view.webContents.send("find-reset");
+  }
+
+  // Decide what happens when a page calls window.open or follows a
+  // target=_blank link
+  private handleWindowOpen(
+    opener: Tab,
+    details: HandlerDetails,
+  ): WindowOpenHandlerResponse {
+    const { url, disposition } = details;
+    const hasUserGesture = opener.hasRecentUserGesture;
+
+    if (
+      this.popupBlocker.shouldBlock(
+        opener.url,
+        hasUserGesture,
+        opener.isPrivate,
+      )
+    ) {
+      opener.addBlockedPopup(url);
+      console.log(`[Window] Blocked popup from ${opener.url}: ${url}`);
+      return { action: "deny" };
+    }
+
+    // mailto: and other app links go to the system handler
+    if (!/^(https?|about|data|blob|file):/i.test(url)) {
+      void shell.openExternal(url);
+      return { action: "deny" };
+    }
+
+    return {
+      action: "allow",
+      createWindow: (options) => {
+        const tab = this.createTab(url, {
+          popupOptions: options,
+          openerTabId: opener.id,
+        });
+        // Cmd/Ctrl-click and middle-click open in the background
+        if (disposition !== "background-tab") {
+          this.switchActiveTab(tab.id);
+        }
+        return tab.webContents;
+      },
+    };
+  }
+
+  // Open a popup the blocker stopped, as a foreground tab
+  openBlockedPopup(tabId: string, url: string): Tab | null {
+    const opener = this.tabsMap.get(tabId);
+    if (!opener) return null;
+    opener.removeBlockedPopup(url);
+    const tab = this.createTab(url, { openerTabId: opener.id });
+    this.switchActiveTab(tab.id);
+    return tab;
+  }
+
+  // Address bar menu listing a tab's blocked popups
+  showBlockedPopupsMenu(tabId: string): void {
+    const tab = this.tabsMap.get(tabId);
+    if (!tab) return;
+
+    let host = tab.url;
+    try {
+      host = new URL(tab.url).hostname;
+    } catch {
+      // Keep the full URL
+    }
+    const blocked = tab.blockedPopups;
+    const allowed = this.popupBlocker.isSiteAllowed(tab.url, tab.isPrivate);
+
+    const menu = Menu.buildFromTemplate([
+      {
+        label:
+          blocked.length > 0
+            ? `Pop-ups blocked on ${host}`
+            : `Pop-ups allowed on ${host}`,
+        enabled: false,
+      },
+      ...blocked.map((url) => ({
+        label: url.length > 60 ? `${url.substring(0, 59)}…` : url,
+        click: () => {
+          this.openBlockedPopup(tabId, url);
+        },
+      })),
+      { type: "separator" },
+      {
+        label: `Always allow pop-ups from ${host}`,
+        type: "checkbox",
+        checked: allowed,
+        click: () => {
+          this.popupBlocker.setSiteAllowed(tab.url, !allowed, tab.isPrivate);
+        },
+      },
+    ]);
+    menu.popup({ window: this._baseWindow });
+  }
+
+  // Zoom a tab's page; the level is remembered for its site
+  zoomTab(tabId: string, direction: ZoomDirection): number | null {
+    const tab = this.tabsMap.get(tabId);
+    if (!tab) return null;
+    return this.zoomSettings.zoom(tab, direction);
+  }
+
+  // Address bar menu of the zoom indicator
+  showZoomMenu(tabId: string): void {
+    const tab = this.tabsMap.get(tabId);
+    if (!tab) return;
+
+    const percent = Math.round(tab.zoomFactor * 100);
+    const menu = Menu.buildFromTemplate([
+      { label: `Zoom: ${percent}%`, enabled: false },
+      { type: "separator" },
+      { label: "Zoom In", click: () => this.zoomTab(tabId, "in") },
+      { label: "Zoom Out", click: () => this.zoomTab(tabId, "out") },
+      {
+        label: "Reset to 100%",
+        enabled: percent !== 100,
+        click: () => this.zoomTab(tabId, "reset"),
+      },
+    ]);
+    menu.popup({ window: this._baseWindow });
+  }
+
+  // Site info menu opened from the address bar, listing the permissions
+  // decided for the page's origin
+  showSiteInfoMenu(tabId: string): void {
+    const tab = this.tabsMap.get(tabId);
+    if (!tab) return;
+
+    let origin: string;
+    try {
+      origin = new URL(tab.url).origin;
+    } catch {
+      return;
+    }
+    if (origin === "null") return;
+
+    const decisions = this.permissionManager.getSitePermissions(
+      origin,
+      this._isPrivate,
+    );
+    const choices: Array<{
+      label: string;
+      decision: PermissionDecision | null;
+    }> = [
+      { label: "Ask", decision: null },
+      { label: "Allow", decision: "allow" },
+      { label: "Block", decision: "block" },
+    ];
+
+    const menu = Menu.buildFromTemplate([
+      { label: `Site settings for ${origin}`, enabled: false },
+      { type: "separator" },
+      ...SITE_PERMISSIONS.map((permission) => {
+        const current = decisions[permission] ?? null;
+        const choice = choices.find((c) => c.decision === current);
+        return {
+          label: `${PERMISSION_LABELS[permission]}: ${choice?.label ?? "Ask"}`,
+          submenu: choices.map(({ label, decision }) => ({
+            label,
+            type: "radio" as const,
+            checked: decision === current,
+            click: () => {
+              this.permissionManager.setPermission(
+                origin,
+                permission,
+                decision,
+                this._isPrivate,
+              );
+            },
+          })),
+        };
+      }),
+      { type: "separator" },
+      {
+        label: "Reset permissions",
+        enabled: Object.keys(decisions).length > 0,
+        click: () => {
+          this.permissionManager.resetSite(origin, this._isPrivate);
+        },
+      },
+    ]);
+    menu.popup({ window: this._baseWindow });
+  }
+
+  // Star or unstar the page open in a tab; returns whether it is bookmarked
+  toggleBookmark(tabId: string): boolean {
+    const tab = this.tabsMap.get(tabId);
+    if (!tab) return false;
+    return this.bookmarkStore.toggle(tab.url, tab.title);
+  }
+
+  // Import a bookmark file chosen by the user. Returns the number of
+  // bookmarks imported, or null if the user cancelled.
+  async importBookmarks(): Promise<number | null> {
+    const result = await dialog.showOpenDialog(this._baseWindow, {
+      title: "Import Bookmarks",
+      filters: [{ name: "Bookmark files", extensions: ["html", "htm"] }],
+      properties: ["openFile"],
+    });
+    const [filePath] = result.filePaths;
+    if (result.canceled || !filePath) return null;
+
+    return this.bookmarkStore.importHtml(await readFile(filePath, "utf-8"));
+  }
+
+  // Save every bookmark to a file chosen by the user
+  async exportBookmarks(): Promise<boolean> {
+    const result = await dialog.showSaveDialog(this._baseWindow, {
+      title: "Export Bookmarks",
+      defaultPath: "bookmarks.html",
+      filters: [{ name: "Bookmark files", extensions: ["html"] }],
+    });
+    if (result.canceled || !result.filePath) return false;
+
+    await writeFile(result.filePath, this.bookmarkStore.exportHtml(), "utf-8");
+    return true;
+  }
+
   getTab(tabId: string): Tab | null {
     return this.tabsMap.get(tabId) || null;
   }
@@ -418,7 +1191,13 @@ export class Window {
   }
 
   // Group Management
-  createGroup(title: string, colorId?: string): Group {
+  // Private windows already browse in a session of their own, so their
+  // groups can't be containers
+  createGroup(
+    title: string,
+    colorId?: string,
+    isContainer: boolean = false,
+  ): Group {
     const groupId = `group-${++this.groupCounter}`;
     const color = colorId
       ? GROUP_COLORS.find((c: GroupColor) => c.id === colorId) ||
@@ -427,28 +1206,43 @@ export class Window {
 
     // Set position to be at the end
     const position = this.groupsMap.size;
-    const group = new Group(groupId, title, color, false, position);
+    const containerId = isContainer && !this._isPrivate ? randomUUID() : null;
+    const group = new Group(
+      groupId,
+      title,
+      color,
+      false,
+      position,
+      containerId,
+    );
     this.groupsMap.set(groupId, group);
 
     return group;
   }
 
+  // Deleting a container group reopens its tabs in the default session and
+  // deletes the container's cookies and storage
   deleteGroup(groupId: string): boolean {
     const group = this.groupsMap.get(groupId);
     if (!group) {
       return false;
     }
 
-    // Remove group from all tabs
-    this.tabsMap.forEach((tab) => {
-      if (tab.groupId === groupId) {
-        tab.groupId = null;
-      }
-    });
-
     // Delete the group
     this.groupsMap.delete(groupId);
 
+    // Remove group from all tabs
+    this.allTabs
+      .filter((tab) => tab.groupId === groupId)
+      .forEach((tab) => {
+        const ungrouped = tab.containerId ? this.reopenTab(tab, null) : tab;
+        ungrouped.groupId = null;
+      });
+
+    if (group.containerId) {
+      this.manager.releaseContainer(group.containerId);
+    }
+
     return true;
   }
 
@@ -458,6 +1252,7 @@ export class Window {
       title?: string;
       colorId?: string;
       isCollapsed?: boolean;
+      isContainer?: boolean;
     },
   ): boolean {
     const group = this.groupsMap.get(groupId);
@@ -465,6 +1260,23 @@ export class Window {
       return false;
     }
 
+    // Turning a group into a container or back reopens its tabs in the new
+    // session; a container that is no longer used is deleted
+    if (
+      updates.isContainer !== undefined &&
+      updates.isContainer !== group.isContainer &&
+      !this._isPrivate
+    ) {
+      const previousContainerId = group.containerId;
+      group.containerId = updates.isContainer ? randomUUID() : null;
+      this.allTabs
+        .filter((tab) => tab.groupId === groupId)
+        .forEach((tab) => this.reopenTab(tab, group.containerId));
+      if (previousContainerId) {
+        this.manager.releaseContainer(previousContainerId);
+      }
+    }
+
     if (updates.title !== undefined) {
       group.title = updates.title;
     }
@@ -485,6 +1297,8 @@ export class Window {
     return true;
   }
 
+  // A tab moving into or out of a container group is reopened in the
+  // group's session. Adding a pinned tab to a group unpins it.
   addTabToGroup(tabId: string, groupId: string): boolean {
     const tab = this.tabsMap.get(tabId);
     const group = this.groupsMap.get(groupId);
@@ -493,7 +1307,15 @@ export class Window {
       return false;
     }
 
-    tab.groupId = groupId;
+    const grouped =
+      tab.containerId !== group.containerId
+        ? this.reopenTab(tab, group.containerId)
+        : tab;
+    grouped.groupId = groupId;
+    // Pinned tabs don't show in their group until unpinned
+    if (grouped.isPinned) {
+      this.setTabPinned(tabId, false);
+    }
     return true;
   }
 
@@ -503,10 +1325,29 @@ export class Window {
       return false;
     }
 
-    tab.groupId = null;
+    const ungrouped = tab.containerId ? this.reopenTab(tab, null) : tab;
+    ungrouped.groupId = null;
     return true;
   }
 
+  // This window's group for a container, created like `template` if needed
+  private getContainerGroup(
+    containerId: string,
+    template: Group | null,
+  ): Group {
+    const existing = this.allGroups.find(
+      (group) => group.containerId === containerId,
+    );
+    if (existing) return existing;
+
+    const group = this.createGroup(
+      template?.title ?? "Container",
+      template?.color.id,
+    );
+    group.containerId = containerId;
+    return group;
+  }
+
   getGroup(groupId: string): Group | null {
     return this.groupsMap.get(groupId) || null;
   }
@@ -567,6 +1408,85 @@ export class Window {
     return true;
   }
 
+  // Session management
+  getSessionWindow(): SessionWindow {
+    const activeTabId = this.activeTabId;
+    return {
+      bounds: this._baseWindow.getBounds(),
+      tabs: this.allTabs.map((tab, index) => ({
+        url: tab.url,
+        title: tab.title,
+        position: index,
+        groupId: tab.groupId,
+        isActive: tab.id === activeTabId,
+        isPinned: tab.isPinned,
+        isMuted: tab.isMuted,
+      })),
+      groups: this.allGroups.map((group) => ({
+        id: group.id,
+        title: group.title,
+        colorId: group.color.id,
+        isCollapsed: group.isCollapsed,
+        position: group.position,
+        containerId: group.containerId,
+      })),
+    };
+  }
+
+  // Reopen the tabs and groups of a saved window. Tabs whose URL is
+  // already open are skipped; background tabs load when first shown.
+  restoreSession(snapshot: SessionWindow): boolean {
+    const openUrls = new Set(this.allTabs.map((tab) => tab.url));
+    const savedTabs = [...snapshot.tabs]
+      .sort((a, b) => a.position - b.position)
+      .filter((saved) => !openUrls.has(saved.url));
+
+    if (savedTabs.length === 0) {
+      return false;
+    }
+
+    // Recreate groups that still have tabs, mapping saved ids to new ones
+    const groupIds = new Map<string, string>();
+    [...snapshot.groups]
+      .sort((a, b) => a.position - b.position)
+      .forEach((saved) => {
+        if (!savedTabs.some((tab) => tab.groupId === saved.id)) return;
+        const group = this.createGroup(saved.title, saved.colorId);
+        group.isCollapsed = saved.isCollapsed;
+        // The container's cookies are still on disk
+        if (saved.containerId && !this._isPrivate) {
+          group.containerId = saved.containerId;
+        }
+        groupIds.set(saved.id, group.id);
+      });
+
+    let activeTab: Tab | null = null;
+    for (const saved of savedTabs) {
+      const groupId = saved.groupId ? groupIds.get(saved.groupId) : undefined;
+      const tab = this.createTab(saved.url, {
+        title: saved.title,
+        lazy: true,
+        containerId: groupId ? this.groupsMap.get(groupId)?.containerId : null,
+      });
+      tab.groupId = groupId || null;
+      tab.isPinned = saved.isPinned === true;
+      if (saved.isMuted) {
+        tab.setMuted(true);
+      }
+      if (saved.isActive || !activeTab) {
+        activeTab = tab;
+      }
+    }
+
+    this.movePinnedTabsFirst();
+    if (activeTab) {
+      this.switchActiveTab(activeTab.id);
+    }
+
+    console.log(`[Window] Restored ${savedTabs.length} tabs from session`);
+    return true;
+  }
+
   // Window methods
   show(): void {
     this._baseWindow.show();
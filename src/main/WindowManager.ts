@@ -0,0 +1,423 @@
+import { session, type Session, type WebContents } from "electron";
+import { BookmarkStore } from "./BookmarkStore";
+import { CommandRegistry } from "./CommandRegistry";
+import { ConversationStore } from "./ConversationStore";
+import { DownloadManager } from "./DownloadManager";
+import { HistoryDatabase } from "./database/HistoryDatabase";
+import { EmbeddingIndexer } from "./EmbeddingIndexer";
+import type { Group } from "./Group";
+import {
+  createEmbeddingProvider,
+  type EmbeddingProvider,
+} from "./embeddings/EmbeddingProvider";
+import { HistoryRetention } from "./HistoryRetention";
+import { HistorySearch } from "./HistorySearch";
+import { HistorySettings } from "./HistorySettings";
+import { HistoryTracker } from "./HistoryTracker";
+import { OmniboxSuggestions } from "./OmniboxSuggestions";
+import { PermissionManager } from "./PermissionManager";
+import { PopupBlocker } from "./PopupBlocker";
+import { RecentlyClosed } from "./RecentlyClosed";
+import { SearchEngines } from "./SearchEngines";
+import {
+  SessionStore,
+  type SessionSnapshot,
+  type SessionWindow,
+} from "./SessionStore";
+import { containerPartition, PRIVATE_PARTITION, type Tab } from "./Tab";
+import { TabHibernator } from "./TabHibernator";
+import { VectorStore } from "./VectorStore";
+import { Window } from "./Window";
+import { WorkflowAnalyzer } from "./WorkflowAnalyzer";
+import { ZoomSettings } from "./ZoomSettings";
+
+interface CreateWindowOptions {
+  // Saved window to reopen
+  session?: SessionWindow;
+  // Existing tab to move into the new window
+  tab?: Tab;
+  // Container group the moved tab belonged to, recreated in the new window
+  tabGroup?: Group | null;
+  // Open a private window; a moved tab's own mode takes precedence
+  isPrivate?: boolean;
+  // Open with the most recently closed tab or group instead of a new tab
+  reopenClosed?: boolean;
+}
+
+// Owns every browser window and the services they share: history, search,
+// conversations, bookmarks, downloads, popup settings, site permissions,
+// zoom levels, tab hibernation, recently closed tabs, search engines,
+// address bar suggestions, keyboard shortcuts and the saved session
+export class WindowManager {
+  private windowsMap: Map<string, Window> = new Map();
+  private windowCounter: number = 0;
+  private tabCounter: number = 0;
+  private lastFocusedId: string | null = null;
+  private quitting: boolean = false;
+
+  // History tracking
+  public readonly historyDatabase: HistoryDatabase;
+  public readonly historyTracker: HistoryTracker;
+  public readonly historySettings: HistorySettings;
+  public readonly historyRetention: HistoryRetention;
+  public readonly workflowAnalyzer: WorkflowAnalyzer;
+  public readonly embeddingProvider: EmbeddingProvider;
+  public readonly vectorStore: VectorStore;
+  public readonly embeddingIndexer: EmbeddingIndexer;
+  public readonly historySearch: HistorySearch;
+  public readonly sessionStore: SessionStore;
+  public readonly conversationStore: ConversationStore;
+  public readonly bookmarkStore: BookmarkStore;
+  public readonly downloadManager: DownloadManager;
+  public readonly popupBlocker: PopupBlocker;
+  public readonly permissionManager: PermissionManager;
+  public readonly zoomSettings: ZoomSettings;
+  public readonly tabHibernator: TabHibernator;
+  public readonly recentlyClosed: RecentlyClosed;
+  public readonly searchEngines: SearchEngines;
+  public readonly omniboxSuggestions: OmniboxSuggestions;
+  public readonly commands: CommandRegistry;
+
+  constructor() {
+    // Initialize history tracking
+    this.historyDatabase = new HistoryDatabase();
+    this.historySettings = new HistorySettings();
+    this.historyTracker = new HistoryTracker(
+      this,
+      this.historyDatabase,
+      this.historySettings,
+    );
+    this.historyRetention = new HistoryRetention(
+      this.historyDatabase,
+      this.historySettings,
+    );
+    this.workflowAnalyzer = new WorkflowAnalyzer(this.historyDatabase);
+    this.embeddingProvider = createEmbeddingProvider();
+    this.vectorStore = new VectorStore(
+      this.embeddingProvider.modelName,
+      this.embeddingProvider.dimension,
+    );
+
+    this.embeddingIndexer = new EmbeddingIndexer(
+      this.historyDatabase,
+      this.vectorStore,
+      this.embeddingProvider,
+    );
+    this.historySearch = new HistorySearch(
+      this.historyDatabase,
+      this.vectorStore,
+      this.embeddingProvider,
+    );
+
+    this.conversationStore = new ConversationStore(this.historyDatabase);
+    this.bookmarkStore = new BookmarkStore(this.historyDatabase, this);
+
+    // Wire up vector store to database for cleanup operations
+    this.historyDatabase.setVectorStore(this.vectorStore);
+
+    // Track downloads; progress is reported to every window's panel
+    this.downloadManager = new DownloadManager(this);
+
+    // Popups open as tabs unless blocked
+    this.popupBlocker = new PopupBlocker();
+
+    // Camera, microphone, location and notifications are asked for per site
+    this.permissionManager = new PermissionManager(this);
+    this.attachSession(session.defaultSession);
+
+    // Zoom levels are remembered per site
+    this.zoomSettings = new ZoomSettings(this);
+
+    // Tabs left in the background are put to sleep to free memory
+    this.tabHibernator = new TabHibernator(this);
+    this.tabHibernator.start();
+
+    // Closed tabs and groups can be reopened
+    this.recentlyClosed = new RecentlyClosed(this);
+
+    // Searches from the address bar, new tabs and the agent
+    this.searchEngines = new SearchEngines(this);
+
+    // The address bar suggests pages, open tabs and searches while typing
+    this.omniboxSuggestions = new OmniboxSuggestions(this);
+
+    // Menu and bar actions, and the keys bound to them
+    this.commands = new CommandRegistry(this);
+
+    this.sessionStore = new SessionStore();
+
+    // Initialize history tracking asynchronously
+    void this.initializeHistoryTracking();
+  }
+
+  private async initializeHistoryTracking(): Promise<void> {
+    // Wait for the database to be ready
+    await this.historyDatabase.ready();
+
+    this.historyTracker.setEmbeddingIndexer(this.embeddingIndexer);
+
+    // Start history tracking
+    this.historyTracker.start();
+
+    // Purge history past the retention window now and periodically
+    this.historyRetention.start();
+
+    // Re-embed after a model change and reconcile the index with the database
+    this.embeddingIndexer.synchronize().catch((error) => {
+      console.error(
+        "[WindowManager] Vector index consistency check failed:",
+        error,
+      );
+    });
+  }
+
+  // Reopen the windows of the last session, or start with a single window
+  restoreLastSession(): void {
+    const lastSession = this.sessionStore.getLastSession();
+    if (!lastSession || !this.restoreSession(lastSession)) {
+      this.createWindow();
+    }
+    this.sessionStore.start(() => this.getSessionSnapshot());
+  }
+
+  createWindow(options: CreateWindowOptions = {}): Window {
+    const isPrivate = options.tab?.isPrivate ?? options.isPrivate ?? false;
+    if (isPrivate) {
+      // Downloads from private tabs show up but aren't remembered
+      this.attachSession(
+        session.fromPartition(PRIVATE_PARTITION),
+        PRIVATE_PARTITION,
+      );
+    }
+
+    const window = new Window(
+      this,
+      `window-${++this.windowCounter}`,
+      options.session?.bounds,
+      isPrivate,
+    );
+    this.windowsMap.set(window.id, window);
+    this.lastFocusedId = window.id;
+
+    window.baseWindow.on("focus", () => {
+      this.lastFocusedId = window.id;
+    });
+
+    if (options.tab) {
+      window.adoptTab(options.tab, options.tabGroup);
+    } else if (options.reopenClosed) {
+      if (!window.reopenClosed()) {
+        window.createTab();
+      }
+    } else if (!options.session || !window.restoreSession(options.session)) {
+      window.createTab();
+    }
+
+    return window;
+  }
+
+  // Track downloads and answer permission requests of pages in `session`,
+  // the one for `partition`
+  attachSession(browsingSession: Session, partition: string = ""): void {
+    this.downloadManager.attach(browsingSession, partition);
+    this.permissionManager.attach(browsingSession);
+  }
+
+  // Session for the tabs of a container group
+  getContainerSession(containerId: string): Session {
+    const partition = containerPartition(containerId);
+    const containerSession = session.fromPartition(partition);
+    this.attachSession(containerSession, partition);
+    return containerSession;
+  }
+
+  // Delete a container's cookies and storage once no group in any window
+  // uses it any more
+  releaseContainer(containerId: string): void {
+    const inUse = this.allWindows.some((window) =>
+      window.allGroups.some((group) => group.containerId === containerId),
+    );
+    if (inUse) return;
+
+    const containerSession = session.fromPartition(
+      containerPartition(containerId),
+    );
+    Promise.all([
+      containerSession.clearStorageData(),
+      containerSession.clearCache(),
+    ])
+      .then(() => {
+        console.log(`[WindowManager] Cleared container ${containerId}`);
+      })
+      .catch((error) => {
+        console.error("[WindowManager] Failed to clear container:", error);
+      });
+  }
+
+  // Unique across windows, so a tab keeps its id (and its history) when moved
+  nextTabId(): string {
+    return `tab-${++this.tabCounter}`;
+  }
+
+  get allWindows(): Window[] {
+    return Array.from(this.windowsMap.values());
+  }
+
+  get allTabs(): Tab[] {
+    return this.allWindows.flatMap((window) => window.allTabs);
+  }
+
+  // The window the user last interacted with
+  get focusedWindow(): Window | null {
+    const focused = this.lastFocusedId
+      ? this.windowsMap.get(this.lastFocusedId)
+      : undefined;
+    return focused ?? this.allWindows[0] ?? null;
+  }
+
+  getWindow(windowId: string): Window | null {
+    return this.windowsMap.get(windowId) || null;
+  }
+
+  // Window whose topbar, sidebar, panel or tab is `webContents`
+  getWindowForWebContents(webContents: WebContents): Window | null {
+    return (
+      this.allWindows.find((window) => window.ownsWebContents(webContents)) ||
+      null
+    );
+  }
+
+  getWindowForTab(tabId: string): Window | null {
+    return this.allWindows.find((window) => window.getTab(tabId)) || null;
+  }
+
+  // Move a tab into another window, or into a new window when `windowId` is
+  // omitted. The page keeps running and its history visit carries on.
+  moveTab(tabId: string, windowId?: string): boolean {
+    const source = this.getWindowForTab(tabId);
+    if (!source) return false;
+
+    const target = windowId ? this.windowsMap.get(windowId) : null;
+    if (windowId && !target) return false;
+    if (target === source) return false;
+    // A page can't change sessions, so private tabs stay in private windows
+    if (target && target.isPrivate !== source.isPrivate) return false;
+    // A lone tab is already in a window of its own
+    if (!target && source.tabCount === 1) return false;
+
+    // A container tab takes its container along, so it stays logged in
+    const sourceTab = source.getTab(tabId);
+    const group = sourceTab?.groupId
+      ? source.getGroup(sourceTab.groupId)
+      : null;
+    const tabGroup = group?.isContainer ? group : null;
+
+    const tab = source.detachTab(tabId);
+    if (!tab) return false;
+
+    if (target) {
+      target.adoptTab(tab, tabGroup);
+      target.focus();
+    } else {
+      this.createWindow({ tab, tabGroup });
+    }
+
+    console.log(
+      `[WindowManager] Moved ${tabId} from ${source.id} to ${target?.id ?? "a new window"}`,
+    );
+    return true;
+  }
+
+  // Session management; private windows are never saved
+  getSessionSnapshot(): SessionSnapshot {
+    return {
+      savedAt: Date.now(),
+      windows: this.allWindows
+        .filter((window) => !window.isPrivate)
+        .map((window) => window.getSessionWindow())
+        .filter((saved) => saved.tabs.length > 0),
+    };
+  }
+
+  // Reopen each window of a saved session, skipping tabs whose URL is
+  // already open in any window
+  restoreSession(snapshot: SessionSnapshot): boolean {
+    const openUrls = new Set(
+      this.allTabs.filter((tab) => !tab.isPrivate).map((tab) => tab.url),
+    );
+    let restored = 0;
+
+    snapshot.windows.forEach((saved) => {
+      const tabs = saved.tabs.filter((tab) => !openUrls.has(tab.url));
+      if (tabs.length === 0) return;
+      this.createWindow({ session: { ...saved, tabs } });
+      restored++;
+    });
+
+    if (restored > 0) {
+      console.log(`[WindowManager] Restored ${restored} windows from session`);
+    }
+    return restored > 0;
+  }
+
+  // Reopen windows from the most recent snapshot that has anything new
+  restorePreviousSession(): boolean {
+    return this.sessionStore
+      .getPreviousSnapshots()
+      .some((snapshot) => this.restoreSession(snapshot));
+  }
+
+  // Called by a window that is about to close
+  handleWindowClose(window: Window): void {
+    // Closing the last regular window ends the session with it still open;
+    // on quit the session has already been saved with every window
+    const regularWindows = this.allWindows.filter((other) => !other.isPrivate);
+    if (!this.quitting && !window.isPrivate && regularWindows.length === 1) {
+      this.sessionStore.save(this.getSessionSnapshot());
+    }
+    this.windowsMap.delete(window.id);
+    if (this.lastFocusedId === window.id) {
+      this.lastFocusedId = null;
+    }
+
+    // The next private window starts from a clean slate
+    if (window.isPrivate && !this.allWindows.some((other) => other.isPrivate)) {
+      void this.clearPrivateData();
+    }
+  }
+
+  private async clearPrivateData(): Promise<void> {
+    const privateSession = session.fromPartition(PRIVATE_PARTITION);
+    try {
+      await privateSession.clearStorageData();
+      await privateSession.clearCache();
+      this.downloadManager.forgetPrivate();
+      this.permissionManager.forgetPrivate();
+      this.zoomSettings.forgetPrivate();
+      this.popupBlocker.forgetPrivate();
+      console.log("[WindowManager] Cleared private browsing data");
+    } catch (error) {
+      console.error("[WindowManager] Failed to clear private data:", error);
+    }
+  }
+
+  // Save every open window before quitting closes them one by one
+  prepareToQuit(): void {
+    if (this.quitting) return;
+    this.quitting = true;
+    this.sessionStore.stop();
+  }
+
+  // Shut down the shared services
+  destroy(): void {
+    this.prepareToQuit();
+
+    // Stop history tracking
+    this.historyRetention.stop();
+    this.historyTracker.stop();
+    this.tabHibernator.stop();
+    this.historyDatabase.close();
+    void this.embeddingProvider.dispose();
+    this.downloadManager.destroy();
+  }
+}
@@ -0,0 +1,393 @@
+import type { Tab } from "./Tab";
+import type { Window } from "./Window";
+import type { Workflow, WorkflowStep } from "./WorkflowAnalyzer";
+
+export type ReplayStatus =
+  | "idle"
+  | "running"
+  | "paused"
+  | "completed"
+  | "stopped"
+  | "failed";
+
+export type ReplayStepStatus =
+  | "pending"
+  | "running"
+  | "success"
+  | "failed"
+  | "skipped";
+
+export interface ReplayStepResult {
+  stepNumber: number;
+  action: string;
+  description: string;
+  status: ReplayStepStatus;
+  error?: string;
+  screenshot?: string;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface ReplayState {
+  id: string;
+  workflowName: string;
+  tabId: string | null;
+  status: ReplayStatus;
+  currentStep: number;
+  steps: ReplayStepResult[];
+  startedAt: number | null;
+  finishedAt: number | null;
+}
+
+export interface ReplayOptions {
+  tabId?: string;
+  stopOnError?: boolean;
+}
+
+export class WorkflowReplayer {
+  private window: Window;
+  private workflow: Workflow | null = null;
+  private tab: Tab | null = null;
+  private stopOnError: boolean = true;
+  private state: ReplayState = WorkflowReplayer.createIdleState();
+  private resumeResolver: (() => void) | null = null;
+  private stopRequested: boolean = false;
+
+  // Timing settings
+  private readonly STEP_DELAY = 500; // Pause between steps so pages can settle
+  private readonly SELECTOR_TIMEOUT = 10000; // 10 seconds
+  private readonly LOAD_TIMEOUT = 30000; // 30 seconds
+  private readonly POLL_INTERVAL = 250;
+  private readonly SCREENSHOT_WIDTH = 480;
+
+  constructor(window: Window) {
+    this.window = window;
+  }
+
+  private static createIdleState(): ReplayState {
+    return {
+      id: "",
+      workflowName: "",
+      tabId: null,
+      status: "idle",
+      currentStep: 0,
+      steps: [],
+      startedAt: null,
+      finishedAt: null,
+    };
+  }
+
+  get isActive(): boolean {
+    return this.state.status === "running" || this.state.status === "paused";
+  }
+
+  getState(): ReplayState {
+    return this.state;
+  }
+
+  // Start replaying a workflow. Runs in the background and reports
+  // progress through "workflow-replay-updated" events.
+  start(workflow: Workflow, options: ReplayOptions = {}): ReplayState {
+    if (this.isActive) {
+      throw new Error("A workflow replay is already in progress");
+    }
+    if (workflow.steps.length === 0) {
+      throw new Error("Workflow has no steps to replay");
+    }
+
+    const steps = [...workflow.steps].sort(
+      (a, b) => a.step_number - b.step_number,
+    );
+
+    this.workflow = { ...workflow, steps };
+    this.stopOnError = options.stopOnError ?? true;
+    this.stopRequested = false;
+    this.tab = this.resolveTab(options.tabId);
+    this.window.switchActiveTab(this.tab.id);
+
+    this.state = {
+      id: `replay-${Date.now()}`,
+      workflowName: workflow.workflow_name,
+      tabId: this.tab.id,
+      status: "running",
+      currentStep: 0,
+      steps: steps.map((step) => ({
+        stepNumber: step.step_number,
+        action: step.action,
+        description: step.description,
+        status: "pending",
+      })),
+      startedAt: Date.now(),
+      finishedAt: null,
+    };
+    this.broadcastState();
+
+    void this.run();
+
+    return this.state;
+  }
+
+  pause(): boolean {
+    if (this.state.status !== "running") return false;
+    this.state.status = "paused";
+    this.broadcastState();
+    return true;
+  }
+
+  resume(): boolean {
+    if (this.state.status !== "paused") return false;
+    this.state.status = "running";
+    this.broadcastState();
+    this.releasePause();
+    return true;
+  }
+
+  stop(): boolean {
+    if (!this.isActive) return false;
+    this.stopRequested = true;
+    // Wake up a paused loop so it can observe the stop request
+    this.releasePause();
+    return true;
+  }
+
+  // Use the requested tab, or open a dedicated tab for the replay
+  private resolveTab(tabId?: string): Tab {
+    if (tabId) {
+      const tab = this.window.getTab(tabId);
+      if (!tab) {
+        throw new Error(`Tab ${tabId} not found`);
+      }
+      return tab;
+    }
+    return this.window.createTab("about:blank");
+  }
+
+  private async run(): Promise<void> {
+    const workflow = this.workflow;
+    if (!workflow) return;
+
+    for (let i = 0; i < workflow.steps.length; i++) {
+      await this.waitWhilePaused();
+      if (this.stopRequested) break;
+
+      this.state.currentStep = i;
+      const result = this.state.steps[i];
+      result.status = "running";
+      result.startedAt = Date.now();
+      this.broadcastState();
+
+      try {
+        await this.executeStep(workflow.steps[i]);
+        result.status = "success";
+      } catch (error) {
+        if (this.stopRequested) {
+          result.status = "skipped";
+        } else {
+          result.status = "failed";
+          result.error = error instanceof Error ? error.message : String(error);
+          console.error(
+            `[WorkflowReplayer] Step ${result.stepNumber} failed:`,
+            error,
+          );
+        }
+      }
+
+      result.screenshot = await this.captureScreenshot();
+      result.finishedAt = Date.now();
+      this.broadcastState();
+
+      if (this.stopRequested) break;
+
+      if (result.status === "failed" && this.stopOnError) {
+        this.finish("failed");
+        return;
+      }
+
+      await this.delay(this.STEP_DELAY);
+    }
+
+    this.finish(this.stopRequested ? "stopped" : "completed");
+  }
+
+  private finish(status: ReplayStatus): void {
+    // Anything that never ran is marked as skipped
+    this.state.steps.forEach((step) => {
+      if (step.status === "pending") {
+        step.status = "skipped";
+      }
+    });
+    this.state.status = status;
+    this.state.finishedAt = Date.now();
+    this.workflow = null;
+    this.tab = null;
+    this.broadcastState();
+    console.log(`[WorkflowReplayer] Replay ${this.state.id} ${status}`);
+  }
+
+  private async executeStep(step: WorkflowStep): Promise<void> {
+    const tab = this.getLiveTab();
+    const action = step.action.toLowerCase().trim();
+
+    switch (action) {
+      case "navigate": {
+        if (!step.url) throw new Error("Navigate step has no URL");
+        let loadError: unknown = null;
+        await tab.loadURL(step.url).catch((error) => {
+          // Redirects abort the original load, which is fine as long as
+          // the page they lead to loads
+          if (error?.code === "ERR_ABORTED") {
+            console.warn("[WorkflowReplayer] Navigation interrupted:", error);
+          } else {
+            loadError = error;
+          }
+        });
+        await this.waitForLoad(tab);
+
+        const loadedUrl = tab.webContents.getURL();
+        if (loadError || !loadedUrl || loadedUrl.startsWith("chrome-error:")) {
+          throw new Error(
+            `Failed to load ${step.url}${
+              loadError instanceof Error ? `: ${loadError.message}` : ""
+            }`,
+          );
+        }
+        break;
+      }
+      case "click": {
+        if (!step.selector) throw new Error("Click step has no selector");
+        await this.waitForSelector(tab, step.selector);
+        await tab.runJs(`
+          (() => {
+            const el = document.querySelector(${JSON.stringify(step.selector)});
+            el.scrollIntoView({ block: "center" });
+            el.click();
+          })();
+        `);
+        // Clicks frequently trigger navigation; give it a moment to start
+        await this.delay(this.POLL_INTERVAL);
+        await this.waitForLoad(tab);
+        break;
+      }
+      case "input":
+      case "type": {
+        if (!step.selector) throw new Error("Input step has no selector");
+        await this.waitForSelector(tab, step.selector);
+        await tab.runJs(`
+          (() => {
+            const el = document.querySelector(${JSON.stringify(step.selector)});
+            el.focus();
+            const proto = Object.getPrototypeOf(el);
+            const setter = Object.getOwnPropertyDescriptor(proto, "value")?.set;
+            if (setter) {
+              setter.call(el, ${JSON.stringify(step.value ?? "")});
+            } else {
+              el.value = ${JSON.stringify(step.value ?? "")};
+            }
+            el.dispatchEvent(new Event("input", { bubbles: true }));
+            el.dispatchEvent(new Event("change", { bubbles: true }));
+          })();
+        `);
+        break;
+      }
+      case "scroll": {
+        if (step.selector) {
+          await this.waitForSelector(tab, step.selector);
+          await tab.runJs(
+            `document.querySelector(${JSON.stringify(step.selector)}).scrollIntoView({ behavior: "smooth", block: "center" });`,
+          );
+        } else {
+          const amount = Number.parseInt(step.value ?? "", 10) || 500;
+          await tab.runJs(
+            `window.scrollBy({ top: ${amount}, behavior: "smooth" });`,
+          );
+        }
+        break;
+      }
+      case "wait": {
+        const duration = Number.parseInt(step.value ?? "", 10) || 1000;
+        await this.delay(Math.min(duration, this.LOAD_TIMEOUT));
+        break;
+      }
+      default:
+        throw new Error(`Unsupported action: ${step.action}`);
+    }
+  }
+
+  private getLiveTab(): Tab {
+    if (!this.tab || this.tab.webContents.isDestroyed()) {
+      throw new Error("Replay tab was closed");
+    }
+    return this.tab;
+  }
+
+  private async waitForSelector(tab: Tab, selector: string): Promise<void> {
+    const deadline = Date.now() + this.SELECTOR_TIMEOUT;
+    const check = `!!document.querySelector(${JSON.stringify(selector)})`;
+
+    while (Date.now() < deadline) {
+      if (this.stopRequested) throw new Error("Replay stopped");
+      try {
+        if (await tab.runJs(check)) return;
+      } catch {
+        // Page may be mid-navigation; keep polling
+      }
+      await this.delay(this.POLL_INTERVAL);
+    }
+
+    throw new Error(`Element not found: ${selector}`);
+  }
+
+  private waitForLoad(tab: Tab): Promise<void> {
+    const webContents = tab.webContents;
+    if (webContents.isDestroyed() || !webContents.isLoading()) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      const timeout = setTimeout(done, this.LOAD_TIMEOUT);
+      function done(): void {
+        clearTimeout(timeout);
+        webContents.removeListener("did-stop-loading", done);
+        resolve();
+      }
+      webContents.once("did-stop-loading", done);
+    });
+  }
+
+  private async captureScreenshot(): Promise<string | undefined> {
+    if (!this.tab || this.tab.webContents.isDestroyed()) return undefined;
+    try {
+      const image = await this.tab.screenshot();
+      if (image.isEmpty()) return undefined;
+      return image.resize({ width: this.SCREENSHOT_WIDTH }).toDataURL();
+    } catch (error) {
+      console.error("[WorkflowReplayer] Failed to capture screenshot:", error);
+      return undefined;
+    }
+  }
+
+  private waitWhilePaused(): Promise<void> {
+    if (this.state.status !== "paused") return Promise.resolve();
+    return new Promise((resolve) => {
+      this.resumeResolver = resolve;
+    });
+  }
+
+  private releasePause(): void {
+    if (this.resumeResolver) {
+      this.resumeResolver();
+      this.resumeResolver = null;
+    }
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  private broadcastState(): void {
+    const webContents = this.window.panel.view.webContents;
+    if (!webContents.isDestroyed()) {
+      webContents.send("workflow-replay-updated", this.state);
+    }
+  }
+}
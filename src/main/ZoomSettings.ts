@@ -0,0 +1,171 @@
+import { JsonFile } from "./JsonFile";
+import type { Tab } from "./Tab";
+import type { WindowManager } from "./WindowManager";
+
+export type ZoomDirection = "in" | "out" | "reset";
+
+export interface SiteZoom {
+  host: string;
+  zoomFactor: number;
+}
+
+interface ZoomSettingsData {
+  levels: Record<string, number>;
+}
+
+// The steps Zoom In and Zoom Out go through, as in Chrome
+const ZOOM_FACTORS = [
+  0.25, 0.33, 0.5, 0.67, 0.75, 0.8, 0.9, 1, 1.1, 1.25, 1.5, 1.75, 2, 2.5, 3, 4,
+  5,
+];
+
+// Remembers the zoom level of each site by hostname and applies it to every
+// page of that site. Zooming in private windows only lasts until the private
+// session ends.
+export class ZoomSettings {
+  private windowManager: WindowManager;
+  private file: JsonFile<ZoomSettingsData>;
+  private levels: Map<string, number>;
+  private privateLevels: Map<string, number> = new Map();
+
+  constructor(windowManager: WindowManager) {
+    this.windowManager = windowManager;
+    this.file = new JsonFile<ZoomSettingsData>("zoom-levels.json");
+
+    const saved = this.file.read();
+    this.levels = new Map(
+      Object.entries(saved?.levels ?? {}).filter(
+        (entry): entry is [string, number] =>
+          typeof entry[1] === "number" && this.isValidFactor(entry[1]),
+      ),
+    );
+  }
+
+  // Saved zoom levels of regular windows, by hostname
+  getLevels(): SiteZoom[] {
+    return Array.from(this.levels.entries())
+      .map(([host, zoomFactor]) => ({ host, zoomFactor }))
+      .sort((a, b) => a.host.localeCompare(b.host));
+  }
+
+  getZoomFactor(url: string, isPrivate: boolean): number {
+    const host = this.getHost(url);
+    if (!host) return 1;
+    return (
+      (isPrivate ? this.privateLevels.get(host) : undefined) ??
+      this.levels.get(host) ??
+      1
+    );
+  }
+
+  // Zoom a tab one step in or out, or back to 100%, and remember the level
+  // for its site. Returns the new zoom factor.
+  zoom(tab: Tab, direction: ZoomDirection): number {
+    const current = tab.zoomFactor;
+    let next = 1;
+    if (direction === "in") {
+      next =
+        ZOOM_FACTORS.find((factor) => factor > current + 0.001) ??
+        ZOOM_FACTORS[ZOOM_FACTORS.length - 1];
+    } else if (direction === "out") {
+      next =
+        [...ZOOM_FACTORS]
+          .reverse()
+          .find((factor) => factor < current - 0.001) ?? ZOOM_FACTORS[0];
+    }
+
+    const host = this.getHost(tab.url);
+    if (host) {
+      this.setLevel(host, next, tab.isPrivate);
+    } else {
+      tab.setZoomFactor(next);
+      this.broadcast();
+    }
+    return next;
+  }
+
+  // Give a page the zoom level saved for its site
+  applyTo(tab: Tab): void {
+    const zoomFactor = this.getZoomFactor(tab.url, tab.isPrivate);
+    if (Math.abs(tab.zoomFactor - zoomFactor) > 0.001) {
+      tab.setZoomFactor(zoomFactor);
+    }
+  }
+
+  // Forget a site's zoom level; its open pages go back to 100%
+  clear(host: string): void {
+    if (!this.levels.delete(host)) return;
+    this.save();
+    this.applyToSite(host);
+    this.broadcast();
+  }
+
+  clearAll(): void {
+    const hosts = Array.from(this.levels.keys());
+    if (hosts.length === 0) return;
+    this.levels.clear();
+    this.save();
+    hosts.forEach((host) => this.applyToSite(host));
+    this.broadcast();
+  }
+
+  // Called when the private session is cleared
+  forgetPrivate(): void {
+    this.privateLevels.clear();
+  }
+
+  private setLevel(host: string, zoomFactor: number, isPrivate: boolean): void {
+    const levels = isPrivate ? this.privateLevels : this.levels;
+    // 100% is the default, so it doesn't need saving
+    if (zoomFactor === 1 && !isPrivate) {
+      levels.delete(host);
+    } else {
+      levels.set(host, zoomFactor);
+    }
+    if (!isPrivate) this.save();
+
+    this.applyToSite(host);
+    this.broadcast();
+  }
+
+  // Every open page of the site shares its zoom level
+  private applyToSite(host: string): void {
+    this.windowManager.allTabs
+      .filter((tab) => this.getHost(tab.url) === host)
+      .forEach((tab) => this.applyTo(tab));
+  }
+
+  private isValidFactor(factor: number): boolean {
+    return (
+      factor >= ZOOM_FACTORS[0] &&
+      factor <= ZOOM_FACTORS[ZOOM_FACTORS.length - 1]
+    );
+  }
+
+  private getHost(url: string): string | null {
+    try {
+      return new URL(url).hostname || null;
+    } catch {
+      return null;
+    }
+  }
+
+  private save(): void {
+    this.file.write({ levels: Object.fromEntries(this.levels) });
+  }
+
+  // Address bars update their zoom indicator and panels their settings list
+  private broadcast(): void {
+    this.windowManager.allWindows.forEach((window) => {
+      [window.topBar, window.sideBar].forEach((bar) => {
+        if (bar && !bar.view.webContents.isDestroyed()) {
+          bar.view.webContents.send("zoom-changed");
+        }
+      });
+      const panel = window.panel.view.webContents;
+      if (!panel.isDestroyed()) {
+        panel.send("zoom-levels-updated");
+      }
+    });
+  }
+}
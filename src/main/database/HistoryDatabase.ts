@@ -40,6 +40,14 @@ export interface Interaction {
   timestamp: number;
 }
 
+export interface PermissionGrant {
+  id: number;
+  visit_id: number;
+  origin: string;
+  permission: string;
+  timestamp: number;
+}
+
 export interface DOMSnapshot {
   id: number;
   visit_id: number;
@@ -69,6 +77,82 @@ export interface WorkflowCache {
   created_at: number;
 }
 
+export interface Conversation {
+  id: number;
+  title: string;
+  tab_id: string | null;
+  url: string | null;
+  forked_from: number | null;
+  created_at: number;
+  updated_at: number;
+  message_count: number;
+}
+
+export interface ConversationMessage {
+  id: number;
+  conversation_id: number;
+  message_id: string;
+  position: number;
+  role: string;
+  content: string; // JSON-encoded UIMessage
+  text: string;
+  created_at: number;
+}
+
+export interface ConversationSearchMatch extends Conversation {
+  matched_text: string | null;
+}
+
+export type BookmarkType = "bookmark" | "folder";
+
+export interface BookmarkRow {
+  id: number;
+  parent_id: number | null;
+  type: BookmarkType;
+  title: string;
+  url: string | null;
+  position: number;
+  created_at: number;
+  updated_at: number;
+  tags: string | null; // comma-separated
+}
+
+// A bookmark or folder (with its contents) to insert
+export interface NewBookmark {
+  type: BookmarkType;
+  title: string;
+  url: string | null;
+  tags: string[];
+  createdAt?: number;
+  children?: NewBookmark[];
+}
+
+export interface VisitFilters {
+  startTime?: number;
+  endTime?: number;
+  domain?: string;
+}
+
+export interface FullTextMatch {
+  visit: PageVisit;
+  snippet: string;
+  score: number;
+}
+
+// A page's visits rolled up for address bar suggestions
+export interface FrecentPage {
+  url: string;
+  title: string;
+  favicon_url: string | null;
+  visit_count: number;
+  last_visit: number;
+  frecency: number;
+}
+
+// Markers wrapped around matched terms in full-text snippets
+export const SNIPPET_MATCH_START = "\u0002";
+export const SNIPPET_MATCH_END = "\u0003";
+
 export class HistoryDatabase {
   private db: SqlJsDatabase | null = null;
   private dbPath: string;
@@ -77,6 +161,20 @@ export class HistoryDatabase {
   private initPromise: Promise<void>;
   private vectorStore: VectorStore | null = null;
 
+  // Full-text search settings
+  private readonly MAX_INDEXED_TEXT = 20000; // characters of page text per visit
+  private readonly FULL_TEXT_CANDIDATES = 1000;
+  private readonly COLUMN_WEIGHTS = [3, 1.5, 1]; // title, url, content
+
+  // Frecency: [age in days, weight] of a visit, newest bucket first
+  private readonly FRECENCY_BUCKETS: Array<[number, number]> = [
+    [4, 100],
+    [14, 70],
+    [31, 50],
+    [90, 30],
+  ];
+  private readonly FRECENCY_OLD_WEIGHT = 10;
+
   constructor() {
     const userDataPath = app.getPath("userData");
     this.dbPath = join(userDataPath, "browsing-history.db");
@@ -218,6 +316,21 @@ export class HistoryDatabase {
       "CREATE INDEX IF NOT EXISTS idx_interactions_timestamp ON interactions(timestamp)",
     );
 
+    // Site permissions granted while on a page
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS permission_grants (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        visit_id INTEGER NOT NULL,
+        origin TEXT NOT NULL,
+        permission TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        FOREIGN KEY (visit_id) REFERENCES page_visits(id)
+      )
+    `);
+    this.db.run(
+      "CREATE INDEX IF NOT EXISTS idx_permission_grants_visit ON permission_grants(visit_id)",
+    );
+
     // DOM snapshots table
     this.db.run(`
       CREATE TABLE IF NOT EXISTS dom_snapshots (
@@ -289,6 +402,140 @@ export class HistoryDatabase {
     this.db.run(
       "CREATE INDEX IF NOT EXISTS idx_embeddings_visit ON embeddings(visit_id)",
     );
+
+    // Chat conversations
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS conversations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        title TEXT NOT NULL,
+        tab_id TEXT,
+        url TEXT,
+        forked_from INTEGER,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        FOREIGN KEY (forked_from) REFERENCES conversations(id)
+      )
+    `);
+    this.db.run(
+      "CREATE INDEX IF NOT EXISTS idx_conversations_updated ON conversations(updated_at)",
+    );
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS conversation_messages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        conversation_id INTEGER NOT NULL,
+        message_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        text TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        FOREIGN KEY (conversation_id) REFERENCES conversations(id)
+      )
+    `);
+    this.db.run(
+      "CREATE INDEX IF NOT EXISTS idx_conversation_messages_conversation ON conversation_messages(conversation_id)",
+    );
+
+    // Bookmarks and bookmark folders; top-level entries have no parent
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS bookmarks (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        parent_id INTEGER,
+        type TEXT NOT NULL,
+        title TEXT NOT NULL,
+        url TEXT,
+        position INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        FOREIGN KEY (parent_id) REFERENCES bookmarks(id)
+      )
+    `);
+    this.db.run(
+      "CREATE INDEX IF NOT EXISTS idx_bookmarks_parent ON bookmarks(parent_id, position)",
+    );
+    this.db.run(
+      "CREATE INDEX IF NOT EXISTS idx_bookmarks_url ON bookmarks(url)",
+    );
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS bookmark_tags (
+        bookmark_id INTEGER NOT NULL,
+        tag TEXT NOT NULL,
+        PRIMARY KEY (bookmark_id, tag),
+        FOREIGN KEY (bookmark_id) REFERENCES bookmarks(id)
+      )
+    `);
+
+    // Full-text index over visits, keyed by docid = page_visits.id
+    this.db.run(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS visit_text USING fts4(
+        title,
+        url,
+        content,
+        tokenize=unicode61
+      )
+    `);
+    this.backfillSearchIndex();
+  }
+
+  // Index visits recorded before the full-text table existed
+  private backfillSearchIndex(): void {
+    if (!this.db) return;
+    const missing = this.rowsToObjects<{ id: number }>(
+      this.db.exec(
+        "SELECT id FROM page_visits WHERE id NOT IN (SELECT docid FROM visit_text)",
+      ),
+    );
+    if (missing.length === 0) return;
+
+    for (const { id } of missing) {
+      this.indexVisitText(id);
+    }
+    this.save();
+    console.log(
+      `[HistoryDatabase] Added ${missing.length} visits to the search index`,
+    );
+  }
+
+  // (Re)index a visit's title, URL and latest snapshot text
+  private indexVisitText(visitId: number): void {
+    if (!this.db) return;
+    const visit = this.rowToObject<{ title: string; url: string }>(
+      this.db.exec("SELECT title, url FROM page_visits WHERE id = ?", [
+        visitId,
+      ]),
+    );
+    if (!visit) return;
+
+    const snapshot = this.rowToObject<{ html: string }>(
+      this.db.exec(
+        "SELECT html FROM dom_snapshots WHERE visit_id = ? ORDER BY timestamp DESC LIMIT 1",
+        [visitId],
+      ),
+    );
+    const content = snapshot ? this.extractText(snapshot.html) : "";
+
+    this.db.run("DELETE FROM visit_text WHERE docid = ?", [visitId]);
+    this.db.run(
+      "INSERT INTO visit_text (docid, title, url, content) VALUES (?, ?, ?, ?)",
+      [visitId, visit.title || "", visit.url, content],
+    );
+  }
+
+  private extractText(html: string): string {
+    return html
+      .replace(/<(script|style|noscript|template)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+      .replace(/<[^>]*>/g, " ")
+      .replace(/&nbsp;/g, " ")
+      .replace(/&amp;/g, "&")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/\s+/g, " ")
+      .trim()
+      .substring(0, this.MAX_INDEXED_TEXT);
   }
 
   // Session management
@@ -335,7 +582,9 @@ export class HistoryDatabase {
       [sessionId, tabId, url, title, Date.now(), faviconUrl],
     );
     const result = this.db.exec("SELECT last_insert_rowid() as id");
-    return result[0]?.values[0]?.[0] as number;
+    const visitId = result[0]?.values[0]?.[0] as number;
+    this.indexVisitText(visitId);
+    return visitId;
   }
 
   updatePageVisitDuration(visitId: number, duration: number): void {
@@ -352,6 +601,7 @@ export class HistoryDatabase {
       title,
       visitId,
     ]);
+    this.indexVisitText(visitId);
     this.save();
   }
 
@@ -385,6 +635,22 @@ export class HistoryDatabase {
     );
   }
 
+  recordPermissionGrants(
+    visitId: number,
+    origin: string,
+    permissions: string[],
+  ): void {
+    if (!this.db) return;
+    const timestamp = Date.now();
+    for (const permission of permissions) {
+      this.db.run(
+        "INSERT INTO permission_grants (visit_id, origin, permission, timestamp) VALUES (?, ?, ?, ?)",
+        [visitId, origin, permission, timestamp],
+      );
+    }
+    this.save();
+  }
+
   // Batch interaction recording for performance
   recordInteractionsBatch(
     interactions: Array<{
@@ -423,6 +689,7 @@ export class HistoryDatabase {
       "INSERT INTO dom_snapshots (visit_id, html, timestamp) VALUES (?, ?, ?)",
       [visitId, html, Date.now()],
     );
+    this.indexVisitText(visitId);
   }
 
   recordScreenshot(visitId: number, imageData: string): void {
@@ -502,6 +769,15 @@ export class HistoryDatabase {
     return this.rowsToObjects<Interaction>(result);
   }
 
+  getVisitPermissionGrants(visitId: number): PermissionGrant[] {
+    if (!this.db) return [];
+    const result = this.db.exec(
+      "SELECT * FROM permission_grants WHERE visit_id = ? ORDER BY timestamp ASC",
+      [visitId],
+    );
+    return this.rowsToObjects<PermissionGrant>(result);
+  }
+
   getVisitScreenshots(visitId: number): Screenshot[] {
     if (!this.db) return [];
     const result = this.db.exec(
@@ -530,17 +806,201 @@ export class HistoryDatabase {
   }
 
   // Search functionality
-  searchHistory(query: string, limit: number = 50): PageVisit[] {
+
+  // Keyword search over title, URL and page text, best matches first
+  searchFullText(
+    query: string,
+    filters: VisitFilters = {},
+    limit: number = 50,
+  ): FullTextMatch[] {
     if (!this.db) return [];
-    const searchTerm = `%${query}%`;
+
+    // Every term must match, each as a prefix so results update while typing
+    const terms = query.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+    if (!terms) return [];
+    const matchExpression = terms.map((term) => `${term}*`).join(" ");
+
+    const { clause, params } = this.timeClause(filters);
     const result = this.db.exec(
-      `SELECT * FROM page_visits 
-       WHERE title LIKE ? OR url LIKE ?
-       ORDER BY timestamp DESC 
+      `SELECT v.*,
+         snippet(visit_text, ?, ?, '…', -1, 24) AS snippet,
+         matchinfo(visit_text, 'pcnalx') AS match_info
+       FROM visit_text
+       INNER JOIN page_visits v ON v.id = visit_text.docid
+       WHERE visit_text MATCH ?${clause}
        LIMIT ?`,
-      [searchTerm, searchTerm, limit],
+      [
+        SNIPPET_MATCH_START,
+        SNIPPET_MATCH_END,
+        matchExpression,
+        ...params,
+        this.FULL_TEXT_CANDIDATES,
+      ],
     );
-    return this.rowsToObjects<PageVisit>(result);
+
+    return this.rowsToObjects<
+      PageVisit & { snippet: string; match_info: Uint8Array }
+    >(result)
+      .filter((row) => this.matchesDomain(row.url, filters.domain))
+      .map(({ match_info, snippet, ...visit }) => ({
+        visit,
+        snippet,
+        score: this.bm25(match_info),
+      }))
+      .sort(
+        (a, b) => b.score - a.score || b.visit.timestamp - a.visit.timestamp,
+      )
+      .slice(0, limit);
+  }
+
+  // Visits for the given ids that pass the filters, in the order given
+  filterVisits(visitIds: number[], filters: VisitFilters = {}): PageVisit[] {
+    if (!this.db || visitIds.length === 0) return [];
+    const { clause, params } = this.timeClause(filters);
+    const placeholders = visitIds.map(() => "?").join(", ");
+    const result = this.db.exec(
+      `SELECT v.* FROM page_visits v WHERE v.id IN (${placeholders})${clause}`,
+      [...visitIds, ...params],
+    );
+
+    const byId = new Map(
+      this.rowsToObjects<PageVisit>(result)
+        .filter((visit) => this.matchesDomain(visit.url, filters.domain))
+        .map((visit) => [visit.id, visit]),
+    );
+    return visitIds
+      .map((id) => byId.get(id))
+      .filter((visit): visit is PageVisit => visit !== undefined);
+  }
+
+  // Most recent visits that pass the filters
+  getFilteredHistory(filters: VisitFilters, limit: number = 50): PageVisit[] {
+    if (!this.db) return [];
+    const { clause, params } = this.timeClause(filters);
+    const result = this.db.exec(
+      `SELECT v.* FROM page_visits v WHERE 1 = 1${clause}
+       ORDER BY v.timestamp DESC`,
+      params,
+    );
+    return this.rowsToObjects<PageVisit>(result)
+      .filter((visit) => this.matchesDomain(visit.url, filters.domain))
+      .slice(0, limit);
+  }
+
+  // Pages whose URL or title contain every word of `text`, ranked by
+  // frecency: each visit counts for more the more recent it is
+  getFrecentPages(text: string, limit: number = 20): FrecentPage[] {
+    if (!this.db) return [];
+    const terms = text.toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return [];
+
+    const day = 1000 * 60 * 60 * 24;
+    const now = Date.now();
+    const weightParams = this.FRECENCY_BUCKETS.flatMap(([days, weight]) => [
+      now - days * day,
+      weight,
+    ]);
+    const weightCases = this.FRECENCY_BUCKETS.map(
+      () => "WHEN timestamp >= ? THEN ?",
+    ).join(" ");
+    const termClause = terms
+      .map(() => "(url LIKE ? ESCAPE '\\' OR title LIKE ? ESCAPE '\\')")
+      .join(" AND ");
+    const termParams = terms.flatMap((term) => {
+      const pattern = `%${term.replace(/[\\%_]/g, "\\$&")}%`;
+      return [pattern, pattern];
+    });
+
+    // MAX(timestamp) makes title and favicon come from the latest visit
+    const result = this.db.exec(
+      `SELECT url, title, favicon_url,
+         COUNT(*) AS visit_count,
+         MAX(timestamp) AS last_visit,
+         SUM(CASE ${weightCases} ELSE ${this.FRECENCY_OLD_WEIGHT} END) AS frecency
+       FROM page_visits
+       WHERE ${termClause}
+       GROUP BY url
+       ORDER BY frecency DESC, last_visit DESC
+       LIMIT ?`,
+      [...weightParams, ...termParams, limit],
+    );
+    return this.rowsToObjects<FrecentPage>(result);
+  }
+
+  // Leading page text for visits that matched without a keyword hit
+  getVisitExcerpt(visitId: number, length: number = 160): string {
+    if (!this.db) return "";
+    const result = this.db.exec(
+      "SELECT substr(content, 1, ?) AS excerpt FROM visit_text WHERE docid = ?",
+      [length, visitId],
+    );
+    return this.rowToObject<{ excerpt: string }>(result)?.excerpt || "";
+  }
+
+  private timeClause(filters: VisitFilters): {
+    clause: string;
+    params: number[];
+  } {
+    let clause = "";
+    const params: number[] = [];
+    if (filters.startTime !== undefined) {
+      clause += " AND v.timestamp >= ?";
+      params.push(filters.startTime);
+    }
+    if (filters.endTime !== undefined) {
+      clause += " AND v.timestamp <= ?";
+      params.push(filters.endTime);
+    }
+    return { clause, params };
+  }
+
+  private matchesDomain(url: string, domain?: string): boolean {
+    const normalized = domain
+      ?.trim()
+      .toLowerCase()
+      .replace(/^\*?\./, "");
+    if (!normalized) return true;
+    try {
+      const hostname = new URL(url).hostname;
+      return hostname === normalized || hostname.endsWith(`.${normalized}`);
+    } catch {
+      return false;
+    }
+  }
+
+  // Okapi BM25 computed from FTS4 matchinfo('pcnalx'), weighted per column
+  private bm25(matchInfo: Uint8Array): number {
+    const info = new Uint32Array(new Uint8Array(matchInfo).buffer);
+    const k1 = 1.2;
+    const b = 0.75;
+    const phraseCount = info[0];
+    const columnCount = info[1];
+    const totalDocs = info[2];
+    const avgLengthOffset = 3;
+    const lengthOffset = avgLengthOffset + columnCount;
+    const hitsOffset = lengthOffset + columnCount;
+
+    let score = 0;
+    for (let phrase = 0; phrase < phraseCount; phrase++) {
+      for (let column = 0; column < columnCount; column++) {
+        const base = hitsOffset + 3 * (phrase * columnCount + column);
+        const termFrequency = info[base];
+        if (termFrequency === 0) continue;
+
+        const docsWithHit = info[base + 2];
+        const idf = Math.log(
+          1 + (totalDocs - docsWithHit + 0.5) / (docsWithHit + 0.5),
+        );
+        const avgLength = info[avgLengthOffset + column] || 1;
+        const length = info[lengthOffset + column];
+        const weight = this.COLUMN_WEIGHTS[column] ?? 1;
+
+        score +=
+          (weight * idf * termFrequency * (k1 + 1)) /
+          (termFrequency + k1 * (1 - b + (b * length) / avgLength));
+      }
+    }
+    return score;
   }
 
   // Workflow cache
@@ -563,33 +1023,81 @@ export class HistoryDatabase {
   }
 
   // Cleanup methods
-  deleteOldHistory(olderThanDays: number): void {
-    if (!this.db) return;
+  deleteOldHistory(olderThanDays: number): number {
+    if (!this.db) return 0;
     const cutoffTime = Date.now() - olderThanDays * 24 * 60 * 60 * 1000;
 
+    // Collect affected visits first so only their vectors are removed
+    const visitIds = this.rowsToObjects<{ id: number }>(
+      this.db.exec("SELECT id FROM page_visits WHERE timestamp < ?", [
+        cutoffTime,
+      ]),
+    ).map((row) => row.id);
+
     // Delete in order to respect foreign key constraints
     const stmts = [
       "DELETE FROM scroll_events WHERE visit_id IN (SELECT id FROM page_visits WHERE timestamp < ?)",
       "DELETE FROM screenshots WHERE visit_id IN (SELECT id FROM page_visits WHERE timestamp < ?)",
       "DELETE FROM dom_snapshots WHERE visit_id IN (SELECT id FROM page_visits WHERE timestamp < ?)",
       "DELETE FROM interactions WHERE visit_id IN (SELECT id FROM page_visits WHERE timestamp < ?)",
+      "DELETE FROM permission_grants WHERE visit_id IN (SELECT id FROM page_visits WHERE timestamp < ?)",
       "DELETE FROM embeddings WHERE visit_id IN (SELECT id FROM page_visits WHERE timestamp < ?)",
+      "DELETE FROM visit_text WHERE docid IN (SELECT id FROM page_visits WHERE timestamp < ?)",
       "DELETE FROM page_visits WHERE timestamp < ?",
       "DELETE FROM tab_events WHERE timestamp < ?",
-      "DELETE FROM sessions WHERE start_time < ?",
     ];
 
     for (const sql of stmts) {
       this.db.run(sql, [cutoffTime]);
     }
 
-    // Clear vector store since we can't easily delete individual vectors
-    // They will be rebuilt as the user browses
+    // Only drop old sessions once none of their visits remain, and never
+    // the session currently being recorded
+    const sessionFilter =
+      "start_time < ? AND id != ? AND id NOT IN (SELECT DISTINCT session_id FROM page_visits)";
+    const currentSessionId = this.currentSessionId ?? -1;
+    this.db.run(
+      `DELETE FROM workflow_cache WHERE session_id IN (SELECT id FROM sessions WHERE ${sessionFilter})`,
+      [cutoffTime, currentSessionId],
+    );
+    this.db.run(`DELETE FROM sessions WHERE ${sessionFilter}`, [
+      cutoffTime,
+      currentSessionId,
+    ]);
+
+    if (this.vectorStore && visitIds.length > 0) {
+      this.vectorStore.deleteVectors(visitIds);
+    }
+
+    this.save();
+    return visitIds.length;
+  }
+
+  deleteVisit(visitId: number): boolean {
+    if (!this.db) return false;
+
+    const stmts = [
+      "DELETE FROM scroll_events WHERE visit_id = ?",
+      "DELETE FROM screenshots WHERE visit_id = ?",
+      "DELETE FROM dom_snapshots WHERE visit_id = ?",
+      "DELETE FROM interactions WHERE visit_id = ?",
+      "DELETE FROM permission_grants WHERE visit_id = ?",
+      "DELETE FROM embeddings WHERE visit_id = ?",
+      "DELETE FROM visit_text WHERE docid = ?",
+    ];
+    for (const sql of stmts) {
+      this.db.run(sql, [visitId]);
+    }
+
+    this.db.run("DELETE FROM page_visits WHERE id = ?", [visitId]);
+    const deleted = this.db.getRowsModified() > 0;
+
     if (this.vectorStore) {
-      this.vectorStore.clear();
+      this.vectorStore.deleteVectors([visitId]);
     }
 
     this.save();
+    return deleted;
   }
 
   deleteAllHistory(): void {
@@ -601,7 +1109,9 @@ export class HistoryDatabase {
       "screenshots",
       "dom_snapshots",
       "interactions",
+      "permission_grants",
       "embeddings",
+      "visit_text",
       "page_visits",
       "tab_events",
       "workflow_cache",
@@ -660,19 +1170,89 @@ export class HistoryDatabase {
   recordEmbedding(visitId: number, model: string, contentHash: string): void {
     if (!this.db) return;
     this.db.run(
-      `INSERT INTO embeddings (visit_id, embedding_model, content_hash, created_at) 
+      `INSERT OR REPLACE INTO embeddings (visit_id, embedding_model, content_hash, created_at) 
        VALUES (?, ?, ?, ?)`,
       [visitId, model, contentHash, Date.now()],
     );
     this.save();
   }
 
-  hasEmbedding(visitId: number): boolean {
-    if (!this.db) return false;
+  // Batch embedding recording for index rebuilds
+  recordEmbeddingsBatch(
+    embeddings: Array<{ visitId: number; model: string; contentHash: string }>,
+  ): void {
+    if (!this.db) return;
+
+    for (const item of embeddings) {
+      this.db.run(
+        `INSERT OR REPLACE INTO embeddings (visit_id, embedding_model, content_hash, created_at)
+         VALUES (?, ?, ?, ?)`,
+        [item.visitId, item.model, item.contentHash, Date.now()],
+      );
+    }
+    this.save();
+  }
+
+  // Visits that should have a vector in the index for `model`
+  getEmbeddedVisitIds(model: string): number[] {
+    if (!this.db) return [];
     const result = this.db.exec(
-      "SELECT COUNT(*) as count FROM embeddings WHERE visit_id = ?",
-      [visitId],
+      `SELECT e.visit_id FROM embeddings e
+       INNER JOIN page_visits v ON v.id = e.visit_id
+       WHERE e.embedding_model = ?
+       ORDER BY e.visit_id`,
+      [model],
+    );
+    return this.rowsToObjects<{ visit_id: number }>(result).map(
+      (row) => row.visit_id,
     );
+  }
+
+  // Visits embedded with a model other than `model`
+  getStaleEmbeddingVisitIds(model: string): number[] {
+    if (!this.db) return [];
+    const result = this.db.exec(
+      `SELECT e.visit_id FROM embeddings e
+       INNER JOIN page_visits v ON v.id = e.visit_id
+       WHERE e.embedding_model != ?
+       ORDER BY v.timestamp DESC`,
+      [model],
+    );
+    return this.rowsToObjects<{ visit_id: number }>(result).map(
+      (row) => row.visit_id,
+    );
+  }
+
+  // Drop embedding rows whose page visit no longer exists
+  deleteOrphanedEmbeddings(): number {
+    if (!this.db) return 0;
+    this.db.run(
+      "DELETE FROM embeddings WHERE visit_id NOT IN (SELECT id FROM page_visits)",
+    );
+    const removed = this.db.getRowsModified();
+    if (removed > 0) this.save();
+    return removed;
+  }
+
+  deleteEmbeddings(visitIds: number[]): void {
+    if (!this.db || visitIds.length === 0) return;
+    for (const visitId of visitIds) {
+      this.db.run("DELETE FROM embeddings WHERE visit_id = ?", [visitId]);
+    }
+    this.save();
+  }
+
+  hasEmbedding(visitId: number, model?: string): boolean {
+    if (!this.db) return false;
+    const result = model
+      ? this.db.exec(
+          "SELECT COUNT(*) as count FROM embeddings WHERE visit_id = ? AND embedding_model = ?",
+          [visitId, model],
+        )
+      : this.db.exec(
+          "SELECT COUNT(*) as count FROM embeddings WHERE visit_id = ?",
+          [visitId],
+        );
     const count = result[0]?.values[0]?.[0] as number;
     return count > 0;
   }
@@ -715,6 +1295,329 @@ export class HistoryDatabase {
     return (result?.[0]?.values[0]?.[0] as number) || null;
   }
 
+  // Conversations
+  createConversation(
+    title: string,
+    tabId: string | null,
+    url: string | null,
+    forkedFrom: number | null = null,
+  ): number {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const now = Date.now();
+    this.db.run(
+      `INSERT INTO conversations (title, tab_id, url, forked_from, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [title, tabId, url, forkedFrom, now, now],
+    );
+    const result = this.db.exec("SELECT last_insert_rowid() as id");
+    this.save();
+    return result[0]?.values[0]?.[0] as number;
+  }
+
+  // Replace the stored messages of a conversation with `messages`
+  saveConversationMessages(
+    conversationId: number,
+    messages: Array<{
+      messageId: string;
+      role: string;
+      content: string;
+      text: string;
+    }>,
+  ): void {
+    if (!this.db) return;
+
+    const now = Date.now();
+    this.db.run("DELETE FROM conversation_messages WHERE conversation_id = ?", [
+      conversationId,
+    ]);
+    for (const [position, message] of messages.entries()) {
+      this.db.run(
+        `INSERT INTO conversation_messages (conversation_id, message_id, position, role, content, text, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          conversationId,
+          message.messageId,
+          position,
+          message.role,
+          message.content,
+          message.text,
+          now,
+        ],
+      );
+    }
+    this.db.run("UPDATE conversations SET updated_at = ? WHERE id = ?", [
+      now,
+      conversationId,
+    ]);
+    this.save();
+  }
+
+  getConversations(limit: number = 100): Conversation[] {
+    if (!this.db) return [];
+    const result = this.db.exec(
+      `SELECT c.*, COUNT(m.id) as message_count
+       FROM conversations c
+       LEFT JOIN conversation_messages m ON m.conversation_id = c.id
+       GROUP BY c.id
+       ORDER BY c.updated_at DESC
+       LIMIT ?`,
+      [limit],
+    );
+    return this.rowsToObjects<Conversation>(result);
+  }
+
+  getConversation(conversationId: number): Conversation | null {
+    if (!this.db) return null;
+    const result = this.db.exec(
+      `SELECT c.*, COUNT(m.id) as message_count
+       FROM conversations c
+       LEFT JOIN conversation_messages m ON m.conversation_id = c.id
+       WHERE c.id = ?
+       GROUP BY c.id`,
+      [conversationId],
+    );
+    return this.rowToObject<Conversation>(result);
+  }
+
+  getConversationMessages(conversationId: number): ConversationMessage[] {
+    if (!this.db) return [];
+    const result = this.db.exec(
+      "SELECT * FROM conversation_messages WHERE conversation_id = ? ORDER BY position ASC",
+      [conversationId],
+    );
+    return this.rowsToObjects<ConversationMessage>(result);
+  }
+
+  // Conversations whose title or message text contains `query`
+  searchConversations(
+    query: string,
+    limit: number = 50,
+  ): ConversationSearchMatch[] {
+    if (!this.db) return [];
+    const searchTerm = `%${query}%`;
+    const result = this.db.exec(
+      `SELECT c.*,
+         (SELECT COUNT(*) FROM conversation_messages WHERE conversation_id = c.id) as message_count,
+         (SELECT text FROM conversation_messages
+          WHERE conversation_id = c.id AND text LIKE ?
+          ORDER BY position ASC LIMIT 1) as matched_text
+       FROM conversations c
+       WHERE c.title LIKE ? OR EXISTS (
+         SELECT 1 FROM conversation_messages
+         WHERE conversation_id = c.id AND text LIKE ?
+       )
+       ORDER BY c.updated_at DESC
+       LIMIT ?`,
+      [searchTerm, searchTerm, searchTerm, limit],
+    );
+    return this.rowsToObjects<ConversationSearchMatch>(result);
+  }
+
+  deleteConversation(conversationId: number): boolean {
+    if (!this.db) return false;
+    this.db.run("DELETE FROM conversation_messages WHERE conversation_id = ?", [
+      conversationId,
+    ]);
+    // Forks keep their messages but lose the link to the deleted parent
+    this.db.run(
+      "UPDATE conversations SET forked_from = NULL WHERE forked_from = ?",
+      [conversationId],
+    );
+    this.db.run("DELETE FROM conversations WHERE id = ?", [conversationId]);
+    const deleted = this.db.getRowsModified() > 0;
+    this.save();
+    return deleted;
+  }
+
+  // Bookmarks
+  getBookmarks(): BookmarkRow[] {
+    if (!this.db) return [];
+    const result = this.db.exec(
+      `SELECT b.*, GROUP_CONCAT(t.tag) as tags
+       FROM bookmarks b
+       LEFT JOIN bookmark_tags t ON t.bookmark_id = b.id
+       GROUP BY b.id
+       ORDER BY b.parent_id ASC, b.position ASC`,
+    );
+    return this.rowsToObjects<BookmarkRow>(result);
+  }
+
+  getBookmark(bookmarkId: number): BookmarkRow | null {
+    if (!this.db) return null;
+    const result = this.db.exec(
+      `SELECT b.*, GROUP_CONCAT(t.tag) as tags
+       FROM bookmarks b
+       LEFT JOIN bookmark_tags t ON t.bookmark_id = b.id
+       WHERE b.id = ?
+       GROUP BY b.id`,
+      [bookmarkId],
+    );
+    return this.rowToObject<BookmarkRow>(result);
+  }
+
+  getBookmarkIdsByUrl(url: string): number[] {
+    if (!this.db) return [];
+    const result = this.db.exec(
+      "SELECT id FROM bookmarks WHERE type = 'bookmark' AND url = ?",
+      [url],
+    );
+    return this.rowsToObjects<{ id: number }>(result).map((row) => row.id);
+  }
+
+  // Insert bookmarks and folders, with their contents, at the end of
+  // `parentId`. Returns the ids of the top-level entries.
+  insertBookmarks(parentId: number | null, entries: NewBookmark[]): number[] {
+    if (!this.db) throw new Error("Database not initialized");
+    const ids = this.insertBookmarkEntries(parentId, entries);
+    this.save();
+    return ids;
+  }
+
+  private insertBookmarkEntries(
+    parentId: number | null,
+    entries: NewBookmark[],
+  ): number[] {
+    if (!this.db) return [];
+    const db = this.db;
+    const now = Date.now();
+    let position = this.nextBookmarkPosition(parentId);
+
+    return entries.map((entry) => {
+      db.run(
+        `INSERT INTO bookmarks (parent_id, type, title, url, position, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          parentId,
+          entry.type,
+          entry.title,
+          entry.url,
+          position++,
+          entry.createdAt ?? now,
+          now,
+        ],
+      );
+      const id = db.exec("SELECT last_insert_rowid() as id")[0]
+        ?.values[0]?.[0] as number;
+      this.writeBookmarkTags(id, entry.tags);
+      if (entry.children?.length) {
+        this.insertBookmarkEntries(id, entry.children);
+      }
+      return id;
+    });
+  }
+
+  updateBookmark(
+    bookmarkId: number,
+    updates: { title?: string; url?: string; tags?: string[] },
+  ): boolean {
+    if (!this.db) return false;
+    const current = this.getBookmark(bookmarkId);
+    if (!current) return false;
+
+    this.db.run(
+      "UPDATE bookmarks SET title = ?, url = ?, updated_at = ? WHERE id = ?",
+      [
+        updates.title ?? current.title,
+        updates.url ?? current.url,
+        Date.now(),
+        bookmarkId,
+      ],
+    );
+    if (updates.tags) {
+      this.writeBookmarkTags(bookmarkId, updates.tags);
+    }
+    this.save();
+    return true;
+  }
+
+  // Move a bookmark or folder to `index` within `parentId`
+  moveBookmark(
+    bookmarkId: number,
+    parentId: number | null,
+    index: number,
+  ): boolean {
+    if (!this.db) return false;
+    if (!this.getBookmark(bookmarkId)) return false;
+
+    const siblings = this.getChildBookmarkIds(parentId).filter(
+      (id) => id !== bookmarkId,
+    );
+    siblings.splice(
+      Math.max(0, Math.min(index, siblings.length)),
+      0,
+      bookmarkId,
+    );
+
+    this.db.run("UPDATE bookmarks SET parent_id = ? WHERE id = ?", [
+      parentId,
+      bookmarkId,
+    ]);
+    for (const [position, id] of siblings.entries()) {
+      this.db.run("UPDATE bookmarks SET position = ? WHERE id = ?", [
+        position,
+        id,
+      ]);
+    }
+    this.save();
+    return true;
+  }
+
+  // Delete a bookmark, or a folder and everything in it
+  deleteBookmark(bookmarkId: number): boolean {
+    if (!this.db) return false;
+
+    const ids: number[] = [];
+    const pending = [bookmarkId];
+    while (pending.length > 0) {
+      const id = pending.pop()!;
+      ids.push(id);
+      pending.push(...this.getChildBookmarkIds(id));
+    }
+
+    const placeholders = ids.map(() => "?").join(",");
+    this.db.run(
+      `DELETE FROM bookmark_tags WHERE bookmark_id IN (${placeholders})`,
+      ids,
+    );
+    this.db.run(`DELETE FROM bookmarks WHERE id IN (${placeholders})`, ids);
+    const deleted = this.db.getRowsModified() > 0;
+    this.save();
+    return deleted;
+  }
+
+  private getChildBookmarkIds(parentId: number | null): number[] {
+    if (!this.db) return [];
+    const result = this.db.exec(
+      "SELECT id FROM bookmarks WHERE parent_id IS ? ORDER BY position ASC",
+      [parentId],
+    );
+    return this.rowsToObjects<{ id: number }>(result).map((row) => row.id);
+  }
+
+  private nextBookmarkPosition(parentId: number | null): number {
+    if (!this.db) return 0;
+    const result = this.db.exec(
+      "SELECT MAX(position) FROM bookmarks WHERE parent_id IS ?",
+      [parentId],
+    );
+    const max = result?.[0]?.values[0]?.[0] as number | null;
+    return max === null || max === undefined ? 0 : max + 1;
+  }
+
+  private writeBookmarkTags(bookmarkId: number, tags: string[]): void {
+    if (!this.db) return;
+    this.db.run("DELETE FROM bookmark_tags WHERE bookmark_id = ?", [
+      bookmarkId,
+    ]);
+    for (const tag of new Set(tags)) {
+      this.db.run(
+        "INSERT INTO bookmark_tags (bookmark_id, tag) VALUES (?, ?)",
+        [bookmarkId, tag],
+      );
+    }
+  }
+
   // Cleanup on close
   close(): void {
     if (this.saveTimer) {
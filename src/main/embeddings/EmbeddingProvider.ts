@@ -0,0 +1,40 @@
+import { LocalEmbeddingProvider } from "./LocalEmbeddingProvider";
+import { OpenAIEmbeddingProvider } from "./OpenAIEmbeddingProvider";
+
+export type EmbeddingProviderId = "openai" | "local";
+
+export interface EmbeddingProvider {
+  readonly id: EmbeddingProviderId;
+  // Stored in the embeddings.embedding_model column
+  readonly modelName: string;
+  readonly dimension: number;
+  embed(texts: string[]): Promise<number[][]>;
+  dispose(): Promise<void>;
+}
+
+// Pick the provider from EMBEDDING_PROVIDER / EMBEDDING_MODEL. Without an
+// explicit choice, OpenAI is used when a key is present and the local model
+// otherwise, so semantic search works without any API key.
+export function createEmbeddingProvider(): EmbeddingProvider {
+  const requested = process.env.EMBEDDING_PROVIDER?.toLowerCase();
+  const model = process.env.EMBEDDING_MODEL;
+  const hasOpenAIKey = !!process.env.OPENAI_API_KEY;
+
+  if (requested === "openai" && !hasOpenAIKey) {
+    console.warn(
+      "[EmbeddingProvider] OPENAI_API_KEY not set, falling back to local embeddings",
+    );
+  }
+
+  const useOpenAI =
+    requested === "openai" ? hasOpenAIKey : !requested && hasOpenAIKey;
+
+  const provider = useOpenAI
+    ? new OpenAIEmbeddingProvider(model)
+    : new LocalEmbeddingProvider(model);
+
+  console.log(
+    `[EmbeddingProvider] Using ${provider.id} embeddings: ${provider.modelName} (${provider.dimension}d)`,
+  );
+  return provider;
+}
@@ -0,0 +1,131 @@
+import { app } from "electron";
+import { join } from "path";
+import { Worker } from "worker_threads";
+import type { EmbeddingProvider } from "./EmbeddingProvider";
+import workerPath from "./localEmbedding.worker?modulePath";
+
+const MODEL_DIMENSIONS: Record<string, number> = {
+  "Xenova/all-MiniLM-L6-v2": 384,
+  "Xenova/bge-small-en-v1.5": 384,
+  "Xenova/multilingual-e5-small": 384,
+  "Xenova/all-mpnet-base-v2": 768,
+};
+
+const DEFAULT_MODEL = "Xenova/all-MiniLM-L6-v2";
+
+interface WorkerResponse {
+  id: number;
+  embeddings?: number[][];
+  error?: string;
+}
+
+interface PendingRequest {
+  resolve: (embeddings: number[][]) => void;
+  reject: (error: Error) => void;
+}
+
+// Fully local embeddings using transformers.js in a worker thread. The model
+// is downloaded once into userData/models and runs offline afterwards.
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly id = "local" as const;
+  readonly modelName: string;
+  readonly dimension: number;
+  private worker: Worker | null = null;
+  private pending: Map<number, PendingRequest> = new Map();
+  private requestCounter: number = 0;
+
+  constructor(modelName: string = DEFAULT_MODEL) {
+    if (!MODEL_DIMENSIONS[modelName]) {
+      console.warn(
+        `[LocalEmbeddingProvider] Unknown model ${modelName}, using ${DEFAULT_MODEL}`,
+      );
+      modelName = DEFAULT_MODEL;
+    }
+    this.modelName = modelName;
+    this.dimension = MODEL_DIMENSIONS[modelName];
+  }
+
+  embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return Promise.resolve([]);
+
+    const worker = this.getWorker();
+    const id = ++this.requestCounter;
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      worker.postMessage({ id, texts });
+    });
+  }
+
+  async dispose(): Promise<void> {
+    if (this.worker) {
+      const worker = this.worker;
+      this.worker = null;
+      await worker.terminate();
+    }
+    this.rejectAll(new Error("Embedding worker stopped"));
+  }
+
+  // Start the worker on first use so the model only loads when needed
+  private getWorker(): Worker {
+    if (this.worker) return this.worker;
+
+    const worker = new Worker(workerPath, {
+      workerData: {
+        modelName: this.modelName,
+        cacheDir: join(app.getPath("userData"), "models"),
+      },
+    });
+
+    worker.on("message", (response: WorkerResponse) => {
+      this.handleResponse(response);
+    });
+
+    worker.on("error", (error) => {
+      console.error("[LocalEmbeddingProvider] Worker error:", error);
+      this.rejectAll(error);
+    });
+
+    worker.on("exit", (code) => {
+      if (this.worker === worker) {
+        this.worker = null;
+      }
+      if (code !== 0) {
+        this.rejectAll(new Error(`Embedding worker exited with code ${code}`));
+      }
+    });
+
+    this.worker = worker;
+    return worker;
+  }
+
+  private handleResponse(response: WorkerResponse): void {
+    const request = this.pending.get(response.id);
+    if (!request) return;
+    this.pending.delete(response.id);
+
+    if (response.error || !response.embeddings) {
+      request.reject(new Error(response.error || "No embeddings returned"));
+      return;
+    }
+
+    const mismatched = response.embeddings.find(
+      (embedding) => embedding.length !== this.dimension,
+    );
+    if (mismatched) {
+      request.reject(
+        new Error(
+          `Expected ${this.dimension} dimensions, got ${mismatched.length}`,
+        ),
+      );
+      return;
+    }
+
+    request.resolve(response.embeddings);
+  }
+
+  private rejectAll(error: Error): void {
+    this.pending.forEach((request) => request.reject(error));
+    this.pending.clear();
+  }
+}
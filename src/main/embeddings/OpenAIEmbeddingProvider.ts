@@ -0,0 +1,42 @@
+import { openai } from "@ai-sdk/openai";
+import { embedMany } from "ai";
+import type { EmbeddingProvider } from "./EmbeddingProvider";
+
+const MODEL_DIMENSIONS: Record<string, number> = {
+  "text-embedding-3-small": 1536,
+  "text-embedding-3-large": 3072,
+  "text-embedding-ada-002": 1536,
+};
+
+const DEFAULT_MODEL = "text-embedding-3-small";
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly id = "openai" as const;
+  readonly modelName: string;
+  readonly dimension: number;
+  private model: ReturnType<typeof openai.embedding>;
+
+  constructor(modelName: string = DEFAULT_MODEL) {
+    if (!MODEL_DIMENSIONS[modelName]) {
+      console.warn(
+        `[OpenAIEmbeddingProvider] Unknown model ${modelName}, using ${DEFAULT_MODEL}`,
+      );
+      modelName = DEFAULT_MODEL;
+    }
+    this.modelName = modelName;
+    this.dimension = MODEL_DIMENSIONS[modelName];
+    this.model = openai.embedding(modelName);
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const { embeddings } = await embedMany({
+      model: this.model,
+      values: texts,
+    });
+    return embeddings;
+  }
+
+  async dispose(): Promise<void> {
+    // Nothing to release for a remote API
+  }
+}
@@ -0,0 +1,62 @@
+import {
+  env,
+  pipeline,
+  type FeatureExtractionPipeline,
+} from "@huggingface/transformers";
+import { parentPort, workerData } from "worker_threads";
+
+// Runs a transformers.js feature-extraction model off the main thread
+
+interface WorkerConfig {
+  modelName: string;
+  cacheDir: string;
+}
+
+interface EmbedRequest {
+  id: number;
+  texts: string[];
+}
+
+const { modelName, cacheDir } = workerData as WorkerConfig;
+env.cacheDir = cacheDir;
+
+// pipeline()'s generic overloads are too complex for tsc to resolve here
+const createExtractor = pipeline as (
+  task: "feature-extraction",
+  model: string,
+  options: { dtype: "q8" },
+) => Promise<FeatureExtractionPipeline>;
+
+let extractorPromise: Promise<FeatureExtractionPipeline> | null = null;
+
+function getExtractor(): Promise<FeatureExtractionPipeline> {
+  if (!extractorPromise) {
+    extractorPromise = createExtractor("feature-extraction", modelName, {
+      dtype: "q8",
+    });
+    // Allow a retry if the download or load fails
+    extractorPromise.catch(() => {
+      extractorPromise = null;
+    });
+  }
+  return extractorPromise;
+}
+
+parentPort?.on("message", async (request: EmbedRequest) => {
+  try {
+    const extractor = await getExtractor();
+    const output = await extractor(request.texts, {
+      pooling: "mean",
+      normalize: true,
+    });
+    parentPort?.postMessage({
+      id: request.id,
+      embeddings: output.tolist() as number[][],
+    });
+  } catch (error) {
+    parentPort?.postMessage({
+      id: request.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
@@ -1,51 +1,56 @@
 import { electronApp } from "@electron-toolkit/utils";
-import { app, BrowserWindow } from "electron";
+import { app } from "electron";
 
 import { EventManager } from "./EventManager";
 import { AppMenu } from "./Menu";
-import { Window } from "./Window";
-let mainWindow: Window | null = null;
+import { WindowManager } from "./WindowManager";
+let windowManager: WindowManager | null = null;
 let eventManager: EventManager | null = null;
 let menu: AppMenu | null = null;
 
-const createWindow = (): Window => {
-  const window = new Window();
-  menu = new AppMenu(window);
-  eventManager = new EventManager(window);
-  return window;
-};
-
 app
   .whenReady()
   .then(() => {
     electronApp.setAppUserModelId("com.electron");
 
-    mainWindow = createWindow();
+    // One manager, event router and menu serve every window
+    windowManager = new WindowManager();
+    menu = new AppMenu(windowManager);
+    eventManager = new EventManager(windowManager);
+    windowManager.restoreLastSession();
 
     app.on("activate", () => {
       // On macOS it's common to re-create a window in the app when the
       // dock icon is clicked and there are no other windows open.
-      if (BrowserWindow.getAllWindows().length === 0) {
-        mainWindow = createWindow();
+      if (windowManager && windowManager.allWindows.length === 0) {
+        windowManager.createWindow();
       }
     });
   })
   .catch(console.error);
 
-app.on("window-all-closed", () => {
+// Save every open window before quitting closes them
+app.on("before-quit", () => {
+  windowManager?.prepareToQuit();
+});
+
+app.on("will-quit", () => {
   if (eventManager) {
     eventManager.cleanup();
     eventManager = null;
   }
 
-  // Clean up references
-  if (mainWindow) {
-    mainWindow = null;
+  // Shut down history, downloads and other shared services
+  if (windowManager) {
+    windowManager.destroy();
+    windowManager = null;
   }
   if (menu) {
     menu = null;
   }
+});
 
+app.on("window-all-closed", () => {
   if (process.platform !== "darwin") {
     app.quit();
   }
@@ -16,6 +16,15 @@ export interface GroupInfo {
   color: GroupColor;
   isCollapsed: boolean;
   position: number;
+  // Tabs in a container group have their own cookies and site data
+  isContainer: boolean;
+}
+
+export interface GroupUpdates {
+  title?: string;
+  colorId?: string;
+  isCollapsed?: boolean;
+  isContainer?: boolean;
 }
 
 export interface TabInfo {
@@ -24,6 +33,83 @@ export interface TabInfo {
   url: string;
   isActive: boolean;
   groupId: string | null;
+  // Popups blocked on the current page
+  blockedPopupCount: number;
+  // Whether the page's site is on the popup allow list
+  popupsAllowed: boolean;
+  isBookmarked: boolean;
+  // Permission request waiting for an answer in the address bar
+  permissionRequest: PermissionRequestInfo | null;
+  // Page zoom, 1 for 100%
+  zoomFactor: number;
+  // The page's own favicon, when it has reported one
+  favicon: string | null;
+  // Hibernated to free memory; the page reloads when the tab is shown
+  isSleeping: boolean;
+  isPinned: boolean;
+  isMuted: boolean;
+  // Playing sound right now (even when muted)
+  isAudible: boolean;
+}
+
+export type SitePermission =
+  | "camera"
+  | "microphone"
+  | "geolocation"
+  | "notifications";
+
+export interface PermissionRequestInfo {
+  id: string;
+  tabId: string;
+  origin: string;
+  permissions: SitePermission[];
+}
+
+export interface FindInPageOptions {
+  forward?: boolean;
+  matchCase?: boolean;
+  // Continue the current search rather than starting a new one
+  findNext?: boolean;
+}
+
+export interface FindInPageResult {
+  // 1-based index of the highlighted match, 0 when nothing matched
+  activeMatch: number;
+  matches: number;
+}
+
+// Another open window a tab can be moved to
+export interface WindowInfo {
+  id: string;
+  // Title of the window's active tab
+  title: string;
+  tabCount: number;
+}
+
+export type OmniboxSuggestionType =
+  | "url"
+  | "search"
+  | "history"
+  | "related"
+  | "bookmark"
+  | "tab";
+
+export interface OmniboxSuggestion {
+  type: OmniboxSuggestionType;
+  url: string;
+  title: string;
+  favicon: string | null;
+  // The tab to switch to, for "tab"
+  tabId: string | null;
+  // Name of the engine a "search" suggestion searches
+  engine: string | null;
+}
+
+export interface OmniboxResult {
+  input: string;
+  suggestions: OmniboxSuggestion[];
+  // Text to append to the input to complete it to the first suggestion
+  inlineCompletion: string;
 }
 
 // Generic browser API interface (shared between topbar and sidebar)
@@ -34,16 +120,26 @@ export interface BrowserAPI {
   ) => Promise<{ id: string; title: string; url: string } | null>;
   closeTab: (tabId: string) => Promise<boolean>;
   switchTab: (tabId: string) => Promise<boolean>;
+  setTabPinned: (tabId: string, pinned: boolean) => Promise<boolean>;
+  setTabMuted: (tabId: string, muted: boolean) => Promise<boolean>;
+  onTabAudioChanged: (callback: () => void) => () => void;
   reorderTabs: (orderedTabIds: string[]) => Promise<boolean>;
   getTabs: () => Promise<TabInfo[]>;
 
+  // Windows
+  getWindows: () => Promise<WindowInfo[]>;
+  isPrivateWindow: () => Promise<boolean>;
+  moveTabToWindow: (tabId: string, windowId?: string) => Promise<boolean>;
+
   // Group management
-  createGroup: (title: string, colorId?: string) => Promise<GroupInfo>;
+  createGroup: (
+    title: string,
+    colorId?: string,
+    isContainer?: boolean,
+  ) => Promise<GroupInfo>;
   deleteGroup: (groupId: string) => Promise<boolean>;
-  updateGroup: (
-    groupId: string,
-    updates: { title?: string; colorId?: string; isCollapsed?: boolean },
-  ) => Promise<boolean>;
+  closeGroup: (groupId: string) => Promise<boolean>;
+  updateGroup: (groupId: string, updates: GroupUpdates) => Promise<boolean>;
   addTabToGroup: (tabId: string, groupId: string) => Promise<boolean>;
   removeTabFromGroup: (tabId: string) => Promise<boolean>;
   getGroups: () => Promise<GroupInfo[]>;
@@ -67,6 +163,40 @@ export interface BrowserAPI {
   // Tab actions
   tabScreenshot: (tabId: string) => Promise<string | null>;
   tabRunJs: (tabId: string, code: string) => Promise<unknown>;
+  showPopupMenu: (tabId: string) => Promise<void>;
+  toggleBookmark: (tabId: string) => Promise<boolean>;
+
+  // Site permissions
+  // Allow or block remembers the answer for the site; null dismisses
+  respondToPermissionRequest: (
+    requestId: string,
+    decision: "allow" | "block" | null,
+  ) => Promise<boolean>;
+  showSiteInfoMenu: (tabId: string) => Promise<void>;
+  onPermissionRequestsChanged: (callback: () => void) => () => void;
+
+  // Zoom indicator; levels change from the menu, shortcuts or the panel
+  showZoomMenu: (tabId: string) => Promise<void>;
+  onZoomChanged: (callback: () => void) => () => void;
+
+  // Address bar suggestions; slow sources are related pages and searches
+  getOmniboxSuggestions: (
+    input: string,
+    withSlowSources?: boolean,
+  ) => Promise<OmniboxResult>;
+  switchToTab: (tabId: string) => Promise<boolean>;
+
+  // Find in page (on the active tab)
+  findInPage: (
+    text: string,
+    options?: FindInPageOptions,
+  ) => Promise<FindInPageResult | null>;
+  stopFindInPage: () => Promise<void>;
+  onFindBarOpen: (callback: () => void) => () => void;
+  onFindReset: (callback: () => void) => () => void;
+
+  // Commands from the menu and key bindings, such as "address-bar.focus"
+  onRunCommand: (callback: (commandId: string) => void) => () => void;
 
   // Panel
   togglePanel: () => Promise<boolean>;
@@ -1,4 +1,5 @@
 import type { UIMessage } from "ai";
+import { GroupInfo } from "./global.d";
 import { TabInfo } from "./topbar";
 
 // Re-export for renderer
@@ -12,6 +13,20 @@ export interface ChatRequest {
     text: string | null;
   };
   messageId: string;
+  // Let the model act on tabs with multi-step tool calls
+  agentMode?: boolean;
+  // Tabs to use as context instead of just the active tab
+  contextTabIds?: string[];
+  contextGroupId?: string | null;
+}
+
+// A tab the assistant was given as context, cited as [index]
+export interface ChatContextSource {
+  index: number;
+  tabId: string;
+  title: string;
+  url: string;
+  truncated: boolean;
 }
 
 export interface ChatResponse {
@@ -20,6 +35,151 @@ export interface ChatResponse {
   isComplete: boolean;
 }
 
+export type AgentActionStatus =
+  | "awaiting-confirmation"
+  | "running"
+  | "completed"
+  | "failed"
+  | "denied";
+
+export interface AgentAction {
+  id: string;
+  toolName: string;
+  description: string;
+  destructive: boolean;
+  status: AgentActionStatus;
+  result?: string;
+  error?: string;
+  startedAt: number;
+  finishedAt?: number;
+}
+
+export interface ChatConversation {
+  id: number;
+  title: string;
+  tab_id: string | null;
+  url: string | null;
+  forked_from: number | null;
+  created_at: number;
+  updated_at: number;
+  message_count: number;
+  // Message text that matched a search, if any
+  matched_text: string | null;
+}
+
+export type DownloadState =
+  | "progressing"
+  | "paused"
+  | "completed"
+  | "cancelled"
+  | "interrupted";
+
+export interface DownloadRecord {
+  id: string;
+  url: string;
+  urlChain: string[];
+  etag: string;
+  lastModified: string;
+  filename: string;
+  savePath: string;
+  mimeType: string;
+  totalBytes: number;
+  receivedBytes: number;
+  bytesPerSecond: number;
+  state: DownloadState;
+  startTime: number;
+  endTime: number | null;
+  isPrivate?: boolean;
+}
+
+export interface DownloadSettings {
+  askWhereToSave: boolean;
+  askSites: string[];
+}
+
+export interface HibernationSettings {
+  enabled: boolean;
+  idleMinutes: number;
+}
+
+// A zoom level remembered for a site
+export interface SiteZoom {
+  host: string;
+  zoomFactor: number;
+}
+
+export interface SearchEngine {
+  id: string;
+  name: string;
+  // Results page, with %s where the query goes
+  url: string;
+  // Typed before a query to search this engine, as in "w term"
+  keyword: string;
+  suggestUrl: string | null;
+  isBuiltIn: boolean;
+}
+
+export interface NewSearchEngine {
+  name: string;
+  url: string;
+  keyword: string;
+}
+
+export interface SearchEngineList {
+  engines: SearchEngine[];
+  defaultEngineId: string;
+}
+
+export type CommandCategory =
+  | "File"
+  | "Edit"
+  | "View"
+  | "Tabs"
+  | "Groups"
+  | "Navigation";
+
+// A menu or bar action and the keys bound to it
+export interface CommandInfo {
+  id: string;
+  label: string;
+  category: CommandCategory;
+  // Electron accelerators, such as "CmdOrCtrl+T"
+  bindings: string[];
+  defaultBindings: string[];
+  isCustomized: boolean;
+}
+
+export interface KeybindingConflict {
+  binding: string;
+  commandId: string;
+  label: string;
+}
+
+export interface KeybindingResult {
+  applied: boolean;
+  invalid: string[];
+  conflicts: KeybindingConflict[];
+}
+
+export interface Bookmark {
+  id: number;
+  // null for top-level entries
+  parent_id: number | null;
+  type: "bookmark" | "folder";
+  title: string;
+  url: string | null;
+  position: number;
+  created_at: number;
+  updated_at: number;
+  tags: string[];
+}
+
+export interface BookmarkUpdates {
+  title?: string;
+  url?: string;
+  tags?: string[];
+}
+
 export interface HistorySession {
   id: number;
   start_time: number;
@@ -48,6 +208,15 @@ export interface HistoryInteraction {
   timestamp: number;
 }
 
+// A site permission the user allowed while on the visited page
+export interface HistoryPermissionGrant {
+  id: number;
+  visit_id: number;
+  origin: string;
+  permission: "camera" | "microphone" | "geolocation" | "notifications";
+  timestamp: number;
+}
+
 export interface HistoryScreenshot {
   id: number;
   visit_id: number;
@@ -80,11 +249,45 @@ export interface HistoryTabEvent {
 
 export interface HistoryVisitDetails {
   interactions: HistoryInteraction[];
+  permissionGrants: HistoryPermissionGrant[];
   screenshots: HistoryScreenshot[];
   snapshots: HistorySnapshot[];
   scrollEvents: HistoryScrollEvent[];
 }
 
+export interface HistorySearchOptions {
+  startTime?: number;
+  endTime?: number;
+  domain?: string;
+  limit?: number;
+}
+
+export interface HistorySnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface HistorySearchResult {
+  visit: HistoryPageVisit;
+  snippet: HistorySnippetPart[];
+  score: number;
+  matchedBy: Array<"keyword" | "semantic">;
+}
+
+export interface HistoryIndexRebuildResult {
+  total: number;
+  embedded: number;
+  failed: number;
+}
+
+export interface HistoryIndexConsistencyReport {
+  indexedVectors: number;
+  orphanedVectorsRemoved: number;
+  staleRowsRemoved: number;
+  missingVectors: number;
+  reembedded: number;
+}
+
 export interface HistorySettings {
   enabled: boolean;
   excludedDomains: string[];
@@ -95,6 +298,16 @@ export interface HistorySettings {
   trackClipboard: boolean;
 }
 
+export interface RecentlyClosedInfo {
+  id: string;
+  type: "tab" | "group";
+  closedAt: number;
+  title: string;
+  url: string | null;
+  favicon: string | null;
+  tabCount: number;
+}
+
 export interface WorkflowStep {
   action: string;
   target?: string;
@@ -102,6 +315,27 @@ export interface WorkflowStep {
   timestamp: number;
 }
 
+// Raw workflow as produced by WorkflowAnalyzer (used for replay)
+export interface WorkflowDefinitionStep {
+  step_number: number;
+  action: string;
+  description: string;
+  selector?: string;
+  value?: string;
+  url?: string;
+  expected_outcome: string;
+}
+
+export interface WorkflowDefinition {
+  workflow_name: string;
+  description: string;
+  steps: WorkflowDefinitionStep[];
+  repeatability_score: number;
+  automation_potential: "low" | "medium" | "high";
+  tags: string[];
+  error_handling: string[];
+}
+
 export interface WorkflowAnalysis {
   id: string;
   summary: string;
@@ -110,6 +344,37 @@ export interface WorkflowAnalysis {
   automationPotential: "low" | "medium" | "high";
   urls: string[];
   sessionId?: number;
+  workflow: WorkflowDefinition;
+}
+
+export type WorkflowReplayStatus =
+  | "idle"
+  | "running"
+  | "paused"
+  | "completed"
+  | "stopped"
+  | "failed";
+
+export interface WorkflowReplayStep {
+  stepNumber: number;
+  action: string;
+  description: string;
+  status: "pending" | "running" | "success" | "failed" | "skipped";
+  error?: string;
+  screenshot?: string;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface WorkflowReplayState {
+  id: string;
+  workflowName: string;
+  tabId: string | null;
+  status: WorkflowReplayStatus;
+  currentStep: number;
+  steps: WorkflowReplayStep[];
+  startedAt: number | null;
+  finishedAt: number | null;
 }
 
 export interface WorkflowCache {
@@ -128,6 +393,19 @@ export interface PanelAPI {
   removeChatResponseListener: () => void;
   removeMessagesUpdatedListener: () => void;
   getMessages: () => Promise<UIMessage[]>;
+  agentConfirmAction: (actionId: string, approved: boolean) => Promise<boolean>;
+  openContextSource: (tabId: string, url: string) => Promise<boolean>;
+
+  // Saved conversations
+  listConversations: (query?: string) => Promise<ChatConversation[]>;
+  getActiveConversation: () => Promise<number | null>;
+  openConversation: (conversationId: number) => Promise<boolean>;
+  forkConversation: (messageId: string) => Promise<number | null>;
+  deleteConversation: (conversationId: number) => Promise<boolean>;
+  onConversationsUpdated: (
+    callback: (activeConversationId: number | null) => void,
+  ) => () => void;
+
   // Page content access
   getPageContent: () => Promise<string | null>;
   getPageText: () => Promise<string | null>;
@@ -135,6 +413,8 @@ export interface PanelAPI {
 
   // Tab information
   getActiveTabInfo: () => Promise<TabInfo | null>;
+  getTabs: () => Promise<TabInfo[]>;
+  getGroups: () => Promise<GroupInfo[]>;
 
   // Panel visibility
   getPanelVisibility: () => Promise<boolean>;
@@ -148,13 +428,19 @@ export interface PanelAPI {
     startTime: number,
     endTime: number,
   ) => Promise<HistoryPageVisit[]>;
-  historySearch: (query: string, limit: number) => Promise<HistoryPageVisit[]>;
+  historySearch: (
+    query: string,
+    options?: HistorySearchOptions,
+  ) => Promise<HistorySearchResult[]>;
   historyGetVisitDetails: (
     visitId: number,
   ) => Promise<HistoryVisitDetails | null>;
   historyGetInteractionCount: (visitId: number) => Promise<number>;
   historyClearOld: (days: number) => Promise<void>;
   historyClearAll: () => Promise<void>;
+  historyDeleteVisit: (visitId: number) => Promise<boolean>;
+  historyRebuildIndex: () => Promise<HistoryIndexRebuildResult>;
+  historyCheckIndex: () => Promise<HistoryIndexConsistencyReport>;
   historyGetSessions: () => Promise<HistorySession[]>;
   historyGetSession: (sessionId: number) => Promise<{
     session: HistorySession;
@@ -166,6 +452,11 @@ export interface PanelAPI {
   historySettingsGet: () => Promise<HistorySettings | null>;
   historySettingsUpdate: (config: Partial<HistorySettings>) => Promise<boolean>;
 
+  // Recently closed API
+  recentlyClosedGetAll: () => Promise<RecentlyClosedInfo[]>;
+  recentlyClosedReopen: (entryId: string) => Promise<boolean>;
+  onRecentlyClosedUpdated: (callback: () => void) => () => void;
+
   // Workflow API
   workflowAnalyzeSession: (
     sessionId: number,
@@ -175,6 +466,91 @@ export interface PanelAPI {
   }) => Promise<WorkflowAnalysis | null>;
   workflowGetCached: (sessionId: number) => Promise<WorkflowCache | null>;
 
+  // Workflow replay API
+  workflowReplayStart: (
+    workflow: WorkflowDefinition,
+    options?: { tabId?: string; stopOnError?: boolean },
+  ) => Promise<WorkflowReplayState>;
+  workflowReplayPause: () => Promise<boolean>;
+  workflowReplayResume: () => Promise<boolean>;
+  workflowReplayStop: () => Promise<boolean>;
+  workflowReplayGetState: () => Promise<WorkflowReplayState>;
+  onWorkflowReplayUpdated: (
+    callback: (state: WorkflowReplayState) => void,
+  ) => () => void;
+
   // Browser control
   browserOpenUrl: (url: string) => Promise<string>;
+
+  // Downloads API
+  downloadsGetAll: () => Promise<DownloadRecord[]>;
+  downloadsPause: (id: string) => Promise<boolean>;
+  downloadsResume: (id: string) => Promise<boolean>;
+  downloadsCancel: (id: string) => Promise<boolean>;
+  downloadsOpen: (id: string) => Promise<boolean>;
+  downloadsShowInFolder: (id: string) => Promise<boolean>;
+  downloadsRemove: (id: string) => Promise<boolean>;
+  downloadsClear: () => Promise<boolean>;
+  downloadsSettingsGet: () => Promise<DownloadSettings>;
+  downloadsSettingsUpdate: (
+    config: Partial<DownloadSettings>,
+  ) => Promise<DownloadSettings>;
+  onDownloadsUpdated: (
+    callback: (downloads: DownloadRecord[]) => void,
+  ) => () => void;
+
+  // Bookmarks API
+  bookmarksGetAll: () => Promise<Bookmark[]>;
+  bookmarksSearch: (query: string) => Promise<Bookmark[]>;
+  bookmarksAdd: (bookmark: {
+    title: string;
+    url: string;
+    parentId?: number | null;
+    tags?: string[];
+  }) => Promise<number | null>;
+  bookmarksCreateFolder: (
+    title: string,
+    parentId?: number | null,
+  ) => Promise<number | null>;
+  bookmarksUpdate: (id: number, updates: BookmarkUpdates) => Promise<boolean>;
+  bookmarksMove: (
+    id: number,
+    parentId: number | null,
+    index: number,
+  ) => Promise<boolean>;
+  bookmarksDelete: (id: number) => Promise<boolean>;
+  // Number of bookmarks imported, or null if the file dialog was cancelled
+  bookmarksImport: () => Promise<number | null>;
+  bookmarksExport: () => Promise<boolean>;
+  onBookmarksUpdated: (callback: () => void) => () => void;
+
+  // Zoom levels API
+  zoomGetLevels: () => Promise<SiteZoom[]>;
+  zoomClearLevel: (host: string) => Promise<void>;
+  zoomClearAll: () => Promise<void>;
+  onZoomLevelsUpdated: (callback: () => void) => () => void;
+
+  // Tab hibernation API
+  hibernationSettingsGet: () => Promise<HibernationSettings>;
+  hibernationSettingsUpdate: (
+    config: Partial<HibernationSettings>,
+  ) => Promise<HibernationSettings>;
+
+  // Search engines API
+  searchEnginesGet: () => Promise<SearchEngineList>;
+  searchEnginesSetDefault: (engineId: string) => Promise<boolean>;
+  searchEnginesAdd: (engine: NewSearchEngine) => Promise<SearchEngine | null>;
+  searchEnginesDelete: (engineId: string) => Promise<boolean>;
+  onSearchEnginesUpdated: (callback: () => void) => () => void;
+
+  // Keyboard shortcuts API
+  keybindingsGetAll: () => Promise<CommandInfo[]>;
+  keybindingsSet: (
+    commandId: string,
+    bindings: string[],
+    replaceConflicts?: boolean,
+  ) => Promise<KeybindingResult>;
+  keybindingsReset: (commandId?: string) => Promise<void>;
+  keybindingsSetRecording: (isRecording: boolean) => Promise<void>;
+  onKeybindingsUpdated: (callback: () => void) => () => void;
 }
@@ -1,6 +1,16 @@
 import { electronAPI } from "@electron-toolkit/preload";
 import { contextBridge } from "electron";
-import type { ChatRequest, ChatResponse } from "./panel.d";
+import type {
+  BookmarkUpdates,
+  ChatRequest,
+  ChatResponse,
+  DownloadRecord,
+  DownloadSettings,
+  HibernationSettings,
+  NewSearchEngine,
+  WorkflowDefinition,
+  WorkflowReplayState,
+} from "./panel.d";
 
 // Panel specific APIs
 const panelAPI = {
@@ -12,6 +22,38 @@ const panelAPI = {
 
   getMessages: () => electronAPI.ipcRenderer.invoke("panel-get-messages"),
 
+  agentConfirmAction: (actionId: string, approved: boolean) =>
+    electronAPI.ipcRenderer.invoke("agent-confirm-action", actionId, approved),
+
+  openContextSource: (tabId: string, url: string) =>
+    electronAPI.ipcRenderer.invoke("chat-open-source", tabId, url),
+
+  // Saved conversations
+  listConversations: (query?: string) =>
+    electronAPI.ipcRenderer.invoke("chat-list-conversations", query),
+  getActiveConversation: () =>
+    electronAPI.ipcRenderer.invoke("chat-get-active-conversation"),
+  openConversation: (conversationId: number) =>
+    electronAPI.ipcRenderer.invoke("chat-open-conversation", conversationId),
+  forkConversation: (messageId: string) =>
+    electronAPI.ipcRenderer.invoke("chat-fork-conversation", messageId),
+  deleteConversation: (conversationId: number) =>
+    electronAPI.ipcRenderer.invoke("chat-delete-conversation", conversationId),
+  onConversationsUpdated: (
+    callback: (activeConversationId: number | null) => void,
+  ) => {
+    const listener = (_: unknown, activeConversationId: number | null): void =>
+      callback(activeConversationId);
+    electronAPI.ipcRenderer.on("chat-conversations-updated", listener);
+    // Return cleanup function
+    return () => {
+      electronAPI.ipcRenderer.removeListener(
+        "chat-conversations-updated",
+        listener,
+      );
+    };
+  },
+
   onChatResponse: (callback: (data: ChatResponse) => void) => {
     electronAPI.ipcRenderer.on("chat-response", (_, data) => callback(data));
   },
@@ -37,6 +79,8 @@ const panelAPI = {
 
   // Tab information
   getActiveTabInfo: () => electronAPI.ipcRenderer.invoke("get-active-tab-info"),
+  getTabs: () => electronAPI.ipcRenderer.invoke("get-tabs"),
+  getGroups: () => electronAPI.ipcRenderer.invoke("get-groups"),
 
   // Panel visibility
   getPanelVisibility: () =>
@@ -61,8 +105,15 @@ const panelAPI = {
       startTime,
       endTime,
     ),
-  historySearch: (query: string, limit = 50) =>
-    electronAPI.ipcRenderer.invoke("history-search", query, limit),
+  historySearch: (
+    query: string,
+    options?: {
+      startTime?: number;
+      endTime?: number;
+      domain?: string;
+      limit?: number;
+    },
+  ) => electronAPI.ipcRenderer.invoke("history-search", query, options),
   historyGetVisitDetails: (visitId: number) =>
     electronAPI.ipcRenderer.invoke("history-get-visit-details", visitId),
   historyGetInteractionCount: (visitId: number) =>
@@ -81,6 +132,29 @@ const panelAPI = {
   historyClearOld: (days: number) =>
     electronAPI.ipcRenderer.invoke("history-clear-old", days),
   historyClearAll: () => electronAPI.ipcRenderer.invoke("history-clear-all"),
+  historyDeleteVisit: (visitId: number) =>
+    electronAPI.ipcRenderer.invoke("history-delete-visit", visitId),
+  historyRebuildIndex: () =>
+    electronAPI.ipcRenderer.invoke("history-rebuild-index"),
+  historyCheckIndex: () =>
+    electronAPI.ipcRenderer.invoke("history-check-index"),
+
+  // Recently closed API
+  recentlyClosedGetAll: () =>
+    electronAPI.ipcRenderer.invoke("recently-closed-get-all"),
+  recentlyClosedReopen: (entryId: string) =>
+    electronAPI.ipcRenderer.invoke("recently-closed-reopen", entryId),
+  onRecentlyClosedUpdated: (callback: () => void) => {
+    const listener = (): void => callback();
+    electronAPI.ipcRenderer.on("recently-closed-updated", listener);
+    // Return cleanup function
+    return () => {
+      electronAPI.ipcRenderer.removeListener(
+        "recently-closed-updated",
+        listener,
+      );
+    };
+  },
 
   // Workflow API
   workflowAnalyzeSession: (sessionId: number) =>
@@ -90,6 +164,158 @@ const panelAPI = {
   workflowGetCached: (sessionId: number) =>
     electronAPI.ipcRenderer.invoke("workflow-get-cached", sessionId),
 
+  // Workflow replay API
+  workflowReplayStart: (
+    workflow: WorkflowDefinition,
+    options?: { tabId?: string; stopOnError?: boolean },
+  ) =>
+    electronAPI.ipcRenderer.invoke("workflow-replay-start", workflow, options),
+  workflowReplayPause: () =>
+    electronAPI.ipcRenderer.invoke("workflow-replay-pause"),
+  workflowReplayResume: () =>
+    electronAPI.ipcRenderer.invoke("workflow-replay-resume"),
+  workflowReplayStop: () =>
+    electronAPI.ipcRenderer.invoke("workflow-replay-stop"),
+  workflowReplayGetState: () =>
+    electronAPI.ipcRenderer.invoke("workflow-replay-get-state"),
+  onWorkflowReplayUpdated: (callback: (state: WorkflowReplayState) => void) => {
+    const listener = (_: unknown, state: WorkflowReplayState): void =>
+      callback(state);
+    electronAPI.ipcRenderer.on("workflow-replay-updated", listener);
+    // Return cleanup function
+    return () => {
+      electronAPI.ipcRenderer.removeListener(
+        "workflow-replay-updated",
+        listener,
+      );
+    };
+  },
+
+  // Downloads API
+  downloadsGetAll: () => electronAPI.ipcRenderer.invoke("downloads-get-all"),
+  downloadsPause: (id: string) =>
+    electronAPI.ipcRenderer.invoke("downloads-pause", id),
+  downloadsResume: (id: string) =>
+    electronAPI.ipcRenderer.invoke("downloads-resume", id),
+  downloadsCancel: (id: string) =>
+    electronAPI.ipcRenderer.invoke("downloads-cancel", id),
+  downloadsOpen: (id: string) =>
+    electronAPI.ipcRenderer.invoke("downloads-open", id),
+  downloadsShowInFolder: (id: string) =>
+    electronAPI.ipcRenderer.invoke("downloads-show-in-folder", id),
+  downloadsRemove: (id: string) =>
+    electronAPI.ipcRenderer.invoke("downloads-remove", id),
+  downloadsClear: () => electronAPI.ipcRenderer.invoke("downloads-clear"),
+  downloadsSettingsGet: () =>
+    electronAPI.ipcRenderer.invoke("downloads-settings-get"),
+  downloadsSettingsUpdate: (config: Partial<DownloadSettings>) =>
+    electronAPI.ipcRenderer.invoke("downloads-settings-update", config),
+  onDownloadsUpdated: (callback: (downloads: DownloadRecord[]) => void) => {
+    const listener = (_: unknown, downloads: DownloadRecord[]): void =>
+      callback(downloads);
+    electronAPI.ipcRenderer.on("downloads-updated", listener);
+    // Return cleanup function
+    return () => {
+      electronAPI.ipcRenderer.removeListener("downloads-updated", listener);
+    };
+  },
+
+  // Bookmarks API
+  bookmarksGetAll: () => electronAPI.ipcRenderer.invoke("bookmarks-get-all"),
+  bookmarksSearch: (query: string) =>
+    electronAPI.ipcRenderer.invoke("bookmarks-search", query),
+  bookmarksAdd: (bookmark: {
+    title: string;
+    url: string;
+    parentId?: number | null;
+    tags?: string[];
+  }) => electronAPI.ipcRenderer.invoke("bookmarks-add", bookmark),
+  bookmarksCreateFolder: (title: string, parentId?: number | null) =>
+    electronAPI.ipcRenderer.invoke("bookmarks-create-folder", title, parentId),
+  bookmarksUpdate: (id: number, updates: BookmarkUpdates) =>
+    electronAPI.ipcRenderer.invoke("bookmarks-update", id, updates),
+  bookmarksMove: (id: number, parentId: number | null, index: number) =>
+    electronAPI.ipcRenderer.invoke("bookmarks-move", id, parentId, index),
+  bookmarksDelete: (id: number) =>
+    electronAPI.ipcRenderer.invoke("bookmarks-delete", id),
+  bookmarksImport: () => electronAPI.ipcRenderer.invoke("bookmarks-import"),
+  bookmarksExport: () => electronAPI.ipcRenderer.invoke("bookmarks-export"),
+  onBookmarksUpdated: (callback: () => void) => {
+    const listener = (): void => callback();
+    electronAPI.ipcRenderer.on("bookmarks-updated", listener);
+    // Return cleanup function
+    return () => {
+      electronAPI.ipcRenderer.removeListener("bookmarks-updated", listener);
+    };
+  },
+
+  // Zoom levels API
+  zoomGetLevels: () => electronAPI.ipcRenderer.invoke("zoom-get-levels"),
+  zoomClearLevel: (host: string) =>
+    electronAPI.ipcRenderer.invoke("zoom-clear-level", host),
+  zoomClearAll: () => electronAPI.ipcRenderer.invoke("zoom-clear-all"),
+  onZoomLevelsUpdated: (callback: () => void) => {
+    const listener = (): void => callback();
+    electronAPI.ipcRenderer.on("zoom-levels-updated", listener);
+    // Return cleanup function
+    return () => {
+      electronAPI.ipcRenderer.removeListener("zoom-levels-updated", listener);
+    };
+  },
+
+  // Tab hibernation API
+  hibernationSettingsGet: () =>
+    electronAPI.ipcRenderer.invoke("hibernation-settings-get"),
+  hibernationSettingsUpdate: (config: Partial<HibernationSettings>) =>
+    electronAPI.ipcRenderer.invoke("hibernation-settings-update", config),
+
+  // Search engines API
+  searchEnginesGet: () => electronAPI.ipcRenderer.invoke("search-engines-get"),
+  searchEnginesSetDefault: (engineId: string) =>
+    electronAPI.ipcRenderer.invoke("search-engines-set-default", engineId),
+  searchEnginesAdd: (engine: NewSearchEngine) =>
+    electronAPI.ipcRenderer.invoke("search-engines-add", engine),
+  searchEnginesDelete: (engineId: string) =>
+    electronAPI.ipcRenderer.invoke("search-engines-delete", engineId),
+  onSearchEnginesUpdated: (callback: () => void) => {
+    const listener = (): void => callback();
+    electronAPI.ipcRenderer.on("search-engines-updated", listener);
+    // Return cleanup function
+    return () => {
+      electronAPI.ipcRenderer.removeListener(
+        "search-engines-updated",
+        listener,
+      );
+    };
+  },
+
+  // Keyboard shortcuts API
+  keybindingsGetAll: () =>
+    electronAPI.ipcRenderer.invoke("keybindings-get-all"),
+  keybindingsSet: (
+    commandId: string,
+    bindings: string[],
+    replaceConflicts?: boolean,
+  ) =>
+    electronAPI.ipcRenderer.invoke(
+      "keybindings-set",
+      commandId,
+      bindings,
+      replaceConflicts,
+    ),
+  keybindingsReset: (commandId?: string) =>
+    electronAPI.ipcRenderer.invoke("keybindings-reset", commandId),
+  keybindingsSetRecording: (isRecording: boolean) =>
+    electronAPI.ipcRenderer.invoke("keybindings-set-recording", isRecording),
+  onKeybindingsUpdated: (callback: () => void) => {
+    const listener = (): void => callback();
+    electronAPI.ipcRenderer.on("keybindings-updated", listener);
+    // Return cleanup function
+    return () => {
+      electronAPI.ipcRenderer.removeListener("keybindings-updated", listener);
+    };
+  },
+
   // Browser control
   browserOpenUrl: (url: string) =>
     electronAPI.ipcRenderer.invoke("browser-open-url", url),
@@ -1,4 +1,10 @@
 import { BrowserAPI, TabInfo } from "./global.d";
 
 export type { TabInfo };
-export type TopBarAPI = BrowserAPI;
+
+export interface TopBarAPI extends BrowserAPI {
+  // TopBar-specific methods
+  // Total height the view needs while the address bar's suggestions are
+  // open, 0 when they close
+  setOverlayHeight: (height: number) => Promise<void>;
+}
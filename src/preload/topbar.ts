@@ -10,18 +10,42 @@ const topBarAPI = {
     electronAPI.ipcRenderer.invoke("close-tab", tabId),
   switchTab: (tabId: string) =>
     electronAPI.ipcRenderer.invoke("switch-tab", tabId),
+  setTabPinned: (tabId: string, pinned: boolean) =>
+    electronAPI.ipcRenderer.invoke("set-tab-pinned", tabId, pinned),
+  setTabMuted: (tabId: string, muted: boolean) =>
+    electronAPI.ipcRenderer.invoke("set-tab-muted", tabId, muted),
+  onTabAudioChanged: (callback: () => void) => {
+    const listener = (): void => callback();
+    electronAPI.ipcRenderer.on("tab-audio-changed", listener);
+    return () => {
+      electronAPI.ipcRenderer.removeListener("tab-audio-changed", listener);
+    };
+  },
   reorderTabs: (orderedTabIds: string[]) =>
     electronAPI.ipcRenderer.invoke("reorder-tabs", orderedTabIds),
   getTabs: () => electronAPI.ipcRenderer.invoke("get-tabs"),
 
+  // Windows
+  getWindows: () => electronAPI.ipcRenderer.invoke("get-windows"),
+  isPrivateWindow: () => electronAPI.ipcRenderer.invoke("is-private-window"),
+  moveTabToWindow: (tabId: string, windowId?: string) =>
+    electronAPI.ipcRenderer.invoke("move-tab-to-window", tabId, windowId),
+
   // Group management
-  createGroup: (title: string, colorId?: string) =>
-    electronAPI.ipcRenderer.invoke("create-group", title, colorId),
+  createGroup: (title: string, colorId?: string, isContainer?: boolean) =>
+    electronAPI.ipcRenderer.invoke("create-group", title, colorId, isContainer),
   deleteGroup: (groupId: string) =>
     electronAPI.ipcRenderer.invoke("delete-group", groupId),
+  closeGroup: (groupId: string) =>
+    electronAPI.ipcRenderer.invoke("close-group", groupId),
   updateGroup: (
     groupId: string,
-    updates: { title?: string; colorId?: string; isCollapsed?: boolean },
+    updates: {
+      title?: string;
+      colorId?: string;
+      isCollapsed?: boolean;
+      isContainer?: boolean;
+    },
   ) => electronAPI.ipcRenderer.invoke("update-group", groupId, updates),
   addTabToGroup: (tabId: string, groupId: string) =>
     electronAPI.ipcRenderer.invoke("add-tab-to-group", tabId, groupId),
@@ -50,6 +74,85 @@ const topBarAPI = {
     electronAPI.ipcRenderer.invoke("tab-screenshot", tabId),
   tabRunJs: (tabId: string, code: string) =>
     electronAPI.ipcRenderer.invoke("tab-run-js", tabId, code),
+  showPopupMenu: (tabId: string) =>
+    electronAPI.ipcRenderer.invoke("show-popup-menu", tabId),
+  toggleBookmark: (tabId: string) =>
+    electronAPI.ipcRenderer.invoke("toggle-bookmark", tabId),
+
+  // Site permissions
+  respondToPermissionRequest: (
+    requestId: string,
+    decision: "allow" | "block" | null,
+  ) =>
+    electronAPI.ipcRenderer.invoke(
+      "respond-permission-request",
+      requestId,
+      decision,
+    ),
+  showSiteInfoMenu: (tabId: string) =>
+    electronAPI.ipcRenderer.invoke("show-site-info-menu", tabId),
+  onPermissionRequestsChanged: (callback: () => void) => {
+    const listener = (): void => callback();
+    electronAPI.ipcRenderer.on("permission-requests-changed", listener);
+    return () => {
+      electronAPI.ipcRenderer.removeListener(
+        "permission-requests-changed",
+        listener,
+      );
+    };
+  },
+
+  // Zoom
+  showZoomMenu: (tabId: string) =>
+    electronAPI.ipcRenderer.invoke("show-zoom-menu", tabId),
+  onZoomChanged: (callback: () => void) => {
+    const listener = (): void => callback();
+    electronAPI.ipcRenderer.on("zoom-changed", listener);
+    return () => {
+      electronAPI.ipcRenderer.removeListener("zoom-changed", listener);
+    };
+  },
+
+  // Address bar suggestions
+  getOmniboxSuggestions: (input: string, withSlowSources?: boolean) =>
+    electronAPI.ipcRenderer.invoke(
+      "get-omnibox-suggestions",
+      input,
+      withSlowSources,
+    ),
+  switchToTab: (tabId: string) =>
+    electronAPI.ipcRenderer.invoke("switch-to-tab", tabId),
+
+  // Find in page
+  findInPage: (
+    text: string,
+    options?: { forward?: boolean; matchCase?: boolean; findNext?: boolean },
+  ) => electronAPI.ipcRenderer.invoke("find-in-page", text, options),
+  stopFindInPage: () => electronAPI.ipcRenderer.invoke("stop-find-in-page"),
+  onFindBarOpen: (callback: () => void) => {
+    const listener = (): void => callback();
+    electronAPI.ipcRenderer.on("find-bar-open", listener);
+    return () => {
+      electronAPI.ipcRenderer.removeListener("find-bar-open", listener);
+    };
+  },
+  onFindReset: (callback: () => void) => {
+    const listener = (): void => callback();
+    electronAPI.ipcRenderer.on("find-reset", listener);
+    return () => {
+      electronAPI.ipcRenderer.removeListener("find-reset", listener);
+    };
+  },
+
+  // Commands
+  onRunCommand: (callback: (commandId: string) => void) => {
+    const listener = (_: unknown, commandId: string): void =>
+      callback(commandId);
+    electronAPI.ipcRenderer.on("run-command", listener);
+    return () => {
+      electronAPI.ipcRenderer.removeListener("run-command", listener);
+    };
+  },
 
   // Panel
   togglePanel: () => electronAPI.ipcRenderer.invoke("toggle-panel"),
@@ -75,6 +178,10 @@ const topBarAPI = {
     electronAPI.ipcRenderer.invoke("get-topbar-visibility"),
   toggleBarVisibility: () =>
     electronAPI.ipcRenderer.invoke("toggle-topbar-visibility"),
+
+  // TopBar-specific methods
+  setOverlayHeight: (height: number) =>
+    electronAPI.ipcRenderer.invoke("set-topbar-overlay-height", height),
 };
 
 // Use `contextBridge` APIs to expose Electron APIs to
@@ -1,12 +1,21 @@
 import { useDarkMode } from "@renderer/hooks/useDarkMode";
-import { Clock, MessageSquare } from "lucide-react";
+import {
+  Bookmark,
+  Clock,
+  Download,
+  MessageSquare,
+  Settings as SettingsIcon,
+} from "lucide-react";
 import { motion } from "motion/react";
 import React, { useEffect, useState } from "react";
+import { Bookmarks } from "./components/Bookmarks";
 import { Chat } from "./components/Chat";
+import { Downloads } from "./components/Downloads";
 import { History } from "./components/History";
+import { Settings } from "./components/Settings";
 import { ChatProvider } from "./contexts/ChatContext";
 
-type PanelView = "chat" | "history";
+type PanelView = "chat" | "history" | "bookmarks" | "downloads" | "settings";
 
 const PanelContent: React.FC<{ isVisible: boolean }> = ({ isVisible }) => {
   const { isDarkMode } = useDarkMode();
@@ -60,10 +69,47 @@ const PanelContent: React.FC<{ isVisible: boolean }> = ({ isVisible }) => {
           <Clock className="size-4" />
           History
         </button>
+        <button
+          className={`flex-1 flex items-center justify-center gap-2 px-4 py-3 text-sm font-medium transition-colors ${
+            currentView === "bookmarks"
+              ? "text-foreground bg-muted/50"
+              : "text-muted-foreground hover:text-foreground hover:bg-muted/30"
+          }`}
+          onClick={() => setCurrentView("bookmarks")}
+        >
+          <Bookmark className="size-4" />
+          Bookmarks
+        </button>
+        <button
+          className={`flex-1 flex items-center justify-center gap-2 px-4 py-3 text-sm font-medium transition-colors ${
+            currentView === "downloads"
+              ? "text-foreground bg-muted/50"
+              : "text-muted-foreground hover:text-foreground hover:bg-muted/30"
+          }`}
+          onClick={() => setCurrentView("downloads")}
+        >
+          <Download className="size-4" />
+          Downloads
+        </button>
+        <button
+          className={`flex-none flex items-center justify-center px-3 py-3 text-sm font-medium transition-colors ${
+            currentView === "settings"
+              ? "text-foreground bg-muted/50"
+              : "text-muted-foreground hover:text-foreground hover:bg-muted/30"
+          }`}
+          onClick={() => setCurrentView("settings")}
+          title="Settings"
+        >
+          <SettingsIcon className="size-4" />
+        </button>
       </div>
 
       {/* View content */}
-      {currentView === "chat" ? <Chat /> : <History />}
+      {currentView === "chat" && <Chat />}
+      {currentView === "history" && <History />}
+      {currentView === "bookmarks" && <Bookmarks />}
+      {currentView === "downloads" && <Downloads />}
+      {currentView === "settings" && <Settings />}
     </motion.div>
   );
 };
@@ -0,0 +1,542 @@
+import type { Bookmark } from "@preload/panel.d";
+import { Favicon } from "@renderer/components/Favicon";
+import { Button } from "@renderer/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@renderer/components/ui/dropdown-menu";
+import { cn, getFavicon } from "@renderer/lib/utils";
+import {
+  Bookmark as BookmarkIcon,
+  ChevronDown,
+  ChevronRight,
+  Folder,
+  FolderPlus,
+  MoreHorizontal,
+  Pencil,
+  Search,
+  Trash2,
+} from "lucide-react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+
+const getHost = (url: string | null): string => {
+  if (!url) return "";
+  try {
+    return new URL(url).hostname.replace("www.", "");
+  } catch {
+    return url;
+  }
+};
+
+// Where a dragged entry is dropped: before `id`, or inside the folder `id`
+interface DropTarget {
+  id: number;
+  inside: boolean;
+}
+
+// Shared state of the bookmark tree, passed down to every level
+interface TreeState {
+  childrenOf: Map<number | null, Bookmark[]>;
+  expanded: Set<number>;
+  toggleExpanded: (id: number) => void;
+  editingId: number | null;
+  setEditingId: (id: number | null) => void;
+  draggingId: number | null;
+  setDraggingId: (id: number | null) => void;
+  dropTarget: DropTarget | null;
+  setDropTarget: (target: DropTarget | null) => void;
+  drop: () => void;
+}
+
+const inputClassName =
+  "w-full px-2 py-1 bg-muted border border-border rounded-md text-xs text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20";
+
+// Inline editor for a bookmark's title, URL and tags, or a folder's name
+const BookmarkEditor: React.FC<{ bookmark: Bookmark; onDone: () => void }> = ({
+  bookmark,
+  onDone,
+}) => {
+  const [title, setTitle] = useState(bookmark.title);
+  const [url, setUrl] = useState(bookmark.url ?? "");
+  const [tags, setTags] = useState(bookmark.tags.join(", "));
+  const [error, setError] = useState<string | null>(null);
+  const isFolder = bookmark.type === "folder";
+
+  const save = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    const saved = await window.panelAPI.bookmarksUpdate(
+      bookmark.id,
+      isFolder ? { title } : { title, url: url.trim(), tags: tags.split(",") },
+    );
+    if (saved) {
+      onDone();
+    } else {
+      setError("Enter a valid web address");
+    }
+  };
+
+  return (
+    <form
+      onSubmit={(e) => void save(e)}
+      onKeyDown={(e) => e.key === "Escape" && onDone()}
+      className="p-2 space-y-1.5 rounded-lg bg-muted/50"
+    >
+      <input
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        placeholder={isFolder ? "Folder name" : "Title"}
+        className={inputClassName}
+        autoFocus
+      />
+      {!isFolder && (
+        <>
+          <input
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="URL"
+            spellCheck={false}
+            className={inputClassName}
+          />
+          <input
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            placeholder="Tags, separated by commas"
+            className={inputClassName}
+          />
+        </>
+      )}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+      <div className="flex justify-end gap-1">
+        <Button type="button" variant="ghost" size="sm" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm">
+          Save
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+// A single bookmark or folder row, with its contents when expanded
+const BookmarkItem: React.FC<{
+  bookmark: Bookmark;
+  depth: number;
+  tree?: TreeState;
+  onEdit: () => void;
+}> = ({ bookmark, depth, tree, onEdit }) => {
+  const isFolder = bookmark.type === "folder";
+  const isExpanded = isFolder && !!tree?.expanded.has(bookmark.id);
+  const isDropTarget = tree?.dropTarget?.id === bookmark.id;
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>): void => {
+    if (!tree || tree.draggingId === null) return;
+    // Dropping an entry on itself does nothing
+    if (tree.draggingId === bookmark.id) {
+      if (tree.dropTarget) tree.setDropTarget(null);
+      return;
+    }
+    e.preventDefault();
+    // The top third of a folder drops before it, the rest inside it
+    const rect = e.currentTarget.getBoundingClientRect();
+    const inside = isFolder && e.clientY - rect.top > rect.height / 3;
+    if (
+      tree.dropTarget?.id !== bookmark.id ||
+      tree.dropTarget.inside !== inside
+    ) {
+      tree.setDropTarget({ id: bookmark.id, inside });
+    }
+  };
+
+  return (
+    <>
+      <div
+        draggable={!!tree}
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = "move";
+          tree?.setDraggingId(bookmark.id);
+        }}
+        onDragEnd={() => {
+          tree?.setDraggingId(null);
+          tree?.setDropTarget(null);
+        }}
+        onDragOver={handleDragOver}
+        onDrop={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          tree?.drop();
+        }}
+        onClick={() => {
+          if (isFolder) {
+            tree?.toggleExpanded(bookmark.id);
+          } else if (bookmark.url) {
+            void window.panelAPI.browserOpenUrl(bookmark.url);
+          }
+        }}
+        className={cn(
+          "group flex items-center gap-2 pr-2 py-1.5 rounded-md cursor-pointer hover:bg-muted/50 transition-colors",
+          isDropTarget && tree?.dropTarget?.inside && "bg-primary/10",
+          isDropTarget &&
+            !tree?.dropTarget?.inside &&
+            "border-t-2 border-primary",
+          tree?.draggingId === bookmark.id && "opacity-50",
+        )}
+        style={{ paddingLeft: `${depth * 16 + 8}px` }}
+        title={bookmark.url ?? bookmark.title}
+      >
+        {isFolder ? (
+          <>
+            {isExpanded ? (
+              <ChevronDown className="size-3.5 shrink-0 text-muted-foreground" />
+            ) : (
+              <ChevronRight className="size-3.5 shrink-0 text-muted-foreground" />
+            )}
+            <Folder className="size-4 shrink-0 text-muted-foreground" />
+          </>
+        ) : (
+          <div className="size-4 shrink-0 ml-5.5">
+            <Favicon src={bookmark.url ? getFavicon(bookmark.url) : null} />
+          </div>
+        )}
+
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-foreground truncate">{bookmark.title}</p>
+          {!isFolder && (
+            <p className="text-xs text-muted-foreground truncate">
+              {getHost(bookmark.url)}
+              {bookmark.tags.map((tag) => (
+                <span
+                  key={tag}
+                  className="ml-1.5 px-1.5 py-px rounded bg-muted text-[0.65rem]"
+                >
+                  {tag}
+                </span>
+              ))}
+            </p>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center shrink-0 opacity-0 group-hover:opacity-100">
+          <Button
+            variant="ghost"
+            size="sm"
+            title="Edit"
+            onClick={(e) => {
+              e.stopPropagation();
+              onEdit();
+            }}
+          >
+            <Pencil className="size-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            title={isFolder ? "Delete folder and its contents" : "Delete"}
+            onClick={(e) => {
+              e.stopPropagation();
+              void window.panelAPI.bookmarksDelete(bookmark.id);
+            }}
+          >
+            <Trash2 className="size-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      {isExpanded && tree && (
+        <BookmarkLevel parentId={bookmark.id} depth={depth + 1} tree={tree} />
+      )}
+    </>
+  );
+};
+
+// The contents of one folder, or the top level
+const BookmarkLevel: React.FC<{
+  parentId: number | null;
+  depth: number;
+  tree: TreeState;
+}> = ({ parentId, depth, tree }) => {
+  const entries = tree.childrenOf.get(parentId) ?? [];
+
+  if (entries.length === 0 && parentId !== null) {
+    return (
+      <p
+        className="py-1.5 text-xs text-muted-foreground"
+        style={{ paddingLeft: `${depth * 16 + 30}px` }}
+      >
+        Empty folder
+      </p>
+    );
+  }
+
+  return (
+    <>
+      {entries.map((bookmark) =>
+        tree.editingId === bookmark.id ? (
+          <div
+            key={bookmark.id}
+            style={{ paddingLeft: `${depth * 16}px` }}
+            className="py-1"
+          >
+            <BookmarkEditor
+              bookmark={bookmark}
+              onDone={() => tree.setEditingId(null)}
+            />
+          </div>
+        ) : (
+          <BookmarkItem
+            key={bookmark.id}
+            bookmark={bookmark}
+            depth={depth}
+            tree={tree}
+            onEdit={() => tree.setEditingId(bookmark.id)}
+          />
+        ),
+      )}
+    </>
+  );
+};
+
+export const Bookmarks: React.FC = () => {
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<Bookmark[]>([]);
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draggingId, setDraggingId] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadBookmarks = (): void => {
+      window.panelAPI
+        .bookmarksGetAll()
+        .then(setBookmarks)
+        .catch((error) => console.error("Failed to load bookmarks:", error));
+    };
+    loadBookmarks();
+    return window.panelAPI.onBookmarksUpdated(loadBookmarks);
+  }, []);
+
+  // Search again whenever the query or the bookmarks change
+  useEffect(() => {
+    if (!searchQuery.trim()) return;
+    let cancelled = false;
+    window.panelAPI
+      .bookmarksSearch(searchQuery)
+      .then((results) => {
+        if (!cancelled) setSearchResults(results);
+      })
+      .catch((error) => console.error("Failed to search bookmarks:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [searchQuery, bookmarks]);
+
+  const childrenOf = useMemo(() => {
+    const map = new Map<number | null, Bookmark[]>();
+    bookmarks.forEach((bookmark) => {
+      const siblings = map.get(bookmark.parent_id) ?? [];
+      siblings.push(bookmark);
+      map.set(bookmark.parent_id, siblings);
+    });
+    map.forEach((siblings) => siblings.sort((a, b) => a.position - b.position));
+    return map;
+  }, [bookmarks]);
+
+  const toggleExpanded = useCallback((id: number) => {
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  // Move the dragged entry to the drop target, or to the end of the top
+  // level when dropped on empty space
+  const drop = (): void => {
+    const id = draggingId;
+    const target = dropTarget;
+    setDraggingId(null);
+    setDropTarget(null);
+    if (id === null) return;
+
+    if (!target) {
+      const topLevel = childrenOf.get(null) ?? [];
+      void window.panelAPI.bookmarksMove(id, null, topLevel.length);
+      return;
+    }
+
+    const targetBookmark = bookmarks.find((b) => b.id === target.id);
+    if (!targetBookmark) return;
+
+    if (target.inside) {
+      const contents = childrenOf.get(target.id) ?? [];
+      void window.panelAPI.bookmarksMove(id, target.id, contents.length);
+      setExpanded((current) => new Set(current).add(target.id));
+    } else {
+      const siblings = (childrenOf.get(targetBookmark.parent_id) ?? []).filter(
+        (b) => b.id !== id,
+      );
+      const index = siblings.findIndex((b) => b.id === target.id);
+      void window.panelAPI.bookmarksMove(id, targetBookmark.parent_id, index);
+    }
+  };
+
+  const tree: TreeState = {
+    childrenOf,
+    expanded,
+    toggleExpanded,
+    editingId,
+    setEditingId,
+    draggingId,
+    setDraggingId,
+    dropTarget,
+    setDropTarget,
+    drop,
+  };
+
+  const handleNewFolder = async (): Promise<void> => {
+    const id = await window.panelAPI.bookmarksCreateFolder("New folder");
+    if (id !== null) setEditingId(id);
+  };
+
+  const handleImport = async (): Promise<void> => {
+    try {
+      const count = await window.panelAPI.bookmarksImport();
+      if (count === null) return;
+      setStatus(
+        count > 0
+          ? `Imported ${count} bookmark${count === 1 ? "" : "s"}`
+          : "No bookmarks found in that file",
+      );
+    } catch (error) {
+      console.error("Failed to import bookmarks:", error);
+      setStatus("Couldn't read that bookmark file");
+    }
+  };
+
+  const handleExport = async (): Promise<void> => {
+    try {
+      if (await window.panelAPI.bookmarksExport()) {
+        setStatus("Bookmarks exported");
+      }
+    } catch (error) {
+      console.error("Failed to export bookmarks:", error);
+      setStatus("Couldn't export bookmarks");
+    }
+  };
+
+  const isSearching = searchQuery.trim().length > 0;
+
+  return (
+    <div className="flex flex-col h-full bg-background overflow-hidden">
+      {/* Header */}
+      <div className="shrink-0 p-4 border-b border-border">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-semibold text-foreground">Bookmarks</h2>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => void handleNewFolder()}
+              title="New folder"
+            >
+              <FolderPlus className="size-4" />
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" title="Import and export">
+                  <MoreHorizontal className="size-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent>
+                <DropdownMenuItem onClick={() => void handleImport()}>
+                  Import bookmarks from HTML file…
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  disabled={bookmarks.length === 0}
+                  onClick={() => void handleExport()}
+                >
+                  Export bookmarks to HTML file…
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        </div>
+
+        {/* Search */}
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 size-4 text-muted-foreground" />
+          <input
+            type="text"
+            placeholder="Search bookmarks and tags..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 bg-muted border border-border rounded-lg text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20"
+          />
+        </div>
+
+        {status && (
+          <p className="mt-2 text-xs text-muted-foreground">{status}</p>
+        )}
+      </div>
+
+      {/* Bookmark list */}
+      <div
+        className="flex-1 overflow-y-auto p-2"
+        onDragOver={(e) => {
+          // Empty space below the list drops at the end of the top level
+          if (draggingId === null || e.target !== e.currentTarget) return;
+          e.preventDefault();
+          setDropTarget(null);
+        }}
+        onDrop={(e) => {
+          e.preventDefault();
+          drop();
+        }}
+      >
+        {bookmarks.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-full text-center gap-2">
+            <BookmarkIcon className="size-8 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">No bookmarks yet</p>
+            <p className="text-xs text-muted-foreground">
+              Star a page in the address bar to bookmark it
+            </p>
+          </div>
+        ) : isSearching ? (
+          searchResults.length === 0 ? (
+            <p className="p-4 text-sm text-center text-muted-foreground">
+              No bookmarks match &ldquo;{searchQuery.trim()}&rdquo;
+            </p>
+          ) : (
+            searchResults.map((bookmark) =>
+              editingId === bookmark.id ? (
+                <BookmarkEditor
+                  key={bookmark.id}
+                  bookmark={bookmark}
+                  onDone={() => setEditingId(null)}
+                />
+              ) : (
+                <BookmarkItem
+                  key={bookmark.id}
+                  bookmark={bookmark}
+                  depth={0}
+                  onEdit={() => setEditingId(bookmark.id)}
+                />
+              ),
+            )
+          )
+        ) : (
+          <BookmarkLevel parentId={null} depth={0} tree={tree} />
+        )}
+      </div>
+    </div>
+  );
+};
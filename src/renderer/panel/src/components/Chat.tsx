@@ -1,13 +1,28 @@
+import type { AgentAction, ChatContextSource } from "@preload/panel.d";
 import { Button } from "@renderer/components/ui/button";
 import { cn } from "@renderer/lib/utils";
 import type { UIMessage } from "ai";
-import { ArrowUp, Plus } from "lucide-react";
+import {
+  ArrowUp,
+  Ban,
+  Bot,
+  Check,
+  GitBranch,
+  History,
+  Loader2,
+  MessageSquare,
+  Plus,
+  ShieldAlert,
+  X,
+} from "lucide-react";
 import { motion } from "motion/react";
 import React, { useEffect, useLayoutEffect, useRef, useState } from "react";
 import ReactMarkdown from "react-markdown";
 import remarkBreaks from "remark-breaks";
 import remarkGfm from "remark-gfm";
 import { useChat } from "../contexts/ChatContext";
+import { ContextPicker } from "./ContextPicker";
+import { ConversationList } from "./ConversationList";
 
 // Helper to extract text content from UIMessage parts
 const getTextFromParts = (message: UIMessage): string => {
@@ -76,8 +91,63 @@ const StreamingText: React.FC<{ content: string }> = ({ content }) => {
   );
 };
 
+const CITATION_HREF_PREFIX = "#source-";
+
+// Turn [n] citations into links, leaving regular markdown links alone
+const linkCitations = (
+  content: string,
+  sources: ChatContextSource[],
+): string => {
+  if (sources.length === 0) return content;
+  return content.replace(/\[(\d+)\](?![(:])/g, (match, index: string) =>
+    sources.some((source) => source.index === Number(index))
+      ? `[${index}](${CITATION_HREF_PREFIX}${index})`
+      : match,
+  );
+};
+
+const openSource = (source: ChatContextSource): void => {
+  void window.panelAPI.openContextSource(source.tabId, source.url);
+};
+
+// Citation Component - a numbered link back to the source tab
+const Citation: React.FC<{ source: ChatContextSource }> = ({ source }) => (
+  <button
+    onClick={() => openSource(source)}
+    title={`${source.title}\n${source.url}`}
+    className="inline-flex items-center justify-center min-w-4 h-4 px-1 mx-0.5 rounded
+               bg-primary/10 text-primary text-[10px] font-medium align-super
+               hover:bg-primary/20 transition-colors"
+  >
+    {source.index}
+  </button>
+);
+
+// Sources Component - the tabs a response drew on
+const SourceList: React.FC<{ sources: ChatContextSource[] }> = ({
+  sources,
+}) => (
+  <div className="flex flex-wrap gap-1.5">
+    {sources.map((source) => (
+      <button
+        key={source.index}
+        onClick={() => openSource(source)}
+        title={source.url}
+        className="flex items-center gap-1.5 max-w-[220px] px-2 py-1 rounded bg-muted
+                   hover:bg-muted/80 text-xs text-muted-foreground transition-colors"
+      >
+        <span className="font-medium text-primary">{source.index}</span>
+        <span className="truncate">{source.title}</span>
+      </button>
+    ))}
+  </div>
+);
+
 // Markdown Renderer Component
-const Markdown: React.FC<{ content: string }> = ({ content }) => (
+const Markdown: React.FC<{
+  content: string;
+  sources?: ChatContextSource[];
+}> = ({ content, sources = [] }) => (
   <div
     className="prose prose-sm dark:prose-invert max-w-none 
                     prose-headings:text-foreground prose-p:text-foreground 
@@ -109,19 +179,29 @@ const Markdown: React.FC<{ content: string }> = ({ content }) => (
           );
         },
         // Custom link styling
-        a: ({ children, href }) => (
-          <a
-            href={href}
-            className="text-primary hover:underline"
-            target="_blank"
-            rel="noopener noreferrer"
-          >
-            {children}
-          </a>
-        ),
+        a: ({ children, href }) => {
+          const citedSource = href?.startsWith(CITATION_HREF_PREFIX)
+            ? sources.find(
+                (source) =>
+                  source.index ===
+                  Number(href.slice(CITATION_HREF_PREFIX.length)),
+              )
+            : undefined;
+          if (citedSource) return <Citation source={citedSource} />;
+          return (
+            <a
+              href={href}
+              className="text-primary hover:underline"
+              target="_blank"
+              rel="noopener noreferrer"
+            >
+              {children}
+            </a>
+          );
+        },
       }}
     >
-      {content}
+      {linkCitations(content, sources)}
     </ReactMarkdown>
   </div>
 );
@@ -130,13 +210,14 @@ const Markdown: React.FC<{ content: string }> = ({ content }) => (
 const AssistantMessage: React.FC<{
   content: string;
   isStreaming?: boolean;
-}> = ({ content, isStreaming }) => (
+  sources?: ChatContextSource[];
+}> = ({ content, isStreaming, sources }) => (
   <div className="relative w-full animate-fade-in">
     <div className="py-1">
       {isStreaming ? (
         <StreamingText content={content} />
       ) : (
-        <Markdown content={content} />
+        <Markdown content={content} sources={sources} />
       )}
     </div>
   </div>
@@ -170,11 +251,106 @@ const LoadingIndicator: React.FC = () => {
   );
 };
 
+// Fork Button Component - continues the conversation from a message
+const ForkButton: React.FC<{ onFork: () => void; align: "left" | "right" }> = ({
+  onFork,
+  align,
+}) => (
+  <div
+    className={cn(
+      "flex opacity-0 group-hover:opacity-100 transition-opacity",
+      align === "right" ? "justify-end" : "justify-start",
+    )}
+  >
+    <button
+      onClick={onFork}
+      title="Fork conversation from here"
+      className="flex items-center gap-1 px-2 py-1 rounded text-xs text-muted-foreground hover:text-foreground hover:bg-muted"
+    >
+      <GitBranch className="size-3" />
+      Fork from here
+    </button>
+  </div>
+);
+
+// Agent Action Log Component - what the agent did, with confirmation prompts
+const ActionLog: React.FC<{
+  actions: AgentAction[];
+  onConfirm: (actionId: string, approved: boolean) => void;
+}> = ({ actions, onConfirm }) => (
+  <div className="mt-2 space-y-1">
+    {actions.map((action) => (
+      <div
+        key={action.id}
+        className={cn(
+          "p-2 rounded text-xs",
+          action.status === "awaiting-confirmation"
+            ? "bg-primary/10 border border-primary/30"
+            : "bg-muted",
+        )}
+      >
+        <div className="flex items-center gap-2">
+          {action.status === "running" && (
+            <Loader2 className="size-3 shrink-0 animate-spin text-primary" />
+          )}
+          {action.status === "completed" && (
+            <Check className="size-3 shrink-0 text-green-600" />
+          )}
+          {action.status === "failed" && (
+            <X className="size-3 shrink-0 text-destructive" />
+          )}
+          {action.status === "denied" && (
+            <Ban className="size-3 shrink-0 text-muted-foreground" />
+          )}
+          {action.status === "awaiting-confirmation" && (
+            <ShieldAlert className="size-3 shrink-0 text-primary" />
+          )}
+          <span
+            className={cn(
+              "flex-1 min-w-0 truncate text-foreground",
+              action.status === "denied" && "line-through opacity-60",
+            )}
+          >
+            {action.description}
+          </span>
+          <span className="text-muted-foreground shrink-0">
+            {new Date(action.startedAt).toLocaleTimeString()}
+          </span>
+        </div>
+        {action.result && (
+          <div className="ml-5 mt-0.5 text-muted-foreground truncate">
+            {action.result}
+          </div>
+        )}
+        {action.error && (
+          <div className="ml-5 mt-0.5 text-destructive">{action.error}</div>
+        )}
+        {action.status === "awaiting-confirmation" && (
+          <div className="ml-5 mt-2 flex items-center gap-2">
+            <Button size="sm" onClick={() => onConfirm(action.id, true)}>
+              Allow
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => onConfirm(action.id, false)}
+            >
+              Deny
+            </Button>
+          </div>
+        )}
+      </div>
+    ))}
+  </div>
+);
+
 // Chat Input Component with pill design
 const ChatInput: React.FC<{
   onSend: (message: string) => void;
   disabled: boolean;
-}> = ({ onSend, disabled }) => {
+  agentMode: boolean;
+  onToggleAgentMode: () => void;
+}> = ({ onSend, disabled, agentMode, onToggleAgentMode }) => {
   const [value, setValue] = useState("");
   const [isFocused, setIsFocused] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -241,6 +417,25 @@ const ChatInput: React.FC<{
 
       {/* Send Button */}
       <div className="w-full flex items-center gap-1.5 px-1 mt-2 mb-1">
+        <button
+          onClick={onToggleAgentMode}
+          title={
+            agentMode
+              ? "Agent mode on: the assistant can act on your tabs"
+              : "Agent mode off"
+          }
+          className={cn(
+            "h-8 px-3 rounded-full flex items-center gap-1.5 text-xs",
+            "transition-all duration-200 border",
+            agentMode
+              ? "bg-primary/10 border-primary/30 text-primary"
+              : "border-border text-muted-foreground hover:text-foreground",
+          )}
+        >
+          <Bot className="size-4" />
+          Agent
+        </button>
+        <ContextPicker />
         <div className="flex-1" />
         <button
           onClick={handleSubmit}
@@ -308,6 +503,22 @@ const BrowsingHistoryMatches: React.FC<{
   );
 };
 
+// Actions the agent took while producing a message
+const getAgentActions = (message: UIMessage): AgentAction[] => {
+  const metadata = message.metadata as
+    | { agentActions?: AgentAction[] }
+    | undefined;
+  return metadata?.agentActions ?? [];
+};
+
+// Tabs the assistant was given as context for a message
+const getSources = (message: UIMessage): ChatContextSource[] => {
+  const metadata = message.metadata as
+    | { sources?: ChatContextSource[] }
+    | undefined;
+  return metadata?.sources ?? [];
+};
+
 // Conversation Turn Component
 interface ConversationTurn {
   user?: UIMessage;
@@ -319,18 +530,48 @@ const ConversationTurnComponent: React.FC<{
   isLoading?: boolean;
   toolResult?: ToolResult;
   onSelectUrl?: (url: string) => void;
-}> = ({ turn, isLoading, toolResult, onSelectUrl }) => (
+  onConfirmAction: (actionId: string, approved: boolean) => void;
+  onFork?: (messageId: string) => void;
+}> = ({
+  turn,
+  isLoading,
+  toolResult,
+  onSelectUrl,
+  onConfirmAction,
+  onFork,
+}) => (
   <div className="pt-12 flex flex-col gap-8">
-    {turn.user && <UserMessage content={getTextFromParts(turn.user)} />}
+    {turn.user && (
+      <div className="group flex flex-col gap-1">
+        <UserMessage content={getTextFromParts(turn.user)} />
+        {onFork && (
+          <ForkButton
+            align="right"
+            onFork={() => turn.user && onFork(turn.user.id)}
+          />
+        )}
+      </div>
+    )}
     {turn.assistant && (
-      <>
+      <div className="group flex flex-col gap-1">
+        {getAgentActions(turn.assistant).length > 0 && (
+          <ActionLog
+            actions={getAgentActions(turn.assistant)}
+            onConfirm={onConfirmAction}
+          />
+        )}
         <AssistantMessage
           content={getTextFromParts(turn.assistant)}
           isStreaming={
             (turn.assistant.metadata as { isStreaming?: boolean })
               ?.isStreaming ?? false
           }
+          sources={getSources(turn.assistant)}
         />
+        {/* Only list sources when several tabs were shared */}
+        {getSources(turn.assistant).length > 1 && (
+          <SourceList sources={getSources(turn.assistant)} />
+        )}
         {toolResult && onSelectUrl && (
           <div className="flex justify-start max-w-[85%]">
             <BrowsingHistoryMatches
@@ -339,7 +580,13 @@ const ConversationTurnComponent: React.FC<{
             />
           </div>
         )}
-      </>
+        {onFork && (
+          <ForkButton
+            align="left"
+            onFork={() => turn.assistant && onFork(turn.assistant.id)}
+          />
+        )}
+      </div>
     )}
     {isLoading && (
       <div className="flex justify-start">
@@ -360,8 +607,19 @@ interface ToolResult {
 }
 
 export const Chat: React.FC = () => {
-  const { messages, isLoading, sendMessage, clearChat } = useChat();
+  const {
+    messages,
+    isLoading,
+    agentMode,
+    sendMessage,
+    clearChat,
+    setAgentMode,
+    confirmAction,
+    activeConversationId,
+    forkFromMessage,
+  } = useChat();
   const scrollRef = useAutoScroll(messages);
+  const [showConversations, setShowConversations] = useState(false);
 
   // Extract tool results from message metadata
   const getToolResults = (message: UIMessage): ToolResult | undefined => {
@@ -406,18 +664,40 @@ export const Chat: React.FC = () => {
     <div className="flex flex-col h-full bg-background">
       {/* Messages Area */}
       <div className="flex-1 overflow-y-auto">
-        <div className="h-8 max-w-3xl mx-auto px-4">
+        <div className="h-8 max-w-3xl mx-auto px-4 flex items-center">
           {/* New Chat Button - Floating */}
-          {messages.length > 0 && (
-            <Button onClick={clearChat} title="Start new chat" variant="ghost">
+          {(messages.length > 0 || showConversations) && (
+            <Button
+              onClick={() => {
+                void clearChat();
+                setShowConversations(false);
+              }}
+              title="Start new chat"
+              variant="ghost"
+            >
               <Plus className="size-4" />
               New Chat
             </Button>
           )}
+          <div className="flex-1" />
+          <Button
+            onClick={() => setShowConversations(!showConversations)}
+            title={showConversations ? "Back to chat" : "Saved conversations"}
+            variant="ghost"
+          >
+            {showConversations ? (
+              <MessageSquare className="size-4" />
+            ) : (
+              <History className="size-4" />
+            )}
+            {showConversations ? "Chat" : "Conversations"}
+          </Button>
         </div>
 
         <div className="pb-4 relative max-w-3xl mx-auto px-4">
-          {messages.length === 0 ? (
+          {showConversations ? (
+            <ConversationList onOpen={() => setShowConversations(false)} />
+          ) : messages.length === 0 ? (
             // Empty State
             <div className="flex items-center justify-center h-full min-h-[400px]">
               <div className="text-center animate-fade-in max-w-md mx-auto gap-2 flex flex-col">
@@ -444,6 +724,14 @@ export const Chat: React.FC = () => {
                   onSelectUrl={(url: string) => {
                     void window.panelAPI.browserOpenUrl(url);
                   }}
+                  onConfirmAction={(actionId, approved) => {
+                    void confirmAction(actionId, approved);
+                  }}
+                  onFork={
+                    activeConversationId !== null && !isLoading
+                      ? (messageId) => void forkFromMessage(messageId)
+                      : undefined
+                  }
                 />
               ))}
             </>
@@ -456,7 +744,12 @@ export const Chat: React.FC = () => {
 
       {/* Input Area */}
       <div className="p-4">
-        <ChatInput onSend={sendMessage} disabled={isLoading} />
+        <ChatInput
+          onSend={sendMessage}
+          disabled={isLoading}
+          agentMode={agentMode}
+          onToggleAgentMode={() => setAgentMode(!agentMode)}
+        />
       </div>
     </div>
   );
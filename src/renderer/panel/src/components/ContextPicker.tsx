@@ -0,0 +1,133 @@
+import type { GroupInfo } from "@preload/global.d";
+import type { TabInfo } from "@preload/topbar.d";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@renderer/components/ui/dropdown-menu";
+import { cn } from "@renderer/lib/utils";
+import { Layers } from "lucide-react";
+import React, { useState } from "react";
+import { useChat } from "../contexts/ChatContext";
+
+// Picks which tabs, or which tab group, the assistant should read
+export const ContextPicker: React.FC = () => {
+  const { contextTabIds, contextGroupId, setContextTabIds, setContextGroupId } =
+    useChat();
+  const [tabs, setTabs] = useState<TabInfo[]>([]);
+  const [groups, setGroups] = useState<GroupInfo[]>([]);
+
+  // Tabs change constantly, so fetch them each time the menu opens
+  const handleOpenChange = async (open: boolean): Promise<void> => {
+    if (!open) return;
+    try {
+      const [allTabs, allGroups] = await Promise.all([
+        window.panelAPI.getTabs(),
+        window.panelAPI.getGroups(),
+      ]);
+      setTabs(allTabs);
+      setGroups(allGroups);
+      // Forget pinned tabs and groups that have since closed
+      setContextTabIds(
+        contextTabIds.filter((id) => allTabs.some((tab) => tab.id === id)),
+      );
+      if (contextGroupId && !allGroups.some((g) => g.id === contextGroupId)) {
+        setContextGroupId(null);
+      }
+    } catch (error) {
+      console.error("Failed to load tabs:", error);
+    }
+  };
+
+  const toggleTab = (tabId: string, checked: boolean): void => {
+    setContextTabIds(
+      checked
+        ? [...contextTabIds, tabId]
+        : contextTabIds.filter((id) => id !== tabId),
+    );
+  };
+
+  const groupTitle = groups.find((g) => g.id === contextGroupId)?.title;
+  const pinnedCount = contextTabIds.length + (contextGroupId ? 1 : 0);
+  const label =
+    pinnedCount === 0
+      ? "Current tab"
+      : contextGroupId && contextTabIds.length === 0
+        ? groupTitle || "Group"
+        : `${pinnedCount} ${pinnedCount === 1 ? "source" : "sources"}`;
+
+  return (
+    <DropdownMenu onOpenChange={(open) => void handleOpenChange(open)}>
+      <DropdownMenuTrigger asChild>
+        <button
+          title="Choose which tabs the assistant can read"
+          className={cn(
+            "h-8 px-3 rounded-full flex items-center gap-1.5 text-xs max-w-[160px]",
+            "transition-all duration-200 border",
+            pinnedCount > 0
+              ? "bg-primary/10 border-primary/30 text-primary"
+              : "border-border text-muted-foreground hover:text-foreground",
+          )}
+        >
+          <Layers className="size-4 shrink-0" />
+          <span className="truncate">{label}</span>
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        align="start"
+        className="w-72 max-h-96 overflow-y-auto"
+      >
+        {groups.length > 0 && (
+          <>
+            <DropdownMenuLabel>Tab groups</DropdownMenuLabel>
+            {groups.map((group) => (
+              <DropdownMenuCheckboxItem
+                key={group.id}
+                checked={contextGroupId === group.id}
+                onCheckedChange={(checked) =>
+                  setContextGroupId(checked ? group.id : null)
+                }
+                onSelect={(e) => e.preventDefault()}
+              >
+                <span
+                  className="size-2 rounded-full shrink-0"
+                  style={{ backgroundColor: group.color.hex }}
+                />
+                <span className="truncate">{group.title || "Untitled"}</span>
+              </DropdownMenuCheckboxItem>
+            ))}
+            <DropdownMenuSeparator />
+          </>
+        )}
+        <DropdownMenuLabel>Tabs</DropdownMenuLabel>
+        {tabs.map((tab) => (
+          <DropdownMenuCheckboxItem
+            key={tab.id}
+            checked={contextTabIds.includes(tab.id)}
+            onCheckedChange={(checked) => toggleTab(tab.id, checked)}
+            onSelect={(e) => e.preventDefault()}
+          >
+            <span className="truncate">{tab.title || tab.url}</span>
+          </DropdownMenuCheckboxItem>
+        ))}
+        {pinnedCount > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onClick={() => {
+                setContextTabIds([]);
+                setContextGroupId(null);
+              }}
+            >
+              Use current tab only
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,138 @@
+import type { ChatConversation } from "@preload/panel.d";
+import { cn } from "@renderer/lib/utils";
+import { GitBranch, MessageSquare, Search, Trash2 } from "lucide-react";
+import React, { useCallback, useEffect, useState } from "react";
+import { useChat } from "../contexts/ChatContext";
+
+// Relative time for a conversation's last update
+const formatUpdatedAt = (timestamp: number): string => {
+  const minutes = Math.floor((Date.now() - timestamp) / (1000 * 60));
+  if (minutes < 1) return "Just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days}d ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+const getHost = (url: string | null): string | null => {
+  if (!url) return null;
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return null;
+  }
+};
+
+// Saved conversations, newest first, with search across their messages
+export const ConversationList: React.FC<{ onOpen: () => void }> = ({
+  onOpen,
+}) => {
+  const { activeConversationId, openConversation, deleteConversation } =
+    useChat();
+  const [conversations, setConversations] = useState<ChatConversation[]>([]);
+  const [query, setQuery] = useState("");
+
+  const loadConversations = useCallback(async (search: string) => {
+    try {
+      setConversations(await window.panelAPI.listConversations(search));
+    } catch (error) {
+      console.error("Failed to load conversations:", error);
+    }
+  }, []);
+
+  // Debounce searches while typing
+  useEffect(() => {
+    const timer = setTimeout(() => void loadConversations(query), 200);
+    return () => clearTimeout(timer);
+  }, [query, loadConversations]);
+
+  // Refresh when conversations are saved, opened or deleted
+  useEffect(() => {
+    return window.panelAPI.onConversationsUpdated(() => {
+      void loadConversations(query);
+    });
+  }, [query, loadConversations]);
+
+  const handleOpen = async (conversationId: number): Promise<void> => {
+    if (await openConversation(conversationId)) {
+      onOpen();
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 pt-4">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 size-4 text-muted-foreground" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search conversations..."
+          className="w-full pl-9 pr-3 py-2 text-sm bg-muted rounded-lg outline-none
+                     text-foreground placeholder:text-muted-foreground"
+        />
+      </div>
+
+      {conversations.length === 0 ? (
+        <div className="py-8 text-center text-sm text-muted-foreground">
+          {query ? "No matching conversations" : "No saved conversations yet"}
+        </div>
+      ) : (
+        <div className="space-y-1">
+          {conversations.map((conversation) => {
+            const host = getHost(conversation.url);
+            return (
+              <div
+                key={conversation.id}
+                className={cn(
+                  "group flex items-start gap-2 p-2 rounded-lg cursor-pointer transition-colors",
+                  conversation.id === activeConversationId
+                    ? "bg-primary/10"
+                    : "hover:bg-muted",
+                )}
+                onClick={() => void handleOpen(conversation.id)}
+              >
+                {conversation.forked_from !== null ? (
+                  <GitBranch className="size-4 mt-0.5 shrink-0 text-muted-foreground" />
+                ) : (
+                  <MessageSquare className="size-4 mt-0.5 shrink-0 text-muted-foreground" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-foreground truncate">
+                    {conversation.title}
+                  </p>
+                  {conversation.matched_text && (
+                    <p className="text-xs text-muted-foreground line-clamp-2">
+                      {conversation.matched_text}
+                    </p>
+                  )}
+                  <p className="text-xs text-muted-foreground truncate">
+                    {[
+                      formatUpdatedAt(conversation.updated_at),
+                      `${conversation.message_count} messages`,
+                      host,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                </div>
+                <button
+                  title="Delete conversation"
+                  className="opacity-0 group-hover:opacity-100 p-1 rounded text-muted-foreground hover:text-destructive transition-opacity"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    void deleteConversation(conversation.id);
+                  }}
+                >
+                  <Trash2 className="size-3.5" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,355 @@
+import type { DownloadRecord, DownloadSettings } from "@preload/panel.d";
+import { Button } from "@renderer/components/ui/button";
+import { cn } from "@renderer/lib/utils";
+import {
+  Download,
+  FileDown,
+  FolderOpen,
+  Pause,
+  Play,
+  RotateCw,
+  Settings,
+  Trash2,
+  X,
+} from "lucide-react";
+import React, { useEffect, useState } from "react";
+
+// Format a byte count, e.g. 1.2 MB
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ["KB", "MB", "GB", "TB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
+// Progress line shown under the filename
+const describeDownload = (download: DownloadRecord): string => {
+  const total = download.totalBytes > 0 ? download.totalBytes : null;
+  const received = formatBytes(download.receivedBytes);
+  switch (download.state) {
+    case "progressing": {
+      const progress = total
+        ? `${received} of ${formatBytes(total)}`
+        : received;
+      if (download.bytesPerSecond <= 0) return progress;
+      const speed = `${formatBytes(download.bytesPerSecond)}/s`;
+      if (!total) return `${progress} · ${speed}`;
+      const secondsLeft = Math.ceil(
+        (total - download.receivedBytes) / download.bytesPerSecond,
+      );
+      const remaining =
+        secondsLeft < 60
+          ? `${secondsLeft}s left`
+          : `${Math.ceil(secondsLeft / 60)}m left`;
+      return `${progress} · ${speed} · ${remaining}`;
+    }
+    case "paused":
+      return total
+        ? `Paused · ${received} of ${formatBytes(total)}`
+        : `Paused · ${received}`;
+    case "completed":
+      return formatBytes(download.totalBytes || download.receivedBytes);
+    case "cancelled":
+      return "Cancelled";
+    case "interrupted":
+      return "Failed";
+  }
+};
+
+const getHost = (url: string): string => {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+};
+
+// Download Item Component
+const DownloadItem: React.FC<{ download: DownloadRecord }> = ({ download }) => {
+  const isActive =
+    download.state === "progressing" || download.state === "paused";
+  const percent =
+    download.totalBytes > 0
+      ? Math.min(100, (download.receivedBytes / download.totalBytes) * 100)
+      : 0;
+
+  return (
+    <div className="group p-3 rounded-lg hover:bg-muted/50 transition-colors">
+      <div className="flex items-start gap-3">
+        <FileDown
+          className={cn(
+            "size-5 mt-0.5 shrink-0",
+            download.state === "completed"
+              ? "text-primary"
+              : "text-muted-foreground",
+          )}
+        />
+        <div className="flex-1 min-w-0">
+          <button
+            className={cn(
+              "block max-w-full text-sm font-medium truncate text-left",
+              download.state === "completed"
+                ? "text-foreground hover:underline"
+                : "text-muted-foreground cursor-default",
+              download.state === "cancelled" && "line-through",
+            )}
+            disabled={download.state !== "completed"}
+            onClick={() => void window.panelAPI.downloadsOpen(download.id)}
+            title={download.savePath || download.filename}
+          >
+            {download.filename}
+          </button>
+          <p className="text-xs text-muted-foreground truncate">
+            {getHost(download.url)}
+          </p>
+          {isActive && (
+            <div className="mt-2 h-1.5 bg-muted rounded-full overflow-hidden">
+              <div
+                className={cn(
+                  "h-full rounded-full transition-all",
+                  download.state === "paused"
+                    ? "bg-muted-foreground"
+                    : "bg-primary",
+                  download.totalBytes <= 0 && "w-1/3 animate-pulse",
+                )}
+                style={
+                  download.totalBytes > 0 ? { width: `${percent}%` } : undefined
+                }
+              />
+            </div>
+          )}
+          <p
+            className={cn(
+              "mt-1 text-xs",
+              download.state === "interrupted"
+                ? "text-destructive"
+                : "text-muted-foreground",
+            )}
+          >
+            {describeDownload(download)}
+          </p>
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center gap-1 shrink-0">
+          {download.state === "progressing" && (
+            <Button
+              variant="ghost"
+              size="sm"
+              title="Pause"
+              onClick={() => void window.panelAPI.downloadsPause(download.id)}
+            >
+              <Pause className="size-4" />
+            </Button>
+          )}
+          {download.state === "paused" && (
+            <Button
+              variant="ghost"
+              size="sm"
+              title="Resume"
+              onClick={() => void window.panelAPI.downloadsResume(download.id)}
+            >
+              <Play className="size-4" />
+            </Button>
+          )}
+          {download.state === "interrupted" && (
+            <Button
+              variant="ghost"
+              size="sm"
+              title="Retry"
+              onClick={() => void window.panelAPI.downloadsResume(download.id)}
+            >
+              <RotateCw className="size-4" />
+            </Button>
+          )}
+          {download.state === "completed" && (
+            <Button
+              variant="ghost"
+              size="sm"
+              title="Show in folder"
+              onClick={() =>
+                void window.panelAPI.downloadsShowInFolder(download.id)
+              }
+            >
+              <FolderOpen className="size-4" />
+            </Button>
+          )}
+          {isActive ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              title="Cancel"
+              onClick={() => void window.panelAPI.downloadsCancel(download.id)}
+            >
+              <X className="size-4" />
+            </Button>
+          ) : (
+            <Button
+              variant="ghost"
+              size="sm"
+              title="Remove from list"
+              className="opacity-0 group-hover:opacity-100"
+              onClick={() => void window.panelAPI.downloadsRemove(download.id)}
+            >
+              <X className="size-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Download Settings Component - where downloads are saved
+const DownloadSettingsSection: React.FC = () => {
+  const [settings, setSettings] = useState<DownloadSettings | null>(null);
+  const [newSite, setNewSite] = useState("");
+
+  useEffect(() => {
+    window.panelAPI
+      .downloadsSettingsGet()
+      .then(setSettings)
+      .catch((error) =>
+        console.error("Failed to load download settings:", error),
+      );
+  }, []);
+
+  const update = async (config: Partial<DownloadSettings>): Promise<void> => {
+    try {
+      setSettings(await window.panelAPI.downloadsSettingsUpdate(config));
+    } catch (error) {
+      console.error("Failed to update download settings:", error);
+    }
+  };
+
+  if (!settings) return null;
+
+  const addSite = (): void => {
+    const site = newSite.trim();
+    if (!site) return;
+    void update({ askSites: [...settings.askSites, site] });
+    setNewSite("");
+  };
+
+  return (
+    <div className="p-4 border-b border-border space-y-3 text-sm">
+      <label className="flex items-center gap-2 text-foreground">
+        <input
+          type="checkbox"
+          checked={settings.askWhereToSave}
+          onChange={(e) => void update({ askWhereToSave: e.target.checked })}
+        />
+        Ask where to save each file
+      </label>
+      <div className={cn(settings.askWhereToSave && "opacity-50")}>
+        <p className="text-xs text-muted-foreground mb-2">
+          Always ask for downloads from these sites:
+        </p>
+        <div className="flex flex-wrap gap-1.5 mb-2">
+          {settings.askSites.map((site) => (
+            <span
+              key={site}
+              className="flex items-center gap-1 pl-2 pr-1 py-0.5 bg-muted rounded text-xs text-foreground"
+            >
+              {site}
+              <button
+                title={`Stop asking for ${site}`}
+                className="text-muted-foreground hover:text-foreground"
+                onClick={() =>
+                  void update({
+                    askSites: settings.askSites.filter((s) => s !== site),
+                  })
+                }
+              >
+                <X className="size-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            placeholder="Site, e.g. example.com"
+            value={newSite}
+            onChange={(e) => setNewSite(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && addSite()}
+            className="flex-1 min-w-0 px-2 py-1 bg-muted border border-border rounded-md text-xs text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20"
+          />
+          <Button variant="ghost" size="sm" onClick={addSite}>
+            Add
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const Downloads: React.FC = () => {
+  const [downloads, setDownloads] = useState<DownloadRecord[]>([]);
+  const [showSettings, setShowSettings] = useState(false);
+
+  useEffect(() => {
+    window.panelAPI
+      .downloadsGetAll()
+      .then(setDownloads)
+      .catch((error) => console.error("Failed to load downloads:", error));
+    return window.panelAPI.onDownloadsUpdated(setDownloads);
+  }, []);
+
+  const hasFinished = downloads.some(
+    (download) =>
+      download.state !== "progressing" && download.state !== "paused",
+  );
+
+  return (
+    <div className="flex flex-col h-full bg-background overflow-hidden">
+      {/* Header */}
+      <div className="shrink-0 p-4 border-b border-border">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-foreground">Downloads</h2>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowSettings(!showSettings)}
+              title="Download settings"
+            >
+              <Settings className="size-4" />
+            </Button>
+            {hasFinished && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => void window.panelAPI.downloadsClear()}
+                title="Clear finished downloads"
+              >
+                <Trash2 className="size-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {showSettings && <DownloadSettingsSection />}
+
+      {/* Download list */}
+      <div className="flex-1 overflow-y-auto p-2">
+        {downloads.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-full text-center gap-2">
+            <Download className="size-8 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">No downloads yet</p>
+          </div>
+        ) : (
+          downloads.map((download) => (
+            <DownloadItem key={download.id} download={download} />
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,14 +1,22 @@
 import type {
   HistoryPageVisit,
+  HistoryPermissionGrant,
+  HistorySearchOptions,
+  HistorySearchResult,
+  HistorySnippetPart,
   HistoryVisitDetails,
+  RecentlyClosedInfo,
   WorkflowAnalysis,
 } from "@preload/panel.d";
 import { Button } from "@renderer/components/ui/button";
+import { getFavicon } from "@renderer/lib/utils";
+import { WorkflowReplay } from "./WorkflowReplay";
 
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@renderer/components/ui/dropdown-menu";
 import {
@@ -16,18 +24,56 @@ import {
   ChevronRight,
   Clock,
   ExternalLink,
+  Layers,
   MousePointer,
+  ShieldCheck,
   RefreshCw,
+  RotateCcw,
   Search,
   Sparkles,
   Trash2,
 } from "lucide-react";
-import React, { useEffect, useRef, useState } from "react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
 
 interface HistoryProps {
   onExportWorkflow?: (visits: HistoryPageVisit[]) => void;
 }
 
+type DateFilter = "any" | "today" | "week" | "month";
+
+const PERMISSION_LABELS: Record<HistoryPermissionGrant["permission"], string> =
+  {
+    camera: "Camera",
+    microphone: "Microphone",
+    geolocation: "Location",
+    notifications: "Notifications",
+  };
+
+const DATE_FILTERS: Array<{ value: DateFilter; label: string }> = [
+  { value: "any", label: "Any time" },
+  { value: "today", label: "Today" },
+  { value: "week", label: "Last 7 days" },
+  { value: "month", label: "Last 30 days" },
+];
+
+// Start of the selected date range
+const getStartTime = (filter: DateFilter): number | undefined => {
+  const day = 1000 * 60 * 60 * 24;
+  switch (filter) {
+    case "today": {
+      const startOfDay = new Date();
+      startOfDay.setHours(0, 0, 0, 0);
+      return startOfDay.getTime();
+    }
+    case "week":
+      return Date.now() - 7 * day;
+    case "month":
+      return Date.now() - 30 * day;
+    default:
+      return undefined;
+  }
+};
+
 // Format timestamp to readable date
 const formatTimestamp = (timestamp: number): string => {
   const date = new Date(timestamp);
@@ -117,6 +163,26 @@ const groupVisitsByPeriod = (
   return groups;
 };
 
+// Search snippet with matched terms highlighted
+const Snippet: React.FC<{ parts: HistorySnippetPart[] }> = ({ parts }) => {
+  return (
+    <p className="text-xs text-muted-foreground mt-1 line-clamp-2 break-words">
+      {parts.map((part, idx) =>
+        part.highlight ? (
+          <mark
+            key={idx}
+            className="bg-primary/20 text-foreground rounded-sm px-0.5"
+          >
+            {part.text}
+          </mark>
+        ) : (
+          <span key={idx}>{part.text}</span>
+        ),
+      )}
+    </p>
+  );
+};
+
 // Visit Item Component
 const VisitItem: React.FC<{
   visit: HistoryPageVisit;
@@ -124,7 +190,19 @@ const VisitItem: React.FC<{
   isExpanded: boolean;
   details: HistoryVisitDetails | null;
   interactionCount: number;
-}> = ({ visit, onExpand, isExpanded, details, interactionCount }) => {
+  onDelete: () => void;
+  snippet?: HistorySnippetPart[];
+  semanticOnly?: boolean;
+}> = ({
+  visit,
+  onExpand,
+  isExpanded,
+  details,
+  interactionCount,
+  onDelete,
+  snippet,
+  semanticOnly,
+}) => {
   return (
     <div className="group border-b border-border/50 last:border-0">
       <div
@@ -167,6 +245,11 @@ const VisitItem: React.FC<{
                 {getDomain(visit.url)}
               </p>
             </div>
+            {semanticOnly && (
+              <span title="Related by meaning">
+                <Sparkles className="size-3 mt-1 text-primary shrink-0" />
+              </span>
+            )}
             {interactionCount > 0 && (
               <div className="flex items-center gap-1 text-xs text-muted-foreground shrink-0">
                 <MousePointer className="size-3" />
@@ -175,6 +258,8 @@ const VisitItem: React.FC<{
             )}
           </div>
 
+          {snippet && snippet.length > 0 && <Snippet parts={snippet} />}
+
           <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
             <Clock className="size-3" />
             <span>{formatTimestamp(visit.timestamp)}</span>
@@ -198,6 +283,18 @@ const VisitItem: React.FC<{
         >
           <ExternalLink className="size-4" />
         </button>
+
+        {/* Delete visit */}
+        <button
+          className="mt-1 p-1 text-muted-foreground hover:text-destructive transition-colors opacity-0 group-hover:opacity-100"
+          onClick={(e) => {
+            e.stopPropagation();
+            onDelete();
+          }}
+          title="Remove from history"
+        >
+          <Trash2 className="size-4" />
+        </button>
       </div>
 
       {/* Expanded details */}
@@ -227,6 +324,32 @@ const VisitItem: React.FC<{
             </div>
           )}
 
+          {/* Site permissions granted on the page */}
+          {details.permissionGrants.length > 0 && (
+            <div className="space-y-1">
+              <h4 className="text-xs font-medium text-foreground">
+                Permissions granted
+              </h4>
+              {details.permissionGrants.map((grant) => (
+                <div
+                  key={grant.id}
+                  className="flex items-center gap-2 text-xs text-muted-foreground"
+                >
+                  <ShieldCheck className="size-3 shrink-0" />
+                  <span className="flex-1 min-w-0 truncate">
+                    <span className="text-foreground">
+                      {PERMISSION_LABELS[grant.permission]}
+                    </span>{" "}
+                    for {grant.origin}
+                  </span>
+                  <span className="shrink-0">
+                    {new Date(grant.timestamp).toLocaleTimeString()}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Interactions details */}
           {details.interactions.length > 0 && (
             <div className="space-y-2">
@@ -292,6 +415,7 @@ const TimePeriodSection: React.FC<{
   setExpandedVisitId: (id: number | null) => void;
   visitDetails: Map<number, HistoryVisitDetails>;
   interactionCounts: Map<number, number>;
+  onDeleteVisit: (visitId: number) => void;
 }> = ({
   period,
   visits,
@@ -299,6 +423,7 @@ const TimePeriodSection: React.FC<{
   setExpandedVisitId,
   visitDetails,
   interactionCounts,
+  onDeleteVisit,
 }) => {
   const [isCollapsed, setIsCollapsed] = useState(false);
 
@@ -333,6 +458,7 @@ const TimePeriodSection: React.FC<{
               isExpanded={expandedVisitId === visit.id}
               details={visitDetails.get(visit.id) || null}
               interactionCount={interactionCounts.get(visit.id) || 0}
+              onDelete={() => onDeleteVisit(visit.id)}
             />
           ))}
         </div>
@@ -341,11 +467,107 @@ const TimePeriodSection: React.FC<{
   );
 };
 
+// Tabs and groups closed in this session, reopened on click
+const RecentlyClosedSection: React.FC = () => {
+  const [entries, setEntries] = useState<RecentlyClosedInfo[]>([]);
+  const [isCollapsed, setIsCollapsed] = useState(false);
+
+  useEffect(() => {
+    const load = (): void => {
+      window.panelAPI
+        .recentlyClosedGetAll()
+        .then(setEntries)
+        .catch((error) =>
+          console.error("Failed to load recently closed tabs:", error),
+        );
+    };
+    load();
+    return window.panelAPI.onRecentlyClosedUpdated(load);
+  }, []);
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="mb-6">
+      <button
+        className="flex items-center gap-2 mb-2 text-sm font-semibold text-foreground hover:text-foreground/80 transition-colors"
+        onClick={() => setIsCollapsed(!isCollapsed)}
+      >
+        {isCollapsed ? (
+          <ChevronRight className="size-4" />
+        ) : (
+          <ChevronDown className="size-4" />
+        )}
+        <span>Recently closed</span>
+        <span className="text-muted-foreground font-normal">
+          ({entries.length})
+        </span>
+      </button>
+
+      {!isCollapsed && (
+        <div className="bg-background/50 border border-border rounded-lg overflow-hidden">
+          {entries.map((entry) => {
+            const favicon =
+              entry.favicon ?? (entry.url ? getFavicon(entry.url) : null);
+            return (
+              <button
+                key={entry.id}
+                className="group w-full flex items-center gap-3 px-3 py-2 text-left border-b border-border last:border-b-0 hover:bg-muted/50 transition-colors"
+                title={entry.type === "tab" ? "Reopen tab" : "Reopen group"}
+                onClick={() =>
+                  void window.panelAPI
+                    .recentlyClosedReopen(entry.id)
+                    .catch((error) =>
+                      console.error("Failed to reopen closed tab:", error),
+                    )
+                }
+              >
+                <div className="size-4 shrink-0">
+                  {entry.type === "group" ? (
+                    <Layers className="size-4 text-muted-foreground" />
+                  ) : favicon ? (
+                    <img
+                      src={favicon}
+                      alt=""
+                      className="size-4 rounded"
+                      onError={(e) => {
+                        e.currentTarget.style.display = "none";
+                      }}
+                    />
+                  ) : (
+                    <div className="size-4 rounded bg-muted" />
+                  )}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <h3 className="text-sm font-medium text-foreground truncate">
+                    {entry.title || entry.url || "Untitled"}
+                  </h3>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {entry.url
+                      ? getDomain(entry.url)
+                      : `${entry.tabCount} tab${entry.tabCount === 1 ? "" : "s"}`}
+                  </p>
+                </div>
+                <RotateCcw className="size-3 shrink-0 text-muted-foreground opacity-0 group-hover:opacity-100" />
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
 // Main History component
 export const History: React.FC<HistoryProps> = ({ onExportWorkflow }) => {
   const [visits, setVisits] = useState<HistoryPageVisit[]>([]);
-  const [filteredVisits, setFilteredVisits] = useState<HistoryPageVisit[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
+  const [dateFilter, setDateFilter] = useState<DateFilter>("any");
+  const [domainFilter, setDomainFilter] = useState("");
+  const [searchResults, setSearchResults] = useState<
+    HistorySearchResult[] | null
+  >(null);
+  const [searching, setSearching] = useState(false);
   const [expandedVisitId, setExpandedVisitId] = useState<number | null>(null);
   const [visitDetails, setVisitDetails] = useState<
     Map<number, HistoryVisitDetails>
@@ -357,28 +579,15 @@ export const History: React.FC<HistoryProps> = ({ onExportWorkflow }) => {
   const [workflowAnalysis, setWorkflowAnalysis] =
     useState<WorkflowAnalysis | null>(null);
   const [analyzingWorkflow, setAnalyzingWorkflow] = useState(false);
+  const [indexBusy, setIndexBusy] = useState(false);
   const searchInputRef = useRef<HTMLInputElement>(null);
+  const searchRequestRef = useRef(0);
 
   // Load history on mount
   useEffect(() => {
     loadHistory();
   }, []);
 
-  // Filter visits based on search query
-  useEffect(() => {
-    if (searchQuery.trim()) {
-      setFilteredVisits(
-        visits.filter(
-          (visit) =>
-            visit.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-            visit.url.toLowerCase().includes(searchQuery.toLowerCase()),
-        ),
-      );
-    } else {
-      setFilteredVisits(visits);
-    }
-  }, [searchQuery, visits]);
-
   // Load visit details when expanded
   useEffect(() => {
     if (expandedVisitId !== null) {
@@ -437,18 +646,46 @@ export const History: React.FC<HistoryProps> = ({ onExportWorkflow }) => {
     }
   };
 
-  const handleSearch = async (): Promise<void> => {
-    if (searchQuery.trim()) {
-      try {
-        const results = await window.panelAPI.historySearch(searchQuery, 100);
-        setVisits(results);
-      } catch (error) {
-        console.error("Failed to search history:", error);
+  const runSearch = useCallback(async (): Promise<void> => {
+    const query = searchQuery.trim();
+    const domain = domainFilter.trim();
+    const requestId = ++searchRequestRef.current;
+
+    // No query or filters: show the regular timeline
+    if (!query && !domain && dateFilter === "any") {
+      setSearchResults(null);
+      setSearching(false);
+      return;
+    }
+
+    const options: HistorySearchOptions = { limit: 100 };
+    const startTime = getStartTime(dateFilter);
+    if (startTime !== undefined) options.startTime = startTime;
+    if (domain) options.domain = domain;
+
+    try {
+      setSearching(true);
+      const results = await window.panelAPI.historySearch(query, options);
+      // Ignore responses for queries that have since changed
+      if (requestId === searchRequestRef.current) {
+        setSearchResults(results);
+      }
+    } catch (error) {
+      console.error("Failed to search history:", error);
+    } finally {
+      if (requestId === searchRequestRef.current) {
+        setSearching(false);
       }
-    } else {
-      loadHistory();
     }
-  };
+  }, [searchQuery, dateFilter, domainFilter]);
+
+  // Search as the query or filters change (debounced)
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      void runSearch();
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [runSearch]);
 
   const handleClearHistory = async (mode: "all" | "older"): Promise<void> => {
     const message =
@@ -465,12 +702,62 @@ export const History: React.FC<HistoryProps> = ({ onExportWorkflow }) => {
           await window.panelAPI.historyClearOld(30);
         }
         loadHistory();
+        void runSearch();
       } catch (error) {
         console.error(`Failed to clear history (mode: ${mode}):`, error);
       }
     }
   };
 
+  const handleDeleteVisit = async (visitId: number): Promise<void> => {
+    try {
+      await window.panelAPI.historyDeleteVisit(visitId);
+      setVisits((prev) => prev.filter((visit) => visit.id !== visitId));
+      setSearchResults((prev) =>
+        prev ? prev.filter((result) => result.visit.id !== visitId) : prev,
+      );
+      if (expandedVisitId === visitId) {
+        setExpandedVisitId(null);
+      }
+    } catch (error) {
+      console.error("Failed to delete visit:", error);
+    }
+  };
+
+  const handleIndexMaintenance = async (
+    mode: "check" | "rebuild",
+  ): Promise<void> => {
+    if (
+      mode === "rebuild" &&
+      !confirm("Rebuild the search index? All pages will be re-embedded.")
+    ) {
+      return;
+    }
+
+    try {
+      setIndexBusy(true);
+      if (mode === "rebuild") {
+        const result = await window.panelAPI.historyRebuildIndex();
+        alert(
+          `Search index rebuilt: ${result.embedded} of ${result.total} pages embedded` +
+            (result.failed > 0 ? ` (${result.failed} failed)` : ""),
+        );
+      } else {
+        const report = await window.panelAPI.historyCheckIndex();
+        alert(
+          `Search index has ${report.indexedVectors} pages. ` +
+            `Removed ${report.orphanedVectorsRemoved} orphaned vectors, ` +
+            `re-embedded ${report.reembedded} of ${report.missingVectors} missing pages.`,
+        );
+      }
+    } catch (error) {
+      console.error(`Failed to ${mode} search index:`, error);
+      alert(`Failed to ${mode} search index`);
+    } finally {
+      setIndexBusy(false);
+    }
+  };
+
   const handleAnalyzeWorkflow = async (): Promise<void> => {
     try {
       setAnalyzingWorkflow(true);
@@ -485,7 +772,7 @@ export const History: React.FC<HistoryProps> = ({ onExportWorkflow }) => {
     }
   };
 
-  const groupedVisits = groupVisitsByPeriod(filteredVisits);
+  const groupedVisits = groupVisitsByPeriod(visits);
 
   return (
     <div className="flex flex-col h-full bg-background overflow-hidden">
@@ -541,6 +828,21 @@ export const History: React.FC<HistoryProps> = ({ onExportWorkflow }) => {
                 >
                   Clear all history
                 </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  disabled={indexBusy}
+                  onClick={() => handleIndexMaintenance("check")}
+                >
+                  Check search index
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  disabled={indexBusy}
+                  onClick={() => handleIndexMaintenance("rebuild")}
+                >
+                  {indexBusy
+                    ? "Updating search index..."
+                    : "Rebuild search index"}
+                </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
@@ -555,10 +857,32 @@ export const History: React.FC<HistoryProps> = ({ onExportWorkflow }) => {
             placeholder="Search history..."
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
-            onKeyDown={(e) => e.key === "Enter" && handleSearch()}
+            onKeyDown={(e) => e.key === "Enter" && runSearch()}
             className="w-full pl-10 pr-4 py-2 bg-muted border border-border rounded-lg text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20"
           />
         </div>
+
+        {/* Search filters */}
+        <div className="flex items-center gap-2 mt-2">
+          <select
+            value={dateFilter}
+            onChange={(e) => setDateFilter(e.target.value as DateFilter)}
+            className="px-2 py-1 bg-muted border border-border rounded-md text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20"
+          >
+            {DATE_FILTERS.map((filter) => (
+              <option key={filter.value} value={filter.value}>
+                {filter.label}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            placeholder="Domain, e.g. github.com"
+            value={domainFilter}
+            onChange={(e) => setDomainFilter(e.target.value)}
+            className="flex-1 min-w-0 px-2 py-1 bg-muted border border-border rounded-md text-xs text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20"
+          />
+        </div>
       </div>
 
       {/* Scrollable Content Area */}
@@ -670,6 +994,11 @@ export const History: React.FC<HistoryProps> = ({ onExportWorkflow }) => {
                 </div>
               )}
 
+              {/* Replay */}
+              {workflowAnalysis.workflow && (
+                <WorkflowReplay workflow={workflowAnalysis.workflow} />
+              )}
+
               {/* Help text */}
               <div className="text-xs text-muted-foreground italic text-center pt-2">
                 💡 This workflow could be automated or used to create an agent
@@ -681,17 +1010,62 @@ export const History: React.FC<HistoryProps> = ({ onExportWorkflow }) => {
 
         {/* History timeline */}
         <div className="p-4">
-          {loading ? (
+          {searchResults === null && <RecentlyClosedSection />}
+          {searchResults !== null ? (
+            searchResults.length === 0 ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="text-center">
+                  <Search className="size-12 text-muted-foreground mx-auto mb-3 opacity-50" />
+                  <p className="text-muted-foreground">
+                    {searching ? "Searching..." : "No results found"}
+                  </p>
+                </div>
+              </div>
+            ) : (
+              <div>
+                <div className="mb-2 text-sm font-semibold text-foreground">
+                  Results{" "}
+                  <span className="text-muted-foreground font-normal">
+                    ({searchResults.length})
+                  </span>
+                </div>
+                <div className="bg-background/50 border border-border rounded-lg overflow-hidden">
+                  {searchResults.map((result) => (
+                    <VisitItem
+                      key={result.visit.id}
+                      visit={result.visit}
+                      onExpand={() =>
+                        setExpandedVisitId(
+                          expandedVisitId === result.visit.id
+                            ? null
+                            : result.visit.id,
+                        )
+                      }
+                      isExpanded={expandedVisitId === result.visit.id}
+                      details={visitDetails.get(result.visit.id) || null}
+                      interactionCount={
+                        interactionCounts.get(result.visit.id) || 0
+                      }
+                      onDelete={() => handleDeleteVisit(result.visit.id)}
+                      snippet={result.snippet}
+                      semanticOnly={
+                        result.matchedBy.length === 1 &&
+                        result.matchedBy[0] === "semantic"
+                      }
+                    />
+                  ))}
+                </div>
+              </div>
+            )
+          ) : loading ? (
             <div className="flex items-center justify-center py-12">
               <div className="text-muted-foreground">Loading history...</div>
             </div>
-          ) : filteredVisits.length === 0 ? (
+          ) : visits.length === 0 ? (
             <div className="flex items-center justify-center py-12">
               <div className="text-center">
                 <Clock className="size-12 text-muted-foreground mx-auto mb-3 opacity-50" />
-                <p className="text-muted-foreground">
-                  {searchQuery ? "No results found" : "No history yet"}
-                </p>
+                <p className="text-muted-foreground">No history yet</p>
               </div>
             </div>
           ) : (
@@ -706,6 +1080,7 @@ export const History: React.FC<HistoryProps> = ({ onExportWorkflow }) => {
                     setExpandedVisitId={setExpandedVisitId}
                     visitDetails={visitDetails}
                     interactionCounts={interactionCounts}
+                    onDeleteVisit={handleDeleteVisit}
                   />
                 ),
               )}
@@ -0,0 +1,599 @@
+import type {
+  CommandInfo,
+  HibernationSettings,
+  KeybindingConflict,
+  SearchEngineList,
+  SiteZoom,
+} from "@preload/panel.d";
+import { Button } from "@renderer/components/ui/button";
+import { cn } from "@renderer/lib/utils";
+import { Plus, RotateCcw, Trash2, X, ZoomIn } from "lucide-react";
+import React, { useEffect, useState } from "react";
+
+// Minutes a tab can sit in the background before it's put to sleep
+const IDLE_MINUTE_OPTIONS = [5, 15, 30, 60, 120];
+
+// The engine the address bar searches with, and engines reachable by
+// typing their keyword first, as in "w term"
+const SearchEnginesSection: React.FC = () => {
+  const [list, setList] = useState<SearchEngineList | null>(null);
+  const [name, setName] = useState("");
+  const [keyword, setKeyword] = useState("");
+  const [url, setUrl] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = (): void => {
+      window.panelAPI
+        .searchEnginesGet()
+        .then(setList)
+        .catch((error) =>
+          console.error("Failed to load search engines:", error),
+        );
+    };
+    load();
+    return window.panelAPI.onSearchEnginesUpdated(load);
+  }, []);
+
+  const handleAdd = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    const trimmedKeyword = keyword.trim().toLowerCase();
+    if (!/^https?:\/\//i.test(url.trim()) || !url.includes("%s")) {
+      setError("The URL must start with http(s):// and contain %s");
+      return;
+    }
+    if (/\s/.test(trimmedKeyword)) {
+      setError("Keywords can't contain spaces");
+      return;
+    }
+    if (list?.engines.some((engine) => engine.keyword === trimmedKeyword)) {
+      setError(`"${trimmedKeyword}" is already used by another engine`);
+      return;
+    }
+
+    try {
+      const added = await window.panelAPI.searchEnginesAdd({
+        name,
+        keyword: trimmedKeyword,
+        url,
+      });
+      if (!added) {
+        setError("The search engine couldn't be added");
+        return;
+      }
+      setName("");
+      setKeyword("");
+      setUrl("");
+      setError(null);
+    } catch (error) {
+      console.error("Failed to add search engine:", error);
+    }
+  };
+
+  if (!list) return null;
+
+  const inputClassName =
+    "px-2 py-1 bg-muted border border-border rounded-md text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20";
+
+  return (
+    <section className="p-4 border-b border-border space-y-3 text-sm">
+      <h3 className="font-medium text-foreground">Search engine</h3>
+      <label className="flex items-center gap-2 text-muted-foreground">
+        Search with
+        <select
+          value={list.defaultEngineId}
+          onChange={(e) =>
+            void window.panelAPI.searchEnginesSetDefault(e.target.value)
+          }
+          className={inputClassName}
+        >
+          {list.engines.map((engine) => (
+            <option key={engine.id} value={engine.id}>
+              {engine.name}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <ul className="space-y-0.5">
+        {list.engines.map((engine) => (
+          <li
+            key={engine.id}
+            className="group flex items-center gap-2 px-2 py-1.5 rounded-md hover:bg-muted/50"
+          >
+            <span className="truncate text-foreground">{engine.name}</span>
+            <span
+              className="flex-1 min-w-0 truncate text-xs text-muted-foreground"
+              title={engine.url}
+            >
+              {engine.url}
+            </span>
+            <code className="px-1.5 rounded bg-muted text-xs text-foreground">
+              {engine.keyword}
+            </code>
+            {!engine.isBuiltIn && (
+              <button
+                title={`Remove ${engine.name}`}
+                className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground"
+                onClick={() =>
+                  void window.panelAPI.searchEnginesDelete(engine.id)
+                }
+              >
+                <X className="size-4" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <form onSubmit={(e) => void handleAdd(e)} className="space-y-2">
+        <div className="flex gap-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name"
+            className={cn(inputClassName, "flex-1 min-w-0")}
+          />
+          <input
+            value={keyword}
+            onChange={(e) => setKeyword(e.target.value)}
+            placeholder="Keyword"
+            className={cn(inputClassName, "w-20")}
+          />
+        </div>
+        <div className="flex gap-2">
+          <input
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/search?q=%s"
+            className={cn(inputClassName, "flex-1 min-w-0")}
+          />
+          <Button
+            type="submit"
+            size="sm"
+            disabled={!name.trim() || !keyword.trim() || !url.trim()}
+          >
+            <Plus className="size-4" />
+            Add
+          </Button>
+        </div>
+        {error && <p className="text-xs text-destructive">{error}</p>}
+      </form>
+    </section>
+  );
+};
+
+const IS_MAC = navigator.userAgent.includes("Mac");
+
+// Keys other than letters, digits and function keys, by KeyboardEvent.code
+const ACCELERATOR_KEYS: Record<string, string> = {
+  BracketLeft: "[",
+  BracketRight: "]",
+  Minus: "-",
+  Equal: "=",
+  Comma: ",",
+  Period: ".",
+  Slash: "/",
+  Backslash: "\\",
+  Semicolon: ";",
+  Quote: "'",
+  Backquote: "`",
+  Space: "Space",
+  Tab: "Tab",
+  Enter: "Enter",
+  Backspace: "Backspace",
+  Delete: "Delete",
+  Insert: "Insert",
+  Escape: "Esc",
+  ArrowUp: "Up",
+  ArrowDown: "Down",
+  ArrowLeft: "Left",
+  ArrowRight: "Right",
+  Home: "Home",
+  End: "End",
+  PageUp: "PageUp",
+  PageDown: "PageDown",
+};
+
+const MAC_SYMBOLS: Record<string, string> = {
+  CmdOrCtrl: "⌘",
+  Cmd: "⌘",
+  Ctrl: "⌃",
+  Alt: "⌥",
+  Shift: "⇧",
+  Plus: "+",
+  Up: "↑",
+  Down: "↓",
+  Left: "←",
+  Right: "→",
+};
+
+// The accelerator for a key press, such as "CmdOrCtrl+Shift+T"; null while
+// only modifiers are held. The platform's main modifier is saved as
+// CmdOrCtrl so bindings carry over between macOS and other systems.
+const toAccelerator = (e: React.KeyboardEvent): string | null => {
+  const letter = /^Key([A-Z])$/.exec(e.code);
+  const digit = /^Digit(\d)$/.exec(e.code);
+  const key =
+    letter?.[1] ??
+    digit?.[1] ??
+    (/^F\d{1,2}$/.test(e.code) ? e.code : ACCELERATOR_KEYS[e.code]);
+  if (!key) return null;
+
+  const modifiers = [
+    e.metaKey && (IS_MAC ? "CmdOrCtrl" : "Super"),
+    e.ctrlKey && (IS_MAC ? "Ctrl" : "CmdOrCtrl"),
+    e.altKey && "Alt",
+    e.shiftKey && "Shift",
+  ].filter((modifier): modifier is string => Boolean(modifier));
+  return [...modifiers, key].join("+");
+};
+
+// How a binding is shown: ⌘⇧T on macOS, Ctrl+Shift+T elsewhere
+const formatBinding = (binding: string): string => {
+  const parts = binding.split("+");
+  if (IS_MAC) return parts.map((part) => MAC_SYMBOLS[part] ?? part).join("");
+  return parts
+    .map((part) =>
+      part === "CmdOrCtrl" ? "Ctrl" : part === "Plus" ? "+" : part,
+    )
+    .join("+");
+};
+
+// A binding waiting for the user to take it from another command
+interface PendingBinding {
+  commandId: string;
+  bindings: string[];
+  conflicts: KeybindingConflict[];
+}
+
+// The keys bound to every command, which can be changed, added, removed
+// and reset. A key used by another command is only taken after asking.
+const KeyboardShortcutsSection: React.FC = () => {
+  const [commands, setCommands] = useState<CommandInfo[]>([]);
+  const [recordingId, setRecordingId] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingBinding | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = (): void => {
+      window.panelAPI
+        .keybindingsGetAll()
+        .then(setCommands)
+        .catch((error) =>
+          console.error("Failed to load keyboard shortcuts:", error),
+        );
+    };
+    load();
+    return window.panelAPI.onKeybindingsUpdated(load);
+  }, []);
+
+  // Menu shortcuts are held back while keys are being recorded
+  useEffect(() => {
+    void window.panelAPI.keybindingsSetRecording(recordingId !== null);
+  }, [recordingId]);
+
+  useEffect(() => {
+    return () => void window.panelAPI.keybindingsSetRecording(false);
+  }, []);
+
+  const setBindings = async (
+    commandId: string,
+    bindings: string[],
+    replaceConflicts: boolean = false,
+  ): Promise<void> => {
+    try {
+      const result = await window.panelAPI.keybindingsSet(
+        commandId,
+        bindings,
+        replaceConflicts,
+      );
+      setPending(
+        result.applied
+          ? null
+          : { commandId, bindings, conflicts: result.conflicts },
+      );
+      setError(
+        result.invalid.length > 0
+          ? `${result.invalid.map(formatBinding).join(", ")} can't be used as a shortcut`
+          : null,
+      );
+    } catch (error) {
+      console.error("Failed to update keyboard shortcut:", error);
+    }
+  };
+
+  const handleRecordKeyDown = (
+    e: React.KeyboardEvent,
+    command: CommandInfo,
+  ): void => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.key === "Escape" && !e.metaKey && !e.ctrlKey && !e.altKey) {
+      setRecordingId(null);
+      return;
+    }
+
+    const binding = toAccelerator(e);
+    if (!binding) return;
+    setRecordingId(null);
+    void setBindings(command.id, [...command.bindings, binding]);
+  };
+
+  const categories = Array.from(
+    new Set(commands.map((command) => command.category)),
+  );
+  const hasCustomized = commands.some((command) => command.isCustomized);
+
+  return (
+    <section className="p-4 border-b border-border text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-medium text-foreground">Keyboard shortcuts</h3>
+        {hasCustomized && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => void window.panelAPI.keybindingsReset()}
+            title="Reset all keyboard shortcuts"
+          >
+            <RotateCcw className="size-4" />
+            Reset all
+          </Button>
+        )}
+      </div>
+
+      {pending && (
+        <div className="mb-2 p-2 rounded-md bg-muted text-xs text-foreground space-y-2">
+          <p>
+            {pending.conflicts
+              .map(
+                (conflict) =>
+                  `${formatBinding(conflict.binding)} is already used by ${conflict.label}.`,
+              )
+              .join(" ")}
+          </p>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              onClick={() =>
+                void setBindings(pending.commandId, pending.bindings, true)
+              }
+            >
+              Use it here
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setPending(null)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+      {error && <p className="mb-2 text-xs text-destructive">{error}</p>}
+
+      {categories.map((category) => (
+        <div key={category} className="mb-3 last:mb-0">
+          <h4 className="mb-1 text-xs font-medium text-muted-foreground">
+            {category}
+          </h4>
+          <ul className="space-y-0.5">
+            {commands
+              .filter((command) => command.category === category)
+              .map((command) => (
+                <li
+                  key={command.id}
+                  className="group flex items-center gap-2 px-2 py-1 rounded-md hover:bg-muted/50"
+                >
+                  <span className="flex-1 min-w-0 truncate text-foreground">
+                    {command.label}
+                  </span>
+                  {command.bindings.map((binding) => (
+                    <span
+                      key={binding}
+                      className="flex items-center gap-0.5 pl-1.5 pr-0.5 rounded bg-muted text-xs text-foreground"
+                    >
+                      <kbd className="font-sans">{formatBinding(binding)}</kbd>
+                      <button
+                        title={`Remove ${formatBinding(binding)}`}
+                        className="text-muted-foreground hover:text-foreground"
+                        onClick={() =>
+                          void setBindings(
+                            command.id,
+                            command.bindings.filter(
+                              (other) => other !== binding,
+                            ),
+                          )
+                        }
+                      >
+                        <X className="size-3" />
+                      </button>
+                    </span>
+                  ))}
+                  {recordingId === command.id ? (
+                    <button
+                      autoFocus
+                      onKeyDown={(e) => handleRecordKeyDown(e, command)}
+                      onBlur={() => setRecordingId(null)}
+                      className="px-1.5 rounded border border-primary text-xs text-muted-foreground outline-none"
+                    >
+                      Press keys…
+                    </button>
+                  ) : (
+                    <button
+                      title="Add shortcut"
+                      className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground"
+                      onClick={() => setRecordingId(command.id)}
+                    >
+                      <Plus className="size-4" />
+                    </button>
+                  )}
+                  {command.isCustomized && (
+                    <button
+                      title="Reset to default"
+                      className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground"
+                      onClick={() =>
+                        void window.panelAPI.keybindingsReset(command.id)
+                      }
+                    >
+                      <RotateCcw className="size-4" />
+                    </button>
+                  )}
+                </li>
+              ))}
+          </ul>
+        </div>
+      ))}
+    </section>
+  );
+};
+
+// Idle tabs are hibernated to free memory
+const HibernationSection: React.FC = () => {
+  const [settings, setSettings] = useState<HibernationSettings | null>(null);
+
+  useEffect(() => {
+    window.panelAPI
+      .hibernationSettingsGet()
+      .then(setSettings)
+      .catch((error) =>
+        console.error("Failed to load hibernation settings:", error),
+      );
+  }, []);
+
+  const update = async (
+    config: Partial<HibernationSettings>,
+  ): Promise<void> => {
+    try {
+      setSettings(await window.panelAPI.hibernationSettingsUpdate(config));
+    } catch (error) {
+      console.error("Failed to update hibernation settings:", error);
+    }
+  };
+
+  if (!settings) return null;
+
+  const idleOptions = IDLE_MINUTE_OPTIONS.includes(settings.idleMinutes)
+    ? IDLE_MINUTE_OPTIONS
+    : [...IDLE_MINUTE_OPTIONS, settings.idleMinutes].sort((a, b) => a - b);
+
+  return (
+    <section className="p-4 border-b border-border space-y-3 text-sm">
+      <h3 className="font-medium text-foreground">Sleeping tabs</h3>
+      <label className="flex items-center gap-2 text-foreground">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => void update({ enabled: e.target.checked })}
+        />
+        Put inactive tabs to sleep to save memory
+      </label>
+      <label
+        className={cn(
+          "flex items-center gap-2 text-muted-foreground",
+          !settings.enabled && "opacity-50",
+        )}
+      >
+        After
+        <select
+          value={settings.idleMinutes}
+          disabled={!settings.enabled}
+          onChange={(e) => void update({ idleMinutes: Number(e.target.value) })}
+          className="px-2 py-1 bg-muted border border-border rounded-md text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20"
+        >
+          {idleOptions.map((minutes) => (
+            <option key={minutes} value={minutes}>
+              {minutes < 60
+                ? `${minutes} minutes`
+                : `${minutes / 60} hour${minutes === 60 ? "" : "s"}`}
+            </option>
+          ))}
+        </select>
+        in the background
+      </label>
+      <p className="text-xs text-muted-foreground">
+        Pinned tabs, tabs playing sound and tabs with unsaved form input stay
+        awake.
+      </p>
+    </section>
+  );
+};
+
+// Zoom levels remembered per site, with a way to forget them
+const ZoomLevelsSection: React.FC = () => {
+  const [levels, setLevels] = useState<SiteZoom[]>([]);
+
+  useEffect(() => {
+    const load = (): void => {
+      window.panelAPI
+        .zoomGetLevels()
+        .then(setLevels)
+        .catch((error) => console.error("Failed to load zoom levels:", error));
+    };
+    load();
+    return window.panelAPI.onZoomLevelsUpdated(load);
+  }, []);
+
+  return (
+    <section className="p-4 border-b border-border">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-foreground">Zoom levels</h3>
+        {levels.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => void window.panelAPI.zoomClearAll()}
+            title="Clear all zoom levels"
+          >
+            <Trash2 className="size-4" />
+            Clear all
+          </Button>
+        )}
+      </div>
+      {levels.length === 0 ? (
+        <div className="flex items-center gap-2 py-2 text-sm text-muted-foreground">
+          <ZoomIn className="size-4" />
+          Sites you zoom in or out on are listed here
+        </div>
+      ) : (
+        <ul className="space-y-0.5">
+          {levels.map((level) => (
+            <li
+              key={level.host}
+              className="group flex items-center gap-2 px-2 py-1.5 rounded-md hover:bg-muted/50 text-sm"
+            >
+              <span className="flex-1 min-w-0 truncate text-foreground">
+                {level.host}
+              </span>
+              <span className="text-xs tabular-nums text-muted-foreground">
+                {Math.round(level.zoomFactor * 100)}%
+              </span>
+              <button
+                title={`Clear zoom level for ${level.host}`}
+                className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground"
+                onClick={() => void window.panelAPI.zoomClearLevel(level.host)}
+              >
+                <X className="size-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export const Settings: React.FC = () => {
+  return (
+    <div className="flex flex-col h-full bg-background overflow-hidden">
+      {/* Header */}
+      <div className="shrink-0 p-4 border-b border-border">
+        <h2 className="text-lg font-semibold text-foreground">Settings</h2>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        <SearchEnginesSection />
+        <HibernationSection />
+        <ZoomLevelsSection />
+        <KeyboardShortcutsSection />
+      </div>
+    </div>
+  );
+};
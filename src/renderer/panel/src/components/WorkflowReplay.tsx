@@ -0,0 +1,209 @@
+import type {
+  WorkflowDefinition,
+  WorkflowReplayState,
+  WorkflowReplayStep,
+} from "@preload/panel.d";
+import { Button } from "@renderer/components/ui/button";
+import {
+  CheckCircle2,
+  Circle,
+  Loader2,
+  MinusCircle,
+  Pause,
+  Play,
+  Square,
+  XCircle,
+} from "lucide-react";
+import React, { useCallback, useEffect, useState } from "react";
+
+interface WorkflowReplayProps {
+  workflow: WorkflowDefinition;
+}
+
+const StepStatusIcon: React.FC<{ status: WorkflowReplayStep["status"] }> = ({
+  status,
+}) => {
+  switch (status) {
+    case "running":
+      return <Loader2 className="size-4 text-primary animate-spin" />;
+    case "success":
+      return <CheckCircle2 className="size-4 text-green-600" />;
+    case "failed":
+      return <XCircle className="size-4 text-red-500" />;
+    case "skipped":
+      return <MinusCircle className="size-4 text-muted-foreground" />;
+    default:
+      return <Circle className="size-4 text-muted-foreground" />;
+  }
+};
+
+const statusLabels: Record<WorkflowReplayState["status"], string> = {
+  idle: "Ready to replay",
+  running: "Replaying...",
+  paused: "Paused",
+  completed: "Replay completed",
+  stopped: "Replay stopped",
+  failed: "Replay failed",
+};
+
+// Replays an analyzed workflow in a browser tab and shows per-step progress
+export const WorkflowReplay: React.FC<WorkflowReplayProps> = ({ workflow }) => {
+  const [replay, setReplay] = useState<WorkflowReplayState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedStep, setExpandedStep] = useState<number | null>(null);
+
+  useEffect(() => {
+    window.panelAPI
+      .workflowReplayGetState()
+      .then((state) => {
+        // Only show an existing replay if it belongs to this workflow
+        if (
+          state.status !== "idle" &&
+          state.workflowName === workflow.workflow_name
+        ) {
+          setReplay(state);
+        }
+      })
+      .catch((error) =>
+        console.error("Failed to load workflow replay state:", error),
+      );
+
+    // Other workflows' replays show on their own cards
+    const cleanup = window.panelAPI.onWorkflowReplayUpdated((state) => {
+      if (state.workflowName === workflow.workflow_name) {
+        setReplay(state);
+      }
+    });
+    return cleanup;
+  }, [workflow.workflow_name]);
+
+  const isPaused = replay?.status === "paused";
+  const isActive = replay?.status === "running" || isPaused;
+
+  const handleStart = useCallback(async (): Promise<void> => {
+    try {
+      setError(null);
+      const state = await window.panelAPI.workflowReplayStart(workflow);
+      setReplay(state);
+    } catch (err) {
+      console.error("Failed to start workflow replay:", err);
+      setError(err instanceof Error ? err.message : "Failed to start replay");
+    }
+  }, [workflow]);
+
+  const handlePauseResume = useCallback(async (): Promise<void> => {
+    try {
+      if (isPaused) {
+        await window.panelAPI.workflowReplayResume();
+      } else {
+        await window.panelAPI.workflowReplayPause();
+      }
+    } catch (err) {
+      console.error("Failed to pause or resume workflow replay:", err);
+    }
+  }, [isPaused]);
+
+  const handleStop = useCallback(async (): Promise<void> => {
+    try {
+      await window.panelAPI.workflowReplayStop();
+    } catch (err) {
+      console.error("Failed to stop workflow replay:", err);
+    }
+  }, []);
+
+  const completedSteps =
+    replay?.steps.filter((step) => step.status === "success").length ?? 0;
+
+  return (
+    <div className="bg-background/60 rounded-lg p-3 border border-border/50">
+      <div className="flex items-center justify-between mb-2">
+        <div>
+          <p className="font-medium text-foreground">▶️ Replay</p>
+          <p className="text-xs text-muted-foreground">
+            {replay ? statusLabels[replay.status] : statusLabels.idle}
+            {replay &&
+              ` · ${completedSteps}/${replay.steps.length} steps succeeded`}
+          </p>
+        </div>
+        <div className="flex items-center gap-1">
+          {isActive ? (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handlePauseResume}
+                title={isPaused ? "Resume" : "Pause"}
+              >
+                {isPaused ? (
+                  <Play className="size-4" />
+                ) : (
+                  <Pause className="size-4" />
+                )}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleStop}
+                title="Stop"
+              >
+                <Square className="size-4" />
+              </Button>
+            </>
+          ) : (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleStart}
+              disabled={workflow.steps.length === 0}
+              title="Run this workflow in a new tab"
+            >
+              <Play className="size-4 mr-1" />
+              {replay ? "Run Again" : "Replay"}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-500 mb-2">{error}</p>}
+
+      {replay && replay.steps.length > 0 && (
+        <ol className="space-y-1">
+          {replay.steps.map((step, idx) => (
+            <li key={idx} className="text-xs">
+              <button
+                className="flex w-full items-start gap-2 text-left hover:bg-muted/50 rounded px-1 py-1"
+                onClick={() =>
+                  setExpandedStep(expandedStep === idx ? null : idx)
+                }
+              >
+                <StepStatusIcon status={step.status} />
+                <div className="flex-1 min-w-0">
+                  <div className="text-foreground">
+                    <span className="font-medium capitalize">
+                      {step.action}
+                    </span>{" "}
+                    <span className="text-muted-foreground">
+                      {step.description}
+                    </span>
+                  </div>
+                  {step.error && (
+                    <div className="text-red-500 text-[11px] mt-0.5 truncate">
+                      {step.error}
+                    </div>
+                  )}
+                </div>
+              </button>
+              {expandedStep === idx && step.screenshot && (
+                <img
+                  src={step.screenshot}
+                  alt={`Step ${step.stepNumber} screenshot`}
+                  className="mt-1 ml-6 w-[calc(100%-1.5rem)] rounded border border-border"
+                />
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
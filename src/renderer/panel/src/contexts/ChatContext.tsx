@@ -10,10 +10,24 @@ import React, {
 interface ChatContextType {
   messages: UIMessage[];
   isLoading: boolean;
+  agentMode: boolean;
+  activeConversationId: number | null;
+  // Tabs shared with the assistant; the active tab is used when empty
+  contextTabIds: string[];
+  contextGroupId: string | null;
 
   // Chat actions
   sendMessage: (content: string) => Promise<void>;
   clearChat: () => void;
+  setAgentMode: (enabled: boolean) => void;
+  setContextTabIds: (tabIds: string[]) => void;
+  setContextGroupId: (groupId: string | null) => void;
+  confirmAction: (actionId: string, approved: boolean) => Promise<void>;
+
+  // Saved conversations
+  openConversation: (conversationId: number) => Promise<boolean>;
+  forkFromMessage: (messageId: string) => Promise<void>;
+  deleteConversation: (conversationId: number) => Promise<void>;
 
   // Page content access
   getPageContent: () => Promise<string | null>;
@@ -36,6 +50,20 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
 }) => {
   const [messages, setMessages] = useState<UIMessage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [agentMode, setAgentModeState] = useState<boolean>(() => {
+    return localStorage.getItem("agentMode") === "true";
+  });
+
+  const [contextTabIds, setContextTabIds] = useState<string[]>([]);
+  const [contextGroupId, setContextGroupId] = useState<string | null>(null);
+  const [activeConversationId, setActiveConversationId] = useState<
+    number | null
+  >(null);
+
+  const setAgentMode = useCallback((enabled: boolean) => {
+    setAgentModeState(enabled);
+    localStorage.setItem("agentMode", JSON.stringify(enabled));
+  }, []);
 
   // Load initial messages from main process
   useEffect(() => {
@@ -51,30 +79,78 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
       }
     };
     void loadMessages();
+    void window.panelAPI.getActiveConversation().then(setActiveConversationId);
+  }, []);
+
+  // Track which saved conversation is shown
+  useEffect(() => {
+    return window.panelAPI.onConversationsUpdated(setActiveConversationId);
+  }, []);
+
+  const sendMessage = useCallback(
+    async (content: string) => {
+      setIsLoading(true);
+
+      try {
+        const messageId = Date.now().toString();
+
+        // Send message to main process (which will handle context)
+        await window.panelAPI.sendChatMessage({
+          message: content,
+          context: {
+            url: null,
+            content: null,
+            text: null,
+          },
+          messageId: messageId,
+          agentMode,
+          contextTabIds,
+          contextGroupId,
+        });
+
+        // Messages will be updated via the chat-messages-updated event
+      } catch (error) {
+        console.error("Failed to send message:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [agentMode, contextTabIds, contextGroupId],
+  );
+
+  const confirmAction = useCallback(
+    async (actionId: string, approved: boolean) => {
+      try {
+        await window.panelAPI.agentConfirmAction(actionId, approved);
+      } catch (error) {
+        console.error("Failed to confirm action:", error);
+      }
+    },
+    [],
+  );
+
+  const openConversation = useCallback(async (conversationId: number) => {
+    try {
+      return await window.panelAPI.openConversation(conversationId);
+    } catch (error) {
+      console.error("Failed to open conversation:", error);
+      return false;
+    }
   }, []);
 
-  const sendMessage = useCallback(async (content: string) => {
-    setIsLoading(true);
+  const forkFromMessage = useCallback(async (messageId: string) => {
+    try {
+      await window.panelAPI.forkConversation(messageId);
+    } catch (error) {
+      console.error("Failed to fork conversation:", error);
+    }
+  }, []);
 
+  const deleteConversation = useCallback(async (conversationId: number) => {
     try {
-      const messageId = Date.now().toString();
-
-      // Send message to main process (which will handle context)
-      await window.panelAPI.sendChatMessage({
-        message: content,
-        context: {
-          url: null,
-          content: null,
-          text: null,
-        },
-        messageId: messageId,
-      });
-
-      // Messages will be updated via the chat-messages-updated event
+      await window.panelAPI.deleteConversation(conversationId);
     } catch (error) {
-      console.error("Failed to send message:", error);
-    } finally {
-      setIsLoading(false);
+      console.error("Failed to delete conversation:", error);
     }
   }, []);
 
@@ -145,8 +221,19 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
   const value: ChatContextType = {
     messages,
     isLoading,
+    agentMode,
+    activeConversationId,
+    contextTabIds,
+    contextGroupId,
     sendMessage,
     clearChat,
+    setAgentMode,
+    setContextTabIds,
+    setContextGroupId,
+    confirmAction,
+    openConversation,
+    forkFromMessage,
+    deleteConversation,
     getPageContent,
     getPageText,
     getCurrentUrl,
@@ -1,3 +1,5 @@
+import { FindBar } from "@renderer/components/FindBar";
+import { PermissionPrompt } from "@renderer/components/PermissionPrompt";
 import { BrowserProvider } from "@renderer/contexts/BrowserContext";
 import React, { useCallback, useEffect, useRef, useState } from "react";
 import { SidebarToolbar } from "./components/SidebarToolbar";
@@ -64,6 +66,12 @@ export const SideBarApp: React.FC = () => {
           {/* Toolbar with navigation controls */}
           <SidebarToolbar />
 
+          {/* Find in page */}
+          <FindBar className="mx-2 mb-2" />
+
+          {/* Site permission requests */}
+          <PermissionPrompt stacked className="mx-2 mb-2" />
+
           {/* Vertical Tab Bar */}
           <div className="flex-1 overflow-hidden w-full min-w-0">
             <VerticalTabBar />
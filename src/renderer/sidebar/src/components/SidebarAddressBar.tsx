@@ -1,53 +1,35 @@
 import { Favicon } from "@renderer/components/Favicon";
+import { Omnibox } from "@renderer/components/Omnibox";
 import { useBrowser } from "@renderer/contexts/BrowserContext";
 import { cn, getFavicon } from "@renderer/lib/utils";
-import { RefreshCw, X } from "lucide-react";
-import React, { useState } from "react";
+import { MonitorX, RefreshCw, Star, X, ZoomIn, ZoomOut } from "lucide-react";
+import React, { useEffect, useState } from "react";
 
 export const SidebarAddressBar: React.FC = () => {
-  const { activeTab, navigateToUrl, isLoading, reload, stop } = useBrowser();
-  const [editedUrl, setEditedUrl] = useState("");
+  const {
+    activeTab,
+    isLoading,
+    reload,
+    stop,
+    showPopupMenu,
+    toggleBookmark,
+    showSiteInfoMenu,
+    showZoomMenu,
+    onRunCommand,
+  } = useBrowser();
   const [isFocused, setIsFocused] = useState(false);
 
-  const handleSubmit = (e: React.FormEvent): void => {
-    e.preventDefault();
-    if (!editedUrl.trim()) return;
-
-    let finalUrl = editedUrl.trim();
-
-    // Add protocol if missing
-    if (!finalUrl.startsWith("http://") && !finalUrl.startsWith("https://")) {
-      // Check if it looks like a domain
-      if (finalUrl.includes(".") && !finalUrl.includes(" ")) {
-        finalUrl = `https://${finalUrl}`;
-      } else {
-        // Treat as search query
-        finalUrl = `https://www.google.com/search?q=${encodeURIComponent(finalUrl)}`;
-      }
-    }
-
-    void navigateToUrl(finalUrl);
-    setIsFocused(false);
-    (document.activeElement as HTMLElement)?.blur();
-  };
+  // Cmd/Ctrl+L and other bindings of "address-bar.focus" start editing
+  useEffect(() => {
+    return onRunCommand((commandId) => {
+      if (commandId === "address-bar.focus") setIsFocused(true);
+    });
+  }, [onRunCommand]);
 
   const handleFocus = (): void => {
-    // Copy current tab URL to editing state
-    setEditedUrl(activeTab?.url || "");
     setIsFocused(true);
   };
 
-  const handleBlur = (): void => {
-    setIsFocused(false);
-  };
-
-  const handleKeyDown = (e: React.KeyboardEvent): void => {
-    if (e.key === "Escape") {
-      setIsFocused(false);
-      (e.target as HTMLInputElement).blur();
-    }
-  };
-
   const getDomain = (): string => {
     if (!activeTab?.url) return "";
     try {
@@ -81,25 +63,13 @@ export const SidebarAddressBar: React.FC = () => {
       {/* Address Bar */}
       {isFocused ? (
         // Expanded State
-        <form onSubmit={handleSubmit} className="flex-1 min-w-0">
-          <div className="bg-background rounded-lg shadow-md p-1 dark:bg-secondary">
-            <input
-              type="text"
-              value={editedUrl}
-              onChange={(e) => setEditedUrl(e.target.value)}
-              onFocus={handleFocus}
-              onBlur={handleBlur}
-              onKeyDown={handleKeyDown}
-              className="w-full px-1 py-0.5 text-xs outline-hidden bg-transparent text-foreground truncate"
-              placeholder={
-                activeTab ? "Enter URL or search term" : "No active tab"
-              }
-              disabled={!activeTab}
-              spellCheck={false}
-              autoFocus
-            />
-          </div>
-        </form>
+        <Omnibox
+          initialValue={activeTab?.url || ""}
+          placeholder={activeTab ? "Enter URL or search term" : "No active tab"}
+          disabled={!activeTab}
+          onClose={() => setIsFocused(false)}
+          className="flex-1 min-w-0"
+        />
       ) : (
         // Collapsed State
         <div
@@ -112,12 +82,19 @@ export const SidebarAddressBar: React.FC = () => {
           )}
         >
           <div className="flex h-full items-center gap-2">
-            {/* Favicon */}
-            <div className="size-4 shrink-0">
+            {/* Favicon; opens the site's permission settings */}
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                if (activeTab) void showSiteInfoMenu(activeTab.id);
+              }}
+              className="size-4 shrink-0"
+              title="Site settings"
+            >
               <Favicon
                 src={activeTab?.url ? getFavicon(activeTab.url) : null}
               />
-            </div>
+            </button>
 
             {/* URL Display */}
             <div className="text-xs leading-normal overflow-hidden flex-1 min-w-0">
@@ -141,6 +118,65 @@ export const SidebarAddressBar: React.FC = () => {
         </div>
       )}
 
+      {/* Zoom indicator, shown when the page isn't at 100% */}
+      {activeTab && Math.round(activeTab.zoomFactor * 100) !== 100 && (
+        <button
+          onClick={() => void showZoomMenu(activeTab.id)}
+          className={cn(
+            "shrink-0 size-8 flex items-center justify-center rounded-md",
+            "hover:bg-muted dark:hover:bg-muted/50 transition-colors duration-200",
+          )}
+          title={`Zoom: ${Math.round(activeTab.zoomFactor * 100)}%`}
+        >
+          {activeTab.zoomFactor > 1 ? (
+            <ZoomIn className="size-4" />
+          ) : (
+            <ZoomOut className="size-4" />
+          )}
+        </button>
+      )}
+
+      {/* Bookmark star */}
+      {activeTab && (
+        <button
+          onClick={() => void toggleBookmark(activeTab.id)}
+          className={cn(
+            "shrink-0 size-8 flex items-center justify-center rounded-md",
+            "hover:bg-muted dark:hover:bg-muted/50 transition-colors duration-200",
+          )}
+          title={
+            activeTab.isBookmarked ? "Remove bookmark" : "Bookmark this page"
+          }
+        >
+          <Star
+            className={cn(
+              "size-4",
+              activeTab.isBookmarked && "fill-current text-primary",
+            )}
+          />
+        </button>
+      )}
+
+      {/* Popup blocker indicator */}
+      {activeTab &&
+        (activeTab.blockedPopupCount > 0 || activeTab.popupsAllowed) && (
+          <button
+            onClick={() => void showPopupMenu(activeTab.id)}
+            className={cn(
+              "shrink-0 size-8 flex items-center justify-center rounded-md",
+              "hover:bg-muted dark:hover:bg-muted/50 transition-colors duration-200",
+              activeTab.blockedPopupCount > 0 && "bg-muted",
+            )}
+            title={
+              activeTab.blockedPopupCount > 0
+                ? `${activeTab.blockedPopupCount} pop-ups blocked`
+                : "Pop-ups allowed"
+            }
+          >
+            <MonitorX className="size-4" />
+          </button>
+        )}
+
       {/* Refresh/Stop Button */}
       <button
         onClick={handleRefreshOrStop}
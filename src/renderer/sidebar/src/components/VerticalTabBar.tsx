@@ -1,9 +1,10 @@
 import { cn, getFavicon } from "@renderer/lib/utils";
 
-import type { GroupInfo } from "@preload/global.d";
+import type { GroupInfo, TabInfo } from "@preload/global.d";
 import { DarkModeToggle } from "@renderer/components/DarkModeToggle";
 import { Favicon } from "@renderer/components/Favicon";
 import { GroupModal } from "@renderer/components/GroupModal";
+import { TabAudioButton } from "@renderer/components/TabAudioButton";
 import {
   ContextMenu,
   ContextMenuContent,
@@ -19,16 +20,23 @@ import {
 } from "@renderer/components/ui/dropdown-menu";
 import { useBrowser } from "@renderer/contexts/BrowserContext";
 import {
+  AppWindow,
   ChevronDown,
   ChevronRight,
+  Container,
   FolderPlus,
   Loader2,
   Palette,
   Pencil,
+  Pin,
+  PinOff,
   Plus,
   Sparkles,
   Trash2,
   Ungroup,
+  VenetianMask,
+  Volume2,
+  VolumeX,
   X,
 } from "lucide-react";
 import React from "react";
@@ -48,8 +56,15 @@ interface TabItemProps {
   title: string;
   favicon?: string | null;
   isActive: boolean;
+  isPinned?: boolean;
+  isPrivate?: boolean;
+  // Hibernated; the page reloads when the tab is opened
+  isSleeping?: boolean;
+  isAudible?: boolean;
+  isMuted?: boolean;
   tab: { id: string; groupId: string | null };
   onClose: () => void;
+  onToggleMute: () => void;
   onActivate: () => void;
   onDragStart: (e: React.DragEvent, id: string) => void;
   onDragOver: (
@@ -71,8 +86,14 @@ const TabItem: React.FC<TabItemProps> = ({
   title,
   favicon,
   isActive,
+  isPinned = false,
+  isPrivate = false,
+  isSleeping = false,
+  isAudible = false,
+  isMuted = false,
   tab,
   onClose,
+  onToggleMute,
   onActivate,
   onDragStart,
   onDragOver,
@@ -100,44 +121,81 @@ const TabItem: React.FC<TabItemProps> = ({
               onDragOver(e, id, position);
             }}
             className={cn(
-              "w-full",
               "relative flex items-center h-10 select-none rounded-md",
               "text-primary group/tab transition-all duration-200 cursor-pointer",
-              "app-region-no-drag mb-1 gap-2 px-1",
+              "app-region-no-drag",
+              isPinned ? "w-10 justify-center" : "w-full mb-1 gap-2 px-1",
               isActive
                 ? "bg-secondary shadow-subtle dark:bg-secondary dark:shadow-none"
                 : "bg-transparent hover:bg-muted/50 dark:hover:bg-muted/30",
+              isActive && isPrivate && "ring-1 ring-violet-500/50",
               isDragging && "opacity-50",
             )}
             onClick={() => !isActive && onActivate()}
+            title={
+              isSleeping
+                ? "Sleeping to save memory"
+                : isPinned
+                  ? title || "New Tab"
+                  : undefined
+            }
           >
             {/* Favicon */}
-            <div className="shrink-0 size-5 mr-2">
-              <Favicon src={favicon} />
-            </div>
-
-            {/* Title */}
-            <div className="flex-1 min-w-0 overflow-hidden">
-              <span className="text-xs block truncate">
-                {title || "New Tab"}
-              </span>
-            </div>
-
-            {/* Close button (shows on hover or when active) */}
             <div
-              onClick={(e) => {
-                e.stopPropagation();
-                onClose();
-              }}
               className={cn(
-                "shrink-0 p-1 rounded-md transition-opacity ml-1",
-                "hover:bg-muted dark:hover:bg-muted/50",
-                "opacity-0 group-hover/tab:opacity-100",
-                isActive && "opacity-100",
+                "shrink-0 size-5",
+                !isPinned && "mr-2",
+                isSleeping && "opacity-50 grayscale",
               )}
             >
-              <X className="size-3 text-primary dark:text-primary" />
+              <Favicon src={favicon} />
             </div>
+
+            {/* Title and close button (hidden for pinned tabs) */}
+            {!isPinned && (
+              <>
+                <div className="flex-1 min-w-0 overflow-hidden">
+                  <span
+                    className={cn(
+                      "text-xs block truncate",
+                      isSleeping && "text-muted-foreground",
+                    )}
+                  >
+                    {title || "New Tab"}
+                  </span>
+                </div>
+
+                <TabAudioButton
+                  isAudible={isAudible}
+                  isMuted={isMuted}
+                  onToggleMute={onToggleMute}
+                />
+                <div
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onClose();
+                  }}
+                  className={cn(
+                    "shrink-0 p-1 rounded-md transition-opacity ml-1",
+                    "hover:bg-muted dark:hover:bg-muted/50",
+                    "opacity-0 group-hover/tab:opacity-100",
+                    isActive && "opacity-100",
+                  )}
+                >
+                  <X className="size-3 text-primary dark:text-primary" />
+                </div>
+              </>
+            )}
+
+            {/* Audio badge on pinned tabs */}
+            {isPinned && (
+              <TabAudioButton
+                isAudible={isAudible}
+                isMuted={isMuted}
+                onToggleMute={onToggleMute}
+                className="absolute top-0 right-0 p-0.5 rounded-full bg-background"
+              />
+            )}
           </div>
         </ContextMenuTrigger>
         {renderContextMenu(tab)}
@@ -223,6 +281,11 @@ const GroupHeader: React.FC<GroupHeaderProps> = ({
               className="size-3 rounded-full shrink-0"
               style={{ backgroundColor: group.color.hex }}
             />
+            {group.isContainer && (
+              <span title="Isolated container">
+                <Container className="size-3 shrink-0 text-muted-foreground" />
+              </span>
+            )}
             <span className="text-xs truncate flex-1">{group.title}</span>
             <span className="text-xs text-muted-foreground shrink-0">
               ({tabCount})
@@ -247,15 +310,22 @@ export const VerticalTabBar: React.FC = () => {
     createTab,
     closeTab,
     switchTab,
+    setTabPinned,
+    setTabMuted,
     createGroup,
     updateGroup,
     deleteGroup,
+    closeGroup,
     addTabToGroup,
     removeTabFromGroup,
     reorderGroups,
     updateTabPositions,
     organizeTabs,
     isOrganizing,
+    windows,
+    moveTabToWindow,
+    isPrivateWindow,
+    onRunCommand,
   } = useBrowser();
   const [draggedItem, setDraggedItem] = React.useState<DragItem | null>(null);
   const [dropZone, setDropZone] = React.useState<DropZone | null>(null);
@@ -266,7 +336,7 @@ export const VerticalTabBar: React.FC = () => {
   }>({ isOpen: false });
 
   const handleCreateTab = async (): Promise<void> => {
-    await createTab("https://www.google.com");
+    await createTab();
   };
 
   // Handle tab drag start
@@ -404,6 +474,15 @@ export const VerticalTabBar: React.FC = () => {
     setGroupModal({ isOpen: true, tabToAdd: tabId });
   };
 
+  // The "group.new" shortcut puts the active tab in a new group
+  React.useEffect(() => {
+    return onRunCommand((commandId) => {
+      if (commandId !== "group.new") return;
+      const activeTab = tabs.find((tab) => tab.isActive);
+      if (activeTab) setGroupModal({ isOpen: true, tabToAdd: activeTab.id });
+    });
+  }, [onRunCommand, tabs]);
+
   const handleEditGroup = (groupId: string): void => {
     const group = groups.find((g) => g.id === groupId);
     if (group) {
@@ -414,13 +493,18 @@ export const VerticalTabBar: React.FC = () => {
   const handleSaveGroup = async (
     title: string,
     colorId: string,
+    isContainer: boolean,
   ): Promise<void> => {
     if (groupModal.editingGroup) {
       // Edit existing group
-      await updateGroup(groupModal.editingGroup.id, { title, colorId });
+      await updateGroup(groupModal.editingGroup.id, {
+        title,
+        colorId,
+        isContainer,
+      });
     } else {
       // Create new group
-      const newGroup = await createGroup(title, colorId);
+      const newGroup = await createGroup(title, colorId, isContainer);
       // If creating from tab context menu, add the tab to the group
       if (newGroup && groupModal.tabToAdd) {
         await addTabToGroup(groupModal.tabToAdd, newGroup.id);
@@ -429,11 +513,12 @@ export const VerticalTabBar: React.FC = () => {
     setGroupModal({ isOpen: false });
   };
 
-  // Organize tabs by groups
-  const ungroupedTabs = tabs.filter((tab) => !tab.groupId);
+  // Organize tabs by groups; pinned tabs come first, outside their groups
+  const pinnedTabs = tabs.filter((tab) => tab.isPinned);
+  const ungroupedTabs = tabs.filter((tab) => !tab.isPinned && !tab.groupId);
   const groupedTabs = groups.map((group) => ({
     group,
-    tabs: tabs.filter((tab) => tab.groupId === group.id),
+    tabs: tabs.filter((tab) => !tab.isPinned && tab.groupId === group.id),
   }));
 
   // Render tab context menu
@@ -441,8 +526,34 @@ export const VerticalTabBar: React.FC = () => {
     id: string;
     groupId: string | null;
   }): React.ReactNode => {
+    const info = tabs.find((t) => t.id === tab.id);
     return (
       <ContextMenuContent className="w-48">
+        {info && (
+          <>
+            <ContextMenuItem
+              onClick={() => void setTabPinned(tab.id, !info.isPinned)}
+            >
+              {info.isPinned ? (
+                <PinOff className="size-4 mr-2" />
+              ) : (
+                <Pin className="size-4 mr-2" />
+              )}
+              {info.isPinned ? "Unpin Tab" : "Pin Tab"}
+            </ContextMenuItem>
+            <ContextMenuItem
+              onClick={() => void setTabMuted(tab.id, !info.isMuted)}
+            >
+              {info.isMuted ? (
+                <Volume2 className="size-4 mr-2" />
+              ) : (
+                <VolumeX className="size-4 mr-2" />
+              )}
+              {info.isMuted ? "Unmute Tab" : "Mute Tab"}
+            </ContextMenuItem>
+            <ContextMenuSeparator />
+          </>
+        )}
         {tab.groupId ? (
           <ContextMenuItem onClick={() => void removeTabFromGroup(tab.id)}>
             <Ungroup className="size-4 mr-2" />
@@ -478,10 +589,58 @@ export const VerticalTabBar: React.FC = () => {
             </ContextMenuItem>
           </>
         )}
+        <ContextMenuSeparator />
+        <ContextMenuItem disabled>
+          <AppWindow className="size-4 mr-2" />
+          Move to Window
+        </ContextMenuItem>
+        <ContextMenuItem
+          disabled={tabs.length <= 1}
+          onClick={() => void moveTabToWindow(tab.id)}
+          className="pl-8"
+        >
+          New Window
+        </ContextMenuItem>
+        {windows.map((window) => (
+          <ContextMenuItem
+            key={window.id}
+            onClick={() => void moveTabToWindow(tab.id, window.id)}
+            className="pl-8"
+          >
+            <span className="truncate">{window.title}</span>
+          </ContextMenuItem>
+        ))}
       </ContextMenuContent>
     );
   };
 
+  const renderTabItem = (tab: TabInfo): React.ReactNode => (
+    <TabItem
+      key={tab.id}
+      id={tab.id}
+      title={tab.title}
+      favicon={tab.favicon ?? getFavicon(tab.url)}
+      isActive={tab.isActive}
+      isPinned={tab.isPinned}
+      isPrivate={isPrivateWindow}
+      isSleeping={tab.isSleeping}
+      isAudible={tab.isAudible}
+      isMuted={tab.isMuted}
+      tab={tab}
+      onClose={() => void closeTab(tab.id)}
+      onToggleMute={() => void setTabMuted(tab.id, !tab.isMuted)}
+      onActivate={() => void switchTab(tab.id)}
+      onDragStart={handleTabDragStart}
+      onDragOver={handleTabDragOver}
+      isDragging={draggedItem?.type === "tab" && draggedItem.id === tab.id}
+      showDropBefore={
+        dropZone?.type === "before" && dropZone.targetId === tab.id
+      }
+      showDropAfter={dropZone?.type === "after" && dropZone.targetId === tab.id}
+      renderContextMenu={renderTabContextMenu}
+    />
+  );
+
   // Render group context menu
   const renderGroupContextMenu = (group: GroupInfo): React.ReactNode => {
     return (
@@ -495,6 +654,10 @@ export const VerticalTabBar: React.FC = () => {
           Change Color
         </ContextMenuItem>
         <ContextMenuSeparator />
+        <ContextMenuItem onClick={() => void closeGroup(group.id)}>
+          <X className="size-4 mr-2" />
+          Close Group
+        </ContextMenuItem>
         <ContextMenuItem
           onClick={() => void deleteGroup(group.id)}
           variant="destructive"
@@ -514,6 +677,24 @@ export const VerticalTabBar: React.FC = () => {
         onDrop={handleDrop}
         onDragOver={(e) => e.preventDefault()}
       >
+        {/* Private window badge */}
+        {isPrivateWindow && (
+          <div
+            className="flex items-center gap-2 h-8 px-2 mb-2 rounded-md bg-violet-500/15 text-xs font-medium text-violet-700 dark:text-violet-300"
+            title="History, chats and open tabs aren't saved"
+          >
+            <VenetianMask className="size-4" />
+            Private window
+          </div>
+        )}
+
+        {/* Pinned tabs */}
+        {pinnedTabs.length > 0 && (
+          <div className="flex flex-wrap gap-1 pb-2 mb-2 border-b border-border">
+            {pinnedTabs.map(renderTabItem)}
+          </div>
+        )}
+
         {/* Organize Tabs Button */}
         {ungroupedTabs.length >= 3 && (
           <div className="mb-2">
@@ -551,30 +732,7 @@ export const VerticalTabBar: React.FC = () => {
         )}
 
         {/* Ungrouped tabs */}
-        {ungroupedTabs.map((tab) => (
-          <TabItem
-            key={tab.id}
-            id={tab.id}
-            title={tab.title}
-            favicon={getFavicon(tab.url)}
-            isActive={tab.isActive}
-            tab={tab}
-            onClose={() => void closeTab(tab.id)}
-            onActivate={() => void switchTab(tab.id)}
-            onDragStart={handleTabDragStart}
-            onDragOver={handleTabDragOver}
-            isDragging={
-              draggedItem?.type === "tab" && draggedItem.id === tab.id
-            }
-            showDropBefore={
-              dropZone?.type === "before" && dropZone.targetId === tab.id
-            }
-            showDropAfter={
-              dropZone?.type === "after" && dropZone.targetId === tab.id
-            }
-            renderContextMenu={renderTabContextMenu}
-          />
-        ))}
+        {ungroupedTabs.map(renderTabItem)}
 
         {/* Grouped tabs */}
         {groupedTabs.map(
@@ -603,33 +761,7 @@ export const VerticalTabBar: React.FC = () => {
                   }
                   renderContextMenu={renderGroupContextMenu}
                 />
-                {!group.isCollapsed &&
-                  groupTabs.map((tab) => (
-                    <TabItem
-                      key={tab.id}
-                      id={tab.id}
-                      title={tab.title}
-                      favicon={getFavicon(tab.url)}
-                      isActive={tab.isActive}
-                      tab={tab}
-                      onClose={() => void closeTab(tab.id)}
-                      onActivate={() => void switchTab(tab.id)}
-                      onDragStart={handleTabDragStart}
-                      onDragOver={handleTabDragOver}
-                      isDragging={
-                        draggedItem?.type === "tab" && draggedItem.id === tab.id
-                      }
-                      showDropBefore={
-                        dropZone?.type === "before" &&
-                        dropZone.targetId === tab.id
-                      }
-                      showDropAfter={
-                        dropZone?.type === "after" &&
-                        dropZone.targetId === tab.id
-                      }
-                      renderContextMenu={renderTabContextMenu}
-                    />
-                  ))}
+                {!group.isCollapsed && groupTabs.map(renderTabItem)}
               </div>
             ),
         )}
@@ -672,6 +804,7 @@ export const VerticalTabBar: React.FC = () => {
         onClose={() => setGroupModal({ isOpen: false })}
         onSave={handleSaveGroup}
         existingGroup={groupModal.editingGroup}
+        canBeContainer={!isPrivateWindow}
         title={groupModal.editingGroup ? "Edit Group" : "Create New Group"}
       />
     </div>
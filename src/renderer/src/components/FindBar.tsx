@@ -0,0 +1,140 @@
+import type { FindInPageResult } from "@preload/global.d";
+import { ToolBarButton } from "@renderer/components/ToolBarButton";
+import { useBrowser } from "@renderer/contexts/BrowserContext";
+import { cn } from "@renderer/lib/utils";
+import { CaseSensitive, ChevronDown, ChevronUp, X } from "lucide-react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+
+interface FindBarProps {
+  className?: string;
+}
+
+// Find-in-page bar for the active tab, opened with Cmd/Ctrl+F
+export const FindBar: React.FC<FindBarProps> = ({ className }) => {
+  const { findInPage, stopFindInPage, onFindBarOpen, onFindReset } =
+    useBrowser();
+  const [isOpen, setIsOpen] = useState(false);
+  const [text, setText] = useState("");
+  const [matchCase, setMatchCase] = useState(false);
+  const [result, setResult] = useState<FindInPageResult | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const requestRef = useRef(0);
+
+  const search = useCallback(
+    async (
+      query: string,
+      options: { forward?: boolean; findNext?: boolean; matchCase: boolean },
+    ) => {
+      const request = ++requestRef.current;
+      if (!query) {
+        setResult(null);
+        await stopFindInPage();
+        return;
+      }
+      const found = await findInPage(query, options);
+      // Ignore results of searches that have since been replaced
+      if (request === requestRef.current) {
+        setResult(found);
+      }
+    },
+    [findInPage, stopFindInPage],
+  );
+
+  // Cmd/Ctrl+F opens the bar, or refocuses it with the query selected
+  useEffect(() => {
+    return onFindBarOpen(() => {
+      setIsOpen(true);
+      setTimeout(() => inputRef.current?.select(), 0);
+    });
+  }, [onFindBarOpen]);
+
+  // The active tab changed or loaded a new page; search it again
+  useEffect(() => {
+    return onFindReset(() => {
+      setResult(null);
+      if (isOpen && text) {
+        void search(text, { matchCase });
+      }
+    });
+  }, [onFindReset, isOpen, text, matchCase, search]);
+
+  const close = (): void => {
+    requestRef.current++;
+    setIsOpen(false);
+    setResult(null);
+    void stopFindInPage();
+  };
+
+  const step = (forward: boolean): void => {
+    if (!text) return;
+    void search(text, { forward, findNext: true, matchCase });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>): void => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      step(!e.shiftKey);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      close();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-1 h-8 pl-2 pr-1 rounded-md bg-muted app-region-no-drag",
+        className,
+      )}
+    >
+      <input
+        ref={inputRef}
+        type="text"
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          void search(e.target.value, { matchCase });
+        }}
+        onKeyDown={handleKeyDown}
+        placeholder="Find in page"
+        spellCheck={false}
+        autoFocus
+        className="flex-1 min-w-0 bg-transparent text-xs text-foreground outline-hidden placeholder:text-muted-foreground"
+      />
+      {result && (
+        <span
+          className={cn(
+            "shrink-0 text-xs tabular-nums",
+            result.matches === 0 ? "text-destructive" : "text-muted-foreground",
+          )}
+        >
+          {result.activeMatch} of {result.matches}
+        </span>
+      )}
+      <ToolBarButton
+        Icon={CaseSensitive}
+        toggled={matchCase}
+        onClick={() => {
+          setMatchCase(!matchCase);
+          void search(text, { matchCase: !matchCase });
+        }}
+        className="size-6 shrink-0"
+      />
+      <ToolBarButton
+        Icon={ChevronUp}
+        active={!!result && result.matches > 0}
+        onClick={() => step(false)}
+        className="size-6 shrink-0"
+      />
+      <ToolBarButton
+        Icon={ChevronDown}
+        active={!!result && result.matches > 0}
+        onClick={() => step(true)}
+        className="size-6 shrink-0"
+      />
+      <ToolBarButton Icon={X} onClick={close} className="size-6 shrink-0" />
+    </div>
+  );
+};
@@ -1,7 +1,7 @@
 import { cn } from "@renderer/lib/utils";
 
 import type { GroupColor, GroupInfo } from "@preload/global.d";
-import { Check, X } from "lucide-react";
+import { Check, Container, X } from "lucide-react";
 import React, { useEffect, useState } from "react";
 
 const GROUP_COLORS: GroupColor[] = [
@@ -19,9 +19,11 @@ const GROUP_COLORS: GroupColor[] = [
 interface GroupModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (title: string, colorId: string) => void;
+  onSave: (title: string, colorId: string, isContainer: boolean) => void;
   existingGroup?: GroupInfo;
   title?: string;
+  // Private windows have no containers
+  canBeContainer?: boolean;
 }
 
 export const GroupModal: React.FC<GroupModalProps> = ({
@@ -30,11 +32,13 @@ export const GroupModal: React.FC<GroupModalProps> = ({
   onSave,
   existingGroup,
   title = "Create Group",
+  canBeContainer = true,
 }) => {
   const [groupTitle, setGroupTitle] = useState("");
   const [selectedColor, setSelectedColor] = useState<GroupColor>(
     GROUP_COLORS[6],
   );
+  const [isContainer, setIsContainer] = useState(false);
 
   // Reset form when modal opens
   useEffect(() => {
@@ -42,9 +46,11 @@ export const GroupModal: React.FC<GroupModalProps> = ({
       if (existingGroup) {
         setGroupTitle(existingGroup.title);
         setSelectedColor(existingGroup.color);
+        setIsContainer(existingGroup.isContainer);
       } else {
         setGroupTitle("");
         setSelectedColor(GROUP_COLORS[6]);
+        setIsContainer(false);
       }
     }
   }, [isOpen, existingGroup]);
@@ -68,7 +74,7 @@ export const GroupModal: React.FC<GroupModalProps> = ({
   const handleSubmit = (e: React.FormEvent): void => {
     e.preventDefault();
     if (groupTitle.trim()) {
-      onSave(groupTitle.trim(), selectedColor.id);
+      onSave(groupTitle.trim(), selectedColor.id, isContainer);
       onClose();
     }
   };
@@ -135,6 +141,29 @@ export const GroupModal: React.FC<GroupModalProps> = ({
             </div>
           </div>
 
+          {/* Container */}
+          {canBeContainer && (
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={isContainer}
+                onChange={(e) => setIsContainer(e.target.checked)}
+                className="mt-1"
+              />
+              <div className="text-sm">
+                <div className="flex items-center gap-1.5 font-medium">
+                  <Container className="size-4" />
+                  Isolated container
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Tabs in this group get their own cookies and site data, so you
+                  can be signed in to another account. Tabs reload when they
+                  move in or out.
+                </p>
+              </div>
+            </label>
+          )}
+
           {/* Actions */}
           <div className="flex gap-2 justify-end pt-2">
             <button
@@ -0,0 +1,311 @@
+import type { OmniboxResult, OmniboxSuggestion } from "@preload/global.d";
+import { Favicon } from "@renderer/components/Favicon";
+import { useBrowser } from "@renderer/contexts/BrowserContext";
+import { cn, getFavicon } from "@renderer/lib/utils";
+import { AppWindow, Globe, Search, Sparkles, Star } from "lucide-react";
+import React, { useEffect, useLayoutEffect, useRef, useState } from "react";
+
+interface OmniboxProps {
+  // What the input starts out with, usually the active tab's URL
+  initialValue: string;
+  placeholder?: string;
+  disabled?: boolean;
+  // Editing ended: the input lost focus, Escape was pressed or a
+  // suggestion was opened
+  onClose: () => void;
+  // How far down the page the suggestions reach, 0 once they're gone
+  onDropdownBottomChange?: (bottom: number) => void;
+  className?: string;
+}
+
+// Related pages and search suggestions are only asked for once typing pauses
+const SLOW_SOURCES_DELAY = 200; // ms
+
+// The page's address, as shown under a suggestion's title
+const getDisplayUrl = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    return (
+      parsed.hostname.replace(/^www\./, "") +
+      (parsed.pathname === "/" ? "" : parsed.pathname)
+    );
+  } catch {
+    return url;
+  }
+};
+
+const SuggestionIcon: React.FC<{ suggestion: OmniboxSuggestion }> = ({
+  suggestion,
+}) => {
+  if (suggestion.type === "search") {
+    return <Search className="size-4 text-muted-foreground" />;
+  }
+  if (suggestion.type === "url") {
+    return <Globe className="size-4 text-muted-foreground" />;
+  }
+  return (
+    <div className="size-4">
+      <Favicon src={suggestion.favicon ?? getFavicon(suggestion.url)} />
+    </div>
+  );
+};
+
+const SuggestionRow: React.FC<{
+  suggestion: OmniboxSuggestion;
+  isSelected: boolean;
+  onSelect: () => void;
+  onOpen: () => void;
+}> = ({ suggestion, isSelected, onSelect, onOpen }) => {
+  const isSearch = suggestion.type === "search";
+  return (
+    <div
+      role="option"
+      aria-selected={isSelected}
+      onMouseEnter={onSelect}
+      // Keep focus in the input so the dropdown stays open
+      onMouseDown={(e) => e.preventDefault()}
+      onClick={onOpen}
+      className={cn(
+        "flex items-center gap-2 px-2 h-8 rounded-md cursor-default text-xs",
+        isSelected && "bg-muted dark:bg-muted/50",
+      )}
+    >
+      <div className="size-4 shrink-0 flex items-center justify-center">
+        <SuggestionIcon suggestion={suggestion} />
+      </div>
+      <span className="truncate text-foreground">
+        {suggestion.title || getDisplayUrl(suggestion.url)}
+      </span>
+      <span className="flex-1 min-w-0 truncate text-muted-foreground">
+        {isSearch
+          ? `– ${suggestion.engine ?? "Web"} Search`
+          : suggestion.type !== "url" && `– ${getDisplayUrl(suggestion.url)}`}
+      </span>
+      {suggestion.type === "tab" && (
+        <span className="shrink-0 flex items-center gap-1 text-primary">
+          <AppWindow className="size-3" />
+          Switch to tab
+        </span>
+      )}
+      {suggestion.type === "bookmark" && (
+        <Star className="size-3 shrink-0 fill-current text-primary" />
+      )}
+      {suggestion.type === "related" && (
+        <span title="Related by meaning">
+          <Sparkles className="size-3 shrink-0 text-primary" />
+        </span>
+      )}
+    </div>
+  );
+};
+
+// Address bar input with ranked suggestions below it. The best matching
+// page address is completed inline as you type.
+export const Omnibox: React.FC<OmniboxProps> = ({
+  initialValue,
+  placeholder,
+  disabled,
+  onClose,
+  onDropdownBottomChange,
+  className,
+}) => {
+  const { navigateToUrl, switchToTab, getOmniboxSuggestions } = useBrowser();
+  const [text, setText] = useState(initialValue);
+  // Selected text after what was typed, completing it to the first suggestion
+  const [completion, setCompletion] = useState("");
+  const [result, setResult] = useState<OmniboxResult | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [isEdited, setIsEdited] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+  const requestRef = useRef(0);
+  // Deleting shouldn't bring the completion straight back
+  const suppressCompletionRef = useRef(false);
+
+  // Suggestions only count for the text they were made for
+  const suggestions = result?.input === text ? result.suggestions : [];
+
+  // Start with the current address selected, ready to be replaced
+  useEffect(() => {
+    inputRef.current?.select();
+  }, []);
+
+  // Ask for suggestions once the text is edited
+  useEffect(() => {
+    if (!isEdited) return;
+
+    const request = ++requestRef.current;
+    const allowCompletion = !suppressCompletionRef.current;
+    suppressCompletionRef.current = false;
+
+    const apply = (next: OmniboxResult | null): void => {
+      if (!next || request !== requestRef.current) return;
+      setResult(next);
+      setSelectedIndex((index) =>
+        Math.min(index, Math.max(0, next.suggestions.length - 1)),
+      );
+      if (allowCompletion) setCompletion(next.inlineCompletion);
+    };
+
+    void getOmniboxSuggestions(text).then(apply);
+    const timer = setTimeout(() => {
+      void getOmniboxSuggestions(text, true).then(apply);
+    }, SLOW_SOURCES_DELAY);
+    return () => clearTimeout(timer);
+  }, [text, isEdited, getOmniboxSuggestions]);
+
+  // Keep the completed part selected so typing over it replaces it
+  useLayoutEffect(() => {
+    if (completion && inputRef.current) {
+      inputRef.current.setSelectionRange(
+        text.length,
+        text.length + completion.length,
+      );
+    }
+  }, [text, completion]);
+
+  // Let the bar make room for the suggestions
+  useLayoutEffect(() => {
+    onDropdownBottomChange?.(
+      dropdownRef.current?.getBoundingClientRect().bottom ?? 0,
+    );
+  }, [suggestions.length, onDropdownBottomChange]);
+
+  useEffect(() => {
+    return () => onDropdownBottomChange?.(0);
+  }, [onDropdownBottomChange]);
+
+  const close = (): void => {
+    inputRef.current?.blur();
+    onClose();
+  };
+
+  const openSuggestion = (suggestion: OmniboxSuggestion): void => {
+    if (suggestion.type === "tab" && suggestion.tabId) {
+      void switchToTab(suggestion.tabId);
+    } else {
+      void navigateToUrl(suggestion.url);
+    }
+    close();
+  };
+
+  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    const selected = suggestions[selectedIndex];
+    if (selected) {
+      openSuggestion(selected);
+      return;
+    }
+
+    // Submitted before suggestions came back: go where the text points
+    const input = text + completion;
+    if (!input.trim()) return;
+    const next = await getOmniboxSuggestions(input);
+    const typed =
+      next?.suggestions.find(
+        (suggestion) =>
+          suggestion.type === "url" || suggestion.type === "search",
+      ) ?? next?.suggestions[0];
+    if (typed) openSuggestion(typed);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+    setText(e.target.value);
+    setCompletion("");
+    setSelectedIndex(0);
+    setIsEdited(true);
+  };
+
+  const moveSelection = (step: number): void => {
+    if (suggestions.length === 0) return;
+    setCompletion("");
+    setSelectedIndex(
+      (index) => (index + step + suggestions.length) % suggestions.length,
+    );
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>): void => {
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        moveSelection(1);
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        moveSelection(-1);
+        break;
+      case "Backspace":
+      case "Delete":
+        if (completion) {
+          // Drop the completion and keep what was typed
+          e.preventDefault();
+          setCompletion("");
+        } else {
+          suppressCompletionRef.current = true;
+        }
+        break;
+      case "ArrowRight":
+      case "End":
+        // Accept the completion as if it had been typed
+        if (completion) {
+          suppressCompletionRef.current = true;
+          setText(text + completion);
+          setCompletion("");
+        }
+        break;
+      case "Escape":
+        // Close the suggestions first, then stop editing
+        if (suggestions.length > 0) {
+          setResult(null);
+          setCompletion("");
+        } else {
+          close();
+        }
+        break;
+    }
+  };
+
+  return (
+    <form
+      onSubmit={(e) => void handleSubmit(e)}
+      className={cn("relative app-region-no-drag", className)}
+    >
+      <div className="bg-background rounded-lg shadow-md p-1 dark:bg-secondary">
+        <input
+          ref={inputRef}
+          type="text"
+          value={text + completion}
+          onChange={handleChange}
+          onBlur={onClose}
+          onKeyDown={handleKeyDown}
+          className="w-full px-1 py-0.5 text-xs outline-hidden bg-transparent text-foreground truncate"
+          placeholder={placeholder}
+          disabled={disabled}
+          spellCheck={false}
+          autoFocus
+          role="combobox"
+          aria-expanded={suggestions.length > 0}
+          aria-autocomplete="both"
+        />
+      </div>
+
+      {suggestions.length > 0 && (
+        <div
+          ref={dropdownRef}
+          role="listbox"
+          className="absolute left-0 right-0 top-full mt-1 z-50 p-1 bg-background border border-border rounded-lg shadow-lg dark:bg-secondary"
+        >
+          {suggestions.map((suggestion, index) => (
+            <SuggestionRow
+              key={`${suggestion.type}:${suggestion.tabId ?? suggestion.url}`}
+              suggestion={suggestion}
+              isSelected={index === selectedIndex}
+              onSelect={() => setSelectedIndex(index)}
+              onOpen={() => openSuggestion(suggestion)}
+            />
+          ))}
+        </div>
+      )}
+    </form>
+  );
+};
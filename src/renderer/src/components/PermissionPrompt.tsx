@@ -0,0 +1,102 @@
+import type { SitePermission } from "@preload/global.d";
+import { ToolBarButton } from "@renderer/components/ToolBarButton";
+import { Button } from "@renderer/components/ui/button";
+import { useBrowser } from "@renderer/contexts/BrowserContext";
+import { cn } from "@renderer/lib/utils";
+import { Bell, Camera, MapPin, Mic, X, type LucideIcon } from "lucide-react";
+import React from "react";
+
+interface PermissionPromptProps {
+  className?: string;
+  // Put the buttons below the message, for narrow bars
+  stacked?: boolean;
+}
+
+const PERMISSION_NAMES: Record<SitePermission, string> = {
+  camera: "your camera",
+  microphone: "your microphone",
+  geolocation: "your location",
+  notifications: "show notifications",
+};
+
+const PERMISSION_ICONS: Record<SitePermission, LucideIcon> = {
+  camera: Camera,
+  microphone: Mic,
+  geolocation: MapPin,
+  notifications: Bell,
+};
+
+const describe = (permissions: SitePermission[]): string => {
+  if (permissions.length === 1 && permissions[0] === "notifications") {
+    return "wants to show notifications";
+  }
+  const names = permissions.map((permission) => PERMISSION_NAMES[permission]);
+  const list =
+    names.length > 1
+      ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`
+      : names[0];
+  return `wants to use ${list}`;
+};
+
+// Asks whether the active tab's site may use the camera, microphone,
+// location or notifications. Allow and Block are remembered for the site.
+export const PermissionPrompt: React.FC<PermissionPromptProps> = ({
+  className,
+  stacked = false,
+}) => {
+  const { activeTab, respondToPermissionRequest } = useBrowser();
+  const request = activeTab?.permissionRequest;
+  if (!request) return null;
+
+  let host = request.origin;
+  try {
+    host = new URL(request.origin).host;
+  } catch {
+    // Keep the origin
+  }
+  const Icon = PERMISSION_ICONS[request.permissions[0]];
+  const message = `${host} ${describe(request.permissions)}`;
+
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-2 pl-2 pr-1 rounded-md bg-muted text-xs app-region-no-drag",
+        stacked ? "flex-wrap py-1.5" : "h-8",
+        className,
+      )}
+    >
+      <Icon className="size-4 shrink-0 text-primary" />
+      <span
+        title={message}
+        className={cn(
+          "flex-1 min-w-0 text-foreground",
+          stacked ? "basis-[calc(100%-1.5rem)]" : "truncate",
+        )}
+      >
+        <span className="font-medium">{host}</span>{" "}
+        {describe(request.permissions)}
+      </span>
+      {stacked && <span className="flex-1" />}
+      <Button
+        size="sm"
+        variant="outline"
+        className="h-6 px-2 text-xs shrink-0"
+        onClick={() => void respondToPermissionRequest(request.id, "block")}
+      >
+        Block
+      </Button>
+      <Button
+        size="sm"
+        className="h-6 px-2 text-xs shrink-0"
+        onClick={() => void respondToPermissionRequest(request.id, "allow")}
+      >
+        Allow
+      </Button>
+      <ToolBarButton
+        Icon={X}
+        onClick={() => void respondToPermissionRequest(request.id, null)}
+        className="size-6 shrink-0"
+      />
+    </div>
+  );
+};
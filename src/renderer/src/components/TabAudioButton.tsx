@@ -0,0 +1,43 @@
+import { cn } from "@renderer/lib/utils";
+import { Volume2, VolumeX } from "lucide-react";
+import React from "react";
+
+interface TabAudioButtonProps {
+  isAudible: boolean;
+  isMuted: boolean;
+  onToggleMute: () => void;
+  className?: string;
+}
+
+// Speaker shown on tabs playing sound, or crossed out on muted tabs.
+// Clicking it mutes or unmutes the tab without switching to it.
+export const TabAudioButton: React.FC<TabAudioButtonProps> = ({
+  isAudible,
+  isMuted,
+  onToggleMute,
+  className,
+}) => {
+  if (!isAudible && !isMuted) return null;
+  const Icon = isMuted ? VolumeX : Volume2;
+
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        onToggleMute();
+      }}
+      title={isMuted ? "Unmute tab" : "Mute tab"}
+      className={cn(
+        "shrink-0 p-1 rounded-md hover:bg-muted dark:hover:bg-muted/50",
+        className,
+      )}
+    >
+      <Icon
+        className={cn(
+          "size-3",
+          isMuted ? "text-muted-foreground" : "text-primary",
+        )}
+      />
+    </button>
+  );
+};
@@ -1,4 +1,13 @@
-import { BrowserAPI, GroupInfo, TabInfo } from "@preload/global.d";
+import {
+  BrowserAPI,
+  FindInPageOptions,
+  FindInPageResult,
+  GroupInfo,
+  GroupUpdates,
+  OmniboxResult,
+  TabInfo,
+  WindowInfo,
+} from "@preload/global.d";
 import React, {
   createContext,
   useCallback,
@@ -10,6 +19,10 @@ import React, {
 interface BrowserContextType {
   tabs: TabInfo[];
   groups: GroupInfo[];
+  // Other open windows
+  windows: WindowInfo[];
+  // Whether this window browses privately
+  isPrivateWindow: boolean;
   activeTab: TabInfo | null;
   isLoading: boolean;
   isPanelVisible: boolean;
@@ -18,16 +31,21 @@ interface BrowserContextType {
   createTab: (url?: string) => Promise<void>;
   closeTab: (tabId: string) => Promise<void>;
   switchTab: (tabId: string) => Promise<void>;
+  setTabPinned: (tabId: string, pinned: boolean) => Promise<void>;
+  setTabMuted: (tabId: string, muted: boolean) => Promise<void>;
   reorderTabs: (orderedTabIds: string[]) => Promise<void>;
   refreshTabs: () => Promise<void>;
+  moveTabToWindow: (tabId: string, windowId?: string) => Promise<void>;
 
   // Group management
-  createGroup: (title: string, colorId?: string) => Promise<GroupInfo | null>;
+  createGroup: (
+    title: string,
+    colorId?: string,
+    isContainer?: boolean,
+  ) => Promise<GroupInfo | null>;
   deleteGroup: (groupId: string) => Promise<void>;
-  updateGroup: (
-    groupId: string,
-    updates: { title?: string; colorId?: string; isCollapsed?: boolean },
-  ) => Promise<void>;
+  closeGroup: (groupId: string) => Promise<void>;
+  updateGroup: (groupId: string, updates: GroupUpdates) => Promise<void>;
   addTabToGroup: (tabId: string, groupId: string) => Promise<void>;
   removeTabFromGroup: (tabId: string) => Promise<void>;
   refreshGroups: () => Promise<void>;
@@ -46,6 +64,35 @@ interface BrowserContextType {
   // Tab actions
   takeScreenshot: (tabId: string) => Promise<string | null>;
   runJavaScript: (tabId: string, code: string) => Promise<void | null>;
+  showPopupMenu: (tabId: string) => Promise<void>;
+  toggleBookmark: (tabId: string) => Promise<void>;
+
+  // Site permissions
+  respondToPermissionRequest: (
+    requestId: string,
+    decision: "allow" | "block" | null,
+  ) => Promise<void>;
+  showSiteInfoMenu: (tabId: string) => Promise<void>;
+  showZoomMenu: (tabId: string) => Promise<void>;
+
+  // Find in page
+  findInPage: (
+    text: string,
+    options?: FindInPageOptions,
+  ) => Promise<FindInPageResult | null>;
+  stopFindInPage: () => Promise<void>;
+  onFindBarOpen: (callback: () => void) => () => void;
+  onFindReset: (callback: () => void) => () => void;
+
+  // Commands carried out by the bar, such as "address-bar.focus"
+  onRunCommand: (callback: (commandId: string) => void) => () => void;
+
+  // Address bar suggestions
+  getOmniboxSuggestions: (
+    input: string,
+    withSlowSources?: boolean,
+  ) => Promise<OmniboxResult | null>;
+  switchToTab: (tabId: string) => Promise<void>;
 
   // Panel
   togglePanel: () => Promise<void>;
@@ -72,6 +119,8 @@ export const BrowserProvider: React.FC<BrowserProviderProps> = ({
 }) => {
   const [tabs, setTabs] = useState<TabInfo[]>([]);
   const [groups, setGroups] = useState<GroupInfo[]>([]);
+  const [windows, setWindows] = useState<WindowInfo[]>([]);
+  const [isPrivateWindow, setIsPrivateWindow] = useState(false);
   const [isOrganizing, setIsOrganizing] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [isPanelVisible, setIsPanelVisible] = useState(true);
@@ -96,6 +145,14 @@ export const BrowserProvider: React.FC<BrowserProviderProps> = ({
     }
   }, [api]);
 
+  const refreshWindows = useCallback(async () => {
+    try {
+      setWindows(await api.getWindows());
+    } catch (error) {
+      console.error("Failed to refresh windows:", error);
+    }
+  }, [api]);
+
   const createTab = useCallback(
     async (url?: string) => {
       setIsLoading(true);
@@ -145,6 +202,19 @@ export const BrowserProvider: React.FC<BrowserProviderProps> = ({
     [api, refreshTabs],
   );
 
+  const moveTabToWindow = useCallback(
+    async (tabId: string, windowId?: string) => {
+      try {
+        await api.moveTabToWindow(tabId, windowId);
+        await refreshTabs();
+        await refreshWindows();
+      } catch (error) {
+        console.error("Failed to move tab:", error);
+      }
+    },
+    [api, refreshTabs, refreshWindows],
+  );
+
   const reorderTabs = useCallback(
     async (orderedTabIds: string[]) => {
       try {
@@ -242,6 +312,132 @@ export const BrowserProvider: React.FC<BrowserProviderProps> = ({
     [api],
   );
 
+  const showPopupMenu = useCallback(
+    async (tabId: string) => {
+      try {
+        await api.showPopupMenu(tabId);
+        // Allowing a site changes what the address bar shows
+        await refreshTabs();
+      } catch (error) {
+        console.error("Failed to show popup menu:", error);
+      }
+    },
+    [api, refreshTabs],
+  );
+
+  const setTabPinned = useCallback(
+    async (tabId: string, pinned: boolean) => {
+      try {
+        await api.setTabPinned(tabId, pinned);
+        await refreshTabs();
+      } catch (error) {
+        console.error("Failed to pin tab:", error);
+      }
+    },
+    [api, refreshTabs],
+  );
+
+  const setTabMuted = useCallback(
+    async (tabId: string, muted: boolean) => {
+      try {
+        await api.setTabMuted(tabId, muted);
+        await refreshTabs();
+      } catch (error) {
+        console.error("Failed to mute tab:", error);
+      }
+    },
+    [api, refreshTabs],
+  );
+
+  const toggleBookmark = useCallback(
+    async (tabId: string) => {
+      try {
+        await api.toggleBookmark(tabId);
+        await refreshTabs();
+      } catch (error) {
+        console.error("Failed to toggle bookmark:", error);
+      }
+    },
+    [api, refreshTabs],
+  );
+
+  const respondToPermissionRequest = useCallback(
+    async (requestId: string, decision: "allow" | "block" | null) => {
+      try {
+        await api.respondToPermissionRequest(requestId, decision);
+      } catch (error) {
+        console.error("Failed to answer permission request:", error);
+      }
+    },
+    [api],
+  );
+
+  const showSiteInfoMenu = useCallback(
+    async (tabId: string) => {
+      try {
+        await api.showSiteInfoMenu(tabId);
+      } catch (error) {
+        console.error("Failed to show site info menu:", error);
+      }
+    },
+    [api],
+  );
+
+  const showZoomMenu = useCallback(
+    async (tabId: string) => {
+      try {
+        await api.showZoomMenu(tabId);
+      } catch (error) {
+        console.error("Failed to show zoom menu:", error);
+      }
+    },
+    [api],
+  );
+
+  const findInPage = useCallback(
+    async (text: string, options?: FindInPageOptions) => {
+      try {
+        return await api.findInPage(text, options);
+      } catch (error) {
+        console.error("Failed to find in page:", error);
+        return null;
+      }
+    },
+    [api],
+  );
+
+  const stopFindInPage = useCallback(async () => {
+    try {
+      await api.stopFindInPage();
+    } catch (error) {
+      console.error("Failed to stop find in page:", error);
+    }
+  }, [api]);
+
+  const getOmniboxSuggestions = useCallback(
+    async (input: string, withSlowSources?: boolean) => {
+      try {
+        return await api.getOmniboxSuggestions(input, withSlowSources);
+      } catch (error) {
+        console.error("Failed to get suggestions:", error);
+        return null;
+      }
+    },
+    [api],
+  );
+
+  const switchToTab = useCallback(
+    async (tabId: string) => {
+      try {
+        await api.switchToTab(tabId);
+        await refreshTabs();
+      } catch (error) {
+        console.error("Failed to switch to tab:", error);
+      }
+    },
+    [api, refreshTabs],
+  );
+
   const togglePanel = useCallback(async () => {
     try {
       const newVisibility = await api.togglePanel();
@@ -265,9 +461,13 @@ export const BrowserProvider: React.FC<BrowserProviderProps> = ({
 
   // Group management
   const createGroup = useCallback(
-    async (title: string, colorId?: string): Promise<GroupInfo | null> => {
+    async (
+      title: string,
+      colorId?: string,
+      isContainer?: boolean,
+    ): Promise<GroupInfo | null> => {
       try {
-        const newGroup = await api.createGroup(title, colorId);
+        const newGroup = await api.createGroup(title, colorId, isContainer);
         await refreshGroups();
         return newGroup;
       } catch (error) {
@@ -291,19 +491,31 @@ export const BrowserProvider: React.FC<BrowserProviderProps> = ({
     [api, refreshGroups, refreshTabs],
   );
 
+  const closeGroup = useCallback(
+    async (groupId: string) => {
+      try {
+        await api.closeGroup(groupId);
+        await refreshGroups();
+        await refreshTabs();
+      } catch (error) {
+        console.error("Failed to close group:", error);
+      }
+    },
+    [api, refreshGroups, refreshTabs],
+  );
+
   const updateGroup = useCallback(
-    async (
-      groupId: string,
-      updates: { title?: string; colorId?: string; isCollapsed?: boolean },
-    ) => {
+    async (groupId: string, updates: GroupUpdates) => {
       try {
         await api.updateGroup(groupId, updates);
+        // Switching containers reopens the group's tabs
+        if (updates.isContainer !== undefined) await refreshTabs();
         await refreshGroups();
       } catch (error) {
         console.error("Failed to update group:", error);
       }
     },
-    [api, refreshGroups],
+    [api, refreshGroups, refreshTabs],
   );
 
   const addTabToGroup = useCallback(
@@ -391,33 +603,78 @@ export const BrowserProvider: React.FC<BrowserProviderProps> = ({
     return cleanup;
   }, [api]);
 
-  // Periodic refresh to keep tabs and groups in sync
+  // Permission prompts appear and go away as soon as requests change
+  useEffect(() => {
+    return api.onPermissionRequestsChanged(() => {
+      void refreshTabs();
+    });
+  }, [api, refreshTabs]);
+
+  // Keep the zoom indicator in step with shortcuts and Ctrl+wheel
+  useEffect(() => {
+    return api.onZoomChanged(() => {
+      void refreshTabs();
+    });
+  }, [api, refreshTabs]);
+
+  // Audio indicators follow pages starting and stopping sound
+  useEffect(() => {
+    return api.onTabAudioChanged(() => {
+      void refreshTabs();
+    });
+  }, [api, refreshTabs]);
+
+  // Commands from the menu and shortcuts may switch tabs or change groups
+  useEffect(() => {
+    return api.onRunCommand(() => {
+      void refreshTabs();
+      void refreshGroups();
+    });
+  }, [api, refreshTabs, refreshGroups]);
+
+  // Periodic refresh to keep tabs, groups and windows in sync
   useEffect(() => {
     const interval = setInterval(() => {
       void refreshTabs();
       void refreshGroups();
+      void refreshWindows();
     }, 2000); // Refresh every 2 seconds
     return () => clearInterval(interval);
-  }, [refreshTabs, refreshGroups]);
+  }, [refreshTabs, refreshGroups, refreshWindows]);
 
   // Initial load
   useEffect(() => {
     void refreshGroups();
-  }, [refreshGroups]);
+    void refreshWindows();
+  }, [refreshGroups, refreshWindows]);
+
+  // A window stays private or regular for its whole life
+  useEffect(() => {
+    api
+      .isPrivateWindow()
+      .then(setIsPrivateWindow)
+      .catch((error) => console.error("Failed to get window mode:", error));
+  }, [api]);
 
   const value: BrowserContextType = {
     tabs,
     groups,
+    windows,
+    isPrivateWindow,
     activeTab,
     isLoading,
     isPanelVisible,
     createTab,
     closeTab,
     switchTab,
+    setTabPinned,
+    setTabMuted,
     reorderTabs,
     refreshTabs,
+    moveTabToWindow,
     createGroup,
     deleteGroup,
+    closeGroup,
     updateGroup,
     addTabToGroup,
     removeTabFromGroup,
@@ -433,6 +690,18 @@ export const BrowserProvider: React.FC<BrowserProviderProps> = ({
     stop,
     takeScreenshot,
     runJavaScript,
+    showPopupMenu,
+    toggleBookmark,
+    respondToPermissionRequest,
+    showSiteInfoMenu,
+    showZoomMenu,
+    findInPage,
+    stopFindInPage,
+    onFindBarOpen: api.onFindBarOpen,
+    onFindReset: api.onFindReset,
+    onRunCommand: api.onRunCommand,
+    getOmniboxSuggestions,
+    switchToTab,
     togglePanel,
   };
 
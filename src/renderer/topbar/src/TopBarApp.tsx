@@ -1,3 +1,5 @@
+import { FindBar } from "@renderer/components/FindBar";
+import { PermissionPrompt } from "@renderer/components/PermissionPrompt";
 import { BrowserProvider } from "@renderer/contexts/BrowserContext";
 import React from "react";
 import { AddressBar } from "./components/AddressBar";
@@ -15,6 +17,8 @@ export const TopBarApp: React.FC = () => {
         {/* Toolbar */}
         <div className="flex items-center h-12 px-2 border-b border-border dark:border-border gap-2 app-region-drag bg-background shadow-subtle z-10 dark:shadow-[0_0_6px_rgba(0,0,0,0.2)]">
           <AddressBar />
+          <PermissionPrompt className="w-96 shrink-0" />
+          <FindBar className="w-72 shrink-0" />
         </div>
       </div>
     </BrowserProvider>
@@ -2,71 +2,60 @@ import { cn, getFavicon } from "@renderer/lib/utils";
 
 import { DarkModeToggle } from "@renderer/components/DarkModeToggle";
 import { Favicon } from "@renderer/components/Favicon";
+import { Omnibox } from "@renderer/components/Omnibox";
 import { ToolBarButton } from "@renderer/components/ToolBarButton";
 import { useBrowser } from "@renderer/contexts/BrowserContext";
 import {
   ArrowLeft,
   ArrowRight,
   Loader2,
+  MonitorX,
   PanelRight,
   PanelRightClose,
   RefreshCw,
+  Star,
+  ZoomIn,
+  ZoomOut,
 } from "lucide-react";
-import React, { useState } from "react";
+import React, { useCallback, useEffect, useState } from "react";
+
+// Room below the suggestions for their shadow
+const DROPDOWN_SHADOW_SPACE = 8;
 
 export const AddressBar: React.FC = () => {
   const {
     activeTab,
-    navigateToUrl,
     goBack,
     goForward,
     reload,
     isLoading,
     isPanelVisible,
     togglePanel,
+    showPopupMenu,
+    toggleBookmark,
+    showSiteInfoMenu,
+    showZoomMenu,
+    onRunCommand,
   } = useBrowser();
-  const [editedUrl, setEditedUrl] = useState("");
   const [isFocused, setIsFocused] = useState(false);
 
-  const handleSubmit = (e: React.FormEvent): void => {
-    e.preventDefault();
-    if (!editedUrl.trim()) return;
-
-    let finalUrl = editedUrl.trim();
-
-    // Add protocol if missing
-    if (!finalUrl.startsWith("http://") && !finalUrl.startsWith("https://")) {
-      // Check if it looks like a domain
-      if (finalUrl.includes(".") && !finalUrl.includes(" ")) {
-        finalUrl = `https://${finalUrl}`;
-      } else {
-        // Treat as search query
-        finalUrl = `https://www.google.com/search?q=${encodeURIComponent(finalUrl)}`;
-      }
-    }
-
-    void navigateToUrl(finalUrl);
-    setIsFocused(false);
-    (document.activeElement as HTMLElement)?.blur();
-  };
+  // Cmd/Ctrl+L and other bindings of "address-bar.focus" start editing
+  useEffect(() => {
+    return onRunCommand((commandId) => {
+      if (commandId === "address-bar.focus") setIsFocused(true);
+    });
+  }, [onRunCommand]);
 
   const handleFocus = (): void => {
-    // Copy current tab URL to editing state
-    setEditedUrl(activeTab?.url || "");
     setIsFocused(true);
   };
 
-  const handleBlur = (): void => {
-    setIsFocused(false);
-    // No need to reset - we switch back to showing activeTab.url automatically
-  };
-
-  const handleKeyDown = (e: React.KeyboardEvent): void => {
-    if (e.key === "Escape") {
-      setIsFocused(false);
-      (e.target as HTMLInputElement).blur();
-    }
-  };
+  // Extend the topbar over the page while suggestions are open
+  const handleDropdownBottomChange = useCallback((bottom: number) => {
+    void window.topBarAPI.setOverlayHeight(
+      bottom > 0 ? bottom + DROPDOWN_SHADOW_SPACE : 0,
+    );
+  }, []);
 
   const canGoBack = activeTab !== null;
   const canGoForward = activeTab !== null;
@@ -121,25 +110,14 @@ export const AddressBar: React.FC = () => {
       {/* Address Bar */}
       {isFocused ? (
         // Expanded State
-        <form onSubmit={handleSubmit} className="flex-1 min-w-0 max-w-full">
-          <div className="bg-background rounded-lg shadow-md p-1 dark:bg-secondary">
-            <input
-              type="text"
-              value={editedUrl}
-              onChange={(e) => setEditedUrl(e.target.value)}
-              onFocus={handleFocus}
-              onBlur={handleBlur}
-              onKeyDown={handleKeyDown}
-              className="w-full px-1 py-0.5 text-xs outline-hidden bg-transparent text-foreground truncate"
-              placeholder={
-                activeTab ? "Enter URL or search term" : "No active tab"
-              }
-              disabled={!activeTab}
-              spellCheck={false}
-              autoFocus
-            />
-          </div>
-        </form>
+        <Omnibox
+          initialValue={activeTab?.url || ""}
+          placeholder={activeTab ? "Enter URL or search term" : "No active tab"}
+          disabled={!activeTab}
+          onClose={() => setIsFocused(false)}
+          onDropdownBottomChange={handleDropdownBottomChange}
+          className="flex-1 min-w-0 max-w-full"
+        />
       ) : (
         // Collapsed State
         <div
@@ -152,12 +130,19 @@ export const AddressBar: React.FC = () => {
           )}
         >
           <div className="flex h-full items-center">
-            {/* Favicon */}
-            <div className="size-6 mr-2">
+            {/* Favicon; opens the site's permission settings */}
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                if (activeTab) void showSiteInfoMenu(activeTab.id);
+              }}
+              className="size-6 mr-2 flex items-center justify-center rounded-sm cursor-default hover:bg-background dark:hover:bg-secondary"
+              title="Site settings"
+            >
               <Favicon
                 src={activeTab?.url ? getFavicon(activeTab.url) : null}
               />
-            </div>
+            </button>
 
             {/* URL Display */}
             <div className="text-[0.8rem] leading-normal truncate flex-1">
@@ -183,6 +168,42 @@ export const AddressBar: React.FC = () => {
 
       {/* Actions Menu */}
       <div className="flex items-center gap-1 app-region-no-drag">
+        {/* Zoom indicator, shown when the page isn't at 100% */}
+        {activeTab && Math.round(activeTab.zoomFactor * 100) !== 100 && (
+          <button
+            onClick={() => void showZoomMenu(activeTab.id)}
+            className="flex items-center gap-1 h-8 px-2 rounded-md text-xs tabular-nums text-muted-foreground hover:bg-muted dark:hover:bg-muted/50"
+            title="Zoom"
+          >
+            {activeTab.zoomFactor > 1 ? (
+              <ZoomIn className="size-4" />
+            ) : (
+              <ZoomOut className="size-4" />
+            )}
+            {Math.round(activeTab.zoomFactor * 100)}%
+          </button>
+        )}
+        {/* Bookmark star */}
+        <ToolBarButton
+          onClick={() => activeTab && void toggleBookmark(activeTab.id)}
+          active={activeTab !== null}
+        >
+          <Star
+            className={cn(
+              "size-4.5",
+              activeTab?.isBookmarked && "fill-current text-primary",
+            )}
+          />
+        </ToolBarButton>
+        {/* Popup blocker indicator */}
+        {activeTab &&
+          (activeTab.blockedPopupCount > 0 || activeTab.popupsAllowed) && (
+            <ToolBarButton
+              Icon={MonitorX}
+              onClick={() => void showPopupMenu(activeTab.id)}
+              toggled={activeTab.blockedPopupCount > 0}
+            />
+          )}
         <DarkModeToggle />
         {/* Panel toggle button - shows different icon based on panel state */}
         <ToolBarButton
@@ -1,8 +1,9 @@
 import { cn, getFavicon } from "@renderer/lib/utils";
 
-import type { GroupInfo } from "@preload/global.d";
+import type { GroupInfo, TabInfo } from "@preload/global.d";
 import { Favicon } from "@renderer/components/Favicon";
 import { GroupModal } from "@renderer/components/GroupModal";
+import { TabAudioButton } from "@renderer/components/TabAudioButton";
 import {
   ContextMenu,
   ContextMenuContent,
@@ -18,16 +19,23 @@ import {
 } from "@renderer/components/ui/dropdown-menu";
 import { useBrowser } from "@renderer/contexts/BrowserContext";
 import {
+  AppWindow,
   ChevronDown,
   ChevronRight,
+  Container,
   FolderPlus,
   Loader2,
   Palette,
   Pencil,
+  Pin,
+  PinOff,
   Plus,
   Sparkles,
   Trash2,
   Ungroup,
+  VenetianMask,
+  Volume2,
+  VolumeX,
   X,
 } from "lucide-react";
 import React from "react";
@@ -49,8 +57,14 @@ interface TabItemProps {
   favicon?: string | null;
   isActive: boolean;
   isPinned?: boolean;
+  isPrivate?: boolean;
+  // Hibernated; the page reloads when the tab is opened
+  isSleeping?: boolean;
+  isAudible?: boolean;
+  isMuted?: boolean;
   tab: { id: string; groupId: string | null };
   onClose: () => void;
+  onToggleMute: () => void;
   onActivate: () => void;
   onDragStart: (e: React.DragEvent, id: string) => void;
   onDragOver: (
@@ -73,8 +87,13 @@ const TabItem: React.FC<TabItemProps> = ({
   favicon,
   isActive,
   isPinned = false,
+  isPrivate = false,
+  isSleeping = false,
+  isAudible = false,
+  isMuted = false,
   tab,
   onClose,
+  onToggleMute,
   onActivate,
   onDragStart,
   onDragOver,
@@ -90,6 +109,7 @@ const TabItem: React.FC<TabItemProps> = ({
     isActive
       ? "bg-background shadow-tab dark:shadow-none"
       : "bg-transparent hover:bg-muted/50 dark:hover:bg-muted/30",
+    isActive && isPrivate && "ring-1 ring-violet-500/50",
     isPinned ? "w-8 px-0! justify-center" : "",
   );
 
@@ -113,20 +133,50 @@ const TabItem: React.FC<TabItemProps> = ({
             }}
             className={baseClassName}
             onClick={() => !isActive && onActivate()}
+            title={
+              isSleeping
+                ? "Sleeping to save memory"
+                : isPinned
+                  ? title || "New Tab"
+                  : undefined
+            }
             style={{ opacity: isDragging ? 0.5 : 1 }}
           >
             {/* Favicon */}
-            <div className={cn("size-4", !isPinned && "mr-2")}>
+            <div
+              className={cn(
+                "size-4",
+                !isPinned && "mr-2",
+                isSleeping && "opacity-50 grayscale",
+              )}
+            >
               <Favicon src={favicon} />
             </div>
 
             {/* Title (hide for pinned tabs) */}
             {!isPinned && (
-              <span className="text-xs truncate max-w-[200px] flex-1">
+              <span
+                className={cn(
+                  "text-xs truncate max-w-[200px] flex-1",
+                  isSleeping && "text-muted-foreground",
+                )}
+              >
                 {title || "New Tab"}
               </span>
             )}
 
+            {/* Audio indicator; a badge on pinned tabs */}
+            <TabAudioButton
+              isAudible={isAudible}
+              isMuted={isMuted}
+              onToggleMute={onToggleMute}
+              className={cn(
+                isPinned
+                  ? "absolute -top-0.5 -right-0.5 p-0.5 rounded-full bg-background"
+                  : "mr-0.5",
+              )}
+            />
+
             {/* Close button (shows on hover) */}
             {!isPinned && (
               <div
@@ -229,6 +279,11 @@ const GroupHeader: React.FC<GroupHeaderProps> = ({
               className="size-2 rounded-full shrink-0"
               style={{ backgroundColor: group.color.hex }}
             />
+            {group.isContainer && (
+              <span title="Isolated container">
+                <Container className="size-3 shrink-0 text-muted-foreground" />
+              </span>
+            )}
             <span className="text-xs truncate max-w-[120px]">
               {group.title}
             </span>
@@ -253,15 +308,22 @@ export const TabBar: React.FC = () => {
     createTab,
     closeTab,
     switchTab,
+    setTabPinned,
+    setTabMuted,
     createGroup,
     updateGroup,
     deleteGroup,
+    closeGroup,
     addTabToGroup,
     removeTabFromGroup,
     reorderGroups,
     updateTabPositions,
     organizeTabs,
     isOrganizing,
+    windows,
+    moveTabToWindow,
+    isPrivateWindow,
+    onRunCommand,
   } = useBrowser();
   const [draggedItem, setDraggedItem] = React.useState<DragItem | null>(null);
   const [dropZone, setDropZone] = React.useState<DropZone | null>(null);
@@ -272,7 +334,7 @@ export const TabBar: React.FC = () => {
   }>({ isOpen: false });
 
   const handleCreateTab = async (): Promise<void> => {
-    await createTab("https://www.google.com");
+    await createTab();
   };
 
   // Handle tab drag start
@@ -410,6 +472,15 @@ export const TabBar: React.FC = () => {
     setGroupModal({ isOpen: true, tabToAdd: tabId });
   };
 
+  // The "group.new" shortcut puts the active tab in a new group
+  React.useEffect(() => {
+    return onRunCommand((commandId) => {
+      if (commandId !== "group.new") return;
+      const activeTab = tabs.find((tab) => tab.isActive);
+      if (activeTab) setGroupModal({ isOpen: true, tabToAdd: activeTab.id });
+    });
+  }, [onRunCommand, tabs]);
+
   const handleEditGroup = (groupId: string): void => {
     const group = groups.find((g) => g.id === groupId);
     if (group) {
@@ -420,13 +491,18 @@ export const TabBar: React.FC = () => {
   const handleSaveGroup = async (
     title: string,
     colorId: string,
+    isContainer: boolean,
   ): Promise<void> => {
     if (groupModal.editingGroup) {
       // Edit existing group
-      await updateGroup(groupModal.editingGroup.id, { title, colorId });
+      await updateGroup(groupModal.editingGroup.id, {
+        title,
+        colorId,
+        isContainer,
+      });
     } else {
       // Create new group
-      const newGroup = await createGroup(title, colorId);
+      const newGroup = await createGroup(title, colorId, isContainer);
       // If creating from tab context menu, add the tab to the group
       if (newGroup && groupModal.tabToAdd) {
         await addTabToGroup(groupModal.tabToAdd, newGroup.id);
@@ -435,11 +511,12 @@ export const TabBar: React.FC = () => {
     setGroupModal({ isOpen: false });
   };
 
-  // Organize tabs by groups
-  const ungroupedTabs = tabs.filter((tab) => !tab.groupId);
+  // Organize tabs by groups; pinned tabs come first, outside their groups
+  const pinnedTabs = tabs.filter((tab) => tab.isPinned);
+  const ungroupedTabs = tabs.filter((tab) => !tab.isPinned && !tab.groupId);
   const groupedTabs = groups.map((group) => ({
     group,
-    tabs: tabs.filter((tab) => tab.groupId === group.id),
+    tabs: tabs.filter((tab) => !tab.isPinned && tab.groupId === group.id),
   }));
 
   // Render tab context menu
@@ -447,8 +524,34 @@ export const TabBar: React.FC = () => {
     id: string;
     groupId: string | null;
   }): React.ReactNode => {
+    const info = tabs.find((t) => t.id === tab.id);
     return (
       <ContextMenuContent className="w-48">
+        {info && (
+          <>
+            <ContextMenuItem
+              onClick={() => void setTabPinned(tab.id, !info.isPinned)}
+            >
+              {info.isPinned ? (
+                <PinOff className="size-4 mr-2" />
+              ) : (
+                <Pin className="size-4 mr-2" />
+              )}
+              {info.isPinned ? "Unpin Tab" : "Pin Tab"}
+            </ContextMenuItem>
+            <ContextMenuItem
+              onClick={() => void setTabMuted(tab.id, !info.isMuted)}
+            >
+              {info.isMuted ? (
+                <Volume2 className="size-4 mr-2" />
+              ) : (
+                <VolumeX className="size-4 mr-2" />
+              )}
+              {info.isMuted ? "Unmute Tab" : "Mute Tab"}
+            </ContextMenuItem>
+            <ContextMenuSeparator />
+          </>
+        )}
         {tab.groupId ? (
           <ContextMenuItem onClick={() => void removeTabFromGroup(tab.id)}>
             <Ungroup className="size-4 mr-2" />
@@ -484,10 +587,58 @@ export const TabBar: React.FC = () => {
             </ContextMenuItem>
           </>
         )}
+        <ContextMenuSeparator />
+        <ContextMenuItem disabled>
+          <AppWindow className="size-4 mr-2" />
+          Move to Window
+        </ContextMenuItem>
+        <ContextMenuItem
+          disabled={tabs.length <= 1}
+          onClick={() => void moveTabToWindow(tab.id)}
+          className="pl-8"
+        >
+          New Window
+        </ContextMenuItem>
+        {windows.map((window) => (
+          <ContextMenuItem
+            key={window.id}
+            onClick={() => void moveTabToWindow(tab.id, window.id)}
+            className="pl-8"
+          >
+            <span className="truncate">{window.title}</span>
+          </ContextMenuItem>
+        ))}
       </ContextMenuContent>
     );
   };
 
+  const renderTabItem = (tab: TabInfo): React.ReactNode => (
+    <TabItem
+      key={tab.id}
+      id={tab.id}
+      title={tab.title}
+      favicon={tab.favicon ?? getFavicon(tab.url)}
+      isActive={tab.isActive}
+      isPinned={tab.isPinned}
+      isPrivate={isPrivateWindow}
+      isSleeping={tab.isSleeping}
+      isAudible={tab.isAudible}
+      isMuted={tab.isMuted}
+      tab={tab}
+      onClose={() => void closeTab(tab.id)}
+      onToggleMute={() => void setTabMuted(tab.id, !tab.isMuted)}
+      onActivate={() => void switchTab(tab.id)}
+      onDragStart={handleTabDragStart}
+      onDragOver={handleTabDragOver}
+      isDragging={draggedItem?.type === "tab" && draggedItem.id === tab.id}
+      showDropBefore={
+        dropZone?.type === "before" && dropZone.targetId === tab.id
+      }
+      showDropAfter={dropZone?.type === "after" && dropZone.targetId === tab.id}
+      renderContextMenu={renderTabContextMenu}
+    />
+  );
+
   // Render group context menu
   const renderGroupContextMenu = (group: GroupInfo): React.ReactNode => {
     return (
@@ -501,6 +652,10 @@ export const TabBar: React.FC = () => {
           Change Color
         </ContextMenuItem>
         <ContextMenuSeparator />
+        <ContextMenuItem onClick={() => void closeGroup(group.id)}>
+          <X className="size-4 mr-2" />
+          Close Group
+        </ContextMenuItem>
         <ContextMenuItem
           onClick={() => void deleteGroup(group.id)}
           variant="destructive"
@@ -521,8 +676,26 @@ export const TabBar: React.FC = () => {
       {/* macOS traffic lights spacing */}
       <div className="pl-20" />
 
+      {/* Private window badge */}
+      {isPrivateWindow && (
+        <div
+          className="flex items-center gap-1 h-6 px-2 mr-1 shrink-0 rounded-md bg-violet-500/15 text-xs font-medium text-violet-700 dark:text-violet-300"
+          title="Private window: history, chats and open tabs aren't saved"
+        >
+          <VenetianMask className="size-3.5" />
+          Private
+        </div>
+      )}
+
       {/* Tabs */}
       <div className="flex-1 overflow-x-auto flex items-center">
+        {/* Pinned tabs */}
+        {pinnedTabs.length > 0 && (
+          <div className="flex items-center shrink-0 pr-1 mr-1 border-r border-border">
+            {pinnedTabs.map(renderTabItem)}
+          </div>
+        )}
+
         {/* Organize Tabs Button */}
         {ungroupedTabs.length >= 3 && (
           <div className="px-1">
@@ -560,30 +733,7 @@ export const TabBar: React.FC = () => {
         )}
 
         {/* Ungrouped tabs */}
-        {ungroupedTabs.map((tab) => (
-          <TabItem
-            key={tab.id}
-            id={tab.id}
-            title={tab.title}
-            favicon={getFavicon(tab.url)}
-            isActive={tab.isActive}
-            tab={tab}
-            onClose={() => void closeTab(tab.id)}
-            onActivate={() => void switchTab(tab.id)}
-            onDragStart={handleTabDragStart}
-            onDragOver={handleTabDragOver}
-            isDragging={
-              draggedItem?.type === "tab" && draggedItem.id === tab.id
-            }
-            showDropBefore={
-              dropZone?.type === "before" && dropZone.targetId === tab.id
-            }
-            showDropAfter={
-              dropZone?.type === "after" && dropZone.targetId === tab.id
-            }
-            renderContextMenu={renderTabContextMenu}
-          />
-        ))}
+        {ungroupedTabs.map(renderTabItem)}
 
         {/* Grouped tabs */}
         {groupedTabs.map(
@@ -612,33 +762,7 @@ export const TabBar: React.FC = () => {
                   }
                   renderContextMenu={renderGroupContextMenu}
                 />
-                {!group.isCollapsed &&
-                  groupTabs.map((tab) => (
-                    <TabItem
-                      key={tab.id}
-                      id={tab.id}
-                      title={tab.title}
-                      favicon={getFavicon(tab.url)}
-                      isActive={tab.isActive}
-                      tab={tab}
-                      onClose={() => void closeTab(tab.id)}
-                      onActivate={() => void switchTab(tab.id)}
-                      onDragStart={handleTabDragStart}
-                      onDragOver={handleTabDragOver}
-                      isDragging={
-                        draggedItem?.type === "tab" && draggedItem.id === tab.id
-                      }
-                      showDropBefore={
-                        dropZone?.type === "before" &&
-                        dropZone.targetId === tab.id
-                      }
-                      showDropAfter={
-                        dropZone?.type === "after" &&
-                        dropZone.targetId === tab.id
-                      }
-                      renderContextMenu={renderTabContextMenu}
-                    />
-                  ))}
+                {!group.isCollapsed && groupTabs.map(renderTabItem)}
               </div>
             ),
         )}
@@ -655,6 +779,7 @@ export const TabBar: React.FC = () => {
         onClose={() => setGroupModal({ isOpen: false })}
         onSave={handleSaveGroup}
         existingGroup={groupModal.editingGroup}
+        canBeContainer={!isPrivateWindow}
         title={groupModal.editingGroup ? "Edit Group" : "Create New Group"}
       />
     </div>